@@ -1,145 +1,101 @@
-import { useState, useCallback, useEffect } from 'react';
-import { ViewType, Agent, Task, Message, KPI, ActivityItem, Project, Department, Goal, FeatureRequest } from './types';
-import { initialAgents, initialTasks, initialMessages, initialKPIs, initialActivity, initialProjects, initialDepartments } from './data';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ViewType, Agent, Task, Message, KPI, ActivityItem, ActivityLink, Project, Department, Goal, GoalInitiative, KeyResult, FeatureRequest, ChatThread, ThreadContext, Directive, ToolDefinition } from './types';
+import { initialAgents, initialTasks, initialMessages, initialKPIs, initialActivity, initialProjects, initialDepartments, initialThreads, initialDirectives, initialTools, ceaFocusReply } from './data';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
 import { AgentHub } from './components/AgentHub';
 import { AgentDetail } from './components/AgentDetail';
 import { TaskBoard } from './components/TaskBoard';
+import { CalendarView } from './components/CalendarView';
 import { ProjectsView } from './components/ProjectsView';
 import { ChatInterface } from './components/ChatInterface';
 import { Strategy } from './components/Strategy';
 import { ProjectDetail } from './components/ProjectDetail';
 import { IdeaCaptureModal, IdeaFAB } from './components/IdeaCaptureModal';
 import { TaskCaptureModal, TaskFAB } from './components/TaskCaptureModal';
+import { CommandPalette } from './components/CommandPalette';
+import { SearchView } from './components/SearchView';
+import { SearchDoc, buildSearchIndex } from './search';
+import { useBriefing } from './hooks/use-briefing';
+import { useAgentActivity } from './hooks/use-agent-activity';
+import { applyAgentStats, computeAllAgentStats } from './agent-analytics';
+import { appendVersion } from './agent-versions';
 import { IdeasView } from './components/IdeasView';
+import { DirectivesView } from './components/DirectivesView';
 import { LoginScreen } from './components/LoginScreen';
 import * as api from './api';
 import { supabase, signOut } from './auth';
+import { z } from 'zod';
+import { formatKPIValue, parseKPIValue, recordKPIValue } from './kpis';
+import { initiativeRow, rollupChanged, rollupGoal } from './goals';
+import { formatQuarter, keyResultRow, quarterOf, rolloverGoal } from './okrs';
+import { mapAgent, mapTask, keepReview, mapProject, mapGoal, mapActivity, mapMessage, mapKPI, mapFeatureRequest, mapDepartment, mapThread, mapDirective, mapTool } from './mappers';
+import { createSupabaseChannel, FakeChannel, isTempId, mergeRecord, newTempId, REALTIME_TABLES, type RealtimeChange } from './realtime';
+import { dependentsOf, findDependencyCycle, openBlockers } from './dependencies';
+import { formatDue, toDateInput } from './due-dates';
+import { nextDueOccurrence, parseRRule, seriesAnchor } from './recurrence';
+import { formatContextParam, parseContextParam, threadTitleFrom } from './threads';
+import type { ChatAction } from './chat-actions';
+import { useRealtimeSync } from './hooks/use-realtime-sync';
+import { useHashRoute } from './hooks/use-hash-route';
+import { useOutbox } from './hooks/use-outbox';
+import { useDueReminders } from './hooks/use-due-reminders';
+import { localBackend, loadBackendPreference, saveBackendPreference, type BackendKind } from './local-backend';
+import { toast } from './hooks/use-toast';
+import { Toaster } from './components/ui/toaster';
+import { entryBackend, outbox, type OutboxEntry } from './outbox';
+import {
+  ActivityRowSchema, GoalRowSchema, KPIRowSchema, ProjectRowSchema, TaskRowSchema, onDroppedRows, parseOrDrift, SchemaDriftError,
+  type AgentRow, type DepartmentRow, type ProjectRow, type TaskRow,
+} from './schemas';
 import type { Session } from '@supabase/supabase-js';
 
-// Map Supabase agent_personas to our Agent interface
-function mapAgent(a: any): Agent {
-  const emojiMap: Record<string, string> = {
-    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
-    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️', '@Meeting_Scribe': '📝',
-    '@Clip_Extractor': '🎬', '@Health_Monitor': '💚', '@Workflow_Builder': '🔧',
-    '@Project_Lead': '🎯',
-  };
-  return {
-    id: a.id,
-    name: a.functional_name,
-    role: a.handle,
-    emoji: emojiMap[a.handle] || '🤖',
-    status: a.is_active ? 'active' : 'idle',
-    description: a.system_prompt?.substring(0, 200) || '',
-    tasksCompleted: 0,
-    currentTask: undefined,
-    uptime: 'live',
-    metrics: a.tool_access ? { tools: (a.tool_access as any[]).length } : {},
-  };
+// Only the derived task counters of a mapped project
+function countsOnly(p: Project): Pick<Project, 'taskCount' | 'completedTaskCount'> {
+  return { taskCount: p.taskCount, completedTaskCount: p.completedTaskCount };
 }
 
-// Map Supabase tasks
-function mapTask(t: any, agents: any[], projects: any[]): Task {
-  const priorityMap: Record<number, Task['priority']> = { 1: 'critical', 2: 'high', 3: 'medium', 4: 'low', 5: 'low' };
-  const statusMap: Record<string, Task['status']> = { todo: 'pending', in_progress: 'in_progress', done: 'completed', failed: 'review' };
-  const assignedAgent = agents.find((a: any) => a.id === t.assigned_to);
-  const project = projects.find((p: any) => p.id === t.project_id);
-  const shortCode = project?.title?.match(/^PR\.(\w+)/)?.[1] || '';
-  return {
-    id: t.id,
-    title: t.description?.substring(0, 80) || 'Untitled',
-    description: t.description || '',
-    assignedTo: assignedAgent?.handle === '@CEA' ? 'cea' : (assignedAgent ? assignedAgent.id : 'tiger'),
-    assignedBy: 'cea',
-    priority: priorityMap[t.priority] || 'medium',
-    status: statusMap[t.status] || 'pending',
-    deadline: t.completed_at || undefined,
-    createdAt: t.created_at,
-    tags: [],
-    projectId: t.project_id || undefined,
-    projectName: project ? project.title.replace(/^PR\.\w+\s*\|\s*/, '') : undefined,
-    projectShortCode: shortCode || undefined,
-    parentTaskId: t.parent_task_id || undefined,
-  };
+// Undo an optimistic patch: restore the patched keys from the previous record
+function revertFields<T extends object>(current: T, previous: T, updates: Partial<T>): T {
+  const restored = { ...current };
+  for (const key of Object.keys(updates) as (keyof T)[]) restored[key] = previous[key];
+  return restored;
 }
 
-// Map Supabase projects
-function mapProject(p: any, departments: any[], tasks: any[]): Project {
-  const dept = departments.find((d: any) => d.id === p.dept_id);
-  const projectTasks = tasks.filter((t: any) => t.project_id === p.id);
-  const completedTasks = projectTasks.filter((t: any) => t.status === 'done');
-  const shortCode = p.title?.match(/^PR\.(\w+)/)?.[1] || p.title?.substring(0, 4) || '';
-  return {
-    id: p.id,
-    title: p.title,
-    shortCode,
-    description: p.description || undefined,
-    status: p.status || 'active',
-    department: dept?.name || 'Unknown',
-    departmentId: p.dept_id,
-    leadAgentId: p.lead_agent_id,
-    targetDate: p.target_date || undefined,
-    taskCount: projectTasks.length,
-    completedTaskCount: completedTasks.length,
-    notes: p.metadata?.notes || undefined,
-    createdAt: p.created_at,
-    parentProjectId: p.parent_project_id || undefined,
-  };
+// Point blockers and series links at a created task's real id
+function relinkTask(task: Task, tempId: string, realId: string): Task {
+  const blockedBy = task.blockedBy?.includes(tempId) ? task.blockedBy.map(id => id === tempId ? realId : id) : task.blockedBy;
+  const seriesId = task.seriesId === tempId ? realId : task.seriesId;
+  return blockedBy === task.blockedBy && seriesId === task.seriesId ? task : { ...task, blockedBy, seriesId };
 }
 
-// Map Supabase goals
-function mapGoal(g: any, agents: any[]): Goal {
-  const emojiMap: Record<string, string> = {
-    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
-    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️',
-  };
-  const ownerAgent = agents.find((a: any) => a.id === g.owner_agent_id);
-  return {
-    id: g.id,
-    title: g.title,
-    description: g.description || undefined,
-    progress: g.progress || 0,
-    status: g.status || 'on-track',
-    ownerAgentId: g.owner_agent_id,
-    ownerName: ownerAgent?.functional_name || g.owner_name || 'Unassigned',
-    ownerEmoji: ownerAgent ? (emojiMap[ownerAgent.handle] || '🤖') : '🎯',
-    targetDate: g.target_date || undefined,
-    initiatives: g.initiatives || [],
-  };
+// Shown after the outbox has rolled back a mutation the server refused
+function notifyRejected(entry: OutboxEntry) {
+  toast({
+    variant: 'destructive',
+    title: 'Change rolled back',
+    description: `${entry.label} was rejected by the server${entry.lastError ? ` — ${entry.lastError}` : ''}.`,
+  });
 }
 
-// Map Supabase activity
-function mapActivity(a: any): ActivityItem {
-  const emojiMap: Record<string, string> = {
-    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
-    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️', '@Tiger': '🐯',
-  };
-  const timeDiff = Date.now() - new Date(a.created_at).getTime();
-  const mins = Math.floor(timeDiff / 60000);
-  const timeStr = mins < 1 ? 'Just now' : mins < 60 ? `${mins}m ago` : `${Math.floor(mins / 60)}h ago`;
-  return {
-    id: a.id,
-    agent: a.agent_handle || 'System',
-    agentEmoji: emojiMap[a.agent_handle] || '🤖',
-    action: a.action,
-    detail: a.detail || '',
-    timestamp: timeStr,
-    type: a.action_type as any,
-  };
+// The server sent (or we were about to send) something the schemas don't allow
+function reportSchemaDrift(error: SchemaDriftError) {
+  console.error(error.message, error.issues);
+  toast({
+    variant: 'destructive',
+    title: `Unexpected data from ${error.source}`,
+    description: error.issues.slice(0, 3).map(i => `${i.path || '(root)'}: ${i.message}`).join('\n'),
+  });
 }
 
-// Map Supabase messages
-function mapMessage(m: any): Message {
-  return {
-    id: m.id,
-    from: m.from_type === 'human' ? 'tiger' : 'cea',
-    fromName: m.from_name,
-    content: m.content,
-    timestamp: new Date(m.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
-    type: m.message_type as any,
-  };
+// A list came back with rows the schemas don't allow; the rest still loaded
+function reportDroppedRows(error: SchemaDriftError, dropped: number) {
+  console.error(error.message, error.issues);
+  toast({
+    variant: 'destructive',
+    title: `Skipped ${dropped} unreadable ${dropped === 1 ? 'row' : 'rows'} from ${error.source}`,
+    description: error.issues.slice(0, 3).map(i => `${i.path || '(root)'}: ${i.message}`).join('\n'),
+  });
 }
 
 function App() {
@@ -175,7 +131,9 @@ function App() {
 }
 
 function AuthenticatedApp({ session }: { session: Session }) {
-  const [currentView, setCurrentView] = useState<ViewType>('dashboard');
+  const { route, navigate, updateQuery } = useHashRoute();
+  const currentView = route.view;
+  const setCurrentView = useCallback((view: ViewType) => navigate({ view, query: {} }), [navigate]);
   const [agents, setAgents] = useState<Agent[]>(initialAgents);
   const [tasks, setTasks] = useState<Task[]>(initialTasks);
   const [projects, setProjects] = useState<Project[]>(initialProjects);
@@ -183,19 +141,42 @@ function AuthenticatedApp({ session }: { session: Session }) {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [kpis, setKpis] = useState<KPI[]>(initialKPIs);
   const [activity, setActivity] = useState<ActivityItem[]>(initialActivity);
-  const [isLive, setIsLive] = useState(false);
+  const [isConnected, setIsConnected] = useState(false);
+  const [backend, setBackend] = useState<BackendKind>(loadBackendPreference);
+  // Set when the live API couldn't be reached and the app moved to the local
+  // backend on its own; a banner says so until Tiger picks one
+  const [liveFallback, setLiveFallback] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
+  const [confirmReset, setConfirmReset] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [threadId, setThreadId] = useState<string | undefined>();
-  const [rawAgents, setRawAgents] = useState<any[]>([]);
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
-  const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThread[]>(initialThreads);
+  // Threads whose history has been fetched this session
+  const [loadedThreadIds, setLoadedThreadIds] = useState<Set<string>>(new Set());
+  // Threads with a message the CEA hasn't answered yet
+  const [awaitingReplyIds, setAwaitingReplyIds] = useState<Set<string>>(new Set());
+  // Cancels the in-flight reply of each thread
+  const replyControllers = useRef(new Map<string, AbortController>());
+  const activeThreadId = route.view === 'chat' ? route.query.thread : undefined;
+  // Raw rows from the last dashboard load, kept in sync by realtime so that
+  // mappers resolving relations (task → agent/project) see current data.
+  const rawRef = useRef<{ agents: AgentRow[]; projects: ProjectRow[]; departments: DepartmentRow[]; tasks: TaskRow[] }>({ agents: [], projects: [], departments: [], tasks: [] });
+  const selectedProjectId = route.view === 'project-detail' ? route.id ?? null : null;
+  const selectedAgentId = route.view === 'agent-detail' ? route.id ?? null : null;
   const [featureRequests, setFeatureRequests] = useState<FeatureRequest[]>([]);
+  const [directives, setDirectives] = useState<Directive[]>(initialDirectives);
+  const selectedDirectiveId = route.view === 'directives' ? route.id ?? null : null;
+  const [tools, setTools] = useState<ToolDefinition[]>(initialTools);
   const [ideaModalOpen, setIdeaModalOpen] = useState(false);
   const [taskModalOpen, setTaskModalOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
-  // Cmd+I (idea) and Cmd+T (task) shortcuts
+  // Cmd+K (command palette), Cmd+I (idea) and Cmd+T (task) shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
+        e.preventDefault();
+        setPaletteOpen(prev => !prev);
+      }
       if ((e.metaKey || e.ctrlKey) && e.key === 'i') {
         e.preventDefault();
         setIdeaModalOpen(prev => !prev);
@@ -209,80 +190,234 @@ function AuthenticatedApp({ session }: { session: Session }) {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Load live data on mount
+  // Lists keep their valid rows when some don't parse; say what was skipped
+  useEffect(() => onDroppedRows(reportDroppedRows), []);
+
+  // Load everything from the selected backend. If the live API can't be
+  // reached, fall back to the local backend for this session and say so in a
+  // banner, unless live writes are still queued: those would be stranded, so
+  // keep the static mock data and let them retry. If the local backend fails
+  // too, mock data as well.
   useEffect(() => {
+    let cancelled = false;
     async function loadData() {
+      setLoading(true);
+      if (backend === 'local') api.setTransport(localBackend.handle, localBackend.stream);
+      else api.setTransport(null);
+      outbox.setBackend(backend);
+      let connected = false;
       try {
         const data = await api.fetchDashboard();
+        if (cancelled) return;
 
-        if (data.agents?.length) {
-          setRawAgents(data.agents);
+        rawRef.current = {
+          agents: data.agents || [],
+          projects: data.projects || [],
+          departments: data.departments || [],
+          tasks: data.tasks || [],
+        };
+
+        if (data.agents) {
           setAgents(data.agents.map(mapAgent));
         }
-        if (data.tasks?.length) {
-          setTasks(data.tasks.map((t: any) => mapTask(t, data.agents || [], data.projects || [])));
+        if (data.tasks) {
+          setTasks(data.tasks.map(t => mapTask(t, data.agents || [], data.projects || [])));
         }
-        if (data.projects?.length) {
-          setProjects(data.projects.map((p: any) => mapProject(p, data.departments || [], data.tasks || [])));
+        if (data.projects) {
+          setProjects(data.projects.map(p => mapProject(p, data.departments || [], data.tasks || [])));
         }
-        if (data.goals?.length) {
-          setGoals(data.goals.map((g: any) => mapGoal(g, data.agents || [])));
+        if (data.goals) {
+          setGoals(data.goals.map(g => mapGoal(g, data.agents || [])));
         }
-        if (data.kpis?.length) {
-          setKpis(data.kpis.map((k: any) => ({
-            id: k.id,
-            label: k.label,
-            value: k.value,
-            change: k.change_percent,
-            trend: k.trend,
-            category: k.category,
-          })));
+        if (data.kpis) {
+          setKpis(data.kpis.map(mapKPI));
         }
-        if (data.activity?.length) {
+        if (data.activity) {
           setActivity(data.activity.map(mapActivity));
         }
-        if (data.messages?.length) {
+        if (data.messages) {
           setMessages(data.messages.map(mapMessage));
         }
-        if (data.departments?.length) {
-          setDepartments(data.departments.map((d: any) => ({ id: d.id, name: d.name })));
+        if (data.departments) {
+          setDepartments(data.departments.map(mapDepartment));
         }
 
-        setIsLive(true);
+        setIsConnected(true);
+        connected = true;
       } catch (e) {
-        console.log('Using mock data (API unavailable):', e);
-        setIsLive(false);
+        if (cancelled) return;
+        if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+        const liveWritesQueued = outbox.getEntries().some(entry => entryBackend(entry) === 'live');
+        if (backend === 'live' && !liveWritesQueued) {
+          console.log('Live API unavailable, using the local backend:', e);
+          setLiveFallback(true);
+          setBackend('local');
+          return;
+        }
+        console.log(`Using mock data (${backend} backend unavailable):`, e);
+        setIsConnected(false);
       }
       setLoading(false);
+
+      // Mock data keeps its demo thread; a backend's threads replace it
+      if (connected) {
+        try {
+          const threadData = await api.fetchThreads();
+          if (!cancelled) setThreads(threadData.map(mapThread));
+        } catch (e) {
+          if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+          console.log('Chat threads unavailable:', e);
+          if (!cancelled) setThreads([]);
+        }
+        if (!cancelled) setLoadedThreadIds(new Set());
+
+        try {
+          const directiveData = await api.fetchDirectives();
+          if (!cancelled) setDirectives(directiveData.map(mapDirective));
+        } catch (e) {
+          if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+          console.log('Directives unavailable:', e);
+          if (!cancelled) setDirectives([]);
+        }
+
+        try {
+          const toolData = await api.fetchTools();
+          if (!cancelled) setTools(toolData.map(mapTool));
+        } catch (e) {
+          if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+          console.log('Tool catalog unavailable:', e);
+          // The built-in catalog, so the editor doesn't offer an empty list
+          if (!cancelled) setTools(initialTools);
+        }
+      }
+
+      try {
+        const featureData = await api.fetchFeatureRequests();
+        if (!cancelled) setFeatureRequests(featureData.map(mapFeatureRequest));
+      } catch (e) {
+        if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+        console.log('Feature requests unavailable:', e);
+      }
     }
     loadData();
+    return () => { cancelled = true; };
+  }, [backend, dataVersion]);
+
+  // Writes queued for one backend are only sent while it is active, so
+  // switching away waits until they have synced, failed ones included.
+  const handleSwitchBackend = useCallback((kind: BackendKind) => {
+    saveBackendPreference(kind);
+    setLiveFallback(false);
+    setBackend(kind);
   }, []);
 
-  // Load feature requests
-  useEffect(() => {
-    async function loadFeatureRequests() {
+  const handleResetLocalData = useCallback(async () => {
+    setConfirmReset(false);
+    try {
+      await localBackend.reset();
+      setDataVersion(v => v + 1);
+    } catch (e) { console.error('Local reset error:', e); }
+  }, []);
+
+  // Realtime: merge server-side changes (agents finishing tasks, etc.) into state
+  const handleRealtimeChange = useCallback((change: RealtimeChange) => {
+    const isDelete = change.eventType === 'DELETE';
+    const id = (isDelete ? change.old.id : change.new.id) as string | undefined;
+    if (!id) return;
+    const raw = rawRef.current;
+    // Deletes only carry the primary key; everything else is validated like an API row
+    const parse = <S extends z.ZodType>(schema: S): z.output<S> | null => {
+      if (isDelete) return null;
       try {
-        const data = await api.fetchFeatureRequests();
-        if (Array.isArray(data)) {
-          setFeatureRequests(data.map((fr: any) => ({
-            id: fr.id,
-            title: fr.title,
-            description: fr.description || undefined,
-            screenshotUrl: fr.screenshot_url || undefined,
-            sourceView: fr.source_view || undefined,
-            status: fr.status || 'new',
-            priority: fr.priority || 'medium',
-            createdAt: fr.created_at,
-            updatedAt: fr.updated_at,
-          })));
-        }
+        return parseOrDrift(schema, change.new, `realtime ${change.table}`);
       } catch (e) {
-        console.log('Feature requests unavailable:', e);
+        if (!(e instanceof SchemaDriftError)) throw e;
+        reportSchemaDrift(e);
+        return null;
+      }
+    };
+
+    switch (change.table) {
+      case REALTIME_TABLES.tasks: {
+        const row = parse(TaskRowSchema);
+        raw.tasks = mergeRecord(raw.tasks, change.eventType, id, row);
+        const mapped = row && mapTask(row, raw.agents, raw.projects);
+        setTasks(prev => mergeRecord(prev, change.eventType, id, mapped && keepReview(mapped, prev.find(t => t.id === id)), t =>
+          t.description === row?.description && (t.projectId || null) === (row?.project_id || null)
+        ));
+        // Task counts on projects depend on task rows
+        setProjects(prev => prev.map(p => {
+          const rawProject = raw.projects.find(rp => rp.id === p.id);
+          return rawProject ? { ...p, ...countsOnly(mapProject(rawProject, raw.departments, raw.tasks)) } : p;
+        }));
+        break;
+      }
+      case REALTIME_TABLES.projects: {
+        const row = parse(ProjectRowSchema);
+        raw.projects = mergeRecord(raw.projects, change.eventType, id, row);
+        const mapped = row && mapProject(row, raw.departments, raw.tasks);
+        setProjects(prev => mergeRecord(prev, change.eventType, id, mapped, p => p.title === row?.title));
+        break;
+      }
+      case REALTIME_TABLES.goals: {
+        const row = parse(GoalRowSchema);
+        const mapped = row && mapGoal(row, raw.agents);
+        setGoals(prev => mergeRecord(prev, change.eventType, id, mapped, g => g.title === row?.title));
+        break;
+      }
+      case REALTIME_TABLES.kpis: {
+        const row = parse(KPIRowSchema);
+        const mapped = row && mapKPI(row);
+        setKpis(prev => mergeRecord(prev, change.eventType, id, mapped, k => k.label === row?.label));
+        break;
+      }
+      case REALTIME_TABLES.activity: {
+        const row = parse(ActivityRowSchema);
+        const mapped = row && mapActivity(row);
+        setActivity(prev => mergeRecord(prev, change.eventType, id, mapped, a =>
+          a.action === row?.action && a.detail === (row?.detail || '')
+        ));
+        break;
       }
     }
-    loadFeatureRequests();
   }, []);
 
+  // Live mode listens to Supabase and the local backend echoes its own writes;
+  // static mock data gets an idle in-memory channel so the same merge path runs.
+  const realtimeChannel = useMemo(() => {
+    if (loading) return null;
+    if (!isConnected) return new FakeChannel();
+    return backend === 'local' ? localBackend.channel : createSupabaseChannel();
+  }, [loading, isConnected, backend]);
+  const realtimeStatus = useRealtimeSync(realtimeChannel, handleRealtimeChange);
+
+  // Writes go through the persistent outbox: retried while offline, rolled back if rejected
+  const { entries: syncEntries, pendingCount: pendingSyncCount, failedCount: failedSyncCount, submit, retry: retrySync } = useOutbox(notifyRejected);
+  const backendWritesQueued = syncEntries.some(e => entryBackend(e) === backend);
+
+  const openTask = useCallback((taskId: string) => navigate({ view: 'tasks', id: taskId, query: {} }), [navigate]);
+  const { permission: reminderPermission, requestPermission: enableReminders } = useDueReminders(tasks, openTask);
+
+  // Goals with autoProgress show progress/status rolled up from their linked
+  // tasks. The rolled-up values are also written back so agents see them;
+  // `syncedRollups` keeps one write per change while the echo is in flight.
+  const rolledUpGoals = useMemo(() => goals.map(g => g.autoProgress ? rollupGoal(g, tasks) : g), [goals, tasks]);
+  const syncedRollups = useRef(new Map<string, string>());
+  useEffect(() => {
+    if (!isConnected) return;
+    rolledUpGoals.forEach((rolled, i) => {
+      const stored = goals[i];
+      if (!rolled.autoProgress || isTempId(rolled.id) || !rollupChanged(stored, rolled)) return;
+      const signature = `${rolled.progress}|${rolled.status}|${rolled.initiatives.map(init => init.status).join(',')}`;
+      if (syncedRollups.current.get(rolled.id) === signature) return;
+      syncedRollups.current.set(rolled.id, signature);
+      submit({
+        name: 'updateGoal',
+        args: [rolled.id, { progress: rolled.progress, status: rolled.status, initiatives: rolled.initiatives.map(initiativeRow) }],
+      }, { label: `Roll up goal "${rolled.title}"` });
+    });
+  }, [isConnected, goals, rolledUpGoals, submit]);
+
   const pendingTaskCount = tasks.filter(
     t => t.assignedTo === 'tiger' && t.status !== 'completed'
   ).length;
@@ -290,7 +425,7 @@ function AuthenticatedApp({ session }: { session: Session }) {
   const generateCeaResponse = useCallback((userMessage: string): string => {
     const lower = userMessage.toLowerCase();
     if (lower.includes('focus') || lower.includes('today') || lower.includes('priority')) {
-      return "**Three things, in order of impact:**\n\n1. **Sign off on the pricing strategy** — it's been blocking revenue growth for 3 days.\n2. **Review the Editor in Chief's blog drafts** so we can maintain content momentum.\n3. **Prep for the next consultation.**\n\nI've cleared everything else from your plate.";
+      return ceaFocusReply;
     }
     if (lower.includes('progress') || lower.includes('week')) {
       return "## This Week's Scorecard\n\n- **Revenue**: Up 12.5% *(meditation content driving it)*\n- **Community**: +34 members\n- **Content**: Editor in Chief published 3 posts\n- **Ops**: VP of Engineering automated broadcast reminders\n\n> **One concern:** Newsletter open rate dipped 2.1%";
@@ -311,7 +446,54 @@ function AuthenticatedApp({ session }: { session: Session }) {
     return defaults[Math.floor(Math.random() * defaults.length)];
   }, []);
 
+  // Opening a thread loads its history; other threads stay cached in `messages`
+  useEffect(() => {
+    if (!isConnected || !activeThreadId || loadedThreadIds.has(activeThreadId)) return;
+    let cancelled = false;
+    api.fetchMessages(activeThreadId)
+      .then(rows => {
+        if (cancelled) return;
+        setMessages(prev => [...prev.filter(m => m.threadId !== activeThreadId), ...rows.map(mapMessage)]);
+      })
+      .catch(e => {
+        if (e instanceof api.SchemaDriftError) reportSchemaDrift(e);
+        console.error('Thread history error:', e);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedThreadIds(prev => new Set(prev).add(activeThreadId));
+      });
+    return () => { cancelled = true; };
+  }, [isConnected, activeThreadId, loadedThreadIds]);
+
   const handleSendMessage = useCallback(async (content: string) => {
+    let threadId = activeThreadId;
+    if (!threadId) {
+      // The first message of a new conversation creates its thread, keeping
+      // the project/agent it was started from
+      const context = parseContextParam(route.query.context);
+      const title = threadTitleFrom(content);
+      if (isConnected) {
+        try {
+          const result = await api.createThread(title, context);
+          threadId = result.data?.[0]?.id;
+        } catch (e) {
+          console.error('Create thread error:', e);
+        }
+        if (!threadId) {
+          toast({ title: 'Could not start conversation', description: 'Your message was not sent — try again.', variant: 'destructive' });
+          return;
+        }
+      } else {
+        threadId = `thread-${Date.now()}`;
+      }
+      const createdAt = new Date().toISOString();
+      const created: ChatThread = { id: threadId, title, context, archived: false, createdAt, updatedAt: createdAt };
+      setThreads(prev => [created, ...prev]);
+      setLoadedThreadIds(prev => new Set(prev).add(created.id));
+      navigate({ view: 'chat', query: { thread: created.id } }, { replace: true });
+    }
+    const thread = threadId;
+
     const userMsg: Message = {
       id: `m${Date.now()}`,
       from: 'tiger',
@@ -319,57 +501,115 @@ function AuthenticatedApp({ session }: { session: Session }) {
       content,
       timestamp: new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
       type: 'message',
+      threadId: thread,
     };
     setMessages(prev => [...prev, userMsg]);
+    setThreads(prev => prev.map(t => t.id === thread ? { ...t, updatedAt: new Date().toISOString() } : t));
+    setAwaitingReplyIds(prev => new Set(prev).add(thread));
+
+    // The reply streams into one message; Stop (or a failure) settles it with
+    // whatever text arrived, or drops it if nothing did
+    const controller = new AbortController();
+    replyControllers.current.set(thread, controller);
+    const replyId = `m${Date.now() + 1}`;
+    const replyType: Message['type'] = content.includes('?') ? 'report' : 'directive';
+    const makeReply = (text: string, streaming: boolean): Message => ({
+      id: replyId, from: 'cea', fromName: 'The CEA',
+      content: text,
+      timestamp: new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+      type: replyType,
+      threadId: thread,
+      streaming,
+    });
+    let streamed = '';
+    let settled = false;
+    const settle = (text: string | null) => {
+      if (settled) return;
+      settled = true;
+      if (replyControllers.current.get(thread) === controller) replyControllers.current.delete(thread);
+      setMessages(prev => {
+        const rest = prev.filter(m => m.id !== replyId);
+        return text ? [...rest, makeReply(text, false)] : rest;
+      });
+      setAwaitingReplyIds(prev => {
+        const next = new Set(prev);
+        next.delete(thread);
+        return next;
+      });
+    };
+    controller.signal.addEventListener('abort', () => settle(streamed || null), { once: true });
 
-    if (isLive) {
+    if (isConnected) {
       try {
-        const result = await api.sendMessageToCEA(content, threadId);
-        if (!threadId) setThreadId(result.thread_id);
-        const ceaMsg: Message = {
-          id: `m${Date.now() + 1}`,
-          from: 'cea',
-          fromName: 'The CEA',
-          content: result.response,
-          timestamp: new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
-          type: content.includes('?') ? 'report' : 'directive',
-        };
-        setMessages(prev => [...prev, ceaMsg]);
+        const result = await api.streamMessageFromCEA(content, thread, {
+          signal: controller.signal,
+          onDelta: (text) => {
+            streamed += text;
+            const partial = makeReply(streamed, true);
+            setMessages(prev => prev.some(m => m.id === replyId)
+              ? prev.map(m => m.id === replyId ? partial : m)
+              : [...prev, partial]);
+          },
+        });
+        settle(result.response || streamed);
       } catch (e) {
-        console.error('CEA brain error, falling back:', e);
-        setTimeout(() => {
-          const response = generateCeaResponse(content);
-          setMessages(prev => [...prev, {
-            id: `m${Date.now() + 1}`, from: 'cea', fromName: 'The CEA',
-            content: response,
-            timestamp: new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
-            type: 'directive',
-          }]);
-        }, 1500);
+        if (controller.signal.aborted) return;
+        if (streamed) {
+          console.error('CEA brain stream interrupted:', e);
+          toast({ title: 'Reply interrupted', description: 'The CEA stopped mid-answer — what arrived is kept.', variant: 'destructive' });
+          settle(streamed);
+          return;
+        }
+        // No stream at all: ask for the whole reply instead
+        console.error('CEA brain stream unavailable, falling back:', e);
+        try {
+          const result = await api.sendMessageToCEA(content, thread);
+          settle(result.response);
+        } catch (e) {
+          console.error('CEA brain error, falling back:', e);
+          setTimeout(() => settle(generateCeaResponse(content)), 1500);
+        }
       }
     } else {
-      setTimeout(() => {
-        const response = generateCeaResponse(content);
-        setMessages(prev => [...prev, {
-          id: `m${Date.now() + 1}`, from: 'cea', fromName: 'The CEA',
-          content: response,
-          timestamp: new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
-          type: content.includes('?') ? 'report' : 'directive',
-        }]);
-      }, 1800);
-    }
-  }, [isLive, threadId, generateCeaResponse]);
-
-  const handleSpawnAgent = useCallback(async (name: string, emoji: string, role: string, description: string) => {
-    if (isLive) {
+      setTimeout(() => settle(generateCeaResponse(content)), 1800);
+    }
+  }, [isConnected, activeThreadId, route.query.context, navigate, generateCeaResponse]);
+
+  const handleStopReply = useCallback((threadId: string) => {
+    replyControllers.current.get(threadId)?.abort();
+  }, []);
+
+  // Rename or (un)archive a chat thread
+  const handleUpdateThread = useCallback((threadId: string, updates: { title?: string; archived?: boolean }) => {
+    const thread = threads.find(t => t.id === threadId);
+    setThreads(prev => prev.map(t => t.id === threadId
+      ? { ...t, ...updates, updatedAt: updates.title !== undefined ? new Date().toISOString() : t.updatedAt }
+      : t));
+
+    if (isConnected) {
+      submit({ name: 'updateThread', args: [threadId, updates] }, {
+        label: updates.archived !== undefined ? `${updates.archived ? 'Archive' : 'Unarchive'} conversation` : 'Rename conversation',
+        rollback: () => thread && setThreads(prev => prev.map(t => t.id === threadId ? thread : t)),
+      });
+    }
+  }, [isConnected, threads, submit]);
+
+  // New conversation about a project or agent, opened in the chat view
+  const startThread = useCallback((context?: ThreadContext) => {
+    navigate({ view: 'chat', query: context ? { context: formatContextParam(context) } : {} });
+  }, [navigate]);
+
+  const handleSpawnAgent = useCallback(async (name: string, emoji: string, role: string, description: string, source?: ActivityLink) => {
+    if (isConnected) {
       try {
         const result = await api.spawnAgent(`@${name.replace(/\s/g, '_')}`, role, description);
-        if (result.data) {
-          setAgents(prev => [...prev, mapAgent(result.data)]);
+        const spawned = result.data;
+        if (spawned) {
+          setAgents(prev => [...prev, mapAgent(spawned)]);
           setActivity(prev => [{
-            id: `a${Date.now()}`, agent: 'The CEA', agentEmoji: '🧠',
+            id: newTempId(), agent: 'The CEA', agentEmoji: '🧠',
             action: 'Spawned agent', detail: `Deployed "${name}" (${role})`,
-            timestamp: 'Just now', type: 'spawn',
+            timestamp: 'Just now', type: 'spawn', link: source,
           }, ...prev]);
           return;
         }
@@ -383,52 +623,170 @@ function AuthenticatedApp({ session }: { session: Session }) {
     };
     setAgents(prev => [...prev, newAgent]);
     setActivity(prev => [{
-      id: `a${Date.now()}`, agent: 'The CEA', agentEmoji: '🧠',
+      id: newTempId(), agent: 'The CEA', agentEmoji: '🧠',
       action: 'Spawned agent', detail: `Deployed "${name}" (${role})`,
-      timestamp: 'Just now', type: 'spawn',
+      timestamp: 'Just now', type: 'spawn', link: source,
     }, ...prev]);
     setTimeout(() => {
       setAgents(prev => prev.map(a => a.id === newAgent.id ? { ...a, status: 'active', uptime: '1m' } : a));
     }, 3000);
-  }, [isLive]);
+  }, [isConnected]);
 
-  const handleUpdateTaskStatus = useCallback(async (taskId: string, status: Task['status']) => {
-    const statusMap: Record<string, string> = { pending: 'todo', in_progress: 'in_progress', review: 'in_progress', completed: 'done' };
+  // Create task
+  const handleCreateTask = useCallback(async (taskData: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; parentTaskId?: string; blockedBy?: string[]; deadline?: string; recurrence?: string; seriesId?: string; directiveId?: string }, source?: ActivityLink) => {
+    const priorityMap: Record<string, number> = { critical: 1, high: 2, medium: 3, low: 4 };
+    const project = projects.find(p => p.id === taskData.projectId);
 
-    if (isLive) {
-      try {
-        await api.updateTaskStatus(taskId, statusMap[status] || status);
-      } catch (e) { console.error('Task update error:', e); }
+    // Optimistic add
+    const tempTask: Task = {
+      id: newTempId(),
+      title: taskData.title,
+      description: taskData.description,
+      assignedTo: taskData.assignedTo,
+      assignedBy: 'tiger',
+      priority: taskData.priority,
+      status: 'pending',
+      deadline: taskData.deadline,
+      createdAt: new Date().toISOString(),
+      tags: [],
+      projectId: taskData.projectId,
+      projectName: project ? project.title.replace(/^PR\.\w+\s*\|\s*/, '') : undefined,
+      projectShortCode: project?.shortCode,
+      parentTaskId: taskData.parentTaskId,
+      blockedBy: taskData.blockedBy,
+      recurrence: taskData.recurrence,
+      seriesId: taskData.seriesId,
+      directiveId: taskData.directiveId,
+    };
+    setTasks(prev => [tempTask, ...prev]);
+
+    if (isConnected) {
+      submit({
+        name: 'createTask',
+        args: [taskData.description, priorityMap[taskData.priority] || 3, taskData.assignedTo === 'tiger' ? undefined : taskData.assignedTo, taskData.projectId, taskData.parentTaskId, taskData.blockedBy, taskData.deadline, taskData.recurrence, taskData.seriesId, taskData.directiveId],
+      }, {
+        label: `Create task "${taskData.title}"`,
+        tempId: tempTask.id,
+        rollback: () => setTasks(prev => prev.filter(t => t.id !== tempTask.id)),
+        // Replace temp task with real one, including where others link to it
+        onCreated: (row) => setTasks(prev => prev.map(t => t.id === tempTask.id
+          ? { ...tempTask, id: row.id as string }
+          : relinkTask(t, tempTask.id, row.id as string))),
+      });
     }
 
-    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status } : t));
+    setActivity(prev => [{
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: taskData.seriesId ? 'Scheduled next occurrence' : 'Created task', detail: taskData.title,
+      timestamp: 'Just now', type: 'task', link: source,
+    }, ...prev]);
+  }, [isConnected, projects, submit]);
+
+  const handleUpdateTaskStatus = useCallback(async (taskId: string, status: Task['status']) => {
+    const statusMap: Record<Task['status'], TaskRow['status']> = { pending: 'todo', in_progress: 'in_progress', review: 'in_progress', completed: 'done' };
     const task = tasks.find(t => t.id === taskId);
+
+    // A task can't be completed while anything it waits on is still open
+    const blockers = task && status === 'completed' ? openBlockers(task, tasks) : [];
+    if (blockers.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Task is blocked',
+        description: `Waiting on ${blockers.map(b => `"${b.title}"`).join(', ')}.`,
+      });
+      return;
+    }
+
+    // The server stamps completed_at and appends to status_history the same
+    // way. There is no review status to write, so the history records what is
+    // stored (Review goes in as In Progress) and doesn't change on reload.
+    const at = new Date().toISOString();
+    setTasks(prev => prev.map(t => t.id === taskId && t.status !== status ? {
+      ...t,
+      status,
+      completedAt: status === 'completed' ? at : undefined,
+      statusHistory: [...(t.statusHistory ?? []), { status: status === 'review' ? 'in_progress' : status, at }],
+    } : t));
+
+    if (isConnected) {
+      submit({ name: 'updateTaskStatus', args: [taskId, statusMap[status]] }, {
+        label: `Update status of "${task?.title ?? 'task'}"`,
+        rollback: () => task && setTasks(prev => prev.map(t => t.id === taskId
+          ? { ...t, status: task.status, completedAt: task.completedAt, statusHistory: task.statusHistory }
+          : t)),
+      });
+    }
+
     if (task) {
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: status === 'completed' ? 'Completed' : status === 'in_progress' ? 'Started' : 'Updated',
         detail: task.title, timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, tasks]);
 
-  // Full task update (title, description, priority, assignee, project)
+    // Completing an occurrence of a recurring task schedules the next one,
+    // unless the series already has an open occurrence
+    const rule = parseRRule(task?.recurrence);
+    if (task && rule && status === 'completed' && task.status !== 'completed') {
+      const seriesId = task.seriesId ?? task.id;
+      const hasOpen = tasks.some(t => t.id !== task.id && (t.seriesId ?? t.id) === seriesId && t.status !== 'completed');
+      const today = toDateInput(new Date().toISOString());
+      const deadline = nextDueOccurrence(rule, task.deadline ?? today, today, seriesAnchor(seriesId, tasks));
+      if (!hasOpen && deadline) {
+        handleCreateTask({
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+          assignedTo: task.assignedTo,
+          projectId: task.projectId,
+          deadline,
+          recurrence: task.recurrence,
+          seriesId,
+        });
+        toast({ title: 'Next occurrence scheduled', description: `${task.title} — ${formatDue(deadline)}` });
+      }
+    }
+  }, [isConnected, tasks, submit, handleCreateTask]);
+
+  // Full task update (title, description, priority, assignee, project, blockers)
   const handleUpdateTask = useCallback(async (taskId: string, updates: Partial<Task>) => {
+    const task = tasks.find(t => t.id === taskId);
+
+    if (updates.blockedBy) {
+      const cycle = findDependencyCycle(taskId, updates.blockedBy, tasks);
+      if (cycle) {
+        toast({
+          variant: 'destructive',
+          title: 'Circular dependency',
+          description: cycle.map(id => tasks.find(t => t.id === id)?.title ?? id).join(' → '),
+        });
+        return;
+      }
+    }
+
     setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...updates } : t));
 
-    if (isLive) {
-      try {
-        const priorityMap: Record<string, number> = { critical: 1, high: 2, medium: 3, low: 4 };
-        await api.updateTaskFull(taskId, {
+    if (isConnected) {
+      const priorityMap: Record<string, number> = { critical: 1, high: 2, medium: 3, low: 4 };
+      submit({
+        name: 'updateTaskFull',
+        args: [taskId, {
           description: updates.title || updates.description,
           priority: updates.priority ? priorityMap[updates.priority] : undefined,
           assignedTo: updates.assignedTo,
           projectId: updates.projectId,
-        });
-      } catch (e) { console.error('Task full update error:', e); }
+          blockedBy: updates.blockedBy,
+          // `deadline: undefined` in the patch means "clear it"
+          dueDate: 'deadline' in updates ? updates.deadline ?? null : undefined,
+          recurrence: 'recurrence' in updates ? updates.recurrence ?? null : undefined,
+        }],
+      }, {
+        label: `Update task "${task?.title ?? updates.title ?? 'task'}"`,
+        rollback: () => task && setTasks(prev => prev.map(t => t.id === taskId ? revertFields(t, task, updates) : t)),
+      });
     }
 
-    const task = tasks.find(t => t.id === taskId);
     if (task) {
       const changes: string[] = [];
       if (updates.title) changes.push('title');
@@ -436,90 +794,100 @@ function AuthenticatedApp({ session }: { session: Session }) {
       if (updates.priority) changes.push(`priority → ${updates.priority}`);
       if (updates.assignedTo) changes.push('assignee');
       if (updates.projectId !== undefined) changes.push('project');
+      if (updates.blockedBy) changes.push('dependencies');
+      if ('deadline' in updates) changes.push(updates.deadline ? `due → ${updates.deadline}` : 'due date cleared');
+      if ('recurrence' in updates) changes.push(updates.recurrence ? 'repeat rule' : 'stopped repeating');
 
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Updated task', detail: `${task.title}: ${changes.join(', ')}`,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, tasks]);
-
-  // Create task
-  const handleCreateTask = useCallback(async (taskData: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; parentTaskId?: string }) => {
-    const priorityMap: Record<string, number> = { critical: 1, high: 2, medium: 3, low: 4 };
-    const project = projects.find(p => p.id === taskData.projectId);
-
-    // Optimistic add
-    const tempTask: Task = {
-      id: `temp-${Date.now()}`,
-      title: taskData.title,
-      description: taskData.description,
-      assignedTo: taskData.assignedTo,
-      assignedBy: 'tiger',
-      priority: taskData.priority,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      tags: [],
-      projectId: taskData.projectId,
-      projectName: project ? project.title.replace(/^PR\.\w+\s*\|\s*/, '') : undefined,
-      projectShortCode: project?.shortCode,
-      parentTaskId: taskData.parentTaskId,
-    };
-    setTasks(prev => [tempTask, ...prev]);
-
-    if (isLive) {
-      try {
-        const result = await api.createTask(taskData.description, priorityMap[taskData.priority] || 3, taskData.assignedTo === 'tiger' ? undefined : taskData.assignedTo, taskData.projectId, taskData.parentTaskId);
-        // Replace temp task with real one
-        if (result.data?.[0]) {
-          setTasks(prev => prev.map(t => t.id === tempTask.id ? { ...tempTask, id: result.data[0].id } : t));
-        }
-      } catch (e) { console.error('Create task error:', e); }
+  }, [isConnected, tasks, submit]);
+
+  // Edit every open occurrence of a recurring series at once
+  const handleUpdateSeries = useCallback(async (seriesId: string, updates: Pick<Partial<Task>, 'title' | 'description' | 'priority' | 'assignedTo' | 'recurrence'>) => {
+    const occurrences = tasks.filter(t => (t.seriesId ?? t.id) === seriesId && t.status !== 'completed');
+    if (occurrences.length === 0) return;
+    const ids = new Set(occurrences.map(t => t.id));
+    setTasks(prev => prev.map(t => ids.has(t.id) ? { ...t, ...updates } : t));
+
+    if (isConnected) {
+      const priorityMap: Record<string, number> = { critical: 1, high: 2, medium: 3, low: 4 };
+      for (const task of occurrences) {
+        submit({
+          name: 'updateTaskFull',
+          args: [task.id, {
+            description: updates.title || updates.description,
+            priority: updates.priority ? priorityMap[updates.priority] : undefined,
+            assignedTo: updates.assignedTo,
+            recurrence: 'recurrence' in updates ? updates.recurrence ?? null : undefined,
+          }],
+        }, {
+          label: `Update series "${task.title}"`,
+          rollback: () => setTasks(prev => prev.map(t => t.id === task.id ? revertFields(t, task, updates) : t)),
+        });
+      }
     }
 
     setActivity(prev => [{
-      id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
-      action: 'Created task', detail: taskData.title,
-      timestamp: 'Just now', type: 'task',
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: 'recurrence' in updates && !updates.recurrence ? 'Ended series' : 'Updated series',
+      detail: occurrences[0].title, timestamp: 'Just now', type: 'task',
     }, ...prev]);
-  }, [isLive, projects]);
+  }, [isConnected, tasks, submit]);
 
   // Delete task
   const handleDeleteTask = useCallback(async (taskId: string) => {
     const task = tasks.find(t => t.id === taskId);
-    setTasks(prev => prev.filter(t => t.id !== taskId));
-
-    if (isLive) {
-      try {
-        await api.deleteTask(taskId);
-      } catch (e) { console.error('Delete task error:', e); }
+    const dependents = dependentsOf(taskId, tasks);
+    // Deleting a blocker releases everything waiting on it
+    setTasks(prev => prev
+      .filter(t => t.id !== taskId)
+      .map(t => t.blockedBy?.includes(taskId) ? { ...t, blockedBy: t.blockedBy.filter(id => id !== taskId) } : t));
+
+    if (isConnected) {
+      submit({ name: 'deleteTask', args: [taskId] }, {
+        label: `Delete task "${task?.title ?? 'task'}"`,
+        rollback: () => task && setTasks(prev => {
+          const restored = prev.map(t => {
+            const previous = dependents.find(d => d.id === t.id);
+            return previous ? { ...t, blockedBy: previous.blockedBy } : t;
+          });
+          return restored.some(t => t.id === taskId) ? restored : [task, ...restored];
+        }),
+      });
     }
 
     if (task) {
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Deleted task', detail: task.title,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, tasks]);
+  }, [isConnected, tasks, submit]);
 
   const handleUpdateProject = useCallback(async (projectId: string, updates: Partial<Project>) => {
+    const project = projects.find(p => p.id === projectId);
     setProjects(prev => prev.map(p => p.id === projectId ? { ...p, ...updates } : p));
 
-    if (isLive) {
-      try {
-        await api.updateProject(projectId, {
+    if (isConnected) {
+      submit({
+        name: 'updateProject',
+        args: [projectId, {
           status: updates.status,
           description: updates.description,
           targetDate: updates.targetDate,
           notes: updates.notes,
-        });
-      } catch (e) { console.error('Project update error:', e); }
+        }],
+      }, {
+        label: `Update project ${project?.shortCode ?? ''}`.trim(),
+        rollback: () => project && setProjects(prev => prev.map(p => p.id === projectId ? revertFields(p, project, updates) : p)),
+      });
     }
 
-    const project = projects.find(p => p.id === projectId);
     if (project) {
       const changes: string[] = [];
       if (updates.status) changes.push(`status → ${updates.status}`);
@@ -528,49 +896,69 @@ function AuthenticatedApp({ session }: { session: Session }) {
       if (updates.targetDate !== undefined) changes.push('target date');
 
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Updated project',
         detail: `${project.shortCode}: ${changes.join(', ')}`,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, projects]);
+  }, [isConnected, projects, submit]);
 
   // Update goal (expanded: supports title, description, target_date too)
   const handleUpdateGoal = useCallback(async (goalId: string, updates: Partial<Goal>) => {
+    const goal = goals.find(g => g.id === goalId);
     setGoals(prev => prev.map(g => g.id === goalId ? { ...g, ...updates } : g));
 
-    if (isLive) {
-      try {
-        await api.updateGoal(goalId, {
+    if (isConnected) {
+      submit({
+        name: 'updateGoal',
+        args: [goalId, {
           progress: updates.progress,
           status: updates.status,
           title: updates.title,
-          description: (updates as any).description,
+          description: updates.description,
           target_date: updates.targetDate,
-        });
-      } catch (e) { console.error('Goal update error:', e); }
+          initiatives: updates.initiatives?.map(initiativeRow),
+          auto_progress: updates.autoProgress,
+          quarter: updates.quarter,
+          key_results: updates.keyResults?.map(keyResultRow),
+          // `score: undefined` in updates reopens a scored quarter
+          score: 'score' in updates ? updates.score ?? null : undefined,
+          rolled_over_to: updates.rolledOverTo,
+        }],
+      }, {
+        label: `Update goal "${goal?.title ?? updates.title ?? 'goal'}"`,
+        rollback: () => goal && setGoals(prev => prev.map(g => g.id === goalId ? revertFields(g, goal, updates) : g)),
+      });
     }
 
-    const goal = goals.find(g => g.id === goalId);
     if (goal) {
       const changes: string[] = [];
       if (updates.progress !== undefined) changes.push(`progress → ${updates.progress}%`);
       if (updates.status) changes.push(`status → ${updates.status}`);
       if (updates.title) changes.push('title');
-      if ((updates as any).description !== undefined) changes.push('description');
+      if (updates.description !== undefined) changes.push('description');
       if (updates.targetDate !== undefined) changes.push('target date');
+      if (updates.initiatives) changes.push('initiatives');
+      if (updates.autoProgress !== undefined) changes.push(`auto progress ${updates.autoProgress ? 'on' : 'off'}`);
+      if (updates.quarter) changes.push(`quarter → ${formatQuarter(updates.quarter)}`);
+      if (updates.score !== undefined) changes.push(`scored ${updates.score.toFixed(1)}`);
+      else if (updates.keyResults) changes.push('key results');
+      if ('score' in updates && updates.score === undefined) changes.push('reopened');
 
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Updated goal', detail: `${updates.title || goal.title}: ${changes.join(', ')}`,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, goals]);
+  }, [isConnected, goals, submit]);
 
-  // Create goal
-  const handleCreateGoal = useCallback(async (data: { title: string; description?: string; ownerAgentId?: string; targetDate?: string }) => {
+  // Create goal; returns its temp id. Goals land in the current quarter unless told otherwise.
+  const handleCreateGoal = useCallback((data: {
+    title: string; description?: string; ownerAgentId?: string; targetDate?: string;
+    quarter?: string; keyResults?: KeyResult[]; initiatives?: GoalInitiative[];
+  }, source?: ActivityLink) => {
     const ownerAgent = data.ownerAgentId ? agents.find(a => a.id === data.ownerAgentId) : null;
     const emojiMap: Record<string, string> = {
       '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
@@ -578,7 +966,7 @@ function AuthenticatedApp({ session }: { session: Session }) {
     };
 
     const tempGoal: Goal = {
-      id: `temp-${Date.now()}`,
+      id: newTempId(),
       title: data.title,
       progress: 0,
       status: 'on-track',
@@ -586,45 +974,239 @@ function AuthenticatedApp({ session }: { session: Session }) {
       ownerName: ownerAgent?.name || 'Unassigned',
       ownerEmoji: ownerAgent ? (emojiMap[ownerAgent.role] || '🤖') : '🎯',
       targetDate: data.targetDate,
-      initiatives: [],
+      quarter: data.quarter ?? quarterOf(),
+      initiatives: data.initiatives ?? [],
+      keyResults: data.keyResults ?? [],
     };
     setGoals(prev => [...prev, tempGoal]);
 
-    if (isLive) {
-      try {
-        const result = await api.createGoal(data.title, data.description, data.ownerAgentId, data.targetDate, 'Q1-2026');
-        if (result?.data?.[0]) {
-          setGoals(prev => prev.map(g => g.id === tempGoal.id ? { ...tempGoal, id: result.data[0].id } : g));
-        }
-      } catch (e) { console.error('Create goal error:', e); }
+    if (isConnected) {
+      submit({
+        name: 'createGoal',
+        args: [data.title, data.description, data.ownerAgentId, data.targetDate, tempGoal.quarter, data.initiatives?.map(initiativeRow), data.keyResults?.map(keyResultRow)],
+      }, {
+        label: `Create goal "${data.title}"`,
+        tempId: tempGoal.id,
+        rollback: () => setGoals(prev => prev.filter(g => g.id !== tempGoal.id)),
+        onCreated: (row) => setGoals(prev => prev.map(g => g.id === tempGoal.id ? { ...tempGoal, id: row.id as string } : g)),
+      });
     }
 
     setActivity(prev => [{
-      id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
-      action: 'Created goal', detail: data.title,
-      timestamp: 'Just now', type: 'task',
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: 'Created goal', detail: `${data.title} (${formatQuarter(tempGoal.quarter!)})`,
+      timestamp: 'Just now', type: 'task', link: source,
     }, ...prev]);
-  }, [isLive, agents]);
+    return tempGoal.id;
+  }, [isConnected, agents, submit]);
+
+  // Copy unfinished goals into the next quarter and mark the originals, which
+  // stay in their quarter for scoring
+  const handleRolloverGoals = useCallback((goalIds: string[], toQuarter: string) => {
+    const sources = goals.filter(g => goalIds.includes(g.id) && !g.rolledOverTo);
+    for (const goal of sources) {
+      const copyId = handleCreateGoal(rolloverGoal(goal, kpis, toQuarter));
+      setGoals(prev => prev.map(g => g.id === goal.id ? { ...g, rolledOverTo: copyId } : g));
+      if (isConnected) {
+        // The outbox swaps the copy's temp id for the real one before this is sent
+        submit({ name: 'updateGoal', args: [goal.id, { rolled_over_to: copyId }] }, {
+          label: `Roll over goal "${goal.title}"`,
+          rollback: () => setGoals(prev => prev.map(g => g.id === goal.id ? { ...g, rolledOverTo: undefined } : g)),
+        });
+      }
+    }
+
+    if (sources.length) {
+      setActivity(prev => [{
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+        action: 'Rolled over goals', detail: `${sources.length} unfinished goal${sources.length === 1 ? '' : 's'} → ${formatQuarter(toQuarter)}`,
+        timestamp: 'Just now', type: 'decision',
+      }, ...prev]);
+    }
+  }, [isConnected, goals, kpis, handleCreateGoal, submit]);
+
+  // Issue a directive to an agent (or all agents)
+  const handleCreateDirective = useCallback((data: { title: string; content: string; directiveType?: string; targetAgentId?: string; priority?: Directive['priority'] }, source?: ActivityLink) => {
+    const target = data.targetAgentId ? agents.find(a => a.id === data.targetAgentId) : null;
+
+    const tempDirective: Directive = {
+      id: newTempId(),
+      title: data.title,
+      type: data.directiveType ?? 'instruction',
+      content: data.content,
+      targetAgentId: data.targetAgentId,
+      priority: data.priority ?? 'medium',
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+    setDirectives(prev => [tempDirective, ...prev]);
+
+    if (isConnected) {
+      submit({ name: 'createDirective', args: [data.title, tempDirective.type, data.content, data.targetAgentId, tempDirective.priority] }, {
+        label: `Issue directive "${data.title}"`,
+        tempId: tempDirective.id,
+        rollback: () => setDirectives(prev => prev.filter(d => d.id !== tempDirective.id)),
+        // Tasks added to it meanwhile follow the real id
+        onCreated: (row) => {
+          setDirectives(prev => prev.map(d => d.id === tempDirective.id ? { ...tempDirective, id: row.id as string } : d));
+          setTasks(prev => prev.map(t => t.directiveId === tempDirective.id ? { ...t, directiveId: row.id as string } : t));
+        },
+      });
+    }
+
+    setActivity(prev => [{
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: 'Issued directive', detail: target ? `${data.title} → ${target.name}` : data.title,
+      timestamp: 'Just now', type: 'decision', link: source,
+    }, ...prev]);
+  }, [isConnected, agents, submit]);
+
+  // An accepted proposal card from a CEA reply, already resolved to ids
+  const handleAcceptChatAction = useCallback((action: ChatAction, source: ActivityLink) => {
+    switch (action.type) {
+      case 'create_task':
+        handleCreateTask({
+          title: action.title,
+          description: action.description || action.title,
+          priority: action.priority ?? 'medium',
+          assignedTo: action.assignee ?? 'tiger',
+          projectId: action.project,
+          deadline: action.due,
+        }, source);
+        break;
+      case 'create_goal':
+        handleCreateGoal({ title: action.title, description: action.description, ownerAgentId: action.owner, targetDate: action.target_date }, source);
+        break;
+      case 'create_directive':
+        handleCreateDirective({ title: action.title, content: action.content, directiveType: action.directive_type, targetAgentId: action.target_agent, priority: action.priority }, source);
+        break;
+      case 'spawn_agent':
+        handleSpawnAgent(action.name, action.emoji ?? '🤖', action.role, action.description ?? '', source);
+        break;
+    }
+  }, [handleCreateTask, handleCreateGoal, handleCreateDirective, handleSpawnAgent]);
 
   // Delete goal
   const handleDeleteGoal = useCallback(async (goalId: string) => {
     const goal = goals.find(g => g.id === goalId);
     setGoals(prev => prev.filter(g => g.id !== goalId));
 
-    if (isLive) {
-      try {
-        await api.deleteGoal(goalId);
-      } catch (e) { console.error('Delete goal error:', e); }
+    if (isConnected) {
+      submit({ name: 'deleteGoal', args: [goalId] }, {
+        label: `Delete goal "${goal?.title ?? 'goal'}"`,
+        rollback: () => goal && setGoals(prev => prev.some(g => g.id === goalId) ? prev : [...prev, goal]),
+      });
     }
 
     if (goal) {
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Deleted goal', detail: goal.title,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, goals]);
+  }, [isConnected, goals, submit]);
+
+  // Rename/recategorize a KPI or record a new reading. A reading is appended
+  // to the history and change/trend are recomputed from it.
+  const handleUpdateKPI = useCallback((kpiId: string, updates: { label?: string; value?: string; category?: string }) => {
+    const kpi = kpis.find(k => k.id === kpiId);
+    if (!kpi) return;
+
+    let next: KPI = { ...kpi, label: updates.label ?? kpi.label, category: updates.category ?? kpi.category };
+    if (updates.value !== undefined) {
+      const numericValue = parseKPIValue(updates.value);
+      if (numericValue === null) return;
+      // "$4.5K" brings its own format; a bare "4500" takes the KPI's
+      const template = /[^\d.,\s-]/.test(updates.value) ? updates.value : kpi.value;
+      next = numericValue === kpi.numericValue
+        ? { ...next, value: formatKPIValue(numericValue, template) }
+        : recordKPIValue({ ...next, value: template }, numericValue);
+    }
+    setKpis(prev => prev.map(k => k.id === kpiId ? next : k));
+
+    if (isConnected) {
+      const reading = updates.value !== undefined;
+      submit({
+        name: 'updateKPI',
+        args: [kpiId, {
+          label: updates.label,
+          category: updates.category,
+          value: reading ? next.value : undefined,
+          numericValue: reading ? next.numericValue : undefined,
+          change: reading ? next.change : undefined,
+          trend: reading ? next.trend : undefined,
+        }],
+      }, {
+        label: `Update KPI "${kpi.label}"`,
+        rollback: () => setKpis(prev => prev.map(k => k.id === kpiId ? kpi : k)),
+      });
+    }
+
+    const changes: string[] = [];
+    if (updates.value !== undefined) changes.push(`${kpi.value} → ${next.value}`);
+    if (updates.label) changes.push(`renamed from "${kpi.label}"`);
+    if (updates.category !== undefined) changes.push(`category → ${next.category}`);
+    setActivity(prev => [{
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: 'Updated KPI', detail: `${next.label}: ${changes.join(', ')}`,
+      timestamp: 'Just now', type: 'report',
+    }, ...prev]);
+  }, [isConnected, kpis, submit]);
+
+  // Create KPI; its first reading starts the history
+  const handleCreateKPI = useCallback((data: { label: string; value: string; category?: string }) => {
+    const numericValue = parseKPIValue(data.value);
+    if (numericValue === null) return;
+
+    const tempKPI: KPI = {
+      id: newTempId(),
+      label: data.label,
+      value: data.value,
+      numericValue,
+      change: 0,
+      trend: 'stable',
+      category: data.category ?? '',
+      history: [{ value: numericValue, recordedAt: new Date().toISOString() }],
+    };
+    setKpis(prev => [...prev, tempKPI]);
+
+    if (isConnected) {
+      submit({ name: 'createKPI', args: [data.label, data.value, numericValue, data.category] }, {
+        label: `Create KPI "${data.label}"`,
+        tempId: tempKPI.id,
+        rollback: () => setKpis(prev => prev.filter(k => k.id !== tempKPI.id)),
+        onCreated: (row) => setKpis(prev => prev.map(k => k.id === tempKPI.id ? { ...k, id: row.id as string } : k)),
+      });
+    }
+
+    setActivity(prev => [{
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+      action: 'Started tracking KPI', detail: `${data.label} at ${data.value}`,
+      timestamp: 'Just now', type: 'report',
+    }, ...prev]);
+  }, [isConnected, submit]);
+
+  // Delete KPI along with its history
+  const handleDeleteKPI = useCallback((kpiId: string) => {
+    const kpi = kpis.find(k => k.id === kpiId);
+    setKpis(prev => prev.filter(k => k.id !== kpiId));
+
+    if (isConnected) {
+      submit({ name: 'deleteKPI', args: [kpiId] }, {
+        label: `Delete KPI "${kpi?.label ?? 'KPI'}"`,
+        rollback: () => kpi && setKpis(prev => prev.some(k => k.id === kpiId) ? prev : [...prev, kpi]),
+      });
+    }
+
+    if (kpi) {
+      setActivity(prev => [{
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
+        action: 'Stopped tracking KPI', detail: kpi.label,
+        timestamp: 'Just now', type: 'report',
+      }, ...prev]);
+    }
+  }, [isConnected, kpis, submit]);
 
   // Departments from raw data
   const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
@@ -635,7 +1217,7 @@ function AuthenticatedApp({ session }: { session: Session }) {
     const parentProject = data.parentProjectId ? projects.find(p => p.id === data.parentProjectId) : null;
 
     const tempProject: Project = {
-      id: `temp-${Date.now()}`,
+      id: newTempId(),
       title: data.title,
       shortCode: data.title.match(/^PR\.(\w+)/)?.[1] || data.title.substring(0, 4).toUpperCase(),
       description: data.description,
@@ -649,129 +1231,240 @@ function AuthenticatedApp({ session }: { session: Session }) {
     };
     setProjects(prev => [tempProject, ...prev]);
 
-    if (isLive) {
-      try {
-        const result = await api.createProject(data.title, data.deptId, data.description, undefined, undefined, data.parentProjectId);
-        if (result?.data?.[0]) {
-          setProjects(prev => prev.map(p => p.id === tempProject.id ? { ...tempProject, id: result.data[0].id } : p));
-        }
-      } catch (e) { console.error('Create project error:', e); }
+    if (isConnected) {
+      submit({ name: 'createProject', args: [data.title, data.deptId, data.description, undefined, undefined, data.parentProjectId] }, {
+        label: `Create project "${data.title}"`,
+        tempId: tempProject.id,
+        rollback: () => setProjects(prev => prev.filter(p => p.id !== tempProject.id)),
+        onCreated: (row) => setProjects(prev => prev.map(p => p.id === tempProject.id ? { ...tempProject, id: row.id as string } : p)),
+      });
     }
 
     setActivity(prev => [{
-      id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
       action: 'Created project', detail: data.title,
       timestamp: 'Just now', type: 'task',
     }, ...prev]);
-  }, [isLive, departments, projects]);
+  }, [isConnected, departments, projects, submit]);
 
   // Delete project
   const handleDeleteProject = useCallback(async (projectId: string) => {
     const project = projects.find(p => p.id === projectId);
+    const childIds = new Set(projects.filter(p => p.parentProjectId === projectId).map(p => p.id));
+    const linkedTasks = new Map(tasks.filter(t => t.projectId === projectId).map(t => [t.id, t]));
     // Unlink child projects locally
     setProjects(prev => prev.filter(p => p.id !== projectId).map(p => p.parentProjectId === projectId ? { ...p, parentProjectId: undefined } : p));
     // Unlink tasks locally
     setTasks(prev => prev.map(t => t.projectId === projectId ? { ...t, projectId: undefined, projectName: undefined, projectShortCode: undefined } : t));
 
-    if (isLive) {
-      try {
-        await api.deleteProject(projectId);
-      } catch (e) { console.error('Delete project error:', e); }
+    if (isConnected) {
+      submit({ name: 'deleteProject', args: [projectId] }, {
+        label: `Delete project "${project?.title ?? 'project'}"`,
+        rollback: () => {
+          if (project) {
+            setProjects(prev => [
+              ...(prev.some(p => p.id === projectId) ? [] : [project]),
+              ...prev.map(p => childIds.has(p.id) ? { ...p, parentProjectId: projectId } : p),
+            ]);
+          }
+          setTasks(prev => prev.map(t => {
+            const original = linkedTasks.get(t.id);
+            return original ? { ...t, projectId, projectName: original.projectName, projectShortCode: original.projectShortCode } : t;
+          }));
+        },
+      });
     }
 
     if (project) {
       setActivity(prev => [{
-        id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+        id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
         action: 'Deleted project', detail: project.title,
         timestamp: 'Just now', type: 'task',
       }, ...prev]);
     }
-  }, [isLive, projects]);
+  }, [isConnected, projects, tasks, submit]);
 
   // Feature Request handlers
-  const handleCreateFeatureRequest = useCallback(async (data: { title: string; description?: string; screenshotUrl?: string; sourceView?: string; priority?: string }) => {
+  const handleCreateFeatureRequest = useCallback(async (data: { title: string; description?: string; screenshotUrl?: string; sourceView?: string; priority?: FeatureRequest['priority'] }) => {
     // Optimistic add
     const tempFr: FeatureRequest = {
-      id: `temp-${Date.now()}`,
+      id: newTempId(),
       title: data.title,
       description: data.description,
       screenshotUrl: data.screenshotUrl,
       sourceView: data.sourceView,
       status: 'new',
-      priority: (data.priority as any) || 'medium',
+      priority: data.priority || 'medium',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
     setFeatureRequests(prev => [tempFr, ...prev]);
 
-    if (isLive) {
-      try {
-        const result = await api.createFeatureRequest(data.title, data.description, data.screenshotUrl, data.sourceView, data.priority);
-        if (result?.data?.[0]) {
-          setFeatureRequests(prev => prev.map(fr => fr.id === tempFr.id ? {
-            ...tempFr,
-            id: result.data[0].id,
-            createdAt: result.data[0].created_at,
-            updatedAt: result.data[0].updated_at,
-          } : fr));
-        }
-      } catch (e) { console.error('Create feature request error:', e); }
+    if (isConnected) {
+      submit({ name: 'createFeatureRequest', args: [data.title, data.description, data.screenshotUrl, data.sourceView, data.priority] }, {
+        label: `Capture idea "${data.title}"`,
+        tempId: tempFr.id,
+        rollback: () => setFeatureRequests(prev => prev.filter(fr => fr.id !== tempFr.id)),
+        onCreated: (row) => setFeatureRequests(prev => prev.map(fr => fr.id === tempFr.id ? {
+          ...tempFr,
+          id: row.id as string,
+          createdAt: (row.created_at as string) || tempFr.createdAt,
+          updatedAt: (row.updated_at as string) || tempFr.updatedAt,
+        } : fr)),
+      });
     }
 
     setActivity(prev => [{
-      id: `a${Date.now()}`, agent: 'Tiger', agentEmoji: '🐯',
+      id: newTempId(), agent: 'Tiger', agentEmoji: '🐯',
       action: 'Captured idea', detail: data.title,
       timestamp: 'Just now', type: 'task',
     }, ...prev]);
-  }, [isLive]);
+  }, [isConnected, submit]);
 
-  const handleUpdateFeatureRequest = useCallback(async (id: string, updates: { status?: string; priority?: string; title?: string; description?: string }) => {
+  const handleUpdateFeatureRequest = useCallback(async (id: string, updates: { status?: FeatureRequest['status']; priority?: FeatureRequest['priority']; title?: string; description?: string }) => {
+    const previous = featureRequests.find(fr => fr.id === id);
     setFeatureRequests(prev => prev.map(fr => fr.id === id ? { ...fr, ...updates, updatedAt: new Date().toISOString() } as FeatureRequest : fr));
-    if (isLive) {
-      try {
-        await api.updateFeatureRequest(id, updates);
-      } catch (e) { console.error('Update feature request error:', e); }
+    if (isConnected) {
+      submit({ name: 'updateFeatureRequest', args: [id, updates] }, {
+        label: `Update idea "${previous?.title ?? updates.title ?? 'idea'}"`,
+        rollback: () => previous && setFeatureRequests(prev => prev.map(fr => fr.id === id ? previous : fr)),
+      });
     }
-  }, [isLive]);
+  }, [isConnected, featureRequests, submit]);
 
   const handleDeleteFeatureRequest = useCallback(async (id: string) => {
+    const previous = featureRequests.find(fr => fr.id === id);
     setFeatureRequests(prev => prev.filter(fr => fr.id !== id));
-    if (isLive) {
-      try {
-        await api.deleteFeatureRequest(id);
-      } catch (e) { console.error('Delete feature request error:', e); }
+    if (isConnected) {
+      submit({ name: 'deleteFeatureRequest', args: [id] }, {
+        label: `Delete idea "${previous?.title ?? 'idea'}"`,
+        rollback: () => previous && setFeatureRequests(prev => prev.some(fr => fr.id === id) ? prev : [previous, ...prev]),
+      });
     }
-  }, [isLive]);
+  }, [isConnected, featureRequests, submit]);
+
+  // Agent versions are appended server-side by update-agent. Only the local
+  // backend does that so far; live cea-api doesn't keep versions or take a
+  // note yet, so history (and notes) stay off there rather than vanish on
+  // reload.
+  const agentVersioning = !isConnected || backend === 'local';
 
   // Agent Profile handler
-  const handleUpdateAgent = useCallback(async (agentId: string, updates: { system_prompt?: string; functional_name?: string; tool_access?: string[]; is_active?: boolean }) => {
-    if (isLive) {
-      try {
-        await api.updateAgent(agentId, updates);
-      } catch (e) { console.error('Agent update error:', e); }
-    }
+  const handleUpdateAgent = useCallback(async (agentId: string, { note, ...changes }: { system_prompt?: string; functional_name?: string; tool_access?: string[]; is_active?: boolean; note?: string }) => {
+    const previous = agents.find(a => a.id === agentId);
+    const updates = agentVersioning ? { ...changes, note } : changes;
 
-    // Update local state
+    // Update local state; prompt, name and tool changes add a version the
+    // way the server does
+    const at = new Date().toISOString();
     setAgents(prev => prev.map(a => {
       if (a.id !== agentId) return a;
-      const updated = { ...a };
-      if (updates.functional_name) updated.role = updates.functional_name;
+      const updated = agentVersioning ? { ...a, versions: appendVersion(a, updates, note, at) } : { ...a };
+      if (updates.functional_name) updated.name = updates.functional_name;
+      if (updates.system_prompt !== undefined) {
+        updated.systemPrompt = updates.system_prompt;
+        updated.description = updates.system_prompt.substring(0, 200);
+      }
+      if (updates.tool_access) {
+        updated.toolAccess = updates.tool_access;
+        updated.metrics = { ...a.metrics, tools: updates.tool_access.length };
+      }
       if (updates.is_active !== undefined) updated.status = updates.is_active ? 'active' : 'idle';
       return updated;
     }));
-  }, [isLive]);
+
+    if (isConnected) {
+      submit({ name: 'updateAgent', args: [agentId, updates] }, {
+        label: `Update agent ${previous?.name ?? ''}`.trim(),
+        rollback: () => previous && setAgents(prev => prev.map(a => a.id === agentId ? {
+          ...a,
+          name: previous.name,
+          status: previous.status,
+          systemPrompt: previous.systemPrompt,
+          description: previous.description,
+          toolAccess: previous.toolAccess,
+          metrics: previous.metrics,
+          versions: previous.versions,
+        } : a)),
+      });
+    }
+  }, [isConnected, agentVersioning, agents, submit]);
 
   const newIdeaCount = featureRequests.filter(fr => fr.status === 'new').length;
 
+  // Morning briefing: built once a day from the loaded state. The narrative
+  // is an off-the-record cea-brain question (`ephemeral`), which only the
+  // local backend is known to honour; live cea-brain would file the prompt in
+  // chat history, so it stays off there until the server supports it.
+  const briefingState = useMemo(() => ({ tasks, kpis, goals: rolledUpGoals, projects, agents }), [tasks, kpis, rolledUpGoals, projects, agents]);
+  const canAskBriefing = isConnected && backend === 'local';
+  const briefing = useBriefing(briefingState, { ready: !loading, canAsk: canAskBriefing });
+
+  // Agent counters computed from their tasks and activity, in place of the
+  // placeholders on agent rows
+  const agentStats = useMemo(() => computeAllAgentStats(agents, tasks, activity), [agents, tasks, activity]);
+  const analyzedAgents = useMemo(() => applyAgentStats(agents, agentStats), [agents, agentStats]);
+
+  // Activity timeline of the agent being viewed
+  const viewedAgent = agents.find(a => a.id === selectedAgentId) ?? null;
+  const agentActivity = useAgentActivity(viewedAgent, activity, { enabled: isConnected });
+
+  // Global search: rebuilt whenever any indexed entity changes
+  const searchIndex = useMemo(
+    () => buildSearchIndex({ tasks, projects, goals: rolledUpGoals, ideas: featureRequests, agents, messages, threads }),
+    [tasks, projects, rolledUpGoals, featureRequests, agents, messages, threads],
+  );
+
+  const openSearchResult = useCallback((doc: SearchDoc) => {
+    switch (doc.type) {
+      case 'task': return navigate({ view: 'tasks', id: doc.id, query: {} });
+      case 'project': return navigate({ view: 'project-detail', id: doc.id, query: {} });
+      case 'goal': return navigate({ view: 'strategy', id: doc.id, query: doc.quarter ? { q: doc.quarter } : {} });
+      case 'idea': return navigate({ view: 'ideas', id: doc.id, query: {} });
+      case 'agent': return navigate({ view: 'agent-detail', id: doc.id, query: {} });
+      case 'message': return navigate({ view: 'chat', query: doc.threadId ? { thread: doc.threadId, msg: doc.id } : {} });
+    }
+  }, [navigate]);
+
+  const openTaskModal = useCallback(() => setTaskModalOpen(true), []);
+
   return (
     <div className="flex h-screen bg-zinc-950 text-zinc-100 overflow-hidden" style={{ fontFamily: "'DM Sans', 'Inter', system-ui, sans-serif" }}>
-      {/* Connection status indicator */}
-      <div className="fixed top-2 right-3 z-50">
-        <span className={`text-[9px] px-2 py-1 ${isLive ? 'bg-emerald-500/15 text-emerald-400' : 'bg-zinc-800 text-zinc-500'}`}>
-          {loading ? '◌ Connecting...' : isLive ? '● Live · Media HQ' : '○ Demo Mode'}
+      {/* Connection status indicator + backend switch */}
+      <div className="fixed top-2 right-3 z-50 flex items-center gap-1">
+        <span className={`text-[9px] px-2 py-1 ${isConnected ? (backend === 'live' ? 'bg-emerald-500/15 text-emerald-400' : 'bg-sky-500/15 text-sky-400') : 'bg-zinc-800 text-zinc-500'}`}>
+          {loading ? '◌ Connecting...' : !isConnected ? '○ Demo Mode' : `● ${backend === 'live' ? 'Live · Media HQ' : 'Local · This browser'}${pendingSyncCount ? ` · ${pendingSyncCount} pending` : realtimeStatus === 'subscribed' ? ' · Synced' : ''}`}
         </span>
+        {!loading && (
+          <button
+            onClick={() => handleSwitchBackend(backend === 'live' ? 'local' : 'live')}
+            disabled={backendWritesQueued}
+            title={backendWritesQueued ? 'Wait for pending and failed changes to sync' : undefined}
+            className="text-[9px] px-2 py-1 bg-zinc-800 text-zinc-500 hover:text-zinc-300 transition-colors disabled:opacity-40 disabled:hover:text-zinc-500"
+          >
+            {backend === 'live' ? 'Use local' : 'Use live'}
+          </button>
+        )}
+        {!loading && backend === 'local' && isConnected && (
+          confirmReset ? (
+            <>
+              <button onClick={handleResetLocalData} className="text-[9px] px-2 py-1 bg-red-500/15 text-red-400 hover:text-red-300 transition-colors">Reset data?</button>
+              <button onClick={() => setConfirmReset(false)} className="text-[9px] px-2 py-1 bg-zinc-800 text-zinc-500 hover:text-zinc-300 transition-colors">Cancel</button>
+            </>
+          ) : (
+            <button onClick={() => setConfirmReset(true)} className="text-[9px] px-2 py-1 bg-zinc-800 text-zinc-500 hover:text-zinc-300 transition-colors">Reset</button>
+          )
+        )}
       </div>
 
+      {liveFallback && backend === 'local' && (
+        <div className="fixed top-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-3 py-2 bg-amber-500/15 border border-amber-500/30 text-xs text-amber-300 shadow-lg">
+          <span>The live API can't be reached. You're on the local backend: changes stay in this browser and don't reach Media HQ.</span>
+          <button onClick={() => handleSwitchBackend('live')} className="text-amber-200 hover:text-white underline underline-offset-2 whitespace-nowrap">Retry live</button>
+          <button onClick={() => handleSwitchBackend('local')} className="text-amber-400/70 hover:text-amber-200 whitespace-nowrap">Stay local</button>
+        </div>
+      )}
+
       <Sidebar
         currentView={currentView}
         onViewChange={setCurrentView}
@@ -779,19 +1472,42 @@ function AuthenticatedApp({ session }: { session: Session }) {
         pendingTaskCount={pendingTaskCount}
         projectCount={projects.length}
         ideaCount={newIdeaCount}
+        pendingSyncCount={pendingSyncCount}
+        failedSyncCount={failedSyncCount}
+        onRetrySync={() => retrySync()}
         onSignOut={() => signOut()}
+        onSearch={(q) => navigate({ view: 'search', query: { q } })}
       />
+      {currentView === 'search' && (
+        <SearchView docs={searchIndex} query={route.query} onQueryChange={updateQuery} onOpen={openSearchResult} />
+      )}
       {currentView === 'dashboard' && (
-        <Dashboard kpis={kpis} activity={activity} tasks={tasks} agents={agents} projects={projects} onNavigate={(v) => setCurrentView(v as ViewType)} />
+        <Dashboard
+          kpis={kpis} activity={activity} tasks={tasks} agents={analyzedAgents} projects={projects}
+          onNavigate={(v) => setCurrentView(v as ViewType)}
+          onOpenTask={openTask}
+          onOpenMessage={(link) => navigate({ view: 'chat', query: { thread: link.threadId, msg: link.messageId } })}
+          reminderPermission={reminderPermission}
+          onEnableReminders={enableReminders}
+          briefing={briefing.briefing}
+          briefingArchive={briefing.archive}
+          narrativeEnabled={briefing.narrativeEnabled}
+          onToggleNarrative={briefing.setNarrative}
+          briefingWriting={briefing.writing}
+          onRegenerateBriefing={briefing.regenerate}
+          onOpenLink={(route) => navigate(route)}
+        />
       )}
       {currentView === 'projects' && (
         <ProjectsView
           projects={projects} tasks={tasks} agents={agents} departments={departments}
           onNavigateToTask={() => setCurrentView('tasks')}
+          query={route.query}
+          onQueryChange={updateQuery}
           onUpdateProject={handleUpdateProject}
           onCreateProject={handleCreateProject}
           onDeleteProject={handleDeleteProject}
-          onOpenProject={(id) => { setSelectedProjectId(id); setCurrentView('project-detail'); }}
+          onOpenProject={(id) => navigate({ view: 'project-detail', id, query: {} })}
         />
       )}
       {currentView === 'project-detail' && selectedProjectId && (() => {
@@ -804,24 +1520,44 @@ function AuthenticatedApp({ session }: { session: Session }) {
             agents={agents}
             onBack={() => setCurrentView('projects')}
             onUpdateProject={handleUpdateProject}
+            onOpenTask={openTask}
             onUpdateTaskStatus={handleUpdateTaskStatus}
             onUpdateTask={handleUpdateTask}
             onCreateTask={handleCreateTask}
             onDeleteTask={handleDeleteTask}
+            onDiscuss={() => startThread({ type: 'project', id: project.id })}
           />
         );
       })()}
       {currentView === 'agents' && (
-        <AgentHub agents={agents} onSpawnAgent={handleSpawnAgent} onViewAgent={(id) => { setSelectedAgentId(id); setCurrentView('agent-detail'); }} />
+        <AgentHub
+          agents={analyzedAgents}
+          stats={agentStats}
+          tools={tools}
+          onSpawnAgent={handleSpawnAgent}
+          onViewAgent={(id) => navigate({ view: 'agent-detail', id, query: {} })}
+          query={route.query}
+          onQueryChange={updateQuery}
+        />
       )}
       {currentView === 'agent-detail' && selectedAgentId && (() => {
-        const agent = agents.find(a => a.id === selectedAgentId);
+        const agent = analyzedAgents.find(a => a.id === selectedAgentId);
         if (!agent) return null;
         return (
           <AgentDetail
             agent={agent}
+            stats={agentStats[agent.id]}
             onBack={() => setCurrentView('agents')}
             onUpdateAgent={handleUpdateAgent}
+            versioning={agentVersioning}
+            onDiscuss={() => startThread({ type: 'agent', id: agent.id })}
+            activity={agentActivity}
+            tasks={tasks}
+            projects={projects}
+            directives={directives}
+            tools={tools}
+            onNavigate={(route) => navigate(route)}
+            onOpenMessage={(link) => navigate({ view: 'chat', query: { thread: link.threadId, msg: link.messageId } })}
           />
         );
       })()}
@@ -830,6 +1566,10 @@ function AuthenticatedApp({ session }: { session: Session }) {
           featureRequests={featureRequests}
           onUpdateFeatureRequest={handleUpdateFeatureRequest}
           onDeleteFeatureRequest={handleDeleteFeatureRequest}
+          selectedId={route.id ?? null}
+          onSelect={(id) => navigate({ view: 'ideas', id: id ?? undefined, query: route.query }, { replace: true })}
+          search={route.query.q ?? ''}
+          onSearchChange={(q) => updateQuery({ q: q || undefined })}
         />
       )}
       {currentView === 'tasks' && (
@@ -841,15 +1581,92 @@ function AuthenticatedApp({ session }: { session: Session }) {
           onUpdateTask={handleUpdateTask}
           onCreateTask={handleCreateTask}
           onDeleteTask={handleDeleteTask}
+          onUpdateSeries={handleUpdateSeries}
+          selectedTaskId={route.id ?? null}
+          onSelectTask={(id) => navigate({ view: 'tasks', id: id ?? undefined, query: route.query }, { replace: true })}
+          query={route.query}
+          onQueryChange={updateQuery}
+        />
+      )}
+      {currentView === 'calendar' && (
+        <CalendarView
+          tasks={tasks}
+          projects={projects}
+          goals={rolledUpGoals}
+          onUpdateTask={handleUpdateTask}
+          onUpdateProject={handleUpdateProject}
+          onUpdateGoal={handleUpdateGoal}
+          onOpenTask={openTask}
+          onOpenProject={(projectId) => navigate({ view: 'project-detail', id: projectId, query: {} })}
+          onOpenGoals={() => setCurrentView('strategy')}
+          query={route.query}
+          onQueryChange={updateQuery}
+        />
+      )}
+      {currentView === 'directives' && (
+        <DirectivesView
+          directives={directives}
+          tasks={tasks}
+          agents={agents}
+          selectedDirectiveId={selectedDirectiveId}
+          onSelectDirective={(id) => navigate({ view: 'directives', id: id ?? undefined, query: route.query }, { replace: true })}
+          onCreateDirective={handleCreateDirective}
+          onCreateTask={handleCreateTask}
+          onOpenTask={openTask}
+          onOpenAgent={(agentId) => navigate({ view: 'agent-detail', id: agentId, query: {} })}
+          query={route.query}
+          onQueryChange={updateQuery}
         />
       )}
       {currentView === 'chat' && (
-        <ChatInterface messages={messages} onSendMessage={handleSendMessage} />
+        <ChatInterface
+          messages={messages}
+          threads={threads}
+          activeThreadId={activeThreadId}
+          loadingHistory={isConnected && !!activeThreadId && !loadedThreadIds.has(activeThreadId)}
+          awaitingReply={!!activeThreadId && awaitingReplyIds.has(activeThreadId)}
+          projects={projects}
+          agents={agents}
+          onSendMessage={handleSendMessage}
+          onStopReply={() => activeThreadId && handleStopReply(activeThreadId)}
+          onAcceptAction={handleAcceptChatAction}
+          onUpdateThread={handleUpdateThread}
+          onStartThread={startThread}
+          onOpenProject={(projectId) => navigate({ view: 'project-detail', id: projectId, query: {} })}
+          onOpenAgent={(agentId) => navigate({ view: 'agent-detail', id: agentId, query: {} })}
+          onOpenDirective={(directiveId) => navigate({ view: 'directives', id: directiveId, query: {} })}
+          query={route.query}
+          onQueryChange={updateQuery}
+        />
       )}
       {currentView === 'strategy' && (
-        <Strategy kpis={kpis} agents={agents} goals={goals} onUpdateGoal={handleUpdateGoal} onCreateGoal={handleCreateGoal} onDeleteGoal={handleDeleteGoal} />
+        <Strategy
+          kpis={kpis} agents={agents} goals={rolledUpGoals} tasks={tasks} projects={projects}
+          query={route.query} onQueryChange={updateQuery} selectedGoalId={route.id ?? null}
+          onUpdateGoal={handleUpdateGoal} onCreateGoal={handleCreateGoal} onRolloverGoals={handleRolloverGoals} onDeleteGoal={handleDeleteGoal}
+          onUpdateKPI={handleUpdateKPI} onCreateKPI={handleCreateKPI} onDeleteKPI={handleDeleteKPI}
+          onOpenTask={openTask}
+        />
       )}
 
+      {/* Command palette (Cmd+K) */}
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        tasks={tasks}
+        projects={projects}
+        agents={agents}
+        goals={rolledUpGoals}
+        ideas={featureRequests}
+        focusedTask={route.view === 'tasks' && route.id ? tasks.find(t => t.id === route.id) : null}
+        onNavigate={navigate}
+        onNewTask={openTaskModal}
+        onCreateTask={handleCreateTask}
+        onUpdateTaskStatus={handleUpdateTaskStatus}
+        onSpawnAgent={handleSpawnAgent}
+        onMessageCEA={handleSendMessage}
+      />
+
       {/* Quick Task FAB + Modal */}
       <TaskFAB onClick={() => setTaskModalOpen(true)} taskCount={pendingTaskCount} />
       <TaskCaptureModal
@@ -868,6 +1685,8 @@ function AuthenticatedApp({ session }: { session: Session }) {
         onSubmit={handleCreateFeatureRequest}
         currentView={currentView}
       />
+
+      <Toaster />
     </div>
   );
 }
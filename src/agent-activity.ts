@@ -0,0 +1,129 @@
+import type { ActivityItem, Agent, Directive, Project, Task } from './types';
+import type { Route } from './router';
+
+// The Activity tab of AgentDetail: the activity log narrowed to one agent,
+// newest first and grouped by day. Entries are logged under an agent's
+// handle (`@Editor_in_Chief`) by the server and under its display name by
+// the app, so both count. An entry links to the task, project or directive
+// it recorded, or else to the ones its detail names.
+
+export type ActivityType = ActivityItem['type'];
+
+export const ACTIVITY_TYPES: { id: ActivityType; label: string; className: string }[] = [
+  { id: 'task', label: 'Tasks', className: 'bg-blue-500/15 text-blue-400' },
+  { id: 'decision', label: 'Decisions', className: 'bg-amber-500/15 text-amber-400' },
+  { id: 'report', label: 'Reports', className: 'bg-emerald-500/15 text-emerald-400' },
+  { id: 'spawn', label: 'Spawns', className: 'bg-purple-500/15 text-purple-400' },
+  { id: 'alert', label: 'Alerts', className: 'bg-red-500/15 text-red-400' },
+];
+
+export const ACTIVITY_PAGE_SIZE = 30;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// ============ AGENT ============
+
+// Every name the agent's entries may be logged under
+export function agentHandles(agent: Agent): string[] {
+  const handles = [agent.name, agent.role, `@${agent.name.replace(/\s/g, '_')}`];
+  if (agent.id === 'cea') handles.push('The CEA', '@CEA');
+  return [...new Set(handles.filter(h => h))];
+}
+
+export function isAgentActivity(item: ActivityItem, agent: Agent): boolean {
+  return agentHandles(agent).includes(item.agent);
+}
+
+// ============ TIME ============
+
+// Entries added this session only have their "2 min ago" label
+export function activityTime(item: ActivityItem, now = Date.now()): number {
+  if (item.createdAt) return new Date(item.createdAt).getTime();
+  const match = item.timestamp.match(/(\d+)\s*(min|h|d)/);
+  if (!match) return now;
+  const unit = { min: 60_000, h: 3_600_000, d: DAY_MS }[match[2] as 'min' | 'h' | 'd'];
+  return now - Number(match[1]) * unit;
+}
+
+export interface ActivityDay {
+  day: string;                 // local day, "2026-10-18"
+  label: string;               // "Today", "Yesterday", "Friday, October 16"
+  items: ActivityItem[];
+}
+
+const localDay = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Newest first, one group per local day; duplicates (same id) are dropped
+export function groupByDay(items: ActivityItem[], now = Date.now()): ActivityDay[] {
+  const today = localDay(now);
+  const yesterday = localDay(now - DAY_MS);
+  const unique = items.filter((item, i) => items.findIndex(other => other.id === item.id) === i);
+  const sorted = unique
+    .map(item => ({ item, time: activityTime(item, now) }))
+    .sort((a, b) => b.time - a.time);
+
+  const days: ActivityDay[] = [];
+  for (const { item, time } of sorted) {
+    const day = localDay(time);
+    let group = days[days.length - 1];
+    if (!group || group.day !== day) {
+      const date = new Date(time);
+      const label = day === today ? 'Today'
+        : day === yesterday ? 'Yesterday'
+        : date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', ...(date.getFullYear() !== new Date(now).getFullYear() && { year: 'numeric' }) });
+      group = { day, label, items: [] };
+      days.push(group);
+    }
+    group.items.push(item);
+  }
+  return days;
+}
+
+// ============ REFERENCES ============
+
+export interface ActivityRef {
+  kind: 'task' | 'project' | 'directive';
+  id: string;
+  label: string;
+  route: Route;
+}
+
+const taskRef = (task: Task): ActivityRef => ({ kind: 'task', id: task.id, label: task.title, route: { view: 'tasks', id: task.id, query: {} } });
+const projectRef = (project: Project): ActivityRef => ({ kind: 'project', id: project.id, label: project.shortCode || project.title, route: { view: 'project-detail', id: project.id, query: {} } });
+const directiveRef = (directive: Directive): ActivityRef => ({ kind: 'directive', id: directive.id, label: directive.title, route: { view: 'directives', id: directive.id, query: {} } });
+
+// Quoted names in a detail: "Record broadcast intro" → Tiger
+const QUOTED = /["“]([^"”]+)["”]/g;
+
+// Recorded ids first; otherwise tasks and directives named in quotes (or as
+// the whole detail) and projects named by short code
+export function activityRefs(item: ActivityItem, { tasks, projects, directives }: { tasks: Task[]; projects: Project[]; directives: Directive[] }): ActivityRef[] {
+  const refs: ActivityRef[] = [];
+  const add = (ref: ActivityRef) => {
+    if (!refs.some(r => r.kind === ref.kind && r.id === ref.id)) refs.push(ref);
+  };
+
+  const task = item.taskId ? tasks.find(t => t.id === item.taskId) : undefined;
+  const project = item.projectId ? projects.find(p => p.id === item.projectId) : undefined;
+  const directive = item.directiveId ? directives.find(d => d.id === item.directiveId) : undefined;
+  if (task) add(taskRef(task));
+  if (project) add(projectRef(project));
+  if (directive) add(directiveRef(directive));
+  if (refs.length) return refs;
+
+  const names = [...item.detail.matchAll(QUOTED)].map(m => m[1].trim().toLowerCase());
+  names.push(item.detail.trim().toLowerCase());
+  for (const name of names) {
+    const namedTask = tasks.find(t => t.title.toLowerCase() === name);
+    const namedDirective = directives.find(d => d.title.toLowerCase() === name);
+    if (namedTask) add(taskRef(namedTask));
+    if (namedDirective) add(directiveRef(namedDirective));
+  }
+  for (const p of projects) {
+    if (p.shortCode && new RegExp(`\\b${p.shortCode.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(item.detail)) add(projectRef(p));
+  }
+  return refs;
+}
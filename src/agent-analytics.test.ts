@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { computeAgentStats, formatHours, median, reviewOutcomes, sortAgents, statusChanges } from './agent-analytics';
+import { activity, agent, task } from './test/factories';
+
+const NOW = new Date('2026-10-18T12:00:00.000Z').getTime();
+
+describe('statusChanges', () => {
+  it('synthesizes created → completed for tasks without a history', () => {
+    expect(statusChanges(task({ status: 'completed', completedAt: '2026-10-02T09:00:00.000Z' }))).toEqual([
+      { status: 'pending', at: '2026-10-01T09:00:00.000Z' },
+      { status: 'completed', at: '2026-10-02T09:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('reviewOutcomes', () => {
+  it('reads acceptances and rejections from leaving Review', () => {
+    const outcomes = reviewOutcomes(task({
+      statusHistory: [
+        { status: 'pending', at: '2026-10-01T09:00:00.000Z' },
+        { status: 'review', at: '2026-10-02T09:00:00.000Z' },
+        { status: 'in_progress', at: '2026-10-03T09:00:00.000Z' },
+        { status: 'review', at: '2026-10-04T09:00:00.000Z' },
+        { status: 'completed', at: '2026-10-05T09:00:00.000Z' },
+      ],
+    }));
+    expect(outcomes).toEqual([
+      { at: '2026-10-03T09:00:00.000Z', accepted: false },
+      { at: '2026-10-05T09:00:00.000Z', accepted: true },
+    ]);
+  });
+});
+
+describe('computeAgentStats', () => {
+  const sage = agent();
+  const tasks = [
+    task({
+      id: 'done', assignedTo: sage.id, status: 'completed', completedAt: '2026-10-02T09:00:00.000Z',
+      statusHistory: [
+        { status: 'pending', at: '2026-10-01T09:00:00.000Z' },
+        { status: 'review', at: '2026-10-01T12:00:00.000Z' },
+        { status: 'pending', at: '2026-10-01T15:00:00.000Z' },
+        { status: 'review', at: '2026-10-01T18:00:00.000Z' },
+        { status: 'completed', at: '2026-10-02T09:00:00.000Z' },
+      ],
+    }),
+    task({ id: 'open', assignedTo: sage.id, status: 'in_progress', priority: 'high' }),
+    task({ id: 'later', assignedTo: sage.id, status: 'pending', priority: 'critical' }),
+    task({ id: 'other', assignedTo: 'someone-else', status: 'completed', completedAt: '2026-10-02T09:00:00.000Z' }),
+  ];
+
+  it('counts completions, rejections and load from the agent’s tasks', () => {
+    const stats = computeAgentStats(sage, tasks, [activity({ type: 'alert' }), activity({ agent: 'Nobody', type: 'alert' })], NOW);
+    expect(stats).toMatchObject({
+      completed: 1,
+      failed: 1,
+      reviews: 2,
+      rejectionRate: 0.5,
+      medianHoursToComplete: 24,
+      load: 2,
+      inProgress: 1,
+      alerts: 1,
+    });
+    // In progress comes before a more urgent pending task
+    expect(stats.currentTask?.id).toBe('open');
+    expect(stats.trend).toHaveLength(8);
+  });
+});
+
+describe('sortAgents', () => {
+  it('puts agents without a value last', () => {
+    const a = agent({ id: 'a', name: 'Alpha' });
+    const b = agent({ id: 'b', name: 'Beta' });
+    const c = agent({ id: 'c', name: 'Gamma' });
+    const stats = {
+      a: computeAgentStats(a, [], [], NOW),
+      b: { ...computeAgentStats(b, [], [], NOW), medianHoursToComplete: 2 },
+      c: { ...computeAgentStats(c, [], [], NOW), medianHoursToComplete: 1 },
+    };
+    expect(sortAgents([a, b, c], stats, 'speed', 'asc').map(x => x.id)).toEqual(['c', 'b', 'a']);
+    expect(sortAgents([a, b, c], stats, 'speed', 'desc').map(x => x.id)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('formatting', () => {
+  it('formats hours and medians', () => {
+    expect(formatHours(null)).toBe('—');
+    expect(formatHours(0.25)).toBe('15m');
+    expect(formatHours(5.55)).toBe('5.6h');
+    expect(formatHours(50)).toBe('2.1d');
+    expect(median([3, 1, 2, 10])).toBe(2.5);
+  });
+});
@@ -0,0 +1,224 @@
+import type { ActivityItem, Agent, Task, TaskStatusChange } from './types';
+import { compareDue } from './due-dates';
+import { activityTime, isAgentActivity } from './agent-activity';
+
+// Per-agent performance, computed from the tasks assigned to the agent and
+// its entries in the activity log rather than the placeholder counters on
+// agent rows. Review outcomes come from each task's status history: leaving
+// Review for Completed accepts the work, going back to Pending or In
+// Progress rejects it. Review is only ever read (from `failed` rows, see
+// mapTask): the dashboard has no review status to write, so only reviews the
+// server records show up here. Tasks without a history fall back to created →
+// (completed), so they count toward completions but never toward reviews.
+
+export interface AgentStats {
+  agentId: string;
+  completed: number;
+  failed: number;                      // tasks whose work was sent back from review
+  reviews: number;                     // review decisions, accepted or rejected
+  rejectionRate: number | null;        // rejected / reviews
+  medianHoursToComplete: number | null;
+  load: number;                        // open tasks
+  inProgress: number;
+  currentTask?: Task;
+  alerts: number;                      // alert entries in the activity log
+  lastActiveAt?: number;               // latest activity entry or task change
+  trend: AgentTrendPoint[];
+}
+
+export interface AgentTrendPoint {
+  key: string;                         // week start, "2026-10-12"
+  label: string;                       // "Oct 12"
+  completed: number;
+  rejected: number;
+  medianHours: number | null;
+}
+
+export const TREND_WEEKS = 8;
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============ TASKS ============
+
+// Status changes oldest first, synthesized for tasks without a history
+export function statusChanges(task: Task): TaskStatusChange[] {
+  if (task.statusHistory?.length) return task.statusHistory;
+  return [
+    { status: 'pending', at: task.createdAt },
+    ...(task.status === 'completed' && task.completedAt ? [{ status: 'completed' as const, at: task.completedAt }] : []),
+  ];
+}
+
+export interface ReviewOutcome {
+  at: string;
+  accepted: boolean;
+}
+
+export function reviewOutcomes(task: Task): ReviewOutcome[] {
+  const changes = statusChanges(task);
+  return changes.slice(1).flatMap((change, i) =>
+    changes[i].status === 'review' && change.status !== 'review'
+      ? [{ at: change.at, accepted: change.status === 'completed' }]
+      : []
+  );
+}
+
+function hoursToComplete(task: Task): number | null {
+  if (task.status !== 'completed' || !task.completedAt) return null;
+  const hours = (new Date(task.completedAt).getTime() - new Date(task.createdAt).getTime()) / HOUR_MS;
+  return Number.isFinite(hours) && hours >= 0 ? hours : null;
+}
+
+export function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const PRIORITY_RANK: Record<Task['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// In progress before review before pending, then by priority and due date
+const STATUS_RANK: Record<Task['status'], number> = { in_progress: 0, review: 1, pending: 2, completed: 3 };
+const byFocus = (a: Task, b: Task) =>
+  STATUS_RANK[a.status] - STATUS_RANK[b.status]
+  || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+  || compareDue(a, b);
+
+// ============ TRENDS ============
+
+// Monday of the week `time` falls in, local time
+function weekStart(time: number): Date {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function weeklyTrend(tasks: Task[], now: number, weeks = TREND_WEEKS): AgentTrendPoint[] {
+  const first = weekStart(now - (weeks - 1) * 7 * DAY_MS);
+  const points = Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(first);
+    start.setDate(first.getDate() + i * 7);
+    return {
+      start: start.getTime(),
+      point: { key: dayKey(start), label: start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }), completed: 0, rejected: 0, medianHours: null } as AgentTrendPoint,
+      hours: [] as number[],
+    };
+  });
+  const bucketOf = (iso: string) => {
+    const time = new Date(iso).getTime();
+    for (let i = points.length - 1; i >= 0; i--) if (time >= points[i].start) return points[i];
+    return undefined;
+  };
+
+  for (const task of tasks) {
+    const hours = hoursToComplete(task);
+    const done = task.completedAt ? bucketOf(task.completedAt) : undefined;
+    if (done && hours !== null) {
+      done.point.completed++;
+      done.hours.push(hours);
+    }
+    for (const outcome of reviewOutcomes(task)) {
+      const bucket = bucketOf(outcome.at);
+      if (bucket && !outcome.accepted) bucket.point.rejected++;
+    }
+  }
+  return points.map(({ point, hours }) => ({ ...point, medianHours: median(hours) }));
+}
+
+// ============ STATS ============
+
+export function computeAgentStats(agent: Agent, tasks: Task[], activity: ActivityItem[], now = Date.now()): AgentStats {
+  const assigned = tasks.filter(t => t.assignedTo === agent.id);
+  const open = assigned.filter(t => t.status !== 'completed');
+  const outcomes = assigned.map(reviewOutcomes);
+  const reviews = outcomes.flat();
+  const rejected = reviews.filter(o => !o.accepted).length;
+  const entries = activity.filter(a => isAgentActivity(a, agent));
+  const changeTimes = assigned.flatMap(t => statusChanges(t).slice(1).map(c => new Date(c.at).getTime()));
+  const activeTimes = [...entries.map(a => activityTime(a, now)), ...changeTimes].filter(t => Number.isFinite(t));
+
+  return {
+    agentId: agent.id,
+    completed: assigned.filter(t => t.status === 'completed').length,
+    failed: outcomes.filter(o => o.some(r => !r.accepted)).length,
+    reviews: reviews.length,
+    rejectionRate: reviews.length ? rejected / reviews.length : null,
+    medianHoursToComplete: median(assigned.map(hoursToComplete).filter((h): h is number => h !== null)),
+    load: open.length,
+    inProgress: open.filter(t => t.status === 'in_progress').length,
+    currentTask: [...open].sort(byFocus)[0],
+    alerts: entries.filter(a => a.type === 'alert').length,
+    lastActiveAt: activeTimes.length ? Math.max(...activeTimes) : undefined,
+    trend: weeklyTrend(assigned, now),
+  };
+}
+
+export function computeAllAgentStats(agents: Agent[], tasks: Task[], activity: ActivityItem[], now = Date.now()): Record<string, AgentStats> {
+  return Object.fromEntries(agents.map(a => [a.id, computeAgentStats(a, tasks, activity, now)]));
+}
+
+// Agents with their computed counters in place of the row's placeholders;
+// the row's own currentTask stays when nothing is assigned
+export function applyAgentStats(agents: Agent[], stats: Record<string, AgentStats>): Agent[] {
+  return agents.map(agent => {
+    const s = stats[agent.id];
+    if (!s) return agent;
+    return { ...agent, tasksCompleted: s.completed, currentTask: s.currentTask?.title ?? agent.currentTask };
+  });
+}
+
+// ============ SORTING ============
+
+export type AgentSortField = 'name' | 'completed' | 'failed' | 'speed' | 'rejection' | 'load' | 'active';
+
+// `dir` is where clicking a sort starts: most completed first, fastest first
+export const AGENT_SORTS: { field: AgentSortField; label: string; dir: 'asc' | 'desc'; value: (agent: Agent, stats?: AgentStats) => number | string | null }[] = [
+  { field: 'name', label: 'Name', dir: 'asc', value: (agent) => agent.name.toLowerCase() },
+  { field: 'completed', label: 'Completed', dir: 'desc', value: (_, s) => s?.completed ?? null },
+  { field: 'failed', label: 'Failed', dir: 'desc', value: (_, s) => s?.failed ?? null },
+  { field: 'speed', label: 'Speed', dir: 'asc', value: (_, s) => s?.medianHoursToComplete ?? null },
+  { field: 'rejection', label: 'Rejections', dir: 'desc', value: (_, s) => s?.rejectionRate ?? null },
+  { field: 'load', label: 'Load', dir: 'desc', value: (_, s) => s?.load ?? null },
+  { field: 'active', label: 'Last active', dir: 'desc', value: (_, s) => s?.lastActiveAt ?? null },
+];
+
+export const agentSort = (field: string | undefined) => AGENT_SORTS.find(s => s.field === field) ?? AGENT_SORTS[0];
+
+// Agents without a value for the metric always go last, then by name
+export function sortAgents(agents: Agent[], stats: Record<string, AgentStats>, field: AgentSortField, dir: 'asc' | 'desc'): Agent[] {
+  const sort = agentSort(field);
+  return [...agents].sort((a, b) => {
+    const va = sort.value(a, stats[a.id]);
+    const vb = sort.value(b, stats[b.id]);
+    if (va === null || vb === null) return va === vb ? a.name.localeCompare(b.name) : va === null ? 1 : -1;
+    const cmp = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+    return (dir === 'desc' ? -cmp : cmp) || a.name.localeCompare(b.name);
+  });
+}
+
+// ============ FORMATTING ============
+
+// 5.5 → "5.5h", 50 → "2.1d"
+export function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+}
+
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+export function formatLastActive(time: number | undefined, now = Date.now()): string {
+  if (time === undefined) return 'never';
+  const mins = Math.floor((now - time) / 60_000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  if (mins < 24 * 60) return `${Math.floor(mins / 60)}h ago`;
+  return `${Math.floor(mins / (24 * 60))}d ago`;
+}
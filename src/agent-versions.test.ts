@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { appendVersion, changedFields, configOf, diffLines, restoreUpdates, versionList } from './agent-versions';
+import { agent } from './test/factories';
+import type { Agent } from './types';
+
+const AT = '2026-10-18T09:00:00.000Z';
+const sage = agent({ name: 'Sage', systemPrompt: 'Write posts.', toolAccess: ['web_search'] });
+
+// The agent after `appendVersion`, as the server would return it
+const withVersions = (base: Agent, versions: Agent['versions']): Agent => {
+  const latest = versions![versions!.length - 1];
+  return { ...base, systemPrompt: latest.systemPrompt, name: latest.functionalName, toolAccess: latest.toolAccess, versions };
+};
+
+describe('changedFields', () => {
+  it('compares tool access in order and the other fields as text', () => {
+    const config = configOf(sage);
+    expect(changedFields(config, { ...config })).toEqual([]);
+    expect(changedFields(config, { ...config, functionalName: 'Scribe', toolAccess: ['web_search', 'email'] })).toEqual(['functionalName', 'toolAccess']);
+  });
+});
+
+describe('appendVersion', () => {
+  it('records the original as version 1 on the first change', () => {
+    const versions = appendVersion(sage, { system_prompt: 'Write short posts.' }, '  tighter  ', AT);
+    expect(versions).toEqual([
+      { version: 1, systemPrompt: 'Write posts.', functionalName: 'Sage', toolAccess: ['web_search'], at: AT },
+      { version: 2, systemPrompt: 'Write short posts.', functionalName: 'Sage', toolAccess: ['web_search'], note: 'tighter', at: AT },
+    ]);
+  });
+
+  it('leaves the history alone when nothing versioned changes', () => {
+    expect(appendVersion(sage, { system_prompt: 'Write posts.', tool_access: ['web_search'] }, 'no-op', AT)).toEqual([]);
+  });
+
+  it('restores an old version as a new one', () => {
+    const v2 = withVersions(sage, appendVersion(sage, { functional_name: 'Scribe', tool_access: [] }, undefined, AT));
+    const v3 = withVersions(v2, appendVersion(v2, restoreUpdates(v2.versions![0]), 'Restored v1', AT));
+
+    expect(v3.versions!.map(v => v.version)).toEqual([1, 2, 3]);
+    expect(configOf(v3)).toEqual(configOf(sage));
+    expect(versionList(v3).map(v => [v.version, v.note])).toEqual([[3, 'Restored v1'], [2, undefined], [1, undefined]]);
+  });
+});
+
+describe('versionList', () => {
+  it('shows an agent that never changed as version 1', () => {
+    expect(versionList(sage)).toEqual([{ version: 1, ...configOf(sage), at: '' }]);
+  });
+});
+
+describe('diffLines', () => {
+  it('lines up unchanged lines and pairs removals with additions', () => {
+    const rows = diffLines('You are Sage.\nWrite posts.\nBe brief.', 'You are Sage.\nWrite long posts.\nBe brief.\nCite sources.');
+    expect(rows.map(r => [r.kind, r.left?.line, r.right?.line])).toEqual([
+      ['same', 1, 1],
+      ['changed', 2, 2],
+      ['same', 3, 3],
+      ['added', undefined, 4],
+    ]);
+    expect(rows[1]).toMatchObject({ left: { text: 'Write posts.' }, right: { text: 'Write long posts.' } });
+  });
+
+  it('keeps leftover removals once the additions are paired', () => {
+    expect(diffLines('a\nb\nc', 'x').map(r => r.kind)).toEqual(['changed', 'removed', 'removed']);
+    expect(diffLines('same', 'same').map(r => r.kind)).toEqual(['same']);
+  });
+});
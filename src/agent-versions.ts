@@ -0,0 +1,122 @@
+import type { Agent, AgentVersion } from './types';
+
+// Every change to an agent's system prompt, functional name or tool access
+// is kept as a version: the full configuration after the change plus a note
+// on why. The server appends them (the first change also records what the
+// agent looked like before it, as version 1); the app appends the same
+// versions optimistically. Restoring an old version is just another change,
+// so it can be undone the same way.
+
+export interface AgentConfig {
+  systemPrompt: string;
+  functionalName: string;
+  toolAccess: string[];
+}
+
+export interface AgentConfigUpdates {
+  system_prompt?: string;
+  functional_name?: string;
+  tool_access?: string[];
+}
+
+export const CONFIG_FIELDS: { key: keyof AgentConfig; label: string }[] = [
+  { key: 'systemPrompt', label: 'System prompt' },
+  { key: 'functionalName', label: 'Functional name' },
+  { key: 'toolAccess', label: 'Tool access' },
+];
+
+export const configOf = (agent: Agent): AgentConfig => ({
+  systemPrompt: agent.systemPrompt ?? agent.description,
+  functionalName: agent.name,
+  toolAccess: agent.toolAccess ?? [],
+});
+
+export function applyConfigUpdates(config: AgentConfig, updates: AgentConfigUpdates): AgentConfig {
+  return {
+    systemPrompt: updates.system_prompt ?? config.systemPrompt,
+    functionalName: updates.functional_name ?? config.functionalName,
+    toolAccess: updates.tool_access ?? config.toolAccess,
+  };
+}
+
+const sameTools = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => t === b[i]);
+
+// Fields that differ between two configurations
+export function changedFields(a: AgentConfig, b: AgentConfig): (keyof AgentConfig)[] {
+  return CONFIG_FIELDS
+    .map(f => f.key)
+    .filter(key => key === 'toolAccess' ? !sameTools(a.toolAccess, b.toolAccess) : a[key] !== b[key]);
+}
+
+// The history after `updates`; unchanged when they change nothing versioned
+export function appendVersion(agent: Agent, updates: AgentConfigUpdates, note: string | undefined, at: string): AgentVersion[] {
+  const before = configOf(agent);
+  const after = applyConfigUpdates(before, updates);
+  const versions = agent.versions ?? [];
+  if (!changedFields(before, after).length) return versions;
+  const base = versions.length ? versions : [{ version: 1, ...before, at }];
+  return [...base, { version: base[base.length - 1].version + 1, ...after, note: note?.trim() || undefined, at }];
+}
+
+// Newest first; an agent that has never changed shows its current config as v1
+export function versionList(agent: Agent): AgentVersion[] {
+  const versions = agent.versions?.length ? agent.versions : [{ version: 1, ...configOf(agent), at: '' }];
+  return [...versions].reverse();
+}
+
+export const restoreUpdates = (version: AgentVersion): AgentConfigUpdates => ({
+  system_prompt: version.systemPrompt,
+  functional_name: version.functionalName,
+  tool_access: version.toolAccess,
+});
+
+// ============ DIFF ============
+
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+// Side-by-side line diff (longest common subsequence). Removed lines followed
+// by added ones pair up as changed rows.
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ kind: 'changed', left: removed[k].left, right: added[k].right });
+    rows.push(...removed.slice(paired), ...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: { line: i + 1, text: a[i] }, right: { line: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push({ kind: 'removed', left: { line: i + 1, text: a[i] } });
+      i++;
+    } else {
+      added.push({ kind: 'added', right: { line: j + 1, text: b[j] } });
+      j++;
+    }
+  }
+  flush();
+  return rows;
+}
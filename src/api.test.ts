@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchMessages, parseSseEvent, setTransport, streamMessageFromCEA } from './api';
+
+afterEach(() => {
+  setTransport(null);
+  vi.unstubAllGlobals();
+});
+
+describe('fetchMessages', () => {
+  it('encodes the thread id into the query string', async () => {
+    let sent: URLSearchParams | undefined;
+    setTransport(async (_action, params) => {
+      sent = params;
+      return [];
+    });
+    await fetchMessages('local-1&limit=1 #x');
+    expect(sent?.get('thread_id')).toBe('local-1&limit=1 #x');
+    expect(sent?.has('limit')).toBe(false);
+  });
+});
+
+describe('parseSseEvent', () => {
+  it('reads the event name and its JSON data', () => {
+    expect(parseSseEvent('event: meta\ndata: {"thread_id":"t1"}')).toEqual({ type: 'meta', thread_id: 't1' });
+    expect(parseSseEvent('event: done\r\ndata: {}')).toEqual({ type: 'done' });
+    expect(parseSseEvent('event: error\ndata: {"error":"overloaded"}')).toEqual({ type: 'error', error: 'overloaded' });
+  });
+
+  it('treats unnamed and non-object data as delta text, joining data lines', () => {
+    expect(parseSseEvent('data: {"text":"Hi"}')).toEqual({ type: 'delta', text: 'Hi' });
+    expect(parseSseEvent('data: Two\ndata: lines')).toEqual({ type: 'delta', text: 'Two\nlines' });
+    expect(parseSseEvent('data: 42')).toEqual({ type: 'delta', text: '42' });
+  });
+
+  it('skips comments and keep-alives', () => {
+    expect(parseSseEvent(': ping')).toBeNull();
+    expect(parseSseEvent('event: delta')).toBeNull();
+  });
+
+  it('reports an event that doesn’t match its schema', () => {
+    expect(() => parseSseEvent('event: meta\ndata: {}')).toThrow(expect.objectContaining({ name: 'SchemaDriftError' }));
+  });
+});
+
+describe('streamMessageFromCEA over HTTP', () => {
+  // A response whose body arrives in the given chunks
+  const reply = (chunks: string[], headers: Record<string, string>) => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+        controller.close();
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers })));
+  };
+
+  const stream = async () => {
+    const deltas: string[] = [];
+    const result = await streamMessageFromCEA('Hello', undefined, { onDelta: text => deltas.push(text), signal: new AbortController().signal });
+    return { deltas, result };
+  };
+
+  it('parses server-sent events split across chunks', async () => {
+    reply([
+      'event: meta\ndata: {"thread_id":"t1"}\n\n: keep-alive\n\nevent: delta\ndata: {"text":"Hel',
+      'lo "}\n\ndata: there\r\n\r\n',
+      'event: done\ndata: {}',
+    ], { 'Content-Type': 'text/event-stream' });
+    expect(await stream()).toEqual({ deltas: ['Hello ', 'there'], result: { response: 'Hello there', thread_id: 't1' } });
+  });
+
+  it('turns an error event into an ApiError', async () => {
+    reply(['event: error\ndata: {"error":"overloaded"}\n\n'], { 'Content-Type': 'text/event-stream' });
+    await expect(stream()).rejects.toMatchObject({ name: 'ApiError', status: 502, body: 'overloaded' });
+  });
+
+  it('streams chunked text with the thread id from its header', async () => {
+    reply(['Hello ', 'there'], { 'Content-Type': 'text/plain; charset=utf-8', 'X-Thread-Id': 't2' });
+    expect(await stream()).toEqual({ deltas: ['Hello ', 'there'], result: { response: 'Hello there', thread_id: 't2' } });
+  });
+
+  it('takes a JSON reply from a server that doesn’t stream as a single delta', async () => {
+    reply([JSON.stringify({ response: 'Hello there', thread_id: 't3' })], { 'Content-Type': 'application/json' });
+    expect(await stream()).toEqual({ deltas: ['Hello there'], result: { response: 'Hello there', thread_id: 't3' } });
+  });
+});
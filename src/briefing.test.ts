@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { buildBriefing } from './briefing';
+import { agent } from './test/factories';
+
+const NOW = new Date(2026, 9, 18, 8, 0);
+const empty = { tasks: [], kpis: [], goals: [], projects: [] };
+
+describe('buildBriefing', () => {
+  it('dates the briefing by local day', () => {
+    expect(buildBriefing({ ...empty, agents: [] }, NOW).date).toBe('2026-10-18');
+  });
+
+  it('counts sub-agents without the CEA, whatever its id', () => {
+    const agents = [agent({ id: 'uuid-1', role: '@CEA' }), agent({ id: 'uuid-2' }), agent({ id: 'uuid-3' })];
+    const item = buildBriefing({ ...empty, agents }, NOW).items.find(i => i.kind === 'agent');
+    expect(item?.text).toBe('All 2 sub-agents are operational.');
+  });
+
+  it('names agents in error', () => {
+    const agents = [agent({ id: 'cea', role: 'Chief Executive Agent' }), agent({ name: 'Sage', status: 'error' })];
+    expect(buildBriefing({ ...empty, agents }, NOW).items.find(i => i.kind === 'agent')).toMatchObject({ tone: 'bad', text: 'Sage is reporting errors.' });
+  });
+});
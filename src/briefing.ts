@@ -0,0 +1,192 @@
+import type { Agent, Goal, KPI, Project, Task } from './types';
+import type { Route } from './router';
+import { compareDue, dueState } from './due-dates';
+import { goalQuarter, quarterOf } from './okrs';
+
+// The Dashboard's morning briefing, built from live state: Tiger's open and
+// overdue tasks, KPIs that moved, goals at risk, stalled projects and agents
+// in error. The first briefing of a day is kept for the rest of it (and in
+// the archive after that) so it reads like a morning report rather than a
+// live counter; the CEA can optionally rewrite the facts as prose.
+
+export interface BriefingItem {
+  kind: 'tasks' | 'overdue' | 'kpi' | 'goal' | 'project' | 'agent';
+  tone: 'good' | 'bad' | 'neutral';
+  text: string;
+  link?: Route;
+}
+
+export interface Briefing {
+  date: string;                // local day, "2026-10-18"
+  generatedAt: string;
+  greeting: string;
+  items: BriefingItem[];
+  narrative?: string;          // written by cea-brain from the items
+}
+
+const BRIEFINGS_STORAGE_KEY = 'cea-briefings-v1';
+const NARRATIVE_STORAGE_KEY = 'cea-briefing-narrative-v1';
+const ARCHIVE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60_000;
+
+// Projects with open work but no task created or finished in this long
+export const STALLED_AFTER_DAYS = 14;
+// KPIs that moved at least this much month over month
+const KPI_MOVER_PERCENT = 5;
+
+export function dayKey(date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// "Sunday, October 18, 2026"
+export function formatBriefingDate(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function greetingFor(date: Date): string {
+  const hour = date.getHours();
+  return `Good ${hour < 12 ? 'morning' : hour < 18 ? 'afternoon' : 'evening'}, Tiger.`;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Last time any task of the project was created or completed
+function lastProjectActivity(project: Project, tasks: Task[]): number {
+  const times = tasks
+    .filter(t => t.projectId === project.id)
+    .flatMap(t => [t.createdAt, t.completedAt])
+    .map(at => (at ? new Date(at).getTime() : NaN))
+    .filter(t => !Number.isNaN(t));
+  return times.length ? Math.max(...times) : new Date(project.createdAt).getTime();
+}
+
+export function stalledProjects(projects: Project[], tasks: Task[], now = Date.now()): Project[] {
+  return projects.filter(p =>
+    p.status === 'active'
+    && tasks.some(t => t.projectId === p.id && t.status !== 'completed')
+    && now - lastProjectActivity(p, tasks) > STALLED_AFTER_DAYS * DAY_MS
+  );
+}
+
+// ============ BUILDING ============
+
+// The CEA runs the others. Live agents carry their handle as the role; the
+// demo data has its title there instead.
+const isCEA = (agent: Agent) => agent.role === '@CEA' || agent.role === 'Chief Executive Agent';
+
+export function buildBriefing(
+  state: { tasks: Task[]; kpis: KPI[]; goals: Goal[]; projects: Project[]; agents: Agent[] },
+  date = new Date(),
+): Briefing {
+  const { tasks, kpis, goals, projects, agents } = state;
+  const now = date.getTime();
+  const items: BriefingItem[] = [];
+
+  const open = tasks
+    .filter(t => t.assignedTo === 'tiger' && t.status !== 'completed')
+    .sort(compareDue);
+  const overdue = tasks.filter(t => dueState(t, now) === 'overdue');
+  const overdueMine = overdue.filter(t => t.assignedTo === 'tiger');
+
+  items.push(open.length
+    ? { kind: 'tasks', tone: 'neutral', text: `${plural(open.length, 'task')} ${open.length === 1 ? 'needs' : 'need'} your personal touch${open[0].deadline ? ` — next up: ${open[0].title}` : ''}.`, link: { view: 'tasks', query: { filter: 'tiger' } } }
+    : { kind: 'tasks', tone: 'good', text: 'Nothing is waiting on you.', link: { view: 'tasks', query: { filter: 'tiger' } } });
+
+  if (overdue.length) {
+    const first = overdueMine[0] ?? overdue[0];
+    items.push({
+      kind: 'overdue',
+      tone: 'bad',
+      text: `${plural(overdue.length, 'task')} overdue${overdueMine.length ? ` (${overdueMine.length} yours)` : ''}, starting with “${first.title}”.`,
+      link: { view: 'tasks', id: first.id, query: {} },
+    });
+  }
+
+  kpis
+    .filter(k => Math.abs(k.change) >= KPI_MOVER_PERCENT)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, 3)
+    .forEach(k => items.push({
+      kind: 'kpi',
+      tone: k.trend === 'up' ? 'good' : k.trend === 'down' ? 'bad' : 'neutral',
+      text: `${k.label} is ${k.change > 0 ? 'up' : 'down'} ${Math.abs(k.change)}% this month, now ${k.value}.`,
+      link: { view: 'strategy', query: {} },
+    }));
+
+  const quarter = quarterOf(date);
+  goals
+    .filter(g => goalQuarter(g, quarter) === quarter && (g.status === 'at-risk' || g.status === 'behind'))
+    .forEach(g => items.push({
+      kind: 'goal',
+      tone: 'bad',
+      text: `Goal “${g.title}” is ${g.status === 'behind' ? 'behind' : 'at risk'} at ${g.progress}%.`,
+      link: { view: 'strategy', id: g.id, query: {} },
+    }));
+
+  stalledProjects(projects, tasks, now).forEach(p => items.push({
+    kind: 'project',
+    tone: 'bad',
+    text: `${p.shortCode || p.title} has had no task activity for over ${STALLED_AFTER_DAYS} days.`,
+    link: { view: 'project-detail', id: p.id, query: {} },
+  }));
+
+  const failing = agents.filter(a => a.status === 'error');
+  const subAgents = agents.filter(a => !isCEA(a));
+  items.push(failing.length
+    ? { kind: 'agent', tone: 'bad', text: `${failing.map(a => a.name).join(', ')} ${failing.length === 1 ? 'is' : 'are'} reporting errors.`, link: failing.length === 1 ? { view: 'agent-detail', id: failing[0].id, query: {} } : { view: 'agents', query: {} } }
+    : { kind: 'agent', tone: 'good', text: subAgents.length === 1 ? 'The sub-agent is operational.' : `All ${subAgents.length} sub-agents are operational.`, link: { view: 'agents', query: {} } });
+
+  return { date: dayKey(date), generatedAt: date.toISOString(), greeting: greetingFor(date), items };
+}
+
+// What cea-brain is asked to turn into prose
+export function narrativePrompt(briefing: Briefing): string {
+  return [
+    `Write Tiger's briefing for ${formatBriefingDate(briefing.date)} in two or three plain sentences, most urgent first.`,
+    'Use only these facts and do not add a greeting:',
+    ...briefing.items.map(i => `- ${i.text}`),
+  ].join('\n');
+}
+
+// ============ ARCHIVE ============
+
+// Newest first, one per day
+export function loadBriefings(): Briefing[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BRIEFINGS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Replaces that day's briefing and drops the oldest beyond ARCHIVE_DAYS
+export function saveBriefing(briefings: Briefing[], briefing: Briefing): Briefing[] {
+  const next = [briefing, ...briefings.filter(b => b.date !== briefing.date)]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, ARCHIVE_DAYS);
+  try {
+    localStorage.setItem(BRIEFINGS_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error('Briefing: could not persist archive:', e);
+  }
+  return next;
+}
+
+// Whether to ask cea-brain for the prose version
+export function loadNarrativeSetting(): boolean {
+  try {
+    return localStorage.getItem(NARRATIVE_STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+}
+
+export function saveNarrativeSetting(on: boolean) {
+  try {
+    localStorage.setItem(NARRATIVE_STORAGE_KEY, on ? 'on' : 'off');
+  } catch (e) {
+    console.error('Briefing: could not persist setting:', e);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseReply, resolveAction } from './chat-actions';
+import { agent, project } from './test/factories';
+
+const block = (body: string) => '```cea-action\n' + body + '\n```';
+
+describe('parseReply', () => {
+  it('pulls actions out of the text, one per array entry', () => {
+    const reply = parseReply([
+      'Three things:',
+      block(JSON.stringify([{ type: 'create_task', title: 'Sign off on pricing' }, { type: 'create_goal', title: 'Ship v2' }])),
+      'Want these?',
+    ].join('\n\n'), 'thread-1');
+
+    expect(reply.text).toBe('Three things:\n\nWant these?');
+    expect(reply.actions.map(a => a.action)).toEqual([
+      { type: 'create_task', title: 'Sign off on pricing' },
+      { type: 'create_goal', title: 'Ship v2' },
+    ]);
+    expect(reply).toMatchObject({ invalid: 0, pending: false });
+  });
+
+  it('counts broken JSON and unknown actions as invalid', () => {
+    const reply = parseReply([
+      block('{"type": "create_task",'),
+      block(JSON.stringify([{ type: 'launch_rocket' }, { type: 'create_task', title: '' }, { type: 'spawn_agent', name: 'Scout', role: 'Research' }])),
+    ].join('\n'));
+
+    expect(reply.text).toBe('');
+    expect(reply.actions.map(a => a.action.type)).toEqual(['spawn_agent']);
+    expect(reply.invalid).toBe(3);
+  });
+
+  it('hides a block that is still streaming in', () => {
+    const reply = parseReply('On it.\n```cea-action\n{"type": "create_ta');
+    expect(reply).toEqual({ text: 'On it.', actions: [], invalid: 0, pending: true });
+  });
+
+  it('keys proposals by thread and content, keeping repeats apart', () => {
+    const content = block(JSON.stringify({ type: 'create_task', title: 'Call the venue' })).repeat(2);
+    const [first, second] = parseReply(content, 'thread-1').actions;
+
+    expect(first.key).toMatch(/^thread-1:/);
+    expect(second.key).toBe(`${first.key}-1`);
+    expect(parseReply(content, 'thread-1').actions[0].key).toBe(first.key);
+    expect(parseReply(content, 'thread-2').actions[0].key).not.toBe(first.key);
+  });
+});
+
+describe('resolveAction', () => {
+  const agents = [agent({ id: 'sage', name: 'Sage', role: '@Editor_in_Chief' }), agent({ id: 'atlas', name: 'Atlas', role: '@Automation' })];
+  const projects = [project({ id: 'mira', shortCode: 'MIRA' })];
+
+  it('finds agents by id, name or role and projects by id or short code', () => {
+    expect(resolveAction({ type: 'create_task', title: 'a', assignee: 'sage', project: 'mira' }, agents, projects))
+      .toMatchObject({ assignee: 'sage', project: 'mira' });
+    expect(resolveAction({ type: 'create_task', title: 'a', assignee: 'atlas', project: 'Mira' }, agents, projects))
+      .toMatchObject({ assignee: 'atlas', project: 'mira' });
+    expect(resolveAction({ type: 'create_goal', title: 'a', owner: 'SAGE' }, agents, projects)).toMatchObject({ owner: 'sage' });
+    expect(resolveAction({ type: 'create_directive', title: 'a', content: 'b', target_agent: '@editor_in_chief' }, agents, projects))
+      .toMatchObject({ target_agent: 'sage' });
+  });
+
+  it('gives unknown assignees to Tiger and drops other unknown references', () => {
+    expect(resolveAction({ type: 'create_task', title: 'a', assignee: 'Nobody', project: 'NOPE' }, agents, projects))
+      .toEqual({ type: 'create_task', title: 'a', assignee: 'tiger', project: undefined });
+    expect(resolveAction({ type: 'create_task', title: 'a' }, agents, projects)).toMatchObject({ assignee: 'tiger' });
+    expect(resolveAction({ type: 'create_goal', title: 'a', owner: 'Nobody' }, agents, projects)).toEqual({ type: 'create_goal', title: 'a', owner: undefined });
+  });
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import type { Agent, Project } from './types';
+
+// Actions the CEA can propose inside a reply, as fenced blocks:
+//
+//   ```cea-action
+//   {"type": "create_task", "title": "Sign off on pricing", "priority": "high", "due": "2026-10-20"}
+//   ```
+//
+// A block holds one action or an array of them. ChatInterface strips the
+// blocks from the rendered text and shows each action as a card that Tiger
+// can accept (optionally after editing) or reject. Agents and projects may be
+// referenced by id, name/short code; `resolveAction` turns them into ids.
+
+const priority = z.enum(['critical', 'high', 'medium', 'low']);
+
+export const ChatActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('create_task'),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    priority: priority.optional(),
+    assignee: z.string().optional(),     // agent or 'tiger' (default)
+    project: z.string().optional(),
+    due: z.string().optional(),          // YYYY-MM-DD
+  }),
+  z.object({
+    type: z.literal('create_goal'),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    owner: z.string().optional(),        // agent
+    target_date: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('create_directive'),
+    title: z.string().min(1),
+    content: z.string().min(1),
+    directive_type: z.string().optional(),
+    target_agent: z.string().optional(),
+    priority: priority.optional(),
+  }),
+  z.object({
+    type: z.literal('spawn_agent'),
+    name: z.string().min(1),
+    role: z.string().min(1),
+    description: z.string().optional(),
+    emoji: z.string().optional(),
+  }),
+]);
+
+export type ChatAction = z.output<typeof ChatActionSchema>;
+
+export const ACTION_LABELS: Record<ChatAction['type'], { label: string; icon: string }> = {
+  create_task: { label: 'Create task', icon: '☐' },
+  create_goal: { label: 'Create goal', icon: '△' },
+  create_directive: { label: 'Issue directive', icon: '➤' },
+  spawn_agent: { label: 'Spawn agent', icon: '✦' },
+};
+
+// ============ PARSING ============
+
+export interface ProposedAction {
+  key: string;          // stable across reloads: thread + block content
+  action: ChatAction;
+}
+
+export interface ParsedReply {
+  text: string;         // the reply without its action blocks
+  actions: ProposedAction[];
+  invalid: number;      // entries that weren't valid JSON or a known action
+  pending: boolean;     // an action block is still streaming in
+}
+
+const ACTION_BLOCK = /```cea-action[^\n]*\n([\s\S]*?)```/g;
+const UNTERMINATED_BLOCK = /```cea-action[\s\S]*$/;
+
+// Short non-cryptographic hash (djb2) for decision keys
+function hash(value: string): string {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) h = ((h << 5) + h + value.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+export function parseReply(content: string, threadId = ''): ParsedReply {
+  const actions: ProposedAction[] = [];
+  const seen = new Map<string, number>();
+  let invalid = 0;
+
+  let text = content.replace(ACTION_BLOCK, (_m, body: string) => {
+    let entries: unknown[];
+    try {
+      const parsed: unknown = JSON.parse(body);
+      entries = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      invalid++;
+      return '';
+    }
+    for (const entry of entries) {
+      const result = ChatActionSchema.safeParse(entry);
+      if (!result.success) {
+        invalid++;
+        continue;
+      }
+      // Identical proposals in one thread still get their own key
+      const base = `${threadId}:${hash(JSON.stringify(result.data))}`;
+      const count = seen.get(base) ?? 0;
+      seen.set(base, count + 1);
+      actions.push({ key: count ? `${base}-${count}` : base, action: result.data });
+    }
+    return '';
+  });
+
+  const pending = UNTERMINATED_BLOCK.test(text);
+  if (pending) text = text.replace(UNTERMINATED_BLOCK, '');
+  return { text: text.replace(/\n{3,}/g, '\n\n').trim(), actions, invalid, pending };
+}
+
+// ============ REFERENCES ============
+
+export function findAgent(ref: string | undefined, agents: Agent[]): Agent | undefined {
+  if (!ref) return undefined;
+  const needle = ref.replace(/^@/, '').replace(/_/g, ' ').toLowerCase();
+  return agents.find(a => a.id === ref)
+    ?? agents.find(a => a.name.toLowerCase() === needle || a.role.replace(/^@/, '').replace(/_/g, ' ').toLowerCase() === needle);
+}
+
+export function findProject(ref: string | undefined, projects: Project[]): Project | undefined {
+  if (!ref) return undefined;
+  const needle = ref.toLowerCase();
+  return projects.find(p => p.id === ref) ?? projects.find(p => p.shortCode.toLowerCase() === needle);
+}
+
+// References → ids; anything that doesn't match is dropped (Tiger for assignees)
+export function resolveAction(action: ChatAction, agents: Agent[], projects: Project[]): ChatAction {
+  switch (action.type) {
+    case 'create_task':
+      return {
+        ...action,
+        assignee: action.assignee?.toLowerCase() === 'tiger' ? 'tiger' : findAgent(action.assignee, agents)?.id ?? 'tiger',
+        project: findProject(action.project, projects)?.id,
+      };
+    case 'create_goal':
+      return { ...action, owner: findAgent(action.owner, agents)?.id };
+    case 'create_directive':
+      return { ...action, target_agent: findAgent(action.target_agent, agents)?.id };
+    case 'spawn_agent':
+      return action;
+  }
+}
+
+// ============ DECISIONS ============
+
+export interface ActionDecision {
+  status: 'accepted' | 'rejected';
+  at: string;
+}
+
+const DECISIONS_STORAGE_KEY = 'cea-chat-actions-v1';
+
+// Which proposals were already accepted or rejected, so a card can't be
+// accepted twice after a reload
+export function loadDecisions(): Record<string, ActionDecision> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DECISIONS_STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDecisions(decisions: Record<string, ActionDecision>) {
+  try {
+    localStorage.setItem(DECISIONS_STORAGE_KEY, JSON.stringify(decisions));
+  } catch (e) {
+    console.error('Chat actions: could not persist decisions:', e);
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fuzzyScore, queryActions, rankItems, type PaletteItem } from './command-palette';
+import { API_SCHEMAS } from './schemas';
+
+const item = (key: string, label: string, keywords?: string): PaletteItem => ({ key, group: 'Tasks', label, keywords, icon: '', run: () => {} });
+
+describe('queryActions', () => {
+  it('creates a task for Tiger with the query as title and description', () => {
+    const onCreateTask = vi.fn();
+    const create = queryActions('Book the studio', { onCreateTask, onMessageCEA: vi.fn() }).find(a => a.key === 'run:create-task')!;
+    create.run();
+
+    const task = onCreateTask.mock.calls[0][0];
+    expect(task).toEqual({ title: 'Book the studio', description: 'Book the studio', priority: 'medium', assignedTo: 'tiger' });
+    expect(API_SCHEMAS['create-task'].request.safeParse({ description: task.description, priority: 3 }).success).toBe(true);
+  });
+
+  it('asks the CEA with the query', () => {
+    const onMessageCEA = vi.fn();
+    queryActions('What’s next?', { onCreateTask: vi.fn(), onMessageCEA }).find(a => a.key === 'run:message-cea')!.run();
+    expect(onMessageCEA).toHaveBeenCalledWith('What’s next?');
+  });
+});
+
+describe('fuzzyScore', () => {
+  it('needs every word’s letters in order, in the label or the keywords', () => {
+    expect(fuzzyScore('lnch vid', item('a', 'Launch video'))).not.toBeNull();
+    expect(fuzzyScore('vid lnch', item('a', 'Launch video'))).not.toBeNull();
+    expect(fuzzyScore('mira', item('a', 'Launch video', 'MIRA sage'))).not.toBeNull();
+    expect(fuzzyScore('hcnual', item('a', 'Launch video'))).toBeNull();
+  });
+});
+
+describe('rankItems', () => {
+  it('ranks prefixes over scattered letters and lets recent picks break near-ties', () => {
+    const items = [item('a', 'Write launch post'), item('b', 'Launch video'), item('c', 'Launch plan')];
+    expect(rankItems(items, 'launch', {}).map(r => r.item.key).slice(0, 1)).toEqual(['b']);
+    expect(rankItems(items, 'launch', { c: Date.now() }).map(r => r.item.key)[0]).toBe('c');
+  });
+});
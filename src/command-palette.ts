@@ -0,0 +1,147 @@
+// Cmd+K searches every task, project, agent, goal and idea, plus a few
+// actions. Matching is fuzzy (the query's letters in order, not necessarily
+// adjacent); among matches, what was picked from the palette lately comes
+// first, then what changed lately.
+
+export type PaletteGroup = 'Actions' | 'Tasks' | 'Projects' | 'Agents' | 'Goals' | 'Ideas' | 'Views';
+
+export interface PaletteItem {
+  key: string;              // "task:<id>", "view:strategy", "action:create-task" — also the recency key
+  group: PaletteGroup;
+  label: string;
+  detail?: string;
+  icon: string;
+  keywords?: string;        // searched along with the label
+  updatedAt?: string;       // when the record last changed, for ranking
+  run: () => void;
+}
+
+export interface RankedItem {
+  item: PaletteItem;
+  score: number;
+}
+
+const RECENT_STORAGE_KEY = 'cea-palette-recent-v1';
+const RECENT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60_000;
+
+// ============ ACTIONS ============
+
+// "Create task" with the query as the task. It is the description too, as in
+// TaskBoard's quick add: create-task needs a non-empty one.
+export function quickTask(title: string) {
+  return { title, description: title, priority: 'medium' as const, assignedTo: 'tiger' };
+}
+
+export type QuickTask = ReturnType<typeof quickTask>;
+
+// What can be done with the query itself, under "Run": file it as a task for
+// Tiger, or ask the CEA
+export function queryActions(query: string, handlers: {
+  onCreateTask: (task: QuickTask) => void;
+  onMessageCEA: (content: string) => void;
+}): PaletteItem[] {
+  return [
+    { key: 'run:create-task', group: 'Actions', label: `Create task “${query}”`, icon: '+', run: () => handlers.onCreateTask(quickTask(query)) },
+    { key: 'run:message-cea', group: 'Actions', label: `Ask the CEA “${query}”`, icon: '◈', run: () => handlers.onMessageCEA(query) },
+  ];
+}
+
+// ============ RECENCY ============
+
+// Recency key → when it was last picked
+export function loadRecent(): Record<string, number> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function recordRecent(recent: Record<string, number>, key: string, at = Date.now()): Record<string, number> {
+  const next = Object.fromEntries(
+    Object.entries({ ...recent, [key]: at })
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, RECENT_LIMIT),
+  );
+  try {
+    localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error('Command palette: could not persist recent items:', e);
+  }
+  return next;
+}
+
+// Halves every `halfLifeDays`
+const decay = (ageMs: number, halfLifeDays: number) => Math.pow(0.5, Math.max(0, ageMs) / (halfLifeDays * DAY_MS));
+
+function recencyBoost(item: PaletteItem, recent: Record<string, number>, now: number): number {
+  const picked = recent[item.key];
+  const changed = item.updatedAt ? new Date(item.updatedAt).getTime() : NaN;
+  return (picked ? 10 + 20 * decay(now - picked, 3) : 0)
+    + (Number.isNaN(changed) ? 0 : 4 * decay(now - changed, 14));
+}
+
+// ============ MATCHING ============
+
+const isWordStart = (text: string, i: number) => i === 0 || !/[a-z0-9]/.test(text[i - 1]);
+
+// Score for one query word against the text, or null when its letters don't
+// all appear in order. Prefixes, whole substrings, word starts and runs of
+// adjacent letters score higher; gaps cost a little.
+function matchWord(word: string, text: string): number | null {
+  const at = text.indexOf(word);
+  if (at !== -1) return word.length * 3 + (isWordStart(text, at) ? 10 : 4) + (at === 0 ? 5 : 0);
+
+  let score = 0;
+  let from = 0;
+  let last = -1;
+  for (const ch of word) {
+    const i = text.indexOf(ch, from);
+    if (i === -1) return null;
+    score += 1;
+    if (i === last + 1) score += 2;
+    else if (isWordStart(text, i)) score += 2;
+    else score -= Math.min(2, (i - last - 1) * 0.1);
+    last = i;
+    from = i + 1;
+  }
+  return score;
+}
+
+// Every word of the query has to match the label or the keywords
+export function fuzzyScore(query: string, item: Pick<PaletteItem, 'label' | 'keywords'>): number | null {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return 0;
+  const label = item.label.toLowerCase();
+  const keywords = item.keywords?.toLowerCase() ?? '';
+  let total = 0;
+  for (const word of words) {
+    const inLabel = matchWord(word, label);
+    const inKeywords = keywords ? matchWord(word, keywords) : null;
+    if (inLabel === null && inKeywords === null) return null;
+    // Label hits count for more than keyword hits
+    total += Math.max(inLabel ?? -Infinity, (inKeywords ?? -Infinity) - 2);
+  }
+  return total;
+}
+
+// Matches, best first. Recency breaks near-ties rather than overriding a
+// clearly better match.
+export function rankItems(items: PaletteItem[], query: string, recent: Record<string, number>, now = Date.now()): RankedItem[] {
+  return items
+    .flatMap(item => {
+      const match = fuzzyScore(query, item);
+      return match === null ? [] : [{ item, score: match + recencyBoost(item, recent, now) * (query.trim() ? 0.5 : 1) }];
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// The last few picks that still exist, newest first
+export function recentItems(items: PaletteItem[], recent: Record<string, number>, count = 6): PaletteItem[] {
+  return items
+    .filter(item => recent[item.key])
+    .sort((a, b) => recent[b.key] - recent[a.key])
+    .slice(0, count);
+}
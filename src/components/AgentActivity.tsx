@@ -0,0 +1,133 @@
+import { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { ActivityItem, ActivityLink, Directive, Project, Task } from '../types';
+import type { Route } from '../router';
+import { ACTIVITY_TYPES, ActivityRef, ActivityType, activityRefs, groupByDay } from '../agent-activity';
+
+export interface AgentActivityFeed {
+  items: ActivityItem[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: boolean;
+  loadMore: () => void;
+}
+
+interface AgentActivityTimelineProps {
+  feed: AgentActivityFeed;
+  tasks: Task[];
+  projects: Project[];
+  directives: Directive[];
+  onNavigate: (route: Route) => void;
+  onOpenMessage?: (link: ActivityLink) => void;
+}
+
+const REF_ICON: Record<ActivityRef['kind'], string> = { task: '☰', project: '◫', directive: '➤' };
+
+const timeOf = (item: ActivityItem) => item.createdAt
+  ? new Date(item.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  : item.timestamp;
+
+// The agent's activity log, newest first and grouped by day, filterable by
+// entry type; older pages load on demand
+export function AgentActivityTimeline({ feed, tasks, projects, directives, onNavigate, onOpenMessage }: AgentActivityTimelineProps) {
+  const [typeFilter, setTypeFilter] = useState<ActivityType | null>(null);
+  const counts = useMemo(() => {
+    const byType: Partial<Record<ActivityType, number>> = {};
+    for (const item of feed.items) byType[item.type] = (byType[item.type] ?? 0) + 1;
+    return byType;
+  }, [feed.items]);
+  const days = useMemo(
+    () => groupByDay(typeFilter ? feed.items.filter(i => i.type === typeFilter) : feed.items),
+    [feed.items, typeFilter],
+  );
+
+  return (
+    <div>
+      {/* Type filter */}
+      <div className="flex flex-wrap gap-1 mb-4">
+        <button
+          onClick={() => setTypeFilter(null)}
+          className={cn('text-[11px] px-2.5 py-1 rounded-md transition-colors', !typeFilter ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300')}
+        >
+          All <span className="text-zinc-600 ml-0.5">{feed.items.length}</span>
+        </button>
+        {ACTIVITY_TYPES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTypeFilter(typeFilter === t.id ? null : t.id)}
+            className={cn('text-[11px] px-2.5 py-1 rounded-md transition-colors', typeFilter === t.id ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300')}
+          >
+            {t.label} <span className="text-zinc-600 ml-0.5">{counts[t.id] ?? 0}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Days */}
+      {days.length > 0 ? (
+        <div className="space-y-5">
+          {days.map(day => (
+            <div key={day.day}>
+              <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-2">{day.label}</div>
+              <div className="border-l border-zinc-800 ml-1 space-y-3">
+                {day.items.map(item => {
+                  const type = ACTIVITY_TYPES.find(t => t.id === item.type);
+                  const refs = activityRefs(item, { tasks, projects, directives });
+                  return (
+                    <div key={item.id} className="relative pl-4">
+                      <span className="absolute -left-[3px] top-1.5 w-1.5 h-1.5 rounded-full bg-zinc-600" />
+                      <div className="flex items-center gap-2">
+                        <span className={cn('text-[10px] px-1.5 py-0.5 rounded', type?.className)}>{item.action}</span>
+                        <span className="ml-auto text-[10px] text-zinc-600 whitespace-nowrap">{timeOf(item)}</span>
+                      </div>
+                      {item.detail && <p className="text-xs text-zinc-400 mt-1">{item.detail}</p>}
+                      {(refs.length > 0 || (item.link && onOpenMessage)) && (
+                        <div className="flex flex-wrap gap-1.5 mt-1.5">
+                          {refs.map(ref => (
+                            <button
+                              key={`${ref.kind}:${ref.id}`}
+                              onClick={() => onNavigate(ref.route)}
+                              className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800/70 text-zinc-500 hover:text-teal-400 transition-colors max-w-[16rem] truncate"
+                              title={`Open ${ref.kind}`}
+                            >
+                              {REF_ICON[ref.kind]} {ref.label}
+                            </button>
+                          ))}
+                          {item.link && onOpenMessage && (
+                            <button
+                              onClick={() => onOpenMessage(item.link!)}
+                              className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800/70 text-zinc-500 hover:text-amber-400 transition-colors"
+                            >
+                              💬 CEA reply
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : !feed.loading && (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 text-center">
+          <div className="text-3xl mb-2">📊</div>
+          <p className="text-sm text-zinc-500">{typeFilter ? 'No activity of this type yet' : 'No activity logged for this agent yet'}</p>
+        </div>
+      )}
+
+      <div className="mt-4 text-center">
+        {feed.loading || feed.loadingMore ? (
+          <span className="text-xs text-zinc-600">Loading activity…</span>
+        ) : feed.error ? (
+          <span className="text-xs text-red-400/80">Couldn't load older activity</span>
+        ) : feed.hasMore && (
+          <button onClick={feed.loadMore} className="text-xs text-teal-400/70 hover:text-teal-400 transition-colors">
+            Load older activity
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
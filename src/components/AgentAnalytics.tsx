@@ -0,0 +1,75 @@
+import { cn } from '@/lib/utils';
+import { AgentStats, AgentTrendPoint, formatHours, formatLastActive, formatRate } from '../agent-analytics';
+
+const tileClass = 'bg-zinc-900 border border-zinc-800 rounded-lg p-4';
+
+// Computed performance counters, as tiles for a grid
+export function AgentStatTiles({ stats }: { stats: AgentStats }) {
+  const tiles = [
+    { label: 'Tasks Completed', value: stats.completed.toLocaleString() },
+    { label: 'Failed Review', value: stats.failed.toLocaleString(), hint: 'Tasks sent back from review at least once' },
+    { label: 'Median Time to Complete', value: formatHours(stats.medianHoursToComplete), hint: 'Created → completed' },
+    { label: 'Review Rejection Rate', value: formatRate(stats.rejectionRate), hint: `${stats.reviews} review decision${stats.reviews === 1 ? '' : 's'}` },
+    { label: 'Current Load', value: `${stats.load}`, hint: `${stats.inProgress} in progress` },
+    { label: 'Alerts', value: stats.alerts.toLocaleString(), hint: `Last active ${formatLastActive(stats.lastActiveAt)}` },
+  ];
+  return (
+    <>
+      {tiles.map(tile => (
+        <div key={tile.label} className={tileClass} title={tile.hint}>
+          <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">{tile.label}</div>
+          <div className="text-lg font-semibold text-zinc-200">{tile.value}</div>
+          {tile.hint && <div className="text-[10px] text-zinc-600 mt-0.5 truncate">{tile.hint}</div>}
+        </div>
+      ))}
+    </>
+  );
+}
+
+// One metric per week as bars, the current week highlighted
+function TrendBars({ points, value, format, barClass }: {
+  points: AgentTrendPoint[];
+  value: (point: AgentTrendPoint) => number | null;
+  format: (value: number) => string;
+  barClass: string;
+}) {
+  const values = points.map(value);
+  const max = Math.max(...values.map(v => v ?? 0)) || 1;
+  return (
+    <div className="flex items-end gap-1.5 h-28">
+      {points.map((point, i) => {
+        const v = values[i];
+        return (
+          <div key={point.key} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+            <span className="text-[9px] text-zinc-500 mb-1 truncate max-w-full">{v !== null && v > 0 ? format(v) : ''}</span>
+            <div
+              className={cn('w-full transition-all duration-500', i === points.length - 1 ? barClass : 'bg-zinc-700')}
+              style={{ height: `${v ? Math.max(4, (v / max) * 75) : 0}%` }}
+              title={`Week of ${point.label}: ${v !== null ? format(v) : 'none'}`}
+            />
+            <span className="text-[9px] text-zinc-600 mt-1 whitespace-nowrap">{point.label}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Week-by-week charts for AgentDetail
+export function AgentTrends({ stats }: { stats: AgentStats }) {
+  const charts = [
+    { title: 'Completed per week', value: (p: AgentTrendPoint) => p.completed, format: (v: number) => `${v}`, barClass: 'bg-emerald-500/70' },
+    { title: 'Median time to complete', value: (p: AgentTrendPoint) => p.medianHours, format: formatHours, barClass: 'bg-teal-500/70' },
+    { title: 'Rejected in review', value: (p: AgentTrendPoint) => p.rejected, format: (v: number) => `${v}`, barClass: 'bg-red-500/60' },
+  ];
+  return (
+    <div className="space-y-3">
+      {charts.map(chart => (
+        <div key={chart.title} className={tileClass}>
+          <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-3">{chart.title}</div>
+          <TrendBars points={stats.trend} value={chart.value} format={chart.format} barClass={chart.barClass} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,40 +1,55 @@
 import { useState } from 'react';
-import type { Agent } from '../types';
+import type { ActivityLink, Agent, Directive, Project, Task, ToolDefinition } from '../types';
+import type { Route } from '../router';
 import { cn } from '@/lib/utils';
+import { AgentActivityFeed, AgentActivityTimeline } from './AgentActivity';
+import { AgentStatTiles, AgentTrends } from './AgentAnalytics';
+import { AgentVersionHistory } from './AgentVersions';
+import { ToolAccessEditor } from './ToolAccessEditor';
+import type { AgentStats } from '../agent-analytics';
+import { AgentConfigUpdates, configOf } from '../agent-versions';
+import { catalogTool, toolRisk } from '../tool-catalog';
 
 interface AgentDetailProps {
     agent: Agent;
     onBack: () => void;
-    onUpdateAgent: (agentId: string, updates: { system_prompt?: string; functional_name?: string; tool_access?: string[]; is_active?: boolean }) => void;
+    onUpdateAgent: (agentId: string, updates: { system_prompt?: string; functional_name?: string; tool_access?: string[]; is_active?: boolean; note?: string }) => void;
+    versioning?: boolean;   // the backend keeps versions; off hides history and notes
+    onDiscuss?: () => void;
+    stats?: AgentStats;
+    activity: AgentActivityFeed;
+    tasks: Task[];
+    projects: Project[];
+    directives: Directive[];
+    tools: ToolDefinition[];
+    onNavigate: (route: Route) => void;
+    onOpenMessage?: (link: ActivityLink) => void;
 }
 
 type TabType = 'identity' | 'brain' | 'tools' | 'activity';
 
-export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps) {
+export function AgentDetail({ agent, onBack, onUpdateAgent, versioning = true, onDiscuss, stats, activity, tasks, projects, directives, tools, onNavigate, onOpenMessage }: AgentDetailProps) {
     const [activeTab, setActiveTab] = useState<TabType>('identity');
     const [editingField, setEditingField] = useState<string | null>(null);
     const [editValue, setEditValue] = useState('');
+    const [editNote, setEditNote] = useState('');
     const [isSaving, setIsSaving] = useState(false);
 
     const startEdit = (field: string, value: string) => {
         setEditingField(field);
         setEditValue(value);
+        setEditNote('');
     };
 
     const cancelEdit = () => {
         setEditingField(null);
         setEditValue('');
+        setEditNote('');
     };
 
-    const saveEdit = async (field: string) => {
+    const save = async (updates: AgentConfigUpdates & { note?: string }) => {
         setIsSaving(true);
         try {
-            const updates: Record<string, any> = {};
-            if (field === 'functional_name') updates.functional_name = editValue;
-            if (field === 'system_prompt') updates.system_prompt = editValue;
-            if (field === 'tool_access') {
-                updates.tool_access = editValue.split('\n').map(s => s.trim()).filter(Boolean);
-            }
             await onUpdateAgent(agent.id, updates);
             cancelEdit();
         } finally {
@@ -42,6 +57,15 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
         }
     };
 
+    const saveEdit = (field: string) => {
+        const updates: AgentConfigUpdates & { note?: string } = { note: editNote.trim() || undefined };
+        if (field === 'functional_name') updates.functional_name = editValue;
+        if (field === 'system_prompt') updates.system_prompt = editValue;
+        return save(updates);
+    };
+
+    const config = configOf(agent);
+
     const tabs: { key: TabType; label: string; icon: string }[] = [
         { key: 'identity', label: 'Identity', icon: '🪪' },
         { key: 'brain', label: 'Brain', icon: '🧠' },
@@ -95,6 +119,15 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                             </div>
                         )}
                     </div>
+                    {onDiscuss && (
+                        <button
+                            onClick={onDiscuss}
+                            className="text-xs px-3 py-1.5 rounded-md border border-zinc-700 text-zinc-400 hover:text-amber-400 hover:border-amber-500/30 transition-all"
+                            title={`Start a conversation with the CEA about ${agent.name}`}
+                        >
+                            🧠 Discuss with CEA
+                        </button>
+                    )}
                     <button
                         onClick={() => onUpdateAgent(agent.id, { is_active: agent.status === 'idle' })}
                         className={cn(
@@ -136,19 +169,21 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                         <section>
                             <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Basic Information</h2>
                             <div className="bg-zinc-900 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
-                                <InfoRow label="Display Name" value={agent.name} />
                                 <InfoRow
                                     label="Functional Name"
-                                    value={agent.role}
+                                    value={agent.name}
                                     editable
                                     isEditing={editingField === 'functional_name'}
                                     editValue={editValue}
-                                    onEdit={() => startEdit('functional_name', agent.role)}
+                                    onEdit={() => startEdit('functional_name', agent.name)}
                                     onEditChange={setEditValue}
+                                    noteValue={editNote}
+                                    onNoteChange={versioning ? setEditNote : undefined}
                                     onSave={() => saveEdit('functional_name')}
                                     onCancel={cancelEdit}
                                     isSaving={isSaving}
                                 />
+                                <InfoRow label="Handle" value={agent.role} mono />
                                 <InfoRow label="Agent ID" value={agent.id} mono />
                                 <InfoRow label="Status" value={agent.status} />
                                 <InfoRow label="Uptime" value={agent.uptime} />
@@ -177,10 +212,12 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                                         </div>
                                     </div>
                                 ))}
-                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-                                    <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">Tasks Completed</div>
-                                    <div className="text-lg font-semibold text-zinc-200">{agent.tasksCompleted}</div>
-                                </div>
+                                {stats ? <AgentStatTiles stats={stats} /> : (
+                                    <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+                                        <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">Tasks Completed</div>
+                                        <div className="text-lg font-semibold text-zinc-200">{agent.tasksCompleted}</div>
+                                    </div>
+                                )}
                             </div>
                         </section>
                     </div>
@@ -193,7 +230,7 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                                 <h2 className="text-xs uppercase tracking-wider text-zinc-600">System Prompt</h2>
                                 {editingField !== 'system_prompt' && (
                                     <button
-                                        onClick={() => startEdit('system_prompt', agent.description)}
+                                        onClick={() => startEdit('system_prompt', config.systemPrompt)}
                                         className="text-xs text-teal-400/70 hover:text-teal-400 transition-colors flex items-center gap-1"
                                     >
                                         <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -212,6 +249,7 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                                         autoFocus
                                     />
                                     <div className="flex items-center gap-2 justify-end">
+                                        {versioning && <NoteInput value={editNote} onChange={setEditNote} />}
                                         <button
                                             onClick={cancelEdit}
                                             className="text-xs text-zinc-500 hover:text-zinc-300 px-3 py-1.5 rounded-md transition-colors"
@@ -228,8 +266,8 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                                     </div>
                                 </div>
                             ) : (
-                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 cursor-pointer hover:border-zinc-700 transition-colors" onClick={() => startEdit('system_prompt', agent.description)}>
-                                    <pre className="text-sm text-zinc-300 whitespace-pre-wrap font-mono leading-relaxed">{agent.description}</pre>
+                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 cursor-pointer hover:border-zinc-700 transition-colors" onClick={() => startEdit('system_prompt', config.systemPrompt)}>
+                                    <pre className="text-sm text-zinc-300 whitespace-pre-wrap font-mono leading-relaxed">{config.systemPrompt || <span className="text-zinc-600 italic">No system prompt</span>}</pre>
                                     <div className="mt-3 text-[10px] text-zinc-600 flex items-center gap-1">
                                         <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                                             <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
@@ -240,6 +278,21 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                             )}
                         </section>
 
+                        <section>
+                            <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Version History</h2>
+                            {versioning ? (
+                                <AgentVersionHistory
+                                    agent={agent}
+                                    tools={tools}
+                                    onRestore={(updates, note) => onUpdateAgent(agent.id, { ...updates, note })}
+                                />
+                            ) : (
+                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 text-sm text-zinc-500 italic">
+                                    The live API doesn't keep agent versions yet. Switch to the local backend to use version history.
+                                </div>
+                            )}
+                        </section>
+
                         <section>
                             <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Behavioral Notes</h2>
                             <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 text-sm text-zinc-500 italic">
@@ -260,32 +313,39 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
                                         className="text-xs text-teal-400/70 hover:text-teal-400 transition-colors flex items-center gap-1"
                                     >
                                         <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
                                         </svg>
-                                        Add Tool
+                                        Edit Tools
                                     </button>
                                 )}
                             </div>
 
                             {editingField === 'tool_access' ? (
-                                <div className="space-y-2">
-                                    <textarea
-                                        value={editValue}
-                                        onChange={(e) => setEditValue(e.target.value)}
-                                        placeholder="One tool per line, e.g.&#10;supabase&#10;todoist&#10;notion"
-                                        className="w-full bg-zinc-900 text-zinc-300 text-sm font-mono border border-teal-500/30 rounded-lg p-4 outline-none resize-none min-h-[150px]"
-                                        autoFocus
-                                    />
-                                    <div className="flex items-center gap-2 justify-end">
-                                        <button onClick={cancelEdit} className="text-xs text-zinc-500 hover:text-zinc-300 px-3 py-1.5 rounded-md transition-colors">Cancel</button>
-                                        <button
-                                            onClick={() => saveEdit('tool_access')}
-                                            disabled={isSaving}
-                                            className="text-xs px-3 py-1.5 rounded-md bg-teal-600 hover:bg-teal-500 text-white transition-colors disabled:opacity-50"
-                                        >
-                                            {isSaving ? 'Saving...' : 'Save'}
-                                        </button>
-                                    </div>
+                                <ToolAccessEditor
+                                    value={config.toolAccess}
+                                    catalog={tools}
+                                    isSaving={isSaving}
+                                    withNote={versioning}
+                                    onSave={(toolAccess, note) => save({ tool_access: toolAccess, note: note.trim() || undefined })}
+                                    onCancel={cancelEdit}
+                                />
+                            ) : config.toolAccess.length > 0 ? (
+                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                                    {config.toolAccess.map(id => {
+                                        const tool = catalogTool(tools, id);
+                                        const risk = tool && toolRisk(tool.risk);
+                                        return (
+                                            <div key={id} className="flex items-center gap-3 px-4 py-2.5">
+                                                <span className={cn('text-sm', tool ? 'text-zinc-200' : 'font-mono text-amber-300')}>{tool?.name ?? id}</span>
+                                                {tool ? (
+                                                    <span className="text-xs text-zinc-500 truncate">{tool.scopes.join(', ')}</span>
+                                                ) : (
+                                                    <span className="text-xs text-amber-400/70">Not in the tool catalog — check the name</span>
+                                                )}
+                                                {risk && <span className={cn('text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider ml-auto shrink-0', risk.className)}>{risk.label}</span>}
+                                            </div>
+                                        );
+                                    })}
                                 </div>
                             ) : (
                                 <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
@@ -309,27 +369,23 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
 
                 {activeTab === 'activity' && (
                     <div className="space-y-6 max-w-2xl">
-                        <section>
-                            <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Recent Activity</h2>
-                            <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 text-center">
-                                <div className="text-3xl mb-2">📊</div>
-                                <p className="text-sm text-zinc-500">Activity log coming soon</p>
-                                <p className="text-xs text-zinc-600 mt-1">Agent activity will appear here as operations are tracked</p>
-                            </div>
-                        </section>
+                        {stats && (
+                            <section>
+                                <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Trends · last {stats.trend.length} weeks</h2>
+                                <AgentTrends stats={stats} />
+                            </section>
+                        )}
 
                         <section>
-                            <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Statistics Summary</h2>
-                            <div className="grid grid-cols-2 gap-3">
-                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-                                    <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">Tasks Completed</div>
-                                    <div className="text-2xl font-bold text-zinc-200">{agent.tasksCompleted}</div>
-                                </div>
-                                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-                                    <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1">Total Uptime</div>
-                                    <div className="text-2xl font-bold text-zinc-200">{agent.uptime}</div>
-                                </div>
-                            </div>
+                            <h2 className="text-xs uppercase tracking-wider text-zinc-600 mb-3">Timeline</h2>
+                            <AgentActivityTimeline
+                                feed={activity}
+                                tasks={tasks}
+                                projects={projects}
+                                directives={directives}
+                                onNavigate={onNavigate}
+                                onOpenMessage={onOpenMessage}
+                            />
                         </section>
                     </div>
                 )}
@@ -338,6 +394,18 @@ export function AgentDetail({ agent, onBack, onUpdateAgent }: AgentDetailProps)
     );
 }
 
+// Optional note saved with a prompt, name or tool change
+function NoteInput({ value, onChange }: { value: string; onChange: (val: string) => void }) {
+    return (
+        <input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Note on this change (optional)"
+            className="flex-1 bg-zinc-900 text-zinc-300 text-xs px-3 py-1.5 rounded-md border border-zinc-800 focus:border-teal-500/30 outline-none"
+        />
+    );
+}
+
 // Info row helper
 function InfoRow({
     label,
@@ -348,6 +416,8 @@ function InfoRow({
     editValue,
     onEdit,
     onEditChange,
+    noteValue,
+    onNoteChange,
     onSave,
     onCancel,
     isSaving,
@@ -360,6 +430,8 @@ function InfoRow({
     editValue?: string;
     onEdit?: () => void;
     onEditChange?: (val: string) => void;
+    noteValue?: string;
+    onNoteChange?: (val: string) => void;
     onSave?: () => void;
     onCancel?: () => void;
     isSaving?: boolean;
@@ -379,6 +451,18 @@ function InfoRow({
                         className="bg-zinc-800 text-zinc-200 text-sm px-2 py-1 rounded border border-teal-500/30 outline-none w-48"
                         autoFocus
                     />
+                    {onNoteChange && (
+                        <input
+                            value={noteValue}
+                            onChange={(e) => onNoteChange(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') onSave?.();
+                                if (e.key === 'Escape') onCancel?.();
+                            }}
+                            placeholder="Note (optional)"
+                            className="bg-zinc-800 text-zinc-300 text-xs px-2 py-1 rounded border border-zinc-700 outline-none w-40"
+                        />
+                    )}
                     <button
                         onClick={onSave}
                         disabled={isSaving}
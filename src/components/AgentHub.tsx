@@ -1,22 +1,44 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
-import { Agent } from '../types';
+import { Agent, ToolDefinition } from '../types';
 import { spawnableAgents } from '../data';
+import { AGENT_SORTS, AgentStats, agentSort, formatHours, formatLastActive, formatRate, sortAgents } from '../agent-analytics';
+import { ToolMatrix } from './ToolMatrix';
 
 interface AgentHubProps {
   agents: Agent[];
+  stats: Record<string, AgentStats>;
+  tools: ToolDefinition[];
   onSpawnAgent: (name: string, emoji: string, role: string, description: string) => void;
   onViewAgent?: (agentId: string) => void;
+  query: Record<string, string>;   // sort = metric, dir = asc/desc when not the metric's default, view = tools for the tool matrix
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
 }
 
-export function AgentHub({ agents, onSpawnAgent, onViewAgent }: AgentHubProps) {
+export function AgentHub({ agents, stats, tools, onSpawnAgent, onViewAgent, query, onQueryChange }: AgentHubProps) {
   const [showSpawn, setShowSpawn] = useState(false);
   const [selectedSpawn, setSelectedSpawn] = useState<typeof spawnableAgents[0] | null>(null);
   const [expandedAgent, setExpandedAgent] = useState<string | null>(null);
 
+  // Sorting: each metric starts in its own direction (most completed, fastest…)
+  const sort = agentSort(query.sort);
+  const sortDir = query.dir === 'asc' || query.dir === 'desc' ? query.dir : sort.dir;
+  const toggleSort = (field: typeof sort.field) => {
+    const next = agentSort(field);
+    const dir = field === sort.field ? (sortDir === 'asc' ? 'desc' : 'asc') : next.dir;
+    onQueryChange({ sort: field === AGENT_SORTS[0].field ? undefined : field, dir: dir === next.dir ? undefined : dir });
+  };
+  const subAgents = useMemo(
+    () => sortAgents(agents.filter(a => a.id !== 'cea'), stats, sort.field, sortDir),
+    [agents, stats, sort.field, sortDir],
+  );
+
+  const showMatrix = query.view === 'tools';
+  const cea = agents.find(a => a.id === 'cea');
+
   const handleSpawn = () => {
     if (selectedSpawn) {
       onSpawnAgent(selectedSpawn.name.replace(' Agent', ''), selectedSpawn.emoji, selectedSpawn.role, selectedSpawn.description);
@@ -92,78 +114,126 @@ export function AgentHub({ agents, onSpawnAgent, onViewAgent }: AgentHubProps) {
       </div>
 
       {/* Sub-Agents Grid */}
-      <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-3">Sub-Agents</div>
-      <div className="grid grid-cols-2 gap-3">
-        {agents.filter(a => a.id !== 'cea').map((agent) => (
-          <div
-            key={agent.id}
-            className={cn(
-              'bg-zinc-900 border border-zinc-800 p-4 cursor-pointer transition-all hover:border-zinc-700',
-              expandedAgent === agent.id && 'border-zinc-600'
-            )}
-            onClick={() => setExpandedAgent(expandedAgent === agent.id ? null : agent.id)}
-          >
-            <div className="flex items-start gap-3">
-              <span className="text-2xl">{agent.emoji}</span>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-1">
-                  <h3 className="text-sm font-medium text-zinc-200">{agent.name}</h3>
-                  <span className={cn(
-                    'flex items-center gap-1 text-[10px]',
-                    agent.status === 'active' && 'text-emerald-400',
-                    agent.status === 'working' && 'text-amber-400',
-                    agent.status === 'idle' && 'text-zinc-500',
-                    agent.status === 'spawning' && 'text-blue-400',
-                  )}>
+      <div className="flex items-center gap-2 mb-3">
+        <div className="flex gap-1 bg-zinc-900 border border-zinc-800 p-0.5">
+          {[{ id: undefined, label: 'Sub-Agents' }, { id: 'tools', label: 'Tool Matrix' }].map(v => (
+            <button
+              key={v.label}
+              onClick={() => onQueryChange({ view: v.id })}
+              className={cn(
+                'px-2 py-1 text-[11px] transition-all',
+                query.view === v.id ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-400'
+              )}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-zinc-600 uppercase tracking-wider ml-auto">Sort</span>
+        <div className="flex gap-1 bg-zinc-900 border border-zinc-800 p-0.5">
+          {AGENT_SORTS.map(s => (
+            <button
+              key={s.field}
+              onClick={() => toggleSort(s.field)}
+              className={cn(
+                'px-2 py-1 text-[11px] transition-all',
+                sort.field === s.field ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-400'
+              )}
+            >
+              {s.label}
+              {sort.field === s.field && (
+                <span className="ml-0.5 text-amber-400">{sortDir === 'asc' ? '↑' : '↓'}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+      {showMatrix ? (
+        <ToolMatrix agents={cea ? [cea, ...subAgents] : subAgents} catalog={tools} onViewAgent={onViewAgent} />
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {subAgents.map((agent) => (
+            <div
+              key={agent.id}
+              className={cn(
+                'bg-zinc-900 border border-zinc-800 p-4 cursor-pointer transition-all hover:border-zinc-700',
+                expandedAgent === agent.id && 'border-zinc-600'
+              )}
+              onClick={() => setExpandedAgent(expandedAgent === agent.id ? null : agent.id)}
+            >
+              <div className="flex items-start gap-3">
+                <span className="text-2xl">{agent.emoji}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="text-sm font-medium text-zinc-200">{agent.name}</h3>
                     <span className={cn(
-                      'w-1.5 h-1.5 rounded-full',
-                      agent.status === 'active' && 'bg-emerald-400',
-                      agent.status === 'working' && 'bg-amber-400 animate-pulse',
-                      agent.status === 'idle' && 'bg-zinc-600',
-                      agent.status === 'spawning' && 'bg-blue-400 animate-pulse',
-                    )} />
-                    {agent.status}
-                  </span>
-                </div>
-                <div className="text-[11px] text-zinc-500 mb-2">{agent.role}</div>
-
-                {agent.currentTask && (
-                  <div className="text-xs text-zinc-400 bg-zinc-800/50 px-2 py-1.5 mb-2">
-                    <span className="text-zinc-600">Current: </span>{agent.currentTask}
+                      'flex items-center gap-1 text-[10px]',
+                      agent.status === 'active' && 'text-emerald-400',
+                      agent.status === 'working' && 'text-amber-400',
+                      agent.status === 'idle' && 'text-zinc-500',
+                      agent.status === 'spawning' && 'text-blue-400',
+                    )}>
+                      <span className={cn(
+                        'w-1.5 h-1.5 rounded-full',
+                        agent.status === 'active' && 'bg-emerald-400',
+                        agent.status === 'working' && 'bg-amber-400 animate-pulse',
+                        agent.status === 'idle' && 'bg-zinc-600',
+                        agent.status === 'spawning' && 'bg-blue-400 animate-pulse',
+                      )} />
+                      {agent.status}
+                    </span>
                   </div>
-                )}
+                  <div className="text-[11px] text-zinc-500 mb-2">{agent.role}</div>
 
-                {expandedAgent === agent.id && (
-                  <div className="mt-3 pt-3 border-t border-zinc-800/50 space-y-2">
-                    <p className="text-xs text-zinc-500">{agent.description}</p>
-                    <div className="grid grid-cols-3 gap-2 mt-2">
-                      {Object.entries(agent.metrics).map(([key, val]) => (
-                        <div key={key}>
-                          <div className="text-[10px] text-zinc-600">{key.replace(/([A-Z])/g, ' $1').trim()}</div>
-                          <div className="text-xs text-zinc-300 font-medium">{typeof val === 'number' ? val.toLocaleString() : val}</div>
-                        </div>
-                      ))}
+                  {agent.currentTask && (
+                    <div className="text-xs text-zinc-400 bg-zinc-800/50 px-2 py-1.5 mb-2">
+                      <span className="text-zinc-600">Current: </span>{agent.currentTask}
                     </div>
-                    <div className="flex items-center justify-between mt-2">
-                      <div className="text-[10px] text-zinc-600">
-                        Tasks completed: {agent.tasksCompleted} · Uptime: {agent.uptime}
+                  )}
+
+                  {stats[agent.id] && (
+                    <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] text-zinc-500">
+                      <span className={cn(sort.field === 'completed' && 'text-zinc-300')}>{stats[agent.id].completed} done</span>
+                      <span className={cn(sort.field === 'failed' && 'text-zinc-300')}>{stats[agent.id].failed} failed</span>
+                      <span className={cn(sort.field === 'speed' && 'text-zinc-300')}>{formatHours(stats[agent.id].medianHoursToComplete)} median</span>
+                      <span className={cn(sort.field === 'rejection' && 'text-zinc-300')}>{formatRate(stats[agent.id].rejectionRate)} rejected</span>
+                      <span className={cn(sort.field === 'load' && 'text-zinc-300')}>load {stats[agent.id].load}</span>
+                      {sort.field === 'active' && <span className="text-zinc-300">active {formatLastActive(stats[agent.id].lastActiveAt)}</span>}
+                    </div>
+                  )}
+
+                  {expandedAgent === agent.id && (
+                    <div className="mt-3 pt-3 border-t border-zinc-800/50 space-y-2">
+                      <p className="text-xs text-zinc-500">{agent.description}</p>
+                      <div className="grid grid-cols-3 gap-2 mt-2">
+                        {Object.entries(agent.metrics).map(([key, val]) => (
+                          <div key={key}>
+                            <div className="text-[10px] text-zinc-600">{key.replace(/([A-Z])/g, ' $1').trim()}</div>
+                            <div className="text-xs text-zinc-300 font-medium">{typeof val === 'number' ? val.toLocaleString() : val}</div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex items-center justify-between mt-2">
+                        <div className="text-[10px] text-zinc-600">
+                          Tasks completed: {agent.tasksCompleted} · Uptime: {agent.uptime}
+                        </div>
+                        {onViewAgent && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onViewAgent(agent.id); }}
+                            className="text-xs text-teal-400/70 hover:text-teal-400 transition-colors flex items-center gap-1"
+                          >
+                            View Profile →
+                          </button>
+                        )}
                       </div>
-                      {onViewAgent && (
-                        <button
-                          onClick={(e) => { e.stopPropagation(); onViewAgent(agent.id); }}
-                          className="text-xs text-teal-400/70 hover:text-teal-400 transition-colors flex items-center gap-1"
-                        >
-                          View Profile →
-                        </button>
-                      )}
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
 
       {/* Spawn Dialog */}
       <Dialog open={showSpawn} onOpenChange={setShowSpawn}>
@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { Agent, AgentVersion, ToolDefinition } from '../types';
+import { AgentConfigUpdates, CONFIG_FIELDS, DiffRow, changedFields, configOf, diffLines, restoreUpdates, versionList } from '../agent-versions';
+import { newHighRiskTools, unknownTools } from '../tool-catalog';
+
+interface AgentVersionHistoryProps {
+  agent: Agent;
+  tools: ToolDefinition[];
+  onRestore: (updates: AgentConfigUpdates, note: string) => void;
+}
+
+const formatAt = (at: string) => at
+  ? new Date(at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+  : 'current';
+
+const rowTone: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: 'text-zinc-500', right: 'text-zinc-500' },
+  removed: { left: 'bg-red-500/10 text-red-300', right: '' },
+  added: { left: '', right: 'bg-emerald-500/10 text-emerald-300' },
+  changed: { left: 'bg-red-500/10 text-red-300', right: 'bg-emerald-500/10 text-emerald-300' },
+};
+
+function PromptDiff({ before, after }: { before: string; after: string }) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  if (rows.every(r => r.kind === 'same')) {
+    return <div className="text-xs text-zinc-600 italic px-3 py-2">System prompt unchanged</div>;
+  }
+  return (
+    <div className="max-h-96 overflow-auto font-mono text-[11px] leading-relaxed">
+      {rows.map((row, i) => (
+        <div key={i} className="grid grid-cols-2 divide-x divide-zinc-800">
+          {(['left', 'right'] as const).map(side => (
+            <div key={side} className={cn('flex min-w-0', rowTone[row.kind][side])}>
+              <span className="w-8 shrink-0 text-right pr-2 text-zinc-700 select-none">{row[side]?.line ?? ''}</span>
+              <span className="whitespace-pre-wrap break-words pr-2 min-w-0">{row[side]?.text ?? ''}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Note input for a restore, with the high-risk tools it would grant and
+// the ones the catalog doesn't know
+function RestoreConfirm({ agent, tools, version, note, onNoteChange, onConfirm, onCancel }: {
+  agent: Agent;
+  tools: ToolDefinition[];
+  version: AgentVersion;
+  note: string;
+  onNoteChange: (note: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const highRisk = newHighRiskTools(tools, configOf(agent).toolAccess, version.toolAccess);
+  const unknown = unknownTools(tools, version.toolAccess);
+  return (
+    <div className="mt-2 space-y-1.5">
+      {highRisk.length > 0 && (
+        <p className="text-xs text-red-300 px-2 py-1.5 rounded border border-red-500/30 bg-red-500/10">
+          Grants high-risk tools: {highRisk.map(t => t.name).join(', ')}
+        </p>
+      )}
+      {unknown.length > 0 && (
+        <p className="text-xs text-amber-300/80">
+          Not in the tool catalog, restored as is: <span className="font-mono">{unknown.join(', ')}</span>
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          value={note}
+          onChange={(e) => onNoteChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') onConfirm();
+            if (e.key === 'Escape') onCancel();
+          }}
+          placeholder={`Note — defaults to "Restored v${version.version}"`}
+          className="flex-1 bg-zinc-800 text-zinc-200 text-xs px-2 py-1 rounded border border-teal-500/30 outline-none"
+          autoFocus
+        />
+        <button onClick={onCancel} className="text-xs text-zinc-500 hover:text-zinc-300">Cancel</button>
+        <button
+          onClick={onConfirm}
+          className={cn('text-xs px-2.5 py-1 rounded-md text-white transition-colors', highRisk.length ? 'bg-red-600 hover:bg-red-500' : 'bg-teal-600 hover:bg-teal-500')}
+        >
+          Restore v{version.version}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Every saved configuration of the agent, newest first: pick two to compare
+// side by side, restore an older one with a note. A restore names the
+// high-risk tools it would grant, and the ones the catalog doesn't know,
+// before it goes through.
+export function AgentVersionHistory({ agent, tools, onRestore }: AgentVersionHistoryProps) {
+  const versions = useMemo(() => versionList(agent), [agent]);
+  const latest = versions[0];
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [restoreNote, setRestoreNote] = useState('');
+
+  const byNumber = (n: number | undefined) => versions.find(v => v.version === n);
+  const to = byNumber(compare?.to) ?? latest;
+  const from = byNumber(compare?.from) ?? versions[1] ?? latest;
+  const previousOf = (v: AgentVersion) => versions.find(o => o.version < v.version);
+
+  const pick = (version: number, side: 'from' | 'to') => {
+    const next = { from: from.version, to: to.version, [side]: version };
+    setCompare(next);
+  };
+
+  const confirmRestore = (version: AgentVersion) => {
+    onRestore(restoreUpdates(version), restoreNote.trim() || `Restored v${version.version}`);
+    setRestoring(null);
+    setRestoreNote('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Versions */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+        {versions.map(version => {
+          const previous = previousOf(version);
+          const changed = previous ? changedFields(previous, version) : [];
+          return (
+            <div key={version.version} className="px-4 py-2.5">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-zinc-300">v{version.version}</span>
+                {version === latest && <span className="text-[9px] px-1.5 py-0.5 rounded bg-teal-500/15 text-teal-400 uppercase tracking-wider">Live</span>}
+                <span className="text-[10px] text-zinc-600">{formatAt(version.at)}</span>
+                {changed.map(key => (
+                  <span key={key} className="text-[9px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-500">
+                    {CONFIG_FIELDS.find(f => f.key === key)?.label}
+                  </span>
+                ))}
+                <div className="ml-auto flex items-center gap-1">
+                  {versions.length > 1 && (['from', 'to'] as const).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => pick(version.version, side)}
+                      className={cn(
+                        'text-[10px] w-5 h-5 rounded border transition-colors',
+                        (side === 'from' ? from : to).version === version.version
+                          ? side === 'from' ? 'border-red-500/40 text-red-300 bg-red-500/10' : 'border-emerald-500/40 text-emerald-300 bg-emerald-500/10'
+                          : 'border-zinc-700 text-zinc-600 hover:text-zinc-400'
+                      )}
+                      title={side === 'from' ? 'Compare from this version' : 'Compare to this version'}
+                    >
+                      {side === 'from' ? 'A' : 'B'}
+                    </button>
+                  ))}
+                  {version !== latest && (
+                    <button
+                      onClick={() => { setRestoring(restoring === version.version ? null : version.version); setRestoreNote(''); }}
+                      className="text-[10px] text-teal-400/70 hover:text-teal-400 transition-colors ml-2"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+              {version.note && <p className="text-xs text-zinc-400 mt-1">{version.note}</p>}
+              {restoring === version.version && (
+                <RestoreConfirm
+                  agent={agent}
+                  tools={tools}
+                  version={version}
+                  note={restoreNote}
+                  onNoteChange={setRestoreNote}
+                  onConfirm={() => confirmRestore(version)}
+                  onCancel={() => setRestoring(null)}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Diff */}
+      {versions.length > 1 && (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden">
+          <div className="grid grid-cols-2 divide-x divide-zinc-800 border-b border-zinc-800 text-[10px] uppercase tracking-wider">
+            <div className="px-3 py-2 text-red-300/80">A · v{from.version} <span className="text-zinc-600 normal-case tracking-normal">{formatAt(from.at)}</span></div>
+            <div className="px-3 py-2 text-emerald-300/80">B · v{to.version} <span className="text-zinc-600 normal-case tracking-normal">{formatAt(to.at)}</span></div>
+          </div>
+          {from.functionalName !== to.functionalName && (
+            <div className="grid grid-cols-2 divide-x divide-zinc-800 border-b border-zinc-800 text-xs">
+              <div className="px-3 py-2 text-red-300"><span className="text-zinc-600">Name </span>{from.functionalName}</div>
+              <div className="px-3 py-2 text-emerald-300"><span className="text-zinc-600">Name </span>{to.functionalName}</div>
+            </div>
+          )}
+          {changedFields(from, to).includes('toolAccess') && (
+            <div className="grid grid-cols-2 divide-x divide-zinc-800 border-b border-zinc-800 text-xs">
+              {[from, to].map((side, i) => (
+                <div key={i} className="px-3 py-2 flex flex-wrap gap-1">
+                  <span className="text-zinc-600 mr-1">Tools</span>
+                  {side.toolAccess.length ? side.toolAccess.map(tool => {
+                    const other = (i === 0 ? to : from).toolAccess;
+                    return (
+                      <span key={tool} className={cn('px-1.5 rounded font-mono text-[11px]', !other.includes(tool) ? (i === 0 ? 'bg-red-500/10 text-red-300' : 'bg-emerald-500/10 text-emerald-300') : 'text-zinc-500')}>
+                        {tool}
+                      </span>
+                    );
+                  }) : <span className="text-zinc-600 italic">none</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          <PromptDiff before={from.systemPrompt} after={to.systemPrompt} />
+        </div>
+      )}
+    </div>
+  );
+}
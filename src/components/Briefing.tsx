@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Briefing, BriefingItem, formatBriefingDate } from '../briefing';
+import type { Route } from '../router';
+
+interface BriefingBannerProps {
+  briefing: Briefing | null;
+  archive: Briefing[];
+  narrativeEnabled: boolean;
+  onToggleNarrative?: (on: boolean) => void;   // missing when the narrative isn't available
+  writing: boolean;                 // cea-brain is writing the narrative
+  onRegenerate: () => void;
+  onOpenLink: (route: Route) => void;
+}
+
+const toneDot: Record<BriefingItem['tone'], string> = {
+  good: 'bg-emerald-400',
+  bad: 'bg-red-400',
+  neutral: 'bg-amber-400',
+};
+
+const timeOf = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+function BriefingItems({ items, onOpenLink }: { items: BriefingItem[]; onOpenLink: (route: Route) => void }) {
+  return (
+    <ul className="space-y-1">
+      {items.map((item, i) => (
+        <li key={i} className="flex items-start gap-2 text-xs">
+          <span className={cn('w-1.5 h-1.5 rounded-full shrink-0 mt-1.5', toneDot[item.tone])} />
+          {item.link ? (
+            <button onClick={() => onOpenLink(item.link!)} className="text-left text-zinc-400 hover:text-zinc-200 transition-colors">
+              {item.text}
+            </button>
+          ) : (
+            <span className="text-zinc-400">{item.text}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// The CEA's briefing for today, with the past ones a click away
+export function BriefingBanner({ briefing, archive, narrativeEnabled, onToggleNarrative, writing, onRegenerate, onOpenLink }: BriefingBannerProps) {
+  const [showArchive, setShowArchive] = useState(false);
+  const [openDay, setOpenDay] = useState<string | null>(null);
+
+  return (
+    <div className="mb-6 bg-zinc-900 border border-zinc-800">
+      <div className="p-4 flex items-start gap-3">
+        <div className="w-9 h-9 bg-amber-500/15 flex items-center justify-center text-lg shrink-0 mt-0.5" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}>
+          🧠
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-xs font-medium text-amber-400">CEA Morning Briefing</span>
+            {briefing && <span className="text-[10px] text-zinc-600">{timeOf(briefing.generatedAt)}</span>}
+            <div className="ml-auto flex items-center gap-3">
+              {onToggleNarrative && (
+                <label className="flex items-center gap-1.5 text-[10px] text-zinc-500 cursor-pointer" title="Have the CEA write the briefing as prose">
+                  <input
+                    type="checkbox"
+                    checked={narrativeEnabled}
+                    onChange={(e) => onToggleNarrative(e.target.checked)}
+                    className="accent-amber-500"
+                  />
+                  CEA narrative
+                </label>
+              )}
+              <button onClick={onRegenerate} disabled={writing} className="text-[10px] text-zinc-500 hover:text-zinc-300 disabled:opacity-40" title="Rebuild today's briefing from the current state">
+                ↻ Refresh
+              </button>
+              {archive.length > 0 && (
+                <button
+                  onClick={() => setShowArchive(!showArchive)}
+                  className={cn('text-[10px] transition-colors', showArchive ? 'text-amber-400' : 'text-zinc-500 hover:text-zinc-300')}
+                >
+                  Archive ({archive.length})
+                </button>
+              )}
+            </div>
+          </div>
+
+          {briefing ? (
+            <>
+              <p className="text-sm text-zinc-300 leading-relaxed mb-2">
+                {briefing.greeting}{' '}
+                {briefing.narrative ?? (writing ? <span className="text-zinc-500">The CEA is writing your briefing…</span> : null)}
+              </p>
+              <BriefingItems items={briefing.items} onOpenLink={onOpenLink} />
+            </>
+          ) : (
+            <p className="text-sm text-zinc-500">Preparing today's briefing…</p>
+          )}
+        </div>
+      </div>
+
+      {/* Archive */}
+      {showArchive && (
+        <div className="border-t border-zinc-800 max-h-72 overflow-y-auto divide-y divide-zinc-800/50">
+          {archive.map(past => (
+            <div key={past.date} className="px-4 py-2">
+              <button
+                onClick={() => setOpenDay(openDay === past.date ? null : past.date)}
+                className="w-full flex items-center gap-2 text-left"
+              >
+                <span className="text-[10px] text-zinc-600">{openDay === past.date ? '▾' : '▸'}</span>
+                <span className="text-xs text-zinc-400">{formatBriefingDate(past.date)}</span>
+                <span className="ml-auto text-[10px] text-zinc-600">
+                  {past.items.filter(i => i.tone === 'bad').length} flagged
+                </span>
+              </button>
+              {openDay === past.date && (
+                <div className="mt-2 ml-4 space-y-2">
+                  {past.narrative && <p className="text-xs text-zinc-400 leading-relaxed">{past.narrative}</p>}
+                  <BriefingItems items={past.items} onOpenLink={onOpenLink} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
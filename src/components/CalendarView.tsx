@@ -0,0 +1,375 @@
+import { createContext, useContext, useMemo, useState } from 'react';
+import type { DayProps, WeekProps } from 'react-day-picker';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { Task, Project, Goal } from '../types';
+import { dueState, toDateInput } from '../due-dates';
+
+interface CalendarViewProps {
+  tasks: Task[];
+  projects: Project[];
+  goals: Goal[];
+  onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onUpdateProject: (projectId: string, updates: Partial<Project>) => void;
+  onUpdateGoal: (goalId: string, updates: Partial<Goal>) => void;
+  onOpenTask: (taskId: string) => void;
+  onOpenProject: (projectId: string) => void;
+  onOpenGoals: () => void;
+  // Routing: mode, anchor date, colouring and hidden kinds live in the URL hash
+  query: Record<string, string>;
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
+}
+
+type ItemKind = 'task' | 'project' | 'goal';
+type ColorBy = 'project' | 'department';
+
+interface CalendarItem {
+  key: string;            // `${kind}:${id}`, also the drag payload
+  kind: ItemKind;
+  id: string;
+  title: string;
+  date: string;           // YYYY-MM-DD
+  colorKey?: string;      // project id or department name
+  done: boolean;
+  overdue: boolean;
+}
+
+const KIND_LABELS: Record<ItemKind, string> = { task: 'Tasks', project: 'Project milestones', goal: 'Goal deadlines' };
+const KIND_ICONS: Record<ItemKind, string> = { task: '', project: '◆', goal: '△' };
+
+const PALETTE = [
+  'bg-amber-500/15 text-amber-300 border-amber-500/50',
+  'bg-blue-500/15 text-blue-300 border-blue-500/50',
+  'bg-emerald-500/15 text-emerald-300 border-emerald-500/50',
+  'bg-pink-500/15 text-pink-300 border-pink-500/50',
+  'bg-cyan-500/15 text-cyan-300 border-cyan-500/50',
+  'bg-orange-500/15 text-orange-300 border-orange-500/50',
+  'bg-lime-500/15 text-lime-300 border-lime-500/50',
+  'bg-rose-500/15 text-rose-300 border-rose-500/50',
+];
+const GOAL_COLOR = 'bg-purple-500/15 text-purple-300 border-purple-500/50';
+const NO_COLOR = 'bg-zinc-800 text-zinc-300 border-zinc-600';
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+const formatDay = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+const startOfWeek = (d: Date) => addDays(d, -d.getDay());
+
+// ─── Day cells ───
+// DayPicker renders the grid; its Day/Week slots read items and drag state
+// from context so the slot components stay stable between renders.
+
+interface GridState {
+  mode: 'month' | 'week';
+  weekStart: string;
+  itemsByDay: Map<string, CalendarItem[]>;
+  colorFor: (item: CalendarItem) => string;
+  dropDay: string | null;
+  today: string;
+  setDropDay: (day: string | null) => void;
+  onDropItem: (itemKey: string, day: string) => void;
+  onOpenItem: (item: CalendarItem) => void;
+  onShowWeek: (day: string) => void;
+}
+
+const GridContext = createContext<GridState | null>(null);
+
+const MONTH_LIMIT = 3;
+
+// Replaces DayPicker's cell (and its day button) with a drop target listing the day's items
+function DayCell({ day }: DayProps) {
+  const grid = useContext(GridContext)!;
+  const date = day.isoDate;
+  const items = grid.itemsByDay.get(date) ?? [];
+  const visible = grid.mode === 'month' ? items.slice(0, MONTH_LIMIT) : items;
+
+  return (
+    <td
+      role="gridcell"
+      data-day={date}
+      className={cn(
+        'flex-1 min-w-0 border border-zinc-800/60 p-1 align-top transition-colors',
+        grid.mode === 'month' ? 'h-28' : 'min-h-[28rem]',
+        day.outside && 'bg-zinc-950/60',
+        grid.dropDay === date && 'bg-amber-500/5 border-amber-500/40'
+      )}
+      onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move'; grid.setDropDay(date); }}
+      onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) grid.setDropDay(null); }}
+      onDrop={(e) => {
+        e.preventDefault();
+        const key = e.dataTransfer.getData('text/plain');
+        grid.setDropDay(null);
+        if (key) grid.onDropItem(key, date);
+      }}
+    >
+      <div className={cn(
+        'text-[10px] mb-1 flex items-center justify-between',
+        date === grid.today ? 'text-amber-400 font-medium' : day.outside ? 'text-zinc-700' : 'text-zinc-500'
+      )}>
+        <span>{grid.mode === 'week' ? day.date.toLocaleDateString([], { weekday: 'short', day: 'numeric' }) : day.date.getDate()}</span>
+        {date === grid.today && <span className="text-[9px] uppercase tracking-wider">Today</span>}
+      </div>
+      <div className="space-y-0.5">
+        {visible.map(item => (
+          <div
+            key={item.key}
+            draggable
+            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', item.key); }}
+            onClick={() => grid.onOpenItem(item)}
+            className={cn(
+              'text-[10px] px-1 py-0.5 border-l-2 truncate cursor-grab active:cursor-grabbing',
+              grid.colorFor(item),
+              item.done && 'opacity-50 line-through',
+              item.overdue && 'ring-1 ring-red-500/60'
+            )}
+            title={`${item.title} — drag to reschedule`}
+          >
+            {KIND_ICONS[item.kind] && <span className="mr-1">{KIND_ICONS[item.kind]}</span>}
+            {item.title}
+          </div>
+        ))}
+        {items.length > visible.length && (
+          <button
+            onClick={() => grid.onShowWeek(date)}
+            className="text-[9px] text-zinc-600 hover:text-amber-400 transition-colors"
+          >
+            +{items.length - visible.length} more
+          </button>
+        )}
+      </div>
+    </td>
+  );
+}
+
+// In week mode only the focused week's row is rendered
+function WeekRow({ week, ...props }: WeekProps) {
+  const grid = useContext(GridContext)!;
+  if (grid.mode === 'week' && !week.days.some(d => d.isoDate === grid.weekStart)) {
+    return <tr className="hidden" />;
+  }
+  return <tr {...props} />;
+}
+
+// ─── View ───
+
+export function CalendarView({
+  tasks, projects, goals, onUpdateTask, onUpdateProject, onUpdateGoal,
+  onOpenTask, onOpenProject, onOpenGoals, query, onQueryChange,
+}: CalendarViewProps) {
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const today = formatDay(new Date());
+
+  const mode = query.mode === 'week' ? 'week' : 'month';
+  const colorBy: ColorBy = query.color === 'department' ? 'department' : 'project';
+  const anchor = query.date && DATE_PARAM.test(query.date) ? query.date : today;
+  const hiddenKinds = query.hide || '';
+  const hidden = new Set(hiddenKinds.split(',').filter(Boolean));
+
+  const anchorDate = parseDay(anchor);
+  const weekStartDate = startOfWeek(anchorDate);
+  // The month whose grid contains the focused week's first day
+  const displayMonth = mode === 'week'
+    ? new Date(weekStartDate.getFullYear(), weekStartDate.getMonth(), 1)
+    : new Date(anchorDate.getFullYear(), anchorDate.getMonth(), 1);
+
+  const items = useMemo(() => {
+    const all: CalendarItem[] = [];
+    for (const t of tasks) {
+      const date = toDateInput(t.deadline);
+      if (!date) continue;
+      const project = projects.find(p => p.id === t.projectId);
+      all.push({
+        key: `task:${t.id}`, kind: 'task', id: t.id, title: t.title, date,
+        colorKey: colorBy === 'project' ? t.projectId : project?.department,
+        done: t.status === 'completed',
+        overdue: dueState(t) === 'overdue',
+      });
+    }
+    for (const p of projects) {
+      const date = toDateInput(p.targetDate);
+      if (!date) continue;
+      all.push({
+        key: `project:${p.id}`, kind: 'project', id: p.id, title: `${p.shortCode} target`, date,
+        colorKey: colorBy === 'project' ? p.id : p.department,
+        done: p.status === 'completed' || p.status === 'archived',
+        overdue: false,
+      });
+    }
+    for (const g of goals) {
+      const date = toDateInput(g.targetDate);
+      if (!date) continue;
+      all.push({ key: `goal:${g.id}`, kind: 'goal', id: g.id, title: g.title, date, done: g.progress >= 100, overdue: false });
+    }
+    return all;
+  }, [tasks, projects, goals, colorBy]);
+
+  const itemsByDay = useMemo(() => {
+    const map = new Map<string, CalendarItem[]>();
+    const order: Record<ItemKind, number> = { goal: 0, project: 1, task: 2 };
+    for (const item of items.filter(i => !hiddenKinds.split(',').includes(i.kind))) {
+      map.set(item.date, [...(map.get(item.date) ?? []), item]);
+    }
+    map.forEach(list => list.sort((a, b) => order[a.kind] - order[b.kind] || Number(a.done) - Number(b.done)));
+    return map;
+  }, [items, hiddenKinds]);
+
+  // Stable colour per project/department, in the order the legend lists them
+  const legend = useMemo(() => {
+    const keys = colorBy === 'project'
+      ? projects.filter(p => items.some(i => i.colorKey === p.id)).map(p => ({ key: p.id, label: p.shortCode }))
+      : [...new Set(projects.map(p => p.department))].filter(d => items.some(i => i.colorKey === d)).map(d => ({ key: d, label: d }));
+    return keys.map((k, i) => ({ ...k, color: PALETTE[i % PALETTE.length] }));
+  }, [colorBy, projects, items]);
+
+  const colorFor = (item: CalendarItem) =>
+    item.kind === 'goal' ? GOAL_COLOR : legend.find(l => l.key === item.colorKey)?.color ?? NO_COLOR;
+
+  const reschedule = (itemKey: string, day: string) => {
+    const item = items.find(i => i.key === itemKey);
+    if (!item || item.date === day) return;
+    if (item.kind === 'task') onUpdateTask(item.id, { deadline: day });
+    if (item.kind === 'project') onUpdateProject(item.id, { targetDate: day });
+    if (item.kind === 'goal') onUpdateGoal(item.id, { targetDate: day });
+  };
+
+  const openItem = (item: CalendarItem) => {
+    if (item.kind === 'task') onOpenTask(item.id);
+    if (item.kind === 'project') onOpenProject(item.id);
+    if (item.kind === 'goal') onOpenGoals();
+  };
+
+  const step = (direction: 1 | -1) => {
+    const next = mode === 'week'
+      ? addDays(anchorDate, 7 * direction)
+      : new Date(anchorDate.getFullYear(), anchorDate.getMonth() + direction, 1);
+    onQueryChange({ date: formatDay(next) });
+  };
+
+  const toggleKind = (kind: ItemKind) => {
+    const next = new Set(hidden);
+    if (next.has(kind)) next.delete(kind); else next.add(kind);
+    onQueryChange({ hide: [...next].join(',') || undefined });
+  };
+
+  const grid: GridState = {
+    mode,
+    weekStart: formatDay(weekStartDate),
+    itemsByDay,
+    colorFor,
+    dropDay,
+    today,
+    setDropDay,
+    onDropItem: reschedule,
+    onOpenItem: openItem,
+    onShowWeek: (day) => onQueryChange({ mode: 'week', date: day }),
+  };
+
+  const title = mode === 'week'
+    ? `${weekStartDate.toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${addDays(weekStartDate, 6).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : anchorDate.toLocaleDateString([], { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="flex-1 overflow-auto bg-zinc-950 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-xl font-semibold text-zinc-100">Calendar</h1>
+          <p className="text-sm text-zinc-500 mt-0.5">Task due dates, project targets and goal deadlines — drag to reschedule</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => step(-1)} className="text-xs px-2 py-1 bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-zinc-200">←</button>
+          <button
+            onClick={() => onQueryChange({ date: undefined })}
+            className="text-[10px] px-2 py-1 bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-zinc-200"
+          >
+            Today
+          </button>
+          <button onClick={() => step(1)} className="text-xs px-2 py-1 bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-zinc-200">→</button>
+          <span className="text-sm text-zinc-300 w-48 text-center">{title}</span>
+          <div className="flex">
+            {(['month', 'week'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => onQueryChange({ mode: m === 'month' ? undefined : m })}
+                className={cn(
+                  'text-[10px] px-2 py-1 border transition-all capitalize',
+                  mode === m
+                    ? 'bg-amber-500/15 text-amber-400 border-amber-500/30'
+                    : 'bg-zinc-900 text-zinc-500 border-zinc-800 hover:text-zinc-400'
+                )}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Filters + legend */}
+      <div className="flex items-center gap-2 mb-4 flex-wrap">
+        <span className="text-[10px] text-zinc-600 uppercase tracking-wider">Show:</span>
+        {(Object.keys(KIND_LABELS) as ItemKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => toggleKind(kind)}
+            className={cn(
+              'text-[10px] px-2 py-1 transition-all border',
+              hidden.has(kind)
+                ? 'bg-zinc-900 text-zinc-600 border-zinc-800 line-through'
+                : 'bg-zinc-800 text-zinc-300 border-zinc-700'
+            )}
+          >
+            {KIND_ICONS[kind] && `${KIND_ICONS[kind]} `}{KIND_LABELS[kind]}
+          </button>
+        ))}
+        <span className="text-[10px] text-zinc-600 uppercase tracking-wider ml-4">Color by:</span>
+        {(['project', 'department'] as const).map(c => (
+          <button
+            key={c}
+            onClick={() => onQueryChange({ color: c === 'project' ? undefined : c })}
+            className={cn(
+              'text-[10px] px-2 py-1 transition-all capitalize',
+              colorBy === c
+                ? 'bg-amber-500/15 text-amber-400 border border-amber-500/30'
+                : 'bg-zinc-900 text-zinc-500 border border-zinc-800 hover:text-zinc-400'
+            )}
+          >
+            {c}
+          </button>
+        ))}
+        <div className="flex items-center gap-1.5 flex-wrap ml-2">
+          {legend.map(l => (
+            <span key={l.key} className={cn('text-[9px] px-1.5 py-0.5 border-l-2 font-mono', l.color)}>{l.label}</span>
+          ))}
+          {!hidden.has('goal') && <span className={cn('text-[9px] px-1.5 py-0.5 border-l-2', GOAL_COLOR)}>Goals</span>}
+        </div>
+      </div>
+
+      {/* Grid */}
+      <GridContext.Provider value={grid}>
+        <Calendar
+          month={displayMonth}
+          hideNavigation
+          className="bg-zinc-900/50 border border-zinc-800 p-0 w-full"
+          classNames={{
+            root: 'w-full',
+            months: 'w-full',
+            month: 'w-full',
+            month_caption: 'hidden',
+            month_grid: 'w-full border-collapse',
+            weekdays: 'flex',
+            weekday: 'flex-1 py-1.5 text-[10px] text-zinc-600 uppercase tracking-wider font-normal',
+            week: 'flex w-full',
+          }}
+          components={{ Day: DayCell, Week: WeekRow }}
+        />
+      </GridContext.Provider>
+    </div>
+  );
+}
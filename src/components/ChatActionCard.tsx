@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Agent, Project } from '../types';
+import { ACTION_LABELS, type ActionDecision, type ChatAction } from '../chat-actions';
+import { DueDateInput } from './DueDate';
+
+interface ChatActionCardProps {
+  action: ChatAction;            // already resolved to agent/project ids
+  decision?: ActionDecision;
+  agents: Agent[];
+  projects: Project[];
+  onAccept: (action: ChatAction) => void;
+  onReject: () => void;
+}
+
+const PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 px-2 py-1 text-[11px] text-zinc-300 focus:outline-none focus:border-amber-500/40';
+const selectClass = 'bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-300 focus:outline-none';
+
+// One proposal from a CEA reply: accept as-is, edit then accept, or reject
+export function ChatActionCard({ action, decision, agents, projects, onAccept, onReject }: ChatActionCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<ChatAction>(action);
+  const { label, icon } = ACTION_LABELS[action.type];
+  const shown = editing ? draft : action;
+
+  const agentName = (id?: string) => {
+    if (!id || id === 'tiger') return id ? 'Tiger' : undefined;
+    const agent = agents.find(a => a.id === id);
+    return agent ? `${agent.emoji} ${agent.name}` : undefined;
+  };
+  const projectCode = (id?: string) => projects.find(p => p.id === id)?.shortCode;
+
+  // Field patches keep the action's own type
+  const patch = (fields: Partial<Record<string, string | undefined>>) => setDraft(prev => ({ ...prev, ...fields }) as ChatAction);
+
+  const valid = draft.type === 'spawn_agent'
+    ? draft.name.trim() && draft.role.trim()
+    : draft.title.trim() && (draft.type !== 'create_directive' || draft.content.trim());
+
+  const details: (string | undefined)[] = shown.type === 'create_task'
+    ? [shown.priority, agentName(shown.assignee), projectCode(shown.project), shown.due && `due ${shown.due}`]
+    : shown.type === 'create_goal'
+      ? [agentName(shown.owner) && `owner ${agentName(shown.owner)}`, shown.target_date && `by ${shown.target_date}`]
+      : shown.type === 'create_directive'
+        ? [shown.directive_type, shown.priority, agentName(shown.target_agent) && `→ ${agentName(shown.target_agent)}`]
+        : [shown.role];
+
+  return (
+    <div className={cn(
+      'border px-3 py-2.5 text-left',
+      decision?.status === 'accepted' ? 'border-emerald-500/30 bg-emerald-500/5'
+        : decision?.status === 'rejected' ? 'border-zinc-800 bg-zinc-900/40 opacity-60'
+        : 'border-amber-500/30 bg-amber-500/5'
+    )}>
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-[11px] text-amber-400/80">{icon}</span>
+        <span className="text-[9px] text-zinc-500 uppercase tracking-wider">{label}</span>
+        {decision && (
+          <span className={cn(
+            'ml-auto text-[9px] px-1.5 py-0.5',
+            decision.status === 'accepted' ? 'bg-emerald-500/15 text-emerald-400' : 'bg-zinc-800 text-zinc-500'
+          )}>
+            {decision.status === 'accepted' ? '✓ Accepted' : 'Rejected'}
+          </span>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-1.5">
+          {draft.type === 'spawn_agent' ? (
+            <div className="flex gap-1.5">
+              <input value={draft.emoji ?? ''} onChange={(e) => patch({ emoji: e.target.value || undefined })} placeholder="🤖" className={cn(inputClass, 'w-12 text-center')} />
+              <input value={draft.name} onChange={(e) => patch({ name: e.target.value })} placeholder="Name" className={inputClass} />
+              <input value={draft.role} onChange={(e) => patch({ role: e.target.value })} placeholder="Role" className={inputClass} />
+            </div>
+          ) : (
+            <input value={draft.title} onChange={(e) => patch({ title: e.target.value })} placeholder="Title" className={inputClass} />
+          )}
+
+          {draft.type === 'create_directive' ? (
+            <textarea value={draft.content} onChange={(e) => patch({ content: e.target.value })} rows={3} placeholder="Directive" className={cn(inputClass, 'resize-none')} />
+          ) : (
+            <textarea value={draft.description ?? ''} onChange={(e) => patch({ description: e.target.value || undefined })} rows={2} placeholder="Description (optional)" className={cn(inputClass, 'resize-none')} />
+          )}
+
+          <div className="flex gap-1.5 flex-wrap items-center">
+            {(draft.type === 'create_task' || draft.type === 'create_directive') && (
+              <select value={draft.priority ?? 'medium'} onChange={(e) => patch({ priority: e.target.value })} className={selectClass}>
+                {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            )}
+            {draft.type === 'create_task' && (
+              <>
+                <select value={draft.assignee ?? 'tiger'} onChange={(e) => patch({ assignee: e.target.value })} className={selectClass}>
+                  <option value="tiger">Tiger</option>
+                  {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+                </select>
+                <select value={draft.project ?? ''} onChange={(e) => patch({ project: e.target.value || undefined })} className={selectClass}>
+                  <option value="">No project</option>
+                  {projects.map(p => <option key={p.id} value={p.id}>{p.shortCode}</option>)}
+                </select>
+                <DueDateInput value={draft.due} onChange={(due) => patch({ due })} />
+              </>
+            )}
+            {draft.type === 'create_goal' && (
+              <>
+                <select value={draft.owner ?? ''} onChange={(e) => patch({ owner: e.target.value || undefined })} className={selectClass}>
+                  <option value="">Unassigned</option>
+                  {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+                </select>
+                <DueDateInput value={draft.target_date} onChange={(target_date) => patch({ target_date })} />
+              </>
+            )}
+            {draft.type === 'create_directive' && (
+              <select value={draft.target_agent ?? ''} onChange={(e) => patch({ target_agent: e.target.value || undefined })} className={selectClass}>
+                <option value="">All agents</option>
+                {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+              </select>
+            )}
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="text-xs text-zinc-200">
+            {shown.type === 'spawn_agent' ? `${shown.emoji ?? '🤖'} ${shown.name}` : shown.title}
+          </div>
+          {(shown.type === 'create_directive' ? shown.content : shown.description) && (
+            <div className="text-[11px] text-zinc-500 mt-0.5 whitespace-pre-wrap">
+              {shown.type === 'create_directive' ? shown.content : shown.description}
+            </div>
+          )}
+          {details.some(Boolean) && (
+            <div className="text-[10px] text-zinc-600 mt-1">{details.filter(Boolean).join(' · ')}</div>
+          )}
+        </>
+      )}
+
+      {!decision && (
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            onClick={() => { onAccept(editing ? draft : action); setEditing(false); }}
+            disabled={editing && !valid}
+            className="text-[10px] px-2 py-1 bg-emerald-500/15 text-emerald-400 hover:bg-emerald-500/25 transition-colors disabled:opacity-40"
+          >
+            {editing ? 'Save & accept' : 'Accept'}
+          </button>
+          {editing ? (
+            <button onClick={() => { setDraft(action); setEditing(false); }} className="text-[10px] text-zinc-500 hover:text-zinc-400">Cancel</button>
+          ) : (
+            <button onClick={() => { setDraft(action); setEditing(true); }} className="text-[10px] text-zinc-500 hover:text-amber-400 transition-colors">Edit</button>
+          )}
+          <button onClick={onReject} className="ml-auto text-[10px] text-zinc-600 hover:text-red-400 transition-colors">Reject</button>
+        </div>
+      )}
+    </div>
+  );
+}
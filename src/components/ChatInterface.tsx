@@ -1,129 +1,195 @@
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { Message } from '../types';
+import { Agent, ChatThread, Message, Project, ThreadContext } from '../types';
+import { describeContext, filterThreads, formatThreadDate, parseContextParam } from '../threads';
+import { loadDecisions, parseReply, resolveAction, saveDecisions, type ActionDecision, type ChatAction } from '../chat-actions';
+import { ChatActionCard } from './ChatActionCard';
+import { Markdown, MarkdownStyles } from './Markdown';
 
 interface ChatInterfaceProps {
-  messages: Message[];
+  messages: Message[];                 // every loaded thread; filtered to the open one here
+  threads: ChatThread[];
+  activeThreadId?: string;
+  loadingHistory: boolean;
+  awaitingReply: boolean;              // a message in the open thread has no answer yet
+  projects: Project[];
+  agents: Agent[];
   onSendMessage: (content: string) => void;
+  onStopReply: () => void;
+  onAcceptAction: (action: ChatAction, source: { threadId: string; messageId: string }) => void;
+  onUpdateThread: (threadId: string, updates: { title?: string; archived?: boolean }) => void;
+  onStartThread: (context?: ThreadContext) => void;
+  onOpenProject: (projectId: string) => void;
+  onOpenAgent: (agentId: string) => void;
+  onOpenDirective: (directiveId?: string) => void;   // no id: the directive history
+  query: Record<string, string>;       // thread, context, q, archived, msg (highlighted)
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
 }
 
-// Lightweight markdown-to-HTML renderer (no external deps)
-function renderMarkdown(text: string): string {
-  let html = text
-    // Escape HTML entities
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
+const HEX_CLIP = { clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' };
 
-  // Code blocks (triple backtick)
-  html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_m, lang, code) => {
-    return `<pre class="md-code-block"><code class="lang-${lang}">${code.trim()}</code></pre>`;
-  });
-
-  // Inline code
-  html = html.replace(/`([^`]+)`/g, '<code class="md-inline-code">$1</code>');
-
-  // Headers
-  html = html.replace(/^#### (.+)$/gm, '<h4 class="md-h4">$1</h4>');
-  html = html.replace(/^### (.+)$/gm, '<h3 class="md-h3">$1</h3>');
-  html = html.replace(/^## (.+)$/gm, '<h2 class="md-h2">$1</h2>');
-  html = html.replace(/^# (.+)$/gm, '<h1 class="md-h1">$1</h1>');
-
-  // Bold + Italic
-  html = html.replace(/\*\*\*(.+?)\*\*\*/g, '<strong><em>$1</em></strong>');
-  // Bold
-  html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-  // Italic
-  html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
+// ─── Thread sidebar ───
 
-  // Horizontal rule
-  html = html.replace(/^---$/gm, '<hr class="md-hr" />');
+function ThreadItem({ thread, active, contextLabel, onSelect, onRename, onArchive }: {
+  thread: ChatThread;
+  active: boolean;
+  contextLabel: string | null;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onArchive: (archived: boolean) => void;
+}) {
+  const [renaming, setRenaming] = useState(false);
+  const [draft, setDraft] = useState(thread.title);
 
-  // Unordered lists (handle multiple consecutive lines starting with - or *)
-  html = html.replace(/^(?:[-*] .+\n?)+/gm, (match) => {
-    const items = match.trim().split('\n').map(line =>
-      `<li>${line.replace(/^[-*] /, '')}</li>`
-    ).join('');
-    return `<ul class="md-ul">${items}</ul>`;
-  });
-
-  // Ordered lists
-  html = html.replace(/^(?:\d+\. .+\n?)+/gm, (match) => {
-    const items = match.trim().split('\n').map(line =>
-      `<li>${line.replace(/^\d+\. /, '')}</li>`
-    ).join('');
-    return `<ol class="md-ol">${items}</ol>`;
-  });
-
-  // Links
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" class="md-link" target="_blank" rel="noopener">$1</a>');
-
-  // Paragraphs (double newline)
-  html = html.replace(/\n\n/g, '</p><p class="md-p">');
-
-  // Single line breaks within paragraphs
-  html = html.replace(/\n/g, '<br />');
+  const save = () => {
+    if (draft.trim() && draft.trim() !== thread.title) onRename(draft.trim());
+    setRenaming(false);
+  };
 
-  // Wrap in paragraph if not already wrapped in block element
-  if (!html.startsWith('<h') && !html.startsWith('<pre') && !html.startsWith('<ul') && !html.startsWith('<ol')) {
-    html = `<p class="md-p">${html}</p>`;
+  if (renaming) {
+    return (
+      <div className="px-3 py-2 bg-zinc-800/60">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') { setDraft(thread.title); setRenaming(false); }
+          }}
+          className="w-full bg-zinc-900 border border-amber-500/40 px-2 py-1 text-xs text-zinc-200 focus:outline-none"
+        />
+      </div>
+    );
   }
 
-  return html;
+  return (
+    <div
+      onClick={onSelect}
+      onDoubleClick={() => { setDraft(thread.title); setRenaming(true); }}
+      className={cn(
+        'group px-3 py-2 cursor-pointer border-l-2 transition-colors',
+        active ? 'bg-zinc-800/60 border-amber-500/60' : 'border-transparent hover:bg-zinc-800/30'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className={cn('text-xs truncate flex-1', active ? 'text-zinc-200' : 'text-zinc-400')} title={thread.title}>
+          {thread.title}
+        </span>
+        <span className="text-[9px] text-zinc-600 shrink-0 group-hover:hidden">{formatThreadDate(thread.updatedAt)}</span>
+        <span className="hidden group-hover:flex items-center gap-1.5 shrink-0">
+          <button
+            onClick={(e) => { e.stopPropagation(); setDraft(thread.title); setRenaming(true); }}
+            className="text-[10px] text-zinc-600 hover:text-zinc-300"
+            title="Rename"
+          >
+            ✎
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onArchive(!thread.archived); }}
+            className="text-[10px] text-zinc-600 hover:text-zinc-300"
+            title={thread.archived ? 'Unarchive' : 'Archive'}
+          >
+            {thread.archived ? '↩' : '⌫'}
+          </button>
+        </span>
+      </div>
+      {contextLabel && <div className="text-[10px] text-zinc-600 truncate mt-0.5">{contextLabel}</div>}
+    </div>
+  );
 }
 
-// Markdown CSS styles injected into the component
-const markdownStyles = `
-.cea-message .md-h1 { font-size: 1.25rem; font-weight: 600; color: #e4e4e7; margin: 0.75rem 0 0.5rem; }
-.cea-message .md-h2 { font-size: 1.1rem; font-weight: 600; color: #e4e4e7; margin: 0.6rem 0 0.4rem; }
-.cea-message .md-h3 { font-size: 1rem; font-weight: 600; color: #d4d4d8; margin: 0.5rem 0 0.3rem; }
-.cea-message .md-h4 { font-size: 0.9rem; font-weight: 600; color: #d4d4d8; margin: 0.4rem 0 0.25rem; }
-.cea-message strong { color: #e4e4e7; font-weight: 600; }
-.cea-message em { color: #a1a1aa; font-style: italic; }
-.cea-message .md-p { margin: 0.35rem 0; }
-.cea-message .md-p:first-child { margin-top: 0; }
-.cea-message .md-p:last-child { margin-bottom: 0; }
-.cea-message .md-ul, .cea-message .md-ol { margin: 0.4rem 0; padding-left: 1.25rem; }
-.cea-message .md-ul li, .cea-message .md-ol li { margin: 0.2rem 0; color: #a1a1aa; }
-.cea-message .md-ul { list-style-type: disc; }
-.cea-message .md-ol { list-style-type: decimal; }
-.cea-message .md-code-block {
-  background: #18181b; border: 1px solid #27272a; padding: 0.75rem; margin: 0.5rem 0;
-  overflow-x: auto; font-size: 0.8rem; line-height: 1.5;
-}
-.cea-message .md-code-block code { color: #a1a1aa; font-family: 'JetBrains Mono', 'Fira Code', monospace; }
-.cea-message .md-inline-code {
-  background: #27272a; color: #f59e0b; padding: 0.1rem 0.35rem; font-size: 0.85em;
-  font-family: 'JetBrains Mono', 'Fira Code', monospace;
+// A CEA reply: markdown text, then a card per proposed action
+function CeaReply({ message, decisions, agents, projects, onDecide, onAccept }: {
+  message: Message;
+  decisions: Record<string, ActionDecision>;
+  agents: Agent[];
+  projects: Project[];
+  onDecide: (key: string, status: ActionDecision['status']) => void;
+  onAccept: (action: ChatAction) => void;
+}) {
+  const reply = parseReply(message.content, message.threadId);
+  return (
+    <>
+      {(reply.text || message.streaming) && (
+        <div className={cn('cea-message text-sm leading-relaxed px-4 py-3 bg-zinc-900 text-zinc-300 border border-zinc-800', message.streaming && 'cea-streaming')}>
+          <Markdown text={reply.text} />
+        </div>
+      )}
+      {(reply.actions.length > 0 || reply.pending || reply.invalid > 0) && (
+        <div className="mt-2 space-y-1.5">
+          {reply.actions.map(({ key, action }) => (
+            <ChatActionCard
+              key={key}
+              action={resolveAction(action, agents, projects)}
+              decision={decisions[key]}
+              agents={agents}
+              projects={projects}
+              onAccept={(accepted) => { onAccept(accepted); onDecide(key, 'accepted'); }}
+              onReject={() => onDecide(key, 'rejected')}
+            />
+          ))}
+          {reply.pending && <div className="text-[10px] text-zinc-600 animate-pulse">Preparing actions…</div>}
+          {reply.invalid > 0 && !message.streaming && (
+            <div className="text-[10px] text-zinc-600">{reply.invalid} proposed action{reply.invalid > 1 ? 's' : ''} couldn't be read</div>
+          )}
+        </div>
+      )}
+    </>
+  );
 }
-.cea-message .md-link { color: #f59e0b; text-decoration: underline; text-underline-offset: 2px; }
-.cea-message .md-link:hover { color: #fbbf24; }
-.cea-message .md-hr { border: none; border-top: 1px solid #27272a; margin: 0.75rem 0; }
-`;
 
-export function ChatInterface({ messages, onSendMessage }: ChatInterfaceProps) {
+export function ChatInterface({
+  messages, threads, activeThreadId, loadingHistory, awaitingReply, projects, agents,
+  onSendMessage, onStopReply, onAcceptAction, onUpdateThread, onStartThread, onOpenProject, onOpenAgent, onOpenDirective, query, onQueryChange,
+}: ChatInterfaceProps) {
   const [input, setInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const search = query.q ?? '';
+  const showArchived = query.archived === '1';
+  const activeThread = threads.find(t => t.id === activeThreadId);
+  // A new conversation may be about a project or agent until its first message
+  const context = activeThread ? activeThread.context : parseContextParam(query.context);
+  const contextLabel = context ? describeContext(context, projects, agents) : null;
+  const labelOf = (thread: ChatThread) => thread.context ? describeContext(thread.context, projects, agents) : null;
+
+  const threadMessages = useMemo(
+    () => (activeThreadId ? messages.filter(m => m.threadId === activeThreadId) : []),
+    [messages, activeThreadId]
+  );
+  const visibleThreads = filterThreads(threads, search, showArchived, labelOf);
+  const archivedCount = threads.filter(t => t.archived).length;
+  // Earlier conversations about the same project/agent, offered when starting a new one
+  const related = !activeThreadId && context
+    ? threads.filter(t => t.context?.type === context.type && t.context.id === context.id && !t.archived)
+    : [];
+
+  const [decisions, setDecisions] = useState<Record<string, ActionDecision>>(loadDecisions);
+  const decide = (key: string, status: ActionDecision['status']) => setDecisions(prev => {
+    const next = { ...prev, [key]: { status, at: new Date().toISOString() } };
+    saveDecisions(next);
+    return next;
+  });
+
+  // Follow new messages; a linked message (?msg=) is brought into view once
+  const scrolledToRef = useRef<string | undefined>(undefined);
   useEffect(() => {
-    if (scrollRef.current) {
+    const linked = query.msg && scrolledToRef.current !== query.msg ? document.getElementById(`msg-${query.msg}`) : null;
+    if (linked) {
+      linked.scrollIntoView({ block: 'center' });
+      scrolledToRef.current = query.msg;
+    } else if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [threadMessages, query.msg]);
 
-  // Simulate CEA typing indicator briefly after user message
-  useEffect(() => {
-    const lastMsg = messages[messages.length - 1];
-    if (lastMsg && lastMsg.from === 'tiger') {
-      setIsTyping(true);
-      const t = setTimeout(() => setIsTyping(false), 1500);
-      return () => clearTimeout(t);
-    }
-  }, [messages]);
+  // Thinking until the first words of the reply arrive
+  const isThinking = awaitingReply && !threadMessages.some(m => m.streaming);
 
   const handleSend = () => {
-    if (!input.trim()) return;
+    if (!input.trim() || awaitingReply) return;
     onSendMessage(input.trim());
     setInput('');
   };
@@ -135,6 +201,11 @@ export function ChatInterface({ messages, onSendMessage }: ChatInterfaceProps) {
     }
   };
 
+  const openContext = () => {
+    if (context?.type === 'project') onOpenProject(context.id);
+    if (context?.type === 'agent') onOpenAgent(context.id);
+  };
+
   const quickActions = [
     "What should I focus on today?",
     "Show me this week's progress",
@@ -143,151 +214,277 @@ export function ChatInterface({ messages, onSendMessage }: ChatInterfaceProps) {
   ];
 
   return (
-    <div className="flex-1 flex flex-col bg-zinc-950">
+    <div className="flex-1 flex bg-zinc-950 min-h-0">
       {/* Inject markdown styles */}
-      <style>{markdownStyles}</style>
+      <MarkdownStyles />
 
-      {/* Chat Header */}
-      <div className="px-6 py-4 border-b border-zinc-800 flex items-center gap-3">
-        <div className="w-10 h-10 bg-amber-500/15 flex items-center justify-center text-lg" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}>
-          🧠
-        </div>
-        <div>
-          <div className="text-sm font-medium text-zinc-200">The CEA</div>
-          <div className="text-[10px] text-emerald-400 flex items-center gap-1.5">
-            <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
-            Online · Managing HeartBased.io
-          </div>
+      {/* ─── Threads ─── */}
+      <div className="w-64 shrink-0 border-r border-zinc-800 flex flex-col min-h-0">
+        <div className="p-3 border-b border-zinc-800 space-y-2">
+          <button
+            onClick={() => onStartThread()}
+            className="w-full text-xs px-3 py-2 bg-amber-500/15 text-amber-400 border border-amber-500/30 hover:bg-amber-500/25 transition-all"
+          >
+            + New conversation
+          </button>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => onQueryChange({ q: e.target.value || undefined })}
+            placeholder="Search conversations..."
+            className="w-full bg-zinc-900 border border-zinc-800 px-2.5 py-1.5 text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-700"
+          />
         </div>
-        <div className="ml-auto flex items-center gap-3">
-          <span className="text-[9px] px-2 py-0.5 bg-zinc-800 text-zinc-500 border border-zinc-700">
-            Powered by Claude Sonnet 4.5
-          </span>
-          <span className="text-[10px] text-zinc-600">
-            Direct line to your Chief Executive Agent
-          </span>
+
+        <div className="flex-1 overflow-auto py-1">
+          {visibleThreads.map(thread => (
+            <ThreadItem
+              key={thread.id}
+              thread={thread}
+              active={thread.id === activeThreadId}
+              contextLabel={labelOf(thread)}
+              onSelect={() => onQueryChange({ thread: thread.id, context: undefined, msg: undefined })}
+              onRename={(title) => onUpdateThread(thread.id, { title })}
+              onArchive={(archived) => onUpdateThread(thread.id, { archived })}
+            />
+          ))}
+          {visibleThreads.length === 0 && (
+            <div className="px-3 py-6 text-[11px] text-zinc-600 text-center">
+              {search ? 'No matching conversations' : showArchived ? 'Nothing archived' : 'No conversations yet'}
+            </div>
+          )}
         </div>
+
+        <button
+          onClick={() => onQueryChange({ archived: showArchived ? undefined : '1' })}
+          className="px-3 py-2 border-t border-zinc-800 text-[10px] text-zinc-600 hover:text-zinc-400 uppercase tracking-wider text-left transition-colors"
+        >
+          {showArchived ? '← Active conversations' : `Archived (${archivedCount})`}
+        </button>
       </div>
 
-      {/* Messages */}
-      <div ref={scrollRef} className="flex-1 overflow-auto px-6 py-4 space-y-4">
-        {messages.map((msg) => (
-          <div
-            key={msg.id}
-            className={cn(
-              'flex gap-3 max-w-3xl',
-              msg.from === 'tiger' ? 'ml-auto flex-row-reverse' : ''
-            )}
-          >
-            {msg.from !== 'tiger' && (
-              <div className="w-8 h-8 bg-amber-500/15 flex items-center justify-center text-sm shrink-0 mt-1" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}>
-                🧠
+      {/* ─── Conversation ─── */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Chat Header */}
+        <div className="px-6 py-4 border-b border-zinc-800 flex items-center gap-3">
+          <div className="w-10 h-10 bg-amber-500/15 flex items-center justify-center text-lg shrink-0" style={HEX_CLIP}>
+            🧠
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-zinc-200 truncate">{activeThread?.title ?? 'The CEA'}</div>
+            <div className="text-[10px] text-emerald-400 flex items-center gap-1.5">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
+              {activeThread ? 'The CEA' : 'New conversation'} · Managing HeartBased.io
+            </div>
+          </div>
+          {context && (
+            <span className="flex items-center gap-1 text-[10px] px-2 py-0.5 bg-zinc-800 border border-zinc-700 text-zinc-400 shrink-0">
+              <span className="text-zinc-600">About</span>
+              <button onClick={openContext} className="hover:text-amber-400 transition-colors" disabled={!contextLabel}>
+                {contextLabel ?? `a deleted ${context.type}`}
+              </button>
+              {!activeThread && (
+                <button onClick={() => onQueryChange({ context: undefined })} className="text-zinc-600 hover:text-zinc-300 ml-1" title="Don't attach">
+                  ×
+                </button>
+              )}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-3 shrink-0">
+            <span className="text-[9px] px-2 py-0.5 bg-zinc-800 text-zinc-500 border border-zinc-700">
+              Powered by Claude Sonnet 4.5
+            </span>
+          </div>
+        </div>
+
+        {/* Messages */}
+        <div ref={scrollRef} className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {loadingHistory && threadMessages.length === 0 && (
+            <div className="text-xs text-zinc-600 animate-pulse">Loading conversation…</div>
+          )}
+
+          {!activeThreadId && (
+            <div className="max-w-xl mx-auto text-center pt-12 space-y-3">
+              <div className="text-sm text-zinc-400">
+                {contextLabel ? <>Start a conversation about <span className="text-zinc-200">{contextLabel}</span></> : 'Start a new conversation with the CEA'}
               </div>
-            )}
-            <div className={cn(
-              'max-w-[75%]',
-              msg.from === 'tiger' ? 'text-right' : ''
-            )}>
-              <div className="flex items-center gap-2 mb-1">
+              <div className="text-[11px] text-zinc-600">Direct line to your Chief Executive Agent — it's named after your first message, and you can rename it later.</div>
+              {related.length > 0 && (
+                <div className="pt-4 text-left">
+                  <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-1.5">Earlier conversations</div>
+                  {related.slice(0, 5).map(t => (
+                    <button
+                      key={t.id}
+                      onClick={() => onQueryChange({ thread: t.id, context: undefined, msg: undefined })}
+                      className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-900 border-l-2 border-zinc-800 text-left"
+                    >
+                      <span className="truncate flex-1">{t.title}</span>
+                      <span className="text-[10px] text-zinc-600">{formatThreadDate(t.updatedAt)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {threadMessages.map((msg) => (
+            <div
+              key={msg.id}
+              id={`msg-${msg.id}`}
+              className={cn(
+                'flex gap-3 max-w-3xl',
+                msg.from === 'tiger' ? 'ml-auto flex-row-reverse' : '',
+                msg.id === query.msg && 'ring-1 ring-amber-500/40 ring-offset-4 ring-offset-zinc-950'
+              )}
+            >
+              {msg.from !== 'tiger' && (
+                <div className="w-8 h-8 bg-amber-500/15 flex items-center justify-center text-sm shrink-0 mt-1" style={HEX_CLIP}>
+                  🧠
+                </div>
+              )}
+              <div className={cn(
+                'max-w-[75%]',
+                msg.from === 'tiger' ? 'text-right' : ''
+              )}>
+                <div className="flex items-center gap-2 mb-1">
+                  {msg.from === 'tiger' ? (
+                    <>
+                      <span className="text-[10px] text-zinc-600">{msg.timestamp}</span>
+                      <span className="text-xs font-medium text-zinc-400">You</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-xs font-medium text-amber-400/80">The CEA</span>
+                      {msg.type === 'directive' ? (
+                        <button
+                          onClick={() => onOpenDirective(msg.directiveId)}
+                          className="text-[9px] px-1 py-0.5 bg-amber-500/15 text-amber-400 hover:bg-amber-500/25 transition-colors"
+                          title="Open in Directives"
+                        >
+                          directive ↗
+                        </button>
+                      ) : (
+                        <span className={cn(
+                          'text-[9px] px-1 py-0.5',
+                          msg.type === 'report' && 'bg-emerald-500/15 text-emerald-400',
+                          msg.type === 'alert' && 'bg-red-500/15 text-red-400',
+                          msg.type === 'message' && 'bg-zinc-800 text-zinc-500',
+                        )}>
+                          {msg.type}
+                        </span>
+                      )}
+                      <span className="text-[10px] text-zinc-600">{msg.timestamp}</span>
+                    </>
+                  )}
+                </div>
                 {msg.from === 'tiger' ? (
-                  <>
-                    <span className="text-[10px] text-zinc-600">{msg.timestamp}</span>
-                    <span className="text-xs font-medium text-zinc-400">You</span>
-                  </>
+                  <div className="text-sm leading-relaxed px-4 py-3 bg-zinc-800 text-zinc-300 border border-zinc-700">
+                    {msg.content}
+                  </div>
                 ) : (
-                  <>
-                    <span className="text-xs font-medium text-amber-400/80">The CEA</span>
-                    <span className={cn(
-                      'text-[9px] px-1 py-0.5',
-                      msg.type === 'directive' && 'bg-amber-500/15 text-amber-400',
-                      msg.type === 'report' && 'bg-emerald-500/15 text-emerald-400',
-                      msg.type === 'alert' && 'bg-red-500/15 text-red-400',
-                      msg.type === 'message' && 'bg-zinc-800 text-zinc-500',
-                    )}>
-                      {msg.type}
-                    </span>
-                    <span className="text-[10px] text-zinc-600">{msg.timestamp}</span>
-                  </>
+                  <CeaReply
+                    message={msg}
+                    decisions={decisions}
+                    agents={agents}
+                    projects={projects}
+                    onDecide={decide}
+                    onAccept={(action) => onAcceptAction(action, { threadId: msg.threadId ?? activeThreadId ?? '', messageId: msg.id })}
+                  />
                 )}
               </div>
-              {msg.from === 'tiger' ? (
-                <div className="text-sm leading-relaxed px-4 py-3 bg-zinc-800 text-zinc-300 border border-zinc-700">
-                  {msg.content}
+              {msg.from === 'tiger' && (
+                <div className="w-8 h-8 bg-zinc-800 rounded-full flex items-center justify-center text-sm shrink-0 mt-1">
+                  🐯
                 </div>
-              ) : (
-                <div
-                  className="cea-message text-sm leading-relaxed px-4 py-3 bg-zinc-900 text-zinc-300 border border-zinc-800"
-                  dangerouslySetInnerHTML={{ __html: renderMarkdown(msg.content) }}
-                />
               )}
             </div>
-            {msg.from === 'tiger' && (
-              <div className="w-8 h-8 bg-zinc-800 rounded-full flex items-center justify-center text-sm shrink-0 mt-1">
-                🐯
-              </div>
-            )}
-          </div>
-        ))}
+          ))}
 
-        {isTyping && (
-          <div className="flex gap-3">
-            <div className="w-8 h-8 bg-amber-500/15 flex items-center justify-center text-sm shrink-0" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}>
-              🧠
-            </div>
-            <div className="bg-zinc-900 border border-zinc-800 px-4 py-3 text-sm text-zinc-500">
-              <span className="animate-pulse">The CEA is thinking...</span>
+          {isThinking && (
+            <div className="flex gap-3">
+              <div className="w-8 h-8 bg-amber-500/15 flex items-center justify-center text-sm shrink-0" style={HEX_CLIP}>
+                🧠
+              </div>
+              <div className="bg-zinc-900 border border-zinc-800 px-4 py-3 text-sm text-zinc-500">
+                <span className="animate-pulse">The CEA is thinking...</span>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
-
-      {/* Quick Actions */}
-      {messages.length <= 6 && (
-        <div className="px-6 pb-2">
-          <div className="flex gap-2 flex-wrap">
-            {quickActions.map((action) => (
-              <button
-                key={action}
-                onClick={() => onSendMessage(action)}
-                className="text-[11px] px-3 py-1.5 border border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700 transition-all"
-              >
-                {action}
-              </button>
-            ))}
-          </div>
+          )}
         </div>
-      )}
 
-      {/* Input */}
-      <div className="px-6 py-4 border-t border-zinc-800">
-        <div className="flex gap-3 items-end">
-          <div className="flex-1 relative">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Message the CEA..."
-              rows={1}
-              className="w-full bg-zinc-900 border border-zinc-800 px-4 py-3 text-sm text-zinc-200 placeholder:text-zinc-600 resize-none focus:outline-none focus:border-zinc-700"
-              style={{ minHeight: '44px', maxHeight: '120px' }}
-            />
+        {activeThread?.archived ? (
+          <div className="px-6 py-4 border-t border-zinc-800 flex items-center gap-3">
+            <span className="text-xs text-zinc-500">This conversation is archived.</span>
+            <button
+              onClick={() => onUpdateThread(activeThread.id, { archived: false })}
+              className="text-xs px-3 py-1.5 border border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:border-zinc-600 transition-all"
+            >
+              Unarchive to continue
+            </button>
           </div>
-          <button
-            onClick={handleSend}
-            disabled={!input.trim()}
-            className={cn(
-              'px-4 py-3 text-sm transition-all border',
-              input.trim()
-                ? 'bg-amber-500/15 text-amber-400 border-amber-500/30 hover:bg-amber-500/25'
-                : 'bg-zinc-900 text-zinc-700 border-zinc-800 cursor-not-allowed'
+        ) : (
+          <>
+            {/* Quick Actions */}
+            {threadMessages.length <= 6 && (
+              <div className="px-6 pb-2">
+                <div className="flex gap-2 flex-wrap">
+                  {quickActions.map((action) => (
+                    <button
+                      key={action}
+                      onClick={() => onSendMessage(action)}
+                      disabled={awaitingReply}
+                      className="text-[11px] px-3 py-1.5 border border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                      {action}
+                    </button>
+                  ))}
+                </div>
+              </div>
             )}
-          >
-            Send
-          </button>
-        </div>
-        <div className="text-[10px] text-zinc-700 mt-2">
-          Press Enter to send · The CEA processes directives, reports, and strategic queries
-        </div>
+
+            {/* Input */}
+            <div className="px-6 py-4 border-t border-zinc-800">
+              <div className="flex gap-3 items-end">
+                <div className="flex-1 relative">
+                  <textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={activeThread ? 'Message the CEA...' : 'Start a new conversation...'}
+                    rows={1}
+                    className="w-full bg-zinc-900 border border-zinc-800 px-4 py-3 text-sm text-zinc-200 placeholder:text-zinc-600 resize-none focus:outline-none focus:border-zinc-700"
+                    style={{ minHeight: '44px', maxHeight: '120px' }}
+                  />
+                </div>
+                {awaitingReply ? (
+                  <button
+                    onClick={onStopReply}
+                    className="px-4 py-3 text-sm transition-all border bg-red-500/10 text-red-400 border-red-500/30 hover:bg-red-500/20"
+                    title="Stop the reply"
+                  >
+                    ■ Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSend}
+                    disabled={!input.trim()}
+                    className={cn(
+                      'px-4 py-3 text-sm transition-all border',
+                      input.trim()
+                        ? 'bg-amber-500/15 text-amber-400 border-amber-500/30 hover:bg-amber-500/25'
+                        : 'bg-zinc-900 text-zinc-700 border-zinc-800 cursor-not-allowed'
+                    )}
+                  >
+                    Send
+                  </button>
+                )}
+              </div>
+              <div className="text-[10px] text-zinc-700 mt-2">
+                Press Enter to send · The CEA processes directives, reports, and strategic queries
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
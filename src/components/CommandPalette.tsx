@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command';
+import { Agent, FeatureRequest, Goal, Project, Task } from '../types';
+import { NAV_ITEMS, Route } from '../router';
+import { spawnableAgents } from '../data';
+import { PaletteItem, QuickTask, loadRecent, queryActions, rankItems, recentItems, recordRecent } from '../command-palette';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: Task[];
+  projects: Project[];
+  agents: Agent[];
+  goals: Goal[];
+  ideas: FeatureRequest[];
+  focusedTask?: Task | null;      // the task open on the board, for status actions
+  onNavigate: (route: Route) => void;
+  onNewTask: () => void;
+  onCreateTask: (task: QuickTask) => void;
+  onUpdateTaskStatus: (taskId: string, status: Task['status']) => void;
+  onSpawnAgent: (name: string, emoji: string, role: string, description: string) => void;
+  onMessageCEA: (content: string) => void;
+}
+
+const TASK_STATUSES: { id: Task['status']; label: string }[] = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'in_progress', label: 'In Progress' },
+  { id: 'review', label: 'Review' },
+  { id: 'completed', label: 'Completed' },
+];
+
+const statusLabel = (status: Task['status']) => TASK_STATUSES.find(s => s.id === status)?.label ?? status;
+
+const RESULT_LIMIT = 40;
+
+// Cmd+K: jump to anything, or run an action. Ranking lives in command-palette.ts;
+// cmdk only handles the keyboard, so its own filter is off.
+export function CommandPalette({
+  open, onOpenChange, tasks, projects, agents, goals, ideas, focusedTask,
+  onNavigate, onNewTask, onCreateTask, onUpdateTaskStatus, onSpawnAgent, onMessageCEA,
+}: CommandPaletteProps) {
+  const [search, setSearch] = useState('');
+  const [recent, setRecent] = useState(loadRecent);
+  const query = search.trim();
+
+  const close = (next: boolean) => {
+    if (!next) setSearch('');
+    onOpenChange(next);
+  };
+
+  // ─── Items ───
+
+  const statusActions = useMemo<PaletteItem[]>(() => focusedTask
+    ? TASK_STATUSES.filter(s => s.id !== focusedTask.status).map(s => ({
+      key: `action:status:${s.id}`,
+      group: 'Actions',
+      label: `Move to ${s.label}`,
+      detail: focusedTask.title,
+      icon: '→',
+      keywords: 'status task set mark',
+      run: () => onUpdateTaskStatus(focusedTask.id, s.id),
+    }))
+    : [], [focusedTask, onUpdateTaskStatus]);
+
+  const baseActions = useMemo<PaletteItem[]>(() => [
+    { key: 'action:new-task', group: 'Actions', label: 'New task…', icon: '+', keywords: 'create add task', run: onNewTask },
+    { key: 'action:message-cea', group: 'Actions', label: 'Message the CEA…', icon: '◈', keywords: 'chat talk ask', run: () => onNavigate({ view: 'chat', query: {} }) },
+  ], [onNewTask, onNavigate]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const projectCode = (id?: string) => projects.find(p => p.id === id)?.shortCode;
+    const agentName = (id: string) => id === 'tiger' ? 'Tiger' : agents.find(a => a.id === id)?.name ?? '';
+    return [
+      ...statusActions,
+      ...baseActions,
+      ...spawnableAgents.map((a): PaletteItem => ({
+        key: `action:spawn:${a.name}`,
+        group: 'Actions',
+        label: `Spawn ${a.name}`,
+        detail: a.role,
+        icon: a.emoji,
+        keywords: 'spawn deploy agent',
+        run: () => onSpawnAgent(a.name, a.emoji, a.role, a.description),
+      })),
+      ...NAV_ITEMS.map((v): PaletteItem => ({
+        key: `view:${v.id}`,
+        group: 'Views',
+        label: `Go to ${v.label}`,
+        icon: v.icon,
+        keywords: `${v.id} view switch`,
+        run: () => onNavigate({ view: v.id, query: {} }),
+      })),
+      ...tasks.map((t): PaletteItem => ({
+        key: `task:${t.id}`,
+        group: 'Tasks',
+        label: t.title,
+        detail: [projectCode(t.projectId), statusLabel(t.status)].filter(Boolean).join(' · '),
+        icon: t.status === 'completed' ? '✓' : '☐',
+        keywords: [projectCode(t.projectId), agentName(t.assignedTo), t.status].filter(Boolean).join(' '),
+        updatedAt: t.completedAt ?? t.createdAt,
+        run: () => onNavigate({ view: 'tasks', id: t.id, query: {} }),
+      })),
+      ...projects.map((p): PaletteItem => ({
+        key: `project:${p.id}`,
+        group: 'Projects',
+        label: p.title,
+        detail: p.shortCode,
+        icon: '◫',
+        keywords: `${p.shortCode} ${p.department}`,
+        updatedAt: p.createdAt,
+        run: () => onNavigate({ view: 'project-detail', id: p.id, query: {} }),
+      })),
+      ...agents.map((a): PaletteItem => ({
+        key: `agent:${a.id}`,
+        group: 'Agents',
+        label: a.name,
+        detail: a.role,
+        icon: a.emoji,
+        keywords: a.role,
+        run: () => onNavigate({ view: 'agent-detail', id: a.id, query: {} }),
+      })),
+      ...goals.map((g): PaletteItem => ({
+        key: `goal:${g.id}`,
+        group: 'Goals',
+        label: g.title,
+        detail: [g.quarter?.replace('-', ' '), `${g.progress}%`].filter(Boolean).join(' · '),
+        icon: '△',
+        keywords: g.quarter,
+        run: () => onNavigate({ view: 'strategy', id: g.id, query: g.quarter ? { q: g.quarter } : {} }),
+      })),
+      ...ideas.map((i): PaletteItem => ({
+        key: `idea:${i.id}`,
+        group: 'Ideas',
+        label: i.title,
+        detail: i.status.replace('_', ' '),
+        icon: '💡',
+        keywords: i.sourceView,
+        updatedAt: i.updatedAt,
+        run: () => onNavigate({ view: 'ideas', id: i.id, query: {} }),
+      })),
+    ];
+  }, [statusActions, baseActions, tasks, projects, agents, goals, ideas, onNavigate, onSpawnAgent]);
+
+  // ─── Sections ───
+
+  // Without a query: recent picks, then the actions and views. With one: the
+  // ranked matches, each group placed where its best match falls.
+  const sections = useMemo<{ heading: string; items: PaletteItem[] }[]>(() => {
+    if (!query) {
+      const recents = recentItems(items.filter(i => !i.key.startsWith('action:status:')), recent);
+      return [
+        { heading: 'Recent', items: recents },
+        { heading: focusedTask ? `Focused task · ${focusedTask.title}` : '', items: statusActions },
+        { heading: 'Actions', items: baseActions },
+        { heading: 'Views', items: items.filter(i => i.group === 'Views') },
+      ].filter(s => s.items.length);
+    }
+    const grouped = new Map<string, PaletteItem[]>();
+    for (const { item } of rankItems(items, query, recent).slice(0, RESULT_LIMIT)) {
+      grouped.set(item.group, [...(grouped.get(item.group) ?? []), item]);
+    }
+    return [...grouped].map(([heading, list]) => ({ heading, items: list }));
+  }, [query, items, recent, focusedTask, statusActions, baseActions]);
+
+  const run = (item: PaletteItem) => {
+    setRecent(recordRecent(recent, item.key));
+    close(false);
+    item.run();
+  };
+
+  const runWithQuery = (item: PaletteItem) => {
+    close(false);
+    item.run();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="bg-zinc-900 border-zinc-700 text-zinc-100 max-w-xl p-0 overflow-hidden top-[20%] translate-y-0 [&>button]:hidden">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <Command shouldFilter={false} loop className="bg-transparent text-zinc-200">
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Search tasks, projects, agents, goals, ideas — or type a command"
+            className="h-12 text-zinc-200 placeholder:text-zinc-600"
+          />
+          <CommandList className="max-h-[420px] border-t border-zinc-800">
+            <CommandEmpty className="py-6 text-center text-xs text-zinc-600">No matches</CommandEmpty>
+
+            {sections.map(section => (
+              <CommandGroup
+                key={section.heading}
+                heading={section.heading}
+                className="[&_[cmdk-group-heading]]:text-[10px] [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-wider [&_[cmdk-group-heading]]:text-zinc-600 [&_[cmdk-group-heading]]:truncate"
+              >
+                {section.items.map(item => (
+                  <CommandItem
+                    key={item.key}
+                    value={item.key}
+                    onSelect={() => run(item)}
+                    className="rounded-none text-xs text-zinc-300 data-[selected=true]:bg-zinc-800 data-[selected=true]:text-zinc-100"
+                  >
+                    <span className="w-5 shrink-0 text-center text-zinc-500">{item.icon}</span>
+                    <span className="truncate">{item.label}</span>
+                    {item.detail && <span className="ml-auto pl-3 shrink-0 max-w-[40%] truncate text-[10px] text-zinc-600">{item.detail}</span>}
+                    {item.key === 'action:new-task' && <CommandShortcut className="text-[10px] text-zinc-600">⌘T</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+
+            {query && (
+              <CommandGroup
+                heading="Run"
+                className="[&_[cmdk-group-heading]]:text-[10px] [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-wider [&_[cmdk-group-heading]]:text-zinc-600"
+              >
+                {queryActions(query, { onCreateTask, onMessageCEA }).map(item => (
+                  <CommandItem
+                    key={item.key}
+                    value={item.key}
+                    onSelect={() => runWithQuery(item)}
+                    className="rounded-none text-xs text-zinc-300 data-[selected=true]:bg-zinc-800 data-[selected=true]:text-zinc-100"
+                  >
+                    <span className={cn('w-5 shrink-0 text-center', item.key === 'run:create-task' ? 'text-teal-400' : 'text-amber-400')}>{item.icon}</span>
+                    <span className="truncate">{item.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+          <div className="flex items-center gap-3 px-3 py-2 border-t border-zinc-800 text-[10px] text-zinc-600">
+            <span>↑↓ navigate</span>
+            <span>↵ open</span>
+            <span>esc close</span>
+            <span className="ml-auto">Recent picks rank first</span>
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
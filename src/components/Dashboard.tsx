@@ -1,7 +1,15 @@
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
-import { KPI, ActivityItem, Task, Agent, Project } from '../types';
+import { KPI, ActivityItem, ActivityLink, Task, Agent, Project } from '../types';
+import { compareDue, dueState } from '../due-dates';
+import type { ReminderPermission } from '../hooks/use-due-reminders';
+import { DueBadge } from './DueDate';
+import { Sparkline } from './KPIChart';
+import { BriefingBanner } from './Briefing';
+import { Briefing, dayKey, formatBriefingDate } from '../briefing';
+import type { Route } from '../router';
 
 interface DashboardProps {
   kpis: KPI[];
@@ -10,11 +18,35 @@ interface DashboardProps {
   agents: Agent[];
   projects: Project[];
   onNavigate: (view: string) => void;
+  onOpenTask?: (taskId: string) => void;
+  onOpenMessage?: (link: ActivityLink) => void;
+  reminderPermission?: ReminderPermission;
+  onEnableReminders?: () => void;
+  briefing: Briefing | null;
+  briefingArchive: Briefing[];
+  narrativeEnabled: boolean;
+  onToggleNarrative?: (on: boolean) => void;   // missing when the narrative isn't available
+  briefingWriting: boolean;
+  onRegenerateBriefing: () => void;
+  onOpenLink: (route: Route) => void;
 }
 
-export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate }: DashboardProps) {
+// Overdue first, then due soon, then by priority and deadline
+const URGENCY: Record<string, number> = { overdue: 0, 'due-soon': 1 };
+const PRIORITY_RANK: Record<Task['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+const byUrgency = (a: Task, b: Task) =>
+  (URGENCY[dueState(a) ?? ''] ?? 2) - (URGENCY[dueState(b) ?? ''] ?? 2) ||
+  PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+  compareDue(a, b);
+
+export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate, onOpenTask, onOpenMessage, reminderPermission, onEnableReminders,
+  briefing, briefingArchive, narrativeEnabled, onToggleNarrative, briefingWriting, onRegenerateBriefing, onOpenLink }: DashboardProps) {
+  const [today] = useState(() => formatBriefingDate(dayKey()));
   const tigerTasks = tasks.filter(t => t.assignedTo === 'tiger');
-  const pendingTiger = tigerTasks.filter(t => t.status === 'pending' || t.status === 'in_progress' || t.status === 'review');
+  const pendingTiger = tigerTasks
+    .filter(t => t.status === 'pending' || t.status === 'in_progress' || t.status === 'review')
+    .sort(byUrgency);
+  const overdueTiger = pendingTiger.filter(t => dueState(t) === 'overdue');
   const completedToday = tigerTasks.filter(t => t.status === 'completed').length;
   const ceaAgent = agents.find(a => a.id === 'cea');
 
@@ -25,7 +57,7 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-xl font-semibold text-zinc-100">Command Center</h1>
-            <p className="text-sm text-zinc-500 mt-0.5">Saturday, February 14, 2026 · Valentine's Day</p>
+            <p className="text-sm text-zinc-500 mt-0.5">{today}</p>
           </div>
           <div className="text-right">
             <div className="text-[10px] text-zinc-600 uppercase tracking-wider">CEA Uptime</div>
@@ -35,30 +67,24 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
       </div>
 
       {/* CEA Briefing Banner */}
-      <div className="mb-6 bg-zinc-900 border border-zinc-800 p-4">
-        <div className="flex items-start gap-3">
-          <div className="w-9 h-9 bg-amber-500/15 flex items-center justify-center text-lg shrink-0 mt-0.5" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}>
-            🧠
-          </div>
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-2 mb-1">
-              <span className="text-xs font-medium text-amber-400">CEA Morning Briefing</span>
-              <span className="text-[10px] text-zinc-600">8:00 AM</span>
-            </div>
-            <p className="text-sm text-zinc-300 leading-relaxed">
-              Good morning, Tiger. Revenue is up 12.5% this month — meditation content is the driver.
-              You have <button onClick={() => onNavigate('tasks')} className="text-amber-400 hover:underline font-medium">{pendingTiger.length} tasks</button> requiring
-              your personal touch. Priority: the pricing strategy decision is blocking Q1 targets.
-              All {agents.filter(a => a.id !== 'cea').length} sub-agents are operational.
-            </p>
-          </div>
-        </div>
-      </div>
+      <BriefingBanner
+        briefing={briefing}
+        archive={briefingArchive}
+        narrativeEnabled={narrativeEnabled}
+        onToggleNarrative={onToggleNarrative}
+        writing={briefingWriting}
+        onRegenerate={onRegenerateBriefing}
+        onOpenLink={onOpenLink}
+      />
 
       {/* KPI Grid */}
       <div className="grid grid-cols-4 gap-3 mb-6">
         {kpis.slice(0, 4).map((kpi) => (
-          <div key={kpi.id} className="bg-zinc-900 border border-zinc-800 p-4">
+          <div
+            key={kpi.id}
+            onClick={() => onNavigate('strategy')}
+            className="bg-zinc-900 border border-zinc-800 hover:border-zinc-700 p-4 cursor-pointer transition-colors"
+          >
             <div className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1">{kpi.label}</div>
             <div className="text-2xl font-semibold text-zinc-100 mb-1">{kpi.value}</div>
             <div className={cn(
@@ -70,6 +96,7 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
               <span>{kpi.trend === 'up' ? '↑' : kpi.trend === 'down' ? '↓' : '→'}</span>
               <span>{Math.abs(kpi.change)}% vs last month</span>
             </div>
+            <Sparkline kpi={kpi} className="mt-2" />
           </div>
         ))}
       </div>
@@ -127,6 +154,14 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
                     </span>
                   </div>
                   <p className="text-xs text-zinc-500 mt-0.5">{item.detail}</p>
+                  {item.link && onOpenMessage && (
+                    <button
+                      onClick={() => onOpenMessage(item.link!)}
+                      className="text-[10px] text-zinc-600 hover:text-amber-400 transition-colors mt-0.5"
+                    >
+                      💬 From a CEA reply ↗
+                    </button>
+                  )}
                 </div>
                 <span className="text-[10px] text-zinc-600 whitespace-nowrap">{item.timestamp}</span>
               </div>
@@ -139,12 +174,33 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
           {/* Tiger's Priority Tasks */}
           <div className="bg-zinc-900 border border-zinc-800">
             <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
-              <h2 className="text-sm font-medium text-zinc-200">Your Priorities</h2>
+              <div className="flex items-center gap-2">
+                <h2 className="text-sm font-medium text-zinc-200">Your Priorities</h2>
+                {overdueTiger.length > 0 && (
+                  <span className="text-[9px] px-1.5 py-0.5 bg-red-500/15 text-red-400">{overdueTiger.length} overdue</span>
+                )}
+              </div>
               <button onClick={() => onNavigate('tasks')} className="text-[10px] text-amber-400 hover:underline">View all →</button>
             </div>
+            {reminderPermission === 'default' && onEnableReminders && (
+              <button
+                onClick={onEnableReminders}
+                className="w-full px-4 py-2 text-left text-[10px] text-zinc-500 hover:text-amber-400 border-b border-zinc-800/50 transition-colors"
+              >
+                🔔 Enable due-date reminders
+              </button>
+            )}
             <div className="divide-y divide-zinc-800/50">
               {pendingTiger.slice(0, 4).map((task) => (
-                <div key={task.id} className="px-4 py-3">
+                <div
+                  key={task.id}
+                  className={cn(
+                    'px-4 py-3',
+                    dueState(task) === 'overdue' && 'border-l-2 border-red-500/60',
+                    onOpenTask && 'cursor-pointer hover:bg-zinc-800/20 transition-colors'
+                  )}
+                  onClick={() => onOpenTask?.(task.id)}
+                >
                   <div className="flex items-center gap-2 mb-1">
                     <span className={cn(
                       'w-1.5 h-1.5 rounded-full',
@@ -159,9 +215,7 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
                     {task.projectShortCode && (
                       <span className="text-[9px] font-mono px-1 py-0.5 bg-amber-500/10 text-amber-400/60">{task.projectShortCode}</span>
                     )}
-                    {task.deadline && (
-                      <span className="text-[10px] text-zinc-600">Due {task.deadline}</span>
-                    )}
+                    <DueBadge task={task} />
                   </div>
                 </div>
               ))}
@@ -193,8 +247,9 @@ export function Dashboard({ kpis, activity, tasks, agents, projects, onNavigate
             <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-3">Secondary Metrics</div>
             <div className="space-y-2">
               {kpis.slice(4).map((kpi) => (
-                <div key={kpi.id} className="flex items-center justify-between">
-                  <span className="text-xs text-zinc-400">{kpi.label}</span>
+                <div key={kpi.id} className="flex items-center justify-between gap-3">
+                  <span className="text-xs text-zinc-400 truncate">{kpi.label}</span>
+                  <Sparkline kpi={kpi} className="h-4 w-12 shrink-0 ml-auto" />
                   <span className="text-xs text-zinc-200 font-medium">{kpi.value}</span>
                 </div>
               ))}
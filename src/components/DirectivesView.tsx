@@ -0,0 +1,412 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Agent, Directive, Task } from '../types';
+import { DIRECTIVE_TYPES, describeTarget, directiveTasks, directiveType, filterDirectives } from '../directives';
+import { Markdown, MarkdownStyles } from './Markdown';
+
+interface DirectivesViewProps {
+  directives: Directive[];
+  tasks: Task[];
+  agents: Agent[];
+  selectedDirectiveId: string | null;       // null: the composer
+  onSelectDirective: (directiveId: string | null) => void;
+  onCreateDirective: (data: { title: string; content: string; directiveType: string; targetAgentId?: string; priority: Directive['priority'] }) => void;
+  onCreateTask: (taskData: { title: string; description: string; priority: Task['priority']; assignedTo: string; directiveId?: string }) => void;
+  onOpenTask: (taskId: string) => void;
+  onOpenAgent: (agentId: string) => void;
+  query: Record<string, string>;            // status, agent, type
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
+}
+
+const PRIORITIES: Directive['priority'][] = ['critical', 'high', 'medium', 'low'];
+
+const STATUS_CONFIG: Record<Directive['status'], { label: string; color: string }> = {
+  pending: { label: 'Pending', color: 'bg-zinc-800 text-zinc-400' },
+  acknowledged: { label: 'Acknowledged', color: 'bg-blue-500/15 text-blue-400' },
+  in_progress: { label: 'In progress', color: 'bg-amber-500/15 text-amber-400' },
+  completed: { label: 'Completed', color: 'bg-emerald-500/15 text-emerald-400' },
+  rejected: { label: 'Rejected', color: 'bg-red-500/15 text-red-400' },
+};
+
+const PRIORITY_DOT: Record<Directive['priority'], string> = {
+  critical: 'bg-red-400',
+  high: 'bg-orange-400',
+  medium: 'bg-amber-400',
+  low: 'bg-zinc-500',
+};
+
+const TASK_STATUS: Record<Task['status'], { label: string; color: string }> = {
+  pending: { label: 'To do', color: 'text-zinc-500' },
+  in_progress: { label: 'In progress', color: 'text-amber-400' },
+  review: { label: 'Review', color: 'text-blue-400' },
+  completed: { label: 'Done', color: 'text-emerald-400' },
+};
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-800 px-3 py-2 text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-amber-500/40';
+const selectClass = 'bg-zinc-900 border border-zinc-800 px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-amber-500/40';
+
+const formatWhen = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// ─── Composer ───
+
+function DirectiveComposer({ agents, onCreate }: {
+  agents: Agent[];
+  onCreate: DirectivesViewProps['onCreateDirective'];
+}) {
+  const [title, setTitle] = useState('');
+  const [type, setType] = useState(DIRECTIVE_TYPES[0].id);
+  const [target, setTarget] = useState('');
+  const [priority, setPriority] = useState<Directive['priority']>('medium');
+  const [content, setContent] = useState('');
+  const [preview, setPreview] = useState(false);
+
+  const canIssue = title.trim() !== '' && content.trim() !== '';
+
+  const issue = () => {
+    if (!canIssue) return;
+    onCreate({ title: title.trim(), content: content.trim(), directiveType: type, targetAgentId: target || undefined, priority });
+    setTitle('');
+    setContent('');
+    setPreview(false);
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-5 space-y-4">
+      <div className="text-[10px] text-zinc-500 uppercase tracking-wider">New directive</div>
+
+      <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="What should happen?" className={inputClass} />
+
+      <div>
+        <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">Type</div>
+        <div className="grid grid-cols-2 gap-1.5">
+          {DIRECTIVE_TYPES.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setType(t.id)}
+              className={cn(
+                'text-left px-3 py-2 border transition-colors',
+                type === t.id ? 'border-amber-500/40 bg-amber-500/10' : 'border-zinc-800 hover:border-zinc-700'
+              )}
+            >
+              <div className={cn('text-xs', type === t.id ? 'text-amber-400' : 'text-zinc-300')}>{t.icon} {t.label}</div>
+              <div className="text-[10px] text-zinc-600 mt-0.5">{t.hint}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <label className="flex-1">
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">Target</div>
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className={cn(selectClass, 'w-full')}>
+            <option value="">All agents</option>
+            {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+          </select>
+        </label>
+        <label>
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">Priority</div>
+          <select value={priority} onChange={(e) => setPriority(e.target.value as Directive['priority'])} className={cn(selectClass, 'capitalize')}>
+            {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-[9px] text-zinc-600 uppercase tracking-wider">Content · markdown</span>
+          <div className="flex">
+            {(['Write', 'Preview'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setPreview(mode === 'Preview')}
+                className={cn(
+                  'text-[10px] px-2 py-0.5 border transition-colors',
+                  preview === (mode === 'Preview') ? 'border-amber-500/40 text-amber-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                )}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+        </div>
+        {preview ? (
+          <div className="cea-message min-h-[8rem] text-sm leading-relaxed px-3 py-2 bg-zinc-900 text-zinc-300 border border-zinc-800">
+            {content.trim() ? <Markdown text={content} /> : <p className="md-p text-zinc-600">Nothing to preview</p>}
+          </div>
+        ) : (
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) issue(); }}
+            rows={7}
+            placeholder={'Context, the expected outcome, any constraints…\n\n- Lists, **emphasis** and `code` work here'}
+            className={cn(inputClass, 'resize-y font-mono text-xs leading-relaxed')}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-zinc-600">⌘↵ to issue</span>
+        <button
+          onClick={issue}
+          disabled={!canIssue}
+          className="text-xs px-4 py-2 bg-amber-500/15 text-amber-400 border border-amber-500/30 hover:bg-amber-500/25 transition-colors disabled:opacity-40"
+        >
+          Issue directive
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Detail ───
+
+function DirectiveDetail({ directive, tasks, agents, onCreateTask, onOpenTask, onOpenAgent }: {
+  directive: Directive;
+  tasks: Task[];
+  agents: Agent[];
+  onCreateTask: DirectivesViewProps['onCreateTask'];
+  onOpenTask: (taskId: string) => void;
+  onOpenAgent: (agentId: string) => void;
+}) {
+  const [addingTask, setAddingTask] = useState(false);
+  const [taskTitle, setTaskTitle] = useState('');
+  const [assignee, setAssignee] = useState(directive.targetAgentId ?? 'tiger');
+
+  const type = directiveType(directive.type);
+  const status = STATUS_CONFIG[directive.status];
+  const resulting = directiveTasks(directive, tasks);
+  const acknowledgedBy = directive.acknowledgedBy ? agents.find(a => a.id === directive.acknowledgedBy) : undefined;
+
+  const addTask = () => {
+    if (!taskTitle.trim()) return;
+    onCreateTask({ title: taskTitle.trim(), description: taskTitle.trim(), priority: directive.priority, assignedTo: assignee, directiveId: directive.id });
+    setTaskTitle('');
+    setAddingTask(false);
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-[9px] text-zinc-500 uppercase tracking-wider">{type.icon} {type.label}</span>
+          <span className={cn('text-[9px] px-1.5 py-0.5', status.color)}>{status.label}</span>
+          <span className="ml-auto flex items-center gap-1.5 text-[10px] text-zinc-500 capitalize">
+            <span className={cn('w-1.5 h-1.5 rounded-full', PRIORITY_DOT[directive.priority])} />
+            {directive.priority}
+          </span>
+        </div>
+        <h2 className="text-lg font-medium text-zinc-100">{directive.title}</h2>
+        <div className="text-[11px] text-zinc-500 mt-1 flex items-center gap-2 flex-wrap">
+          <span>Issued {formatWhen(directive.createdAt)}</span>
+          <span className="text-zinc-700">·</span>
+          {directive.targetAgentId ? (
+            <button onClick={() => onOpenAgent(directive.targetAgentId!)} className="hover:text-amber-400 transition-colors">
+              → {describeTarget(directive.targetAgentId, agents)}
+            </button>
+          ) : (
+            <span>→ All agents</span>
+          )}
+        </div>
+      </div>
+
+      <div className="cea-message px-5 py-4 text-sm leading-relaxed text-zinc-300 border-b border-zinc-800">
+        <Markdown text={directive.content} />
+      </div>
+
+      {/* Acknowledgement */}
+      <div className="px-5 py-3 border-b border-zinc-800 text-xs">
+        {acknowledgedBy || directive.acknowledgedBy ? (
+          <span className="text-zinc-400">
+            Acknowledged by{' '}
+            {acknowledgedBy ? (
+              <button onClick={() => onOpenAgent(acknowledgedBy.id)} className="text-zinc-200 hover:text-amber-400 transition-colors">
+                {acknowledgedBy.emoji} {acknowledgedBy.name}
+              </button>
+            ) : (
+              <span className="text-zinc-200">an agent no longer on the roster</span>
+            )}
+            {directive.acknowledgedAt && <span className="text-zinc-600"> · {formatWhen(directive.acknowledgedAt)}</span>}
+          </span>
+        ) : directive.status === 'rejected' ? (
+          <span className="text-red-400/80">Rejected without acknowledgement</span>
+        ) : (
+          <span className="text-zinc-600">Waiting for {directive.targetAgentId ? describeTarget(directive.targetAgentId, agents) : 'an agent'} to acknowledge</span>
+        )}
+      </div>
+
+      {/* Resulting tasks */}
+      <div className="px-5 py-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Resulting tasks · {resulting.length}</span>
+          {!addingTask && (
+            <button onClick={() => setAddingTask(true)} className="text-[10px] text-zinc-500 hover:text-amber-400 transition-colors">+ Task</button>
+          )}
+        </div>
+
+        {addingTask && (
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              autoFocus
+              value={taskTitle}
+              onChange={(e) => setTaskTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addTask();
+                if (e.key === 'Escape') setAddingTask(false);
+              }}
+              placeholder="Task title"
+              className="flex-1 bg-zinc-900 border border-zinc-800 px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-amber-500/40"
+            />
+            <select value={assignee} onChange={(e) => setAssignee(e.target.value)} className={selectClass}>
+              <option value="tiger">🐯 Tiger</option>
+              {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+            </select>
+            <button onClick={addTask} disabled={!taskTitle.trim()} className="text-[10px] px-2 py-1 bg-amber-500/15 text-amber-400 hover:bg-amber-500/25 disabled:opacity-40">Add</button>
+            <button onClick={() => setAddingTask(false)} className="text-[10px] text-zinc-500 hover:text-zinc-300">Cancel</button>
+          </div>
+        )}
+
+        {resulting.length === 0 ? (
+          !addingTask && <div className="text-xs text-zinc-600">No tasks yet</div>
+        ) : (
+          <div className="divide-y divide-zinc-800/60">
+            {resulting.map(task => {
+              const owner = task.assignedTo === 'tiger' ? null : agents.find(a => a.id === task.assignedTo);
+              return (
+                <button
+                  key={task.id}
+                  onClick={() => onOpenTask(task.id)}
+                  className="w-full flex items-center gap-3 py-2 text-left hover:bg-zinc-800/30 transition-colors"
+                >
+                  <span className={cn('text-[10px] w-16 shrink-0', TASK_STATUS[task.status].color)}>{TASK_STATUS[task.status].label}</span>
+                  <span className={cn('text-xs flex-1 truncate', task.status === 'completed' ? 'text-zinc-500 line-through' : 'text-zinc-300')}>{task.title}</span>
+                  <span className="text-[10px] text-zinc-600 shrink-0">{owner ? `${owner.emoji} ${owner.name}` : '🐯 Tiger'}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── View ───
+
+// Directive history on the left; the selected directive (or the composer) on the right
+export function DirectivesView({
+  directives, tasks, agents, selectedDirectiveId, onSelectDirective, onCreateDirective, onCreateTask, onOpenTask, onOpenAgent, query, onQueryChange,
+}: DirectivesViewProps) {
+  const visible = filterDirectives(directives, query);
+  const selected = directives.find(d => d.id === selectedDirectiveId);
+  const filtered = Boolean(query.status || query.agent || query.type);
+
+  return (
+    <div className="flex-1 overflow-auto bg-zinc-950 p-6">
+      <MarkdownStyles />
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-xl font-semibold text-zinc-100">Directives</h1>
+          <p className="text-sm text-zinc-500 mt-0.5">Instructions for your agents — who acknowledged them and what came out of it</p>
+        </div>
+        <button
+          onClick={() => onSelectDirective(null)}
+          className={cn(
+            'text-xs px-3 py-1.5 border transition-colors',
+            selectedDirectiveId ? 'bg-amber-500/15 text-amber-400 border-amber-500/30 hover:bg-amber-500/25' : 'border-zinc-800 text-zinc-600'
+          )}
+          disabled={!selectedDirectiveId}
+        >
+          + New directive
+        </button>
+      </div>
+
+      <div className="grid grid-cols-5 gap-4 items-start">
+        {/* History */}
+        <div className="col-span-2 bg-zinc-900/50 border border-zinc-800">
+          <div className="px-3 py-2.5 border-b border-zinc-800 flex items-center gap-1.5 flex-wrap">
+            <select value={query.status ?? ''} onChange={(e) => onQueryChange({ status: e.target.value || undefined })} className={selectClass}>
+              <option value="">Any status</option>
+              {Object.entries(STATUS_CONFIG).map(([id, s]) => <option key={id} value={id}>{s.label}</option>)}
+            </select>
+            <select value={query.agent ?? ''} onChange={(e) => onQueryChange({ agent: e.target.value || undefined })} className={selectClass}>
+              <option value="">Any target</option>
+              <option value="all">All agents</option>
+              {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+            </select>
+            <select value={query.type ?? ''} onChange={(e) => onQueryChange({ type: e.target.value || undefined })} className={selectClass}>
+              <option value="">Any type</option>
+              {DIRECTIVE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+            {filtered && (
+              <button onClick={() => onQueryChange({ status: undefined, agent: undefined, type: undefined })} className="text-[10px] text-zinc-500 hover:text-zinc-300 ml-auto">
+                Clear
+              </button>
+            )}
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="px-4 py-8 text-center text-xs text-zinc-600">
+              {directives.length === 0 ? 'No directives issued yet' : 'No directives match these filters'}
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-800/60">
+              {visible.map(d => {
+                const status = STATUS_CONFIG[d.status];
+                const taskCount = directiveTasks(d, tasks).length;
+                return (
+                  <button
+                    key={d.id}
+                    onClick={() => onSelectDirective(d.id)}
+                    className={cn(
+                      'w-full text-left px-4 py-3 border-l-2 transition-colors',
+                      d.id === selectedDirectiveId ? 'bg-zinc-800/50 border-amber-500/60' : 'border-transparent hover:bg-zinc-800/30'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', PRIORITY_DOT[d.priority])} />
+                      <span className="text-sm text-zinc-200 truncate flex-1">{d.title}</span>
+                      <span className={cn('text-[9px] px-1.5 py-0.5 shrink-0', status.color)}>{status.label}</span>
+                    </div>
+                    <div className="text-[10px] text-zinc-600 mt-1 flex items-center gap-1.5 pl-3.5">
+                      <span>{directiveType(d.type).label}</span>
+                      <span>·</span>
+                      <span>{describeTarget(d.targetAgentId, agents)}</span>
+                      <span>·</span>
+                      <span>{formatWhen(d.createdAt)}</span>
+                      {taskCount > 0 && <span className="ml-auto">☐ {taskCount}</span>}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Detail or composer */}
+        <div className="col-span-3">
+          {selected ? (
+            <DirectiveDetail
+              key={selected.id}
+              directive={selected}
+              tasks={tasks}
+              agents={agents}
+              onCreateTask={onCreateTask}
+              onOpenTask={onOpenTask}
+              onOpenAgent={onOpenAgent}
+            />
+          ) : (
+            <>
+              {selectedDirectiveId && (
+                <div className="mb-3 px-4 py-2 border border-zinc-800 text-xs text-zinc-500">
+                  That directive isn't in the history — it may not have synced yet.
+                </div>
+              )}
+              <DirectiveComposer agents={agents} onCreate={onCreateDirective} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { cn } from '@/lib/utils';
+import { Task } from '../types';
+import { dueState, formatDue, toDateInput } from '../due-dates';
+
+// "Overdue 2d" / "Due today" badge, coloured by urgency
+export function DueBadge({ task, className }: { task: Task; className?: string }) {
+  if (!task.deadline) return null;
+  const state = dueState(task);
+  return (
+    <span
+      className={cn(
+        'text-[10px]',
+        state === 'overdue' && 'px-1.5 py-0.5 bg-red-500/15 text-red-400',
+        state === 'due-soon' && 'px-1.5 py-0.5 bg-amber-500/15 text-amber-400',
+        (state === 'upcoming' || state === null) && 'text-zinc-600',
+        className
+      )}
+      title={`Due ${task.deadline}`}
+    >
+      {task.status === 'completed' ? `Due ${toDateInput(task.deadline)}` : formatDue(task.deadline)}
+    </span>
+  );
+}
+
+// Date picker that reports a YYYY-MM-DD string, or undefined when cleared
+export function DueDateInput({ value, onChange, className }: {
+  value?: string;
+  onChange: (deadline: string | undefined) => void;
+  className?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        type="date"
+        value={toDateInput(value)}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className={cn(
+          'bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-300 focus:outline-none [color-scheme:dark]',
+          className
+        )}
+      />
+      {value && (
+        <button
+          onClick={() => onChange(undefined)}
+          className="text-[10px] text-zinc-600 hover:text-red-400 transition-colors"
+          title="Clear due date"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { FeatureRequest } from '../types';
 interface IdeaCaptureModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (data: { title: string; description?: string; screenshotUrl?: string; sourceView?: string; priority?: string }) => void;
+    onSubmit: (data: { title: string; description?: string; screenshotUrl?: string; sourceView?: string; priority?: FeatureRequest['priority'] }) => void;
     currentView: string;
 }
 
@@ -13,7 +13,7 @@ export function IdeaCaptureModal({ isOpen, onClose, onSubmit, currentView }: Ide
     const [description, setDescription] = useState('');
     const [showDescription, setShowDescription] = useState(false);
     const [pastedImage, setPastedImage] = useState<string | null>(null);
-    const [priority, setPriority] = useState<string>('medium');
+    const [priority, setPriority] = useState<FeatureRequest['priority']>('medium');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const titleRef = useRef<HTMLInputElement>(null);
     const modalRef = useRef<HTMLDivElement>(null);
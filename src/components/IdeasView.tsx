@@ -1,10 +1,17 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { FeatureRequest } from '../types';
+import { Highlight, SearchFilter } from './Search';
+import { ideaDoc, isEmptyQuery, matchesSearch, parseSearchQuery } from '../search';
 
 interface IdeasViewProps {
     featureRequests: FeatureRequest[];
-    onUpdateFeatureRequest: (id: string, updates: { status?: string; priority?: string; title?: string; description?: string }) => void;
+    onUpdateFeatureRequest: (id: string, updates: { status?: FeatureRequest['status']; priority?: FeatureRequest['priority']; title?: string; description?: string }) => void;
     onDeleteFeatureRequest: (id: string) => void;
+    // Routing: the expanded idea lives in the URL hash
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    search: string;
+    onSearchChange: (search: string) => void;
 }
 
 const statusConfig: Record<string, { label: string; color: string; bg: string }> = {
@@ -22,16 +29,28 @@ const priorityConfig: Record<string, { label: string; color: string; dot: string
     low: { label: 'Low', color: 'text-zinc-400', dot: 'bg-zinc-500' },
 };
 
-export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFeatureRequest }: IdeasViewProps) {
+export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFeatureRequest, selectedId, onSelect, search, onSearchChange }: IdeasViewProps) {
     const [filterStatus, setFilterStatus] = useState<string>('all');
-    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const expandedId = selectedId;
+    const setExpandedId = onSelect;
     const [editingField, setEditingField] = useState<{ id: string; field: string } | null>(null);
     const [editValue, setEditValue] = useState('');
     const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
 
-    const filtered = filterStatus === 'all'
-        ? featureRequests
-        : featureRequests.filter(fr => fr.status === filterStatus);
+    const parsedSearch = useMemo(() => parseSearchQuery(search), [search]);
+
+    // A linked idea stays visible whatever the filters
+    const filtered = featureRequests.filter(fr => fr.id === selectedId || (
+        (filterStatus === 'all' || fr.status === filterStatus)
+        && (isEmptyQuery(parsedSearch) || matchesSearch(ideaDoc(fr), parsedSearch))
+    ));
+
+    // Deep link: bring the linked idea into view
+    useEffect(() => {
+        if (selectedId) {
+            document.getElementById(`idea-card-${selectedId}`)?.scrollIntoView({ block: 'center' });
+        }
+    }, [selectedId]);
 
     const statusCounts = featureRequests.reduce((acc, fr) => {
         acc[fr.status] = (acc[fr.status] || 0) + 1;
@@ -73,6 +92,13 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                     <h1 className="text-xl font-semibold text-zinc-100">Ideas & Feature Requests</h1>
                     <p className="text-sm text-zinc-500 mt-0.5">{featureRequests.length} ideas captured</p>
                 </div>
+                <SearchFilter
+                    value={search}
+                    onChange={onSearchChange}
+                    placeholder="Filter ideas… priority:high"
+                    fields={['status', 'priority']}
+                    className="w-56"
+                />
             </div>
 
             {/* Filter tabs */}
@@ -119,6 +145,7 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                         return (
                             <div
                                 key={fr.id}
+                                id={`idea-card-${fr.id}`}
                                 className={`rounded-lg border transition-all ${isExpanded
                                         ? 'bg-zinc-800/50 border-zinc-700'
                                         : 'bg-zinc-900/50 border-zinc-800/50 hover:border-zinc-700/50 hover:bg-zinc-800/30'
@@ -148,7 +175,7 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                                                 onClick={(e) => e.stopPropagation()}
                                             />
                                         ) : (
-                                            <p className="text-sm font-medium text-zinc-200 truncate">{fr.title}</p>
+                                            <p className="text-sm font-medium text-zinc-200 truncate"><Highlight text={fr.title} terms={parsedSearch.terms} /></p>
                                         )}
                                         <div className="flex items-center gap-2 mt-1">
                                             <span className={`text-[10px] px-1.5 py-0.5 rounded ${sc.bg} ${sc.color} border`}>
@@ -199,7 +226,7 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                                                         className="text-sm text-zinc-400 cursor-text hover:text-zinc-300 transition-colors"
                                                         onClick={() => startEdit(fr.id, 'description', fr.description || '')}
                                                     >
-                                                        {fr.description}
+                                                        <Highlight text={fr.description} terms={parsedSearch.terms} />
                                                     </p>
                                                 )}
                                             </div>
@@ -224,7 +251,7 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                                                 {Object.entries(statusConfig).map(([key, cfg]) => (
                                                     <button
                                                         key={key}
-                                                        onClick={() => onUpdateFeatureRequest(fr.id, { status: key })}
+                                                        onClick={() => onUpdateFeatureRequest(fr.id, { status: key as FeatureRequest['status'] })}
                                                         className={`text-xs px-2.5 py-1 rounded-md border transition-all ${fr.status === key
                                                                 ? `${cfg.bg} ${cfg.color}`
                                                                 : 'border-zinc-700/50 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'
@@ -243,7 +270,7 @@ export function IdeasView({ featureRequests, onUpdateFeatureRequest, onDeleteFea
                                                 {Object.entries(priorityConfig).map(([key, cfg]) => (
                                                     <button
                                                         key={key}
-                                                        onClick={() => onUpdateFeatureRequest(fr.id, { priority: key })}
+                                                        onClick={() => onUpdateFeatureRequest(fr.id, { priority: key as FeatureRequest['priority'] })}
                                                         className={`text-xs px-2.5 py-1 rounded-md border transition-all ${fr.priority === key
                                                                 ? `${cfg.color} bg-zinc-800 border-zinc-600`
                                                                 : 'border-zinc-700/50 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'
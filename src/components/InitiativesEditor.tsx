@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Goal, GoalInitiative, Project, Task } from '../types';
+import { INITIATIVE_STATUSES, initiativeStatus, initiativeTasks, newInitiative, taskProgressLabel } from '../goals';
+
+interface InitiativesEditorProps {
+  goal: Goal;
+  tasks: Task[];
+  projects: Project[];
+  onChange?: (initiatives: GoalInitiative[]) => void;   // read-only without it
+  onOpenTask?: (taskId: string) => void;
+}
+
+const selectClass = 'bg-zinc-800 border border-zinc-700 text-zinc-400 text-[10px] px-1.5 py-0.5 outline-none focus:border-teal-500/50';
+
+// Older rows hold free text ("Feb 28") rather than a date
+const isDate = (due: string) => /^\d{4}-\d{2}-\d{2}$/.test(due);
+
+// "Mar 4" for dates; free text as-is
+function dueLabel(due: string): string {
+  if (!isDate(due)) return due;
+  const [y, m, d] = due.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Initiatives of one goal: inline rename, status, due date, project and task
+// links, reorder and delete. Every change sends the whole list.
+export function InitiativesEditor({ goal, tasks, projects, onChange, onOpenTask }: InitiativesEditorProps) {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [nameValue, setNameValue] = useState('');
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [taskSearch, setTaskSearch] = useState('');
+  const [newName, setNewName] = useState('');
+  const initiatives = goal.initiatives;
+
+  const update = (id: string, patch: Partial<GoalInitiative>) =>
+    onChange?.(initiatives.map(i => i.id === id ? { ...i, ...patch } : i));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= initiatives.length) return;
+    const next = [...initiatives];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange?.(next);
+  };
+
+  const saveName = (id: string) => {
+    if (nameValue.trim()) update(id, { name: nameValue.trim() });
+    setEditingName(null);
+  };
+
+  const add = () => {
+    if (!newName.trim() || !onChange) return;
+    onChange([...initiatives, newInitiative(newName.trim())]);
+    setNewName('');
+  };
+
+  const toggleTask = (initiative: GoalInitiative, taskId: string) => update(initiative.id, {
+    taskIds: initiative.taskIds.includes(taskId)
+      ? initiative.taskIds.filter(id => id !== taskId)
+      : [...initiative.taskIds, taskId],
+  });
+
+  if (!initiatives.length && !onChange) return null;
+
+  return (
+    <div className="px-5 py-3">
+      <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-2">Initiatives</div>
+      <div className="space-y-1">
+        {initiatives.map((init, index) => {
+          const linked = initiativeTasks(init, tasks);
+          const project = projects.find(p => p.id === init.projectId);
+          const status = initiativeStatus(init.status);
+          // With rollup on, linked tasks decide the status
+          const statusLocked = goal.autoProgress && linked.length > 0;
+          const search = taskSearch.trim().toLowerCase();
+          const candidates = tasks
+            .filter(t => !search || t.title.toLowerCase().includes(search))
+            .sort((a, b) => Number(init.taskIds.includes(b.id)) - Number(init.taskIds.includes(a.id)))
+            .slice(0, 30);
+
+          return (
+            <div key={init.id} className="group/init">
+              <div className="flex items-center gap-2 min-h-[24px]">
+                {onChange && !statusLocked ? (
+                  <select
+                    value={status.id}
+                    onChange={(e) => update(init.id, { status: e.target.value })}
+                    className={selectClass}
+                    title="Status"
+                  >
+                    {INITIATIVE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                  </select>
+                ) : (
+                  <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', status.dot)} title={statusLocked ? `${status.label} — from linked tasks` : status.label} />
+                )}
+
+                {editingName === init.id ? (
+                  <input
+                    value={nameValue}
+                    onChange={(e) => setNameValue(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveName(init.id); if (e.key === 'Escape') setEditingName(null); }}
+                    onBlur={() => saveName(init.id)}
+                    className="flex-1 bg-zinc-800 border border-zinc-600 px-1.5 py-0.5 text-xs text-zinc-300 outline-none"
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    className={cn('flex-1 min-w-0 truncate text-xs text-zinc-400', onChange && 'cursor-pointer hover:text-zinc-200')}
+                    onClick={() => { if (onChange) { setEditingName(init.id); setNameValue(init.name); } }}
+                  >
+                    {init.name}
+                  </span>
+                )}
+
+                {onChange ? (
+                  <select
+                    value={init.projectId ?? ''}
+                    onChange={(e) => update(init.id, { projectId: e.target.value || undefined })}
+                    className={selectClass}
+                    title="Linked project — all of its tasks count"
+                  >
+                    <option value="">No project</option>
+                    {projects.map(p => <option key={p.id} value={p.id}>{p.shortCode}</option>)}
+                  </select>
+                ) : project && (
+                  <span className="text-[9px] px-1.5 py-0.5 bg-zinc-800 text-zinc-500">{project.shortCode}</span>
+                )}
+
+                <button
+                  onClick={() => { setLinkingId(linkingId === init.id ? null : init.id); setTaskSearch(''); }}
+                  className={cn(
+                    'text-[10px] px-1.5 py-0.5 border transition-colors',
+                    linkingId === init.id ? 'border-teal-500/40 text-teal-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300',
+                  )}
+                  title="Linked tasks"
+                >
+                  {linked.length ? taskProgressLabel(linked) : onChange ? '+ Tasks' : 'No tasks'}
+                </button>
+
+                {onChange ? (
+                  <input
+                    type="date"
+                    value={isDate(init.due) ? init.due : ''}
+                    onChange={(e) => update(init.id, { due: e.target.value })}
+                    className="bg-zinc-800 border border-zinc-700 px-1.5 py-0.5 text-[10px] text-zinc-400 outline-none [color-scheme:dark]"
+                    title={init.due && !isDate(init.due) ? `Due ${init.due}` : 'Due date'}
+                  />
+                ) : (
+                  <span className="text-[10px] text-zinc-600">{dueLabel(init.due)}</span>
+                )}
+
+                {onChange && (
+                  <div className="flex items-center opacity-0 group-hover/init:opacity-100 transition-opacity">
+                    <button onClick={() => move(index, -1)} disabled={index === 0} className="text-[10px] px-1 text-zinc-600 hover:text-zinc-300 disabled:opacity-30" title="Move up">↑</button>
+                    <button onClick={() => move(index, 1)} disabled={index === initiatives.length - 1} className="text-[10px] px-1 text-zinc-600 hover:text-zinc-300 disabled:opacity-30" title="Move down">↓</button>
+                    <button onClick={() => onChange(initiatives.filter(i => i.id !== init.id))} className="text-[10px] px-1 text-zinc-600 hover:text-red-400" title="Delete initiative">✕</button>
+                  </div>
+                )}
+              </div>
+
+              {/* Task links */}
+              {linkingId === init.id && (
+                <div className="ml-4 mt-1 mb-2 border border-zinc-800 bg-zinc-950/50 p-2">
+                  {onChange && (
+                    <input
+                      value={taskSearch}
+                      onChange={(e) => setTaskSearch(e.target.value)}
+                      placeholder="Search tasks to link..."
+                      className="w-full bg-zinc-800 border border-zinc-700 px-2 py-1 text-[11px] text-zinc-300 outline-none mb-1.5"
+                      autoFocus
+                    />
+                  )}
+                  <div className="max-h-48 overflow-y-auto space-y-0.5">
+                    {(onChange ? candidates : linked).map(task => {
+                      const viaProject = !!init.projectId && task.projectId === init.projectId;
+                      const checked = viaProject || init.taskIds.includes(task.id);
+                      return (
+                        <div key={task.id} className="flex items-center gap-2 text-[11px]">
+                          {onChange && (
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={viaProject}
+                              onChange={() => toggleTask(init, task.id)}
+                              className="accent-teal-500"
+                              title={viaProject ? `Linked through ${project?.shortCode}` : undefined}
+                            />
+                          )}
+                          <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', task.status === 'completed' ? 'bg-emerald-400' : task.status === 'pending' ? 'bg-zinc-600' : 'bg-blue-400')} />
+                          <button
+                            onClick={() => onOpenTask?.(task.id)}
+                            className={cn('flex-1 min-w-0 truncate text-left', task.status === 'completed' ? 'text-zinc-600 line-through' : 'text-zinc-400 hover:text-zinc-200')}
+                          >
+                            {task.title}
+                          </button>
+                          {viaProject && <span className="text-[9px] text-zinc-600">via {project?.shortCode}</span>}
+                        </div>
+                      );
+                    })}
+                    {!(onChange ? candidates : linked).length && (
+                      <div className="text-[10px] text-zinc-600 py-1">No tasks</div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {onChange && (
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+          placeholder="+ Add initiative..."
+          className="mt-2 w-full bg-transparent text-xs text-zinc-400 placeholder:text-zinc-600 outline-none border-b border-transparent focus:border-zinc-700 py-1"
+        />
+      )}
+    </div>
+  );
+}
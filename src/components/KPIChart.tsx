@@ -0,0 +1,70 @@
+import { cn } from '@/lib/utils';
+import { KPI } from '../types';
+import { formatChange, formatKPIValue, monthlyPeriods } from '../kpis';
+
+const trendStroke: Record<KPI['trend'], string> = {
+  up: 'stroke-emerald-400',
+  down: 'stroke-red-400',
+  stable: 'stroke-zinc-500',
+};
+
+// The KPI's whole history as a line; needs at least two readings
+export function Sparkline({ kpi, className }: { kpi: KPI; className?: string }) {
+  const values = kpi.history.map(p => p.value);
+  if (values.length < 2) return <div className={cn('h-7', className)} />;
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 100},${26 - ((v - min) / range) * 24}`)
+    .join(' ');
+
+  return (
+    <svg viewBox="0 0 100 28" preserveAspectRatio="none" className={cn('h-7 w-full', className)} aria-hidden>
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+        strokeLinejoin="round"
+        className={trendStroke[kpi.trend]}
+      />
+    </svg>
+  );
+}
+
+// Month-by-month bars with the change against the month before
+export function PeriodChart({ kpi, months = 6 }: { kpi: KPI; months?: number }) {
+  const periods = monthlyPeriods(kpi.history, months);
+  if (!periods.length) {
+    return <div className="text-[10px] text-zinc-600 py-6 text-center">No readings yet</div>;
+  }
+  const max = Math.max(...periods.map(p => Math.abs(p.value ?? 0))) || 1;
+
+  return (
+    <div className="flex items-end gap-2 h-36">
+      {periods.map((period, i) => (
+        <div key={period.key} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+          <span className="text-[9px] text-zinc-400 mb-1 truncate max-w-full">
+            {period.value !== null ? formatKPIValue(period.value, kpi.value) : '—'}
+          </span>
+          <div
+            className={cn(
+              'w-full transition-all duration-500',
+              i === periods.length - 1 ? 'bg-teal-500/70' : 'bg-zinc-700',
+            )}
+            style={{ height: `${period.value !== null ? Math.max(4, (Math.abs(period.value) / max) * 80) : 0}%` }}
+            title={period.value !== null ? `${period.label}: ${formatKPIValue(period.value, kpi.value)}` : `${period.label}: no reading`}
+          />
+          <span className="text-[9px] text-zinc-500 uppercase tracking-wider mt-1">{period.label}</span>
+          <span className={cn(
+            'text-[9px]',
+            period.change === null ? 'text-zinc-700' : period.change > 0 ? 'text-emerald-400' : period.change < 0 ? 'text-red-400' : 'text-zinc-500',
+          )}>
+            {period.change === null ? '—' : formatChange(period.change)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { Markdown } from './Markdown';
+
+const html = (text: string) => renderToStaticMarkup(<Markdown text={text} />);
+
+describe('Markdown', () => {
+  it('escapes raw HTML instead of injecting it', () => {
+    const out = html('<img src=x onerror=alert(1)> **<b>bold</b>**');
+    expect(out).not.toContain('<img');
+    expect(out).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(out).toContain('<strong>&lt;b&gt;bold&lt;/b&gt;</strong>');
+  });
+
+  it('never renders an unsafe href', () => {
+    for (const text of ['[x](javascript:alert(1))', '[x](java%0ascript:alert(1))', '[x](data:text/html,hi)', '<vbscript:msgbox>']) {
+      expect(html(text)).not.toContain('<a');
+    }
+  });
+
+  it('opens external links in a new tab and keeps in-app ones in place', () => {
+    expect(html('[docs](https://x.io "Docs")')).toBe(
+      '<p class="md-p"><a href="https://x.io" title="Docs" class="md-link" target="_blank" rel="noopener noreferrer">docs</a></p>',
+    );
+    expect(html('[board](#/tasks)')).toBe('<p class="md-p"><a href="#/tasks" class="md-link">board</a></p>');
+  });
+
+  it('escapes attribute values in titles and hrefs', () => {
+    const out = html('[x](https://x.io/?a="b" "say \'hi\' & <go>")');
+    expect(out).not.toContain('<go>');
+    expect(out).toContain('&amp;');
+  });
+
+  it('renders tight list items without paragraphs and task boxes read-only', () => {
+    expect(html('- [x] done\n- plain')).toBe(
+      '<ul class="md-ul"><li class="md-task"><input type="checkbox" readOnly="" disabled="" checked=""/>done</li><li>plain</li></ul>',
+    );
+  });
+
+  it('numbers ordered lists from their start', () => {
+    expect(html('3. three\n4. four')).toContain('<ol class="md-ol" start="3">');
+  });
+
+  it('aligns table cells', () => {
+    expect(html('| a |\n|:-:|\n| b |')).toContain('<td style="text-align:center">b</td>');
+  });
+
+  it('highlights fenced code without interpreting it', () => {
+    const out = html('```js\nconst a = "<b>";\n```');
+    expect(out).toContain('<span class="md-tok-keyword">const</span>');
+    expect(out).toContain('&lt;b&gt;');
+  });
+
+  it('leaves an empty paragraph for empty text', () => {
+    expect(html('')).toBe('<p class="md-p"></p>');
+  });
+});
@@ -0,0 +1,192 @@
+import { Fragment, useMemo, useState, type ReactNode } from 'react';
+import { highlightCode, parseMarkdown, type Block, type Inline } from '../markdown';
+
+// Styles for markdown inside a `.cea-message` container; render once per view
+const markdownStyles = `
+.cea-message .md-h1 { font-size: 1.25rem; font-weight: 600; color: #e4e4e7; margin: 0.75rem 0 0.5rem; }
+.cea-message .md-h2 { font-size: 1.1rem; font-weight: 600; color: #e4e4e7; margin: 0.6rem 0 0.4rem; }
+.cea-message .md-h3 { font-size: 1rem; font-weight: 600; color: #d4d4d8; margin: 0.5rem 0 0.3rem; }
+.cea-message .md-h4 { font-size: 0.9rem; font-weight: 600; color: #d4d4d8; margin: 0.4rem 0 0.25rem; }
+.cea-message > :first-child { margin-top: 0; }
+.cea-message > :last-child { margin-bottom: 0; }
+.cea-message strong { color: #e4e4e7; font-weight: 600; }
+.cea-message em { color: #a1a1aa; font-style: italic; }
+.cea-message del { color: #71717a; }
+.cea-message .md-p { margin: 0.35rem 0; }
+.cea-message .md-ul, .cea-message .md-ol { margin: 0.4rem 0; padding-left: 1.25rem; }
+.cea-message .md-ul li, .cea-message .md-ol li { margin: 0.2rem 0; color: #a1a1aa; }
+.cea-message .md-ul { list-style-type: disc; }
+.cea-message .md-ol { list-style-type: decimal; }
+.cea-message li > .md-ul, .cea-message li > .md-ol { margin: 0.2rem 0; }
+.cea-message .md-task { list-style: none; margin-left: -1.25rem; }
+.cea-message .md-task > input { margin-right: 0.4rem; vertical-align: -1px; accent-color: #f59e0b; }
+.cea-message .md-quote { border-left: 2px solid #3f3f46; padding-left: 0.75rem; margin: 0.5rem 0; color: #a1a1aa; }
+.cea-message .md-code { margin: 0.5rem 0; border: 1px solid #27272a; background: #18181b; }
+.cea-message .md-code-header {
+  display: flex; align-items: center; justify-content: space-between; padding: 0.25rem 0.75rem;
+  border-bottom: 1px solid #27272a; font-size: 0.65rem; text-transform: uppercase; letter-spacing: 0.05em; color: #52525b;
+}
+.cea-message .md-code-copy { color: #71717a; text-transform: none; letter-spacing: normal; }
+.cea-message .md-code-copy:hover { color: #f59e0b; }
+.cea-message .md-code-block { padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; line-height: 1.5; }
+.cea-message .md-code-block code { color: #a1a1aa; font-family: 'JetBrains Mono', 'Fira Code', monospace; }
+.cea-message .md-tok-keyword { color: #c084fc; }
+.cea-message .md-tok-literal { color: #f59e0b; }
+.cea-message .md-tok-string { color: #86efac; }
+.cea-message .md-tok-number { color: #fbbf24; }
+.cea-message .md-tok-comment { color: #52525b; font-style: italic; }
+.cea-message .md-inline-code {
+  background: #27272a; color: #f59e0b; padding: 0.1rem 0.35rem; font-size: 0.85em;
+  font-family: 'JetBrains Mono', 'Fira Code', monospace;
+}
+.cea-message .md-link { color: #f59e0b; text-decoration: underline; text-underline-offset: 2px; }
+.cea-message .md-link:hover { color: #fbbf24; }
+.cea-message .md-hr { border: none; border-top: 1px solid #27272a; margin: 0.75rem 0; }
+.cea-message .md-table-wrap { overflow-x: auto; margin: 0.5rem 0; }
+.cea-message .md-table { border-collapse: collapse; font-size: 0.8rem; }
+.cea-message .md-table th, .cea-message .md-table td { border: 1px solid #27272a; padding: 0.3rem 0.6rem; text-align: left; }
+.cea-message .md-table th { color: #d4d4d8; font-weight: 600; background: #18181b; }
+.cea-message .md-table td { color: #a1a1aa; }
+.cea-streaming > :last-child::after {
+  content: '▍'; color: #f59e0b; margin-left: 1px; animation: cea-caret 1s steps(2) infinite;
+}
+@keyframes cea-caret { to { visibility: hidden; } }
+`;
+
+export function MarkdownStyles() {
+  return <style>{markdownStyles}</style>;
+}
+
+// ─── Inline ───
+
+function renderInline(nodes: Inline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{node.value}</Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'code':
+        return <code key={i} className="md-inline-code">{node.value}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case 'link': {
+        // In-app routes stay in the tab; everything else opens a new one
+        const external = !node.href.startsWith('#');
+        return (
+          <a
+            key={i}
+            href={node.href}
+            title={node.title}
+            className="md-link"
+            target={external ? '_blank' : undefined}
+            rel={external ? 'noopener noreferrer' : undefined}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+// ─── Blocks ───
+
+function CodeBlock({ lang, value }: { lang: string; value: string }) {
+  const [copy, setCopy] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const tokens = useMemo(() => highlightCode(value, lang), [value, lang]);
+
+  const copyCode = () => {
+    (navigator.clipboard ? navigator.clipboard.writeText(value) : Promise.reject(new Error('Clipboard unavailable')))
+      .then(() => setCopy('copied'), () => setCopy('failed'))
+      .finally(() => setTimeout(() => setCopy('idle'), 1500));
+  };
+
+  return (
+    <div className="md-code">
+      <div className="md-code-header">
+        <span>{lang || 'text'}</span>
+        <button onClick={copyCode} className="md-code-copy">
+          {copy === 'copied' ? '✓ Copied' : copy === 'failed' ? 'Copy failed' : 'Copy'}
+        </button>
+      </div>
+      <pre className="md-code-block">
+        <code>
+          {tokens.map((token, i) => token.kind === 'plain'
+            ? <Fragment key={i}>{token.value}</Fragment>
+            : <span key={i} className={`md-tok-${token.kind}`}>{token.value}</span>
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+// Items of a tight list hold their text directly, without paragraph margins
+function renderBlocks(blocks: Block[], tight = false): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return tight
+          ? <Fragment key={i}>{renderInline(block.children)}</Fragment>
+          : <p key={i} className="md-p">{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={i} className={`md-h${Math.min(block.level, 4)}`}>{renderInline(block.children)}</Tag>;
+      }
+      case 'code':
+        return <CodeBlock key={i} lang={block.lang} value={block.value} />;
+      case 'quote':
+        return <blockquote key={i} className="md-quote">{renderBlocks(block.children)}</blockquote>;
+      case 'hr':
+        return <hr key={i} className="md-hr" />;
+      case 'list': {
+        const items = block.items.map((item, n) => (
+          <li key={n} className={item.checked !== null ? 'md-task' : undefined}>
+            {item.checked !== null && <input type="checkbox" checked={item.checked} readOnly disabled />}
+            {renderBlocks(item.children, block.tight)}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={i} className="md-ol" start={block.start === 1 ? undefined : block.start}>{items}</ol>
+          : <ul key={i} className="md-ul">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={i} className="md-table-wrap">
+            <table className="md-table">
+              <thead>
+                <tr>
+                  {block.head.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+}
+
+// Markdown as React elements (see markdown.ts); place inside a `.cea-message`.
+// Empty text still yields one empty paragraph, so a streaming caret has a
+// last child to attach to.
+export function Markdown({ text }: { text: string }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  if (!blocks.length) return <p className="md-p" />;
+  return <>{renderBlocks(blocks)}</>;
+}
@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Goal, KeyResult, KPI } from '../types';
+import { formatKPIValue, parseKPIValue } from '../kpis';
+import {
+  formatQuarter, goalScore, keyResultProgress, keyResultValue, newKeyResult, rolloverGoal, scoreTone, suggestScore,
+} from '../okrs';
+
+const inputClass = 'bg-zinc-800 border border-zinc-700 px-2 py-1 text-[11px] text-zinc-300 outline-none focus:border-teal-500/50';
+
+const krLabel = (kr: KeyResult, kpi?: KPI) => kr.title || kpi?.label || 'Removed KPI';
+
+// Show a raw number the way the KPI writes its values
+const asKpi = (value: number, kpi?: KPI) => (kpi ? formatKPIValue(value, kpi.value) : String(value));
+
+export function ScoreBadge({ score, className }: { score: number; className?: string }) {
+  return (
+    <span className={cn('text-[10px] px-1.5 py-0.5 font-medium tabular-nums', scoreTone(score), className)} title="OKR score (0–1)">
+      {score.toFixed(1)}
+    </span>
+  );
+}
+
+// ─── Key results of one goal ───
+
+interface KeyResultsEditorProps {
+  goal: Goal;
+  kpis: KPI[];
+  onChange?: (keyResults: KeyResult[]) => void;   // read-only without it (and once scored)
+}
+
+export function KeyResultsEditor({ goal, kpis, onChange }: KeyResultsEditorProps) {
+  const [newKpiId, setNewKpiId] = useState('');
+  const [newTarget, setNewTarget] = useState('');
+  const [editingTarget, setEditingTarget] = useState<string | null>(null);
+  const [targetValue, setTargetValue] = useState('');
+  const editable = onChange && goal.score === undefined ? onChange : undefined;
+  const newKpi = kpis.find(k => k.id === newKpiId);
+  const parsedTarget = parseKPIValue(newTarget);
+
+  const add = () => {
+    if (!editable || !newKpi || parsedTarget === null) return;
+    editable([...goal.keyResults, newKeyResult(newKpi, parsedTarget)]);
+    setNewKpiId('');
+    setNewTarget('');
+  };
+
+  const saveTarget = (kr: KeyResult) => {
+    const target = parseKPIValue(targetValue);
+    if (editable && target !== null && target !== kr.targetValue) {
+      editable(goal.keyResults.map(k => k.id === kr.id ? { ...k, targetValue: target } : k));
+    }
+    setEditingTarget(null);
+  };
+
+  if (!goal.keyResults.length && !editable) return null;
+
+  return (
+    <div className="px-5 py-3 border-b border-zinc-800/50">
+      <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-2">Key Results</div>
+      <div className="space-y-2">
+        {goal.keyResults.map(kr => {
+          const kpi = kpis.find(k => k.id === kr.kpiId);
+          const value = keyResultValue(kr, kpis);
+          const progress = value === null ? 0 : keyResultProgress(kr, value);
+          return (
+            <div key={kr.id} className="group/kr">
+              <div className="flex items-center gap-2 text-xs">
+                <span className={cn('flex-1 min-w-0 truncate', kpi ? 'text-zinc-300' : 'text-zinc-600 italic')}>{krLabel(kr, kpi)}</span>
+                <span className="text-[10px] text-zinc-500 tabular-nums">
+                  {asKpi(kr.startValue, kpi)} → {value !== null ? <span className="text-zinc-300">{asKpi(value, kpi)}</span> : '—'} /{' '}
+                </span>
+                {editingTarget === kr.id ? (
+                  <input
+                    value={targetValue}
+                    onChange={(e) => setTargetValue(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveTarget(kr); if (e.key === 'Escape') setEditingTarget(null); }}
+                    onBlur={() => saveTarget(kr)}
+                    className={cn(inputClass, 'w-20 py-0.5')}
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    className={cn('text-[10px] text-zinc-400 tabular-nums', editable && 'cursor-pointer hover:text-zinc-200')}
+                    onClick={() => { if (editable) { setEditingTarget(kr.id); setTargetValue(asKpi(kr.targetValue, kpi)); } }}
+                    title={editable ? 'Click to change the target' : 'Target'}
+                  >
+                    {asKpi(kr.targetValue, kpi)}
+                  </span>
+                )}
+                {kr.score !== undefined && <ScoreBadge score={kr.score} />}
+                {editable && (
+                  <button
+                    onClick={() => editable(goal.keyResults.filter(k => k.id !== kr.id))}
+                    className="text-[10px] text-zinc-600 hover:text-red-400 opacity-0 group-hover/kr:opacity-100 transition-opacity"
+                    title="Remove key result"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+              <div className="mt-1 h-1 bg-zinc-800 overflow-hidden">
+                <div
+                  className={cn('h-full transition-all duration-500', progress >= 1 ? 'bg-emerald-500' : 'bg-teal-600')}
+                  style={{ width: `${Math.round(progress * 100)}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editable && (
+        <div className="flex items-center gap-2 mt-3">
+          <select value={newKpiId} onChange={(e) => setNewKpiId(e.target.value)} className={cn(inputClass, 'flex-1')}>
+            <option value="">+ Key result on KPI...</option>
+            {kpis.map(k => <option key={k.id} value={k.id}>{k.label} ({k.value})</option>)}
+          </select>
+          {newKpi && (
+            <>
+              <input
+                value={newTarget}
+                onChange={(e) => setNewTarget(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+                placeholder={`Target, now ${newKpi.value}`}
+                className={cn(inputClass, 'w-36')}
+                autoFocus
+              />
+              <button
+                onClick={add}
+                disabled={parsedTarget === null}
+                className="text-[10px] px-2 py-1 bg-teal-600 hover:bg-teal-500 disabled:opacity-40 text-white"
+              >
+                Add
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── End-of-quarter scoring ───
+
+interface ScoringPanelProps {
+  quarter: string;
+  goals: Goal[];                 // the quarter's goals that aren't scored yet
+  kpis: KPI[];
+  onScore: (goalId: string, keyResults: KeyResult[], score: number) => void;
+  onClose: () => void;
+}
+
+const clampScore = (value: number) => Math.min(1, Math.max(0, Math.round(value * 10) / 10));
+
+// Suggests a score per key result from the KPI's reading at quarter end;
+// every score can be adjusted before saving
+export function ScoringPanel({ quarter, goals, kpis, onScore, onClose }: ScoringPanelProps) {
+  const [drafts, setDrafts] = useState<Record<string, KeyResult[]>>(() => Object.fromEntries(goals.map(goal => [
+    goal.id,
+    goal.keyResults.map(kr => {
+      const suggestion = suggestScore(kr, kpis, quarter);
+      return suggestion ? { ...kr, ...suggestion } : { ...kr, score: 0 };
+    }),
+  ])));
+  // Goals without key results are scored directly
+  const [goalScores, setGoalScores] = useState<Record<string, number>>(() =>
+    Object.fromEntries(goals.map(goal => [goal.id, goalScore(goal)]))
+  );
+
+  const setKrScore = (goalId: string, krId: string, score: number) =>
+    setDrafts(prev => ({ ...prev, [goalId]: prev[goalId].map(kr => kr.id === krId ? { ...kr, score: clampScore(score) } : kr) }));
+
+  const scoreOf = (goal: Goal) => drafts[goal.id]?.length
+    ? goalScore(goal, drafts[goal.id])
+    : goalScores[goal.id] ?? 0;
+
+  const save = () => {
+    for (const goal of goals) onScore(goal.id, drafts[goal.id] ?? [], scoreOf(goal));
+    onClose();
+  };
+
+  const scoreInput = (value: number, onChange: (score: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      max={1}
+      step={0.1}
+      value={value}
+      onChange={(e) => onChange(clampScore(Number(e.target.value) || 0))}
+      className={cn(inputClass, 'w-16 py-0.5 text-center tabular-nums')}
+    />
+  );
+
+  return (
+    <div className="mb-6 bg-zinc-900 border border-amber-500/30 p-5" style={{ animation: 'slideUp 0.2s ease-out' }}>
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-[10px] text-amber-400 uppercase tracking-wider">Score {formatQuarter(quarter)}</div>
+        <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-300">Close</button>
+      </div>
+      <p className="text-[11px] text-zinc-500 mb-4">
+        Suggested from each KPI's last reading of the quarter. 0.7 or better counts as a success.
+      </p>
+
+      {goals.length === 0 ? (
+        <div className="text-sm text-zinc-500 py-4 text-center">Every goal in this quarter is scored.</div>
+      ) : (
+        <div className="space-y-4">
+          {goals.map(goal => (
+            <div key={goal.id}>
+              <div className="flex items-center gap-2 mb-1.5">
+                <span className="flex-1 text-sm text-zinc-200 truncate">{goal.title}</span>
+                <ScoreBadge score={scoreOf(goal)} />
+              </div>
+              {drafts[goal.id]?.length ? (
+                <div className="space-y-1 pl-3 border-l border-zinc-800">
+                  {drafts[goal.id].map(kr => {
+                    const kpi = kpis.find(k => k.id === kr.kpiId);
+                    return (
+                      <div key={kr.id} className="flex items-center gap-2 text-[11px]">
+                        <span className="flex-1 min-w-0 truncate text-zinc-400">{krLabel(kr, kpi)}</span>
+                        <span className="text-[10px] text-zinc-600 tabular-nums">
+                          {kr.finalValue !== undefined ? asKpi(kr.finalValue, kpi) : '—'} of {asKpi(kr.targetValue, kpi)}
+                        </span>
+                        {scoreInput(kr.score ?? 0, (score) => setKrScore(goal.id, kr.id, score))}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 pl-3 border-l border-zinc-800 text-[11px]">
+                  <span className="flex-1 text-zinc-500">No key results — {goal.progress}% progress</span>
+                  {scoreInput(goalScores[goal.id] ?? 0, (score) => setGoalScores(prev => ({ ...prev, [goal.id]: score })))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 mt-5">
+        <button onClick={onClose} className="px-3 py-1.5 text-sm text-zinc-500 hover:text-zinc-300">Cancel</button>
+        <button
+          onClick={save}
+          disabled={!goals.length}
+          className="px-4 py-1.5 text-sm bg-amber-600 hover:bg-amber-500 disabled:opacity-40 text-white transition-colors"
+        >
+          Save scores
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Roll over into the next quarter ───
+
+interface RolloverPanelProps {
+  toQuarter: string;
+  goals: Goal[];                 // unfinished goals of the quarter
+  kpis: KPI[];
+  onRollover: (goalIds: string[], toQuarter: string) => void;
+  onClose: () => void;
+}
+
+export function RolloverPanel({ toQuarter, goals, kpis, onRollover, onClose }: RolloverPanelProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(goals.map(g => g.id)));
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="mb-6 bg-zinc-900 border border-teal-500/30 p-5" style={{ animation: 'slideUp 0.2s ease-out' }}>
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-[10px] text-teal-400 uppercase tracking-wider">Roll over into {formatQuarter(toQuarter)}</div>
+        <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-300">Close</button>
+      </div>
+      <p className="text-[11px] text-zinc-500 mb-4">
+        Each selected goal is copied into {formatQuarter(toQuarter)} with its unmet key results (restarting from today's KPI values) and open initiatives. The original stays here for scoring.
+      </p>
+
+      <div className="space-y-1.5">
+        {goals.map(goal => {
+          const copy = rolloverGoal(goal, kpis, toQuarter);
+          return (
+            <label key={goal.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={selected.has(goal.id)} onChange={() => toggle(goal.id)} className="accent-teal-500" />
+              <span className="flex-1 min-w-0 truncate text-zinc-300">{goal.title}</span>
+              <span className="text-[10px] text-zinc-600">
+                {goal.progress}% · {copy.keyResults.length} KR{copy.keyResults.length === 1 ? '' : 's'} · {copy.initiatives.length} initiative{copy.initiatives.length === 1 ? '' : 's'}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-5">
+        <button onClick={onClose} className="px-3 py-1.5 text-sm text-zinc-500 hover:text-zinc-300">Cancel</button>
+        <button
+          onClick={() => { onRollover([...selected], toQuarter); onClose(); }}
+          disabled={!selected.size}
+          className="px-4 py-1.5 text-sm bg-teal-600 hover:bg-teal-500 disabled:opacity-40 text-white transition-colors"
+        >
+          Roll over {selected.size} goal{selected.size === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+}
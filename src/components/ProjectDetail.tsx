@@ -1,6 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { Project, Task, Agent } from '../types';
+import { openBlockers } from '../dependencies';
+import { DependencyBadges, DependencyPanel } from './TaskDependencies';
+import { DueBadge, DueDateInput } from './DueDate';
+import { RecurrenceBadge } from './Recurrence';
 
 interface ProjectDetailProps {
   project: Project;
@@ -8,10 +12,12 @@ interface ProjectDetailProps {
   agents: Agent[];
   onBack: () => void;
   onUpdateProject: (projectId: string, updates: Partial<Project>) => void;
+  onOpenTask?: (taskId: string) => void;
   onUpdateTaskStatus: (taskId: string, status: Task['status']) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
-  onCreateTask: (task: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string }) => void;
+  onCreateTask: (task: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; deadline?: string }) => void;
   onDeleteTask: (taskId: string) => void;
+  onDiscuss?: () => void;
 }
 
 const STATUS_OPTIONS: Project['status'][] = ['active', 'paused', 'completed', 'archived'];
@@ -90,12 +96,13 @@ function EditableText({ value, placeholder, onSave, multiline, className }: {
 
 export function ProjectDetail({
   project, tasks, agents, onBack,
-  onUpdateProject, onUpdateTaskStatus, onUpdateTask, onCreateTask, onDeleteTask,
+  onUpdateProject, onOpenTask, onUpdateTaskStatus, onUpdateTask, onCreateTask, onDeleteTask, onDiscuss,
 }: ProjectDetailProps) {
   const [showNewTask, setShowNewTask] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [newPriority, setNewPriority] = useState<Task['priority']>('medium');
   const [newAssignee, setNewAssignee] = useState('tiger');
+  const [newDeadline, setNewDeadline] = useState<string | undefined>();
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
   const [taskFilter, setTaskFilter] = useState<string>('all');
   const newTaskRef = useRef<HTMLInputElement>(null);
@@ -119,10 +126,12 @@ export function ProjectDetail({
       priority: newPriority,
       assignedTo: newAssignee,
       projectId: project.id,
+      deadline: newDeadline,
     });
     setNewTitle('');
     setNewPriority('medium');
     setNewAssignee('tiger');
+    setNewDeadline(undefined);
     setShowNewTask(false);
   };
 
@@ -139,8 +148,18 @@ export function ProjectDetail({
         <span className="text-zinc-700">|</span>
         <span className="text-[10px] font-mono px-1.5 py-0.5 bg-amber-500/15 text-amber-400">{project.shortCode}</span>
         <h1 className="text-sm font-medium text-zinc-200">{project.title.replace(/^PR\.\w+\s*\|\s*/, '')}</h1>
+        {onDiscuss && (
+          <button
+            onClick={onDiscuss}
+            className="ml-auto text-[10px] px-2 py-0.5 text-zinc-500 hover:text-amber-400 border border-zinc-800 hover:border-amber-500/30 transition-colors"
+            title="Start a conversation with the CEA about this project"
+          >
+            🧠 Discuss with CEA
+          </button>
+        )}
         <span className={cn(
-          'text-[10px] px-2 py-0.5 ml-auto',
+          'text-[10px] px-2 py-0.5',
+          !onDiscuss && 'ml-auto',
           project.status === 'active' && 'bg-emerald-500/15 text-emerald-400',
           project.status === 'paused' && 'bg-zinc-700 text-zinc-400',
           project.status === 'completed' && 'bg-blue-500/15 text-blue-400',
@@ -315,6 +334,7 @@ export function ProjectDetail({
                       <option value="tiger">Tiger</option>
                       {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
                     </select>
+                    <DueDateInput value={newDeadline} onChange={setNewDeadline} className="py-1.5 rounded" />
                     <button
                       onClick={handleCreateTask}
                       disabled={!newTitle.trim()}
@@ -339,7 +359,9 @@ export function ProjectDetail({
                   <TaskRow
                     key={task.id}
                     task={task}
+                    tasks={tasks}
                     agents={agents}
+                    onOpenTask={onOpenTask}
                     onUpdateTaskStatus={onUpdateTaskStatus}
                     onUpdateTask={onUpdateTask}
                     onDeleteTask={onDeleteTask}
@@ -358,9 +380,11 @@ export function ProjectDetail({
 }
 
 // Individual task row with inline editing
-function TaskRow({ task, agents, onUpdateTaskStatus, onUpdateTask, onDeleteTask, confirmDelete, setConfirmDelete, getAssigneeName }: {
+function TaskRow({ task, tasks, agents, onOpenTask, onUpdateTaskStatus, onUpdateTask, onDeleteTask, confirmDelete, setConfirmDelete, getAssigneeName }: {
   task: Task;
+  tasks: Task[];
   agents: Agent[];
+  onOpenTask?: (taskId: string) => void;
   onUpdateTaskStatus: (taskId: string, status: Task['status']) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
   onDeleteTask: (taskId: string) => void;
@@ -376,7 +400,9 @@ function TaskRow({ task, agents, onUpdateTaskStatus, onUpdateTask, onDeleteTask,
     review: { next: 'completed', label: 'Complete', color: 'text-emerald-400 bg-emerald-500/15 hover:bg-emerald-500/25' },
   };
 
-  const action = statusActions[task.status];
+  // Completing is held back until every blocker is done
+  const isBlocked = openBlockers(task, tasks).length > 0;
+  const action = task.status === 'review' && isBlocked ? undefined : statusActions[task.status];
 
   return (
     <div className={cn('transition-colors', expanded && 'bg-zinc-800/20')}>
@@ -402,6 +428,10 @@ function TaskRow({ task, agents, onUpdateTaskStatus, onUpdateTask, onDeleteTask,
           {task.title}
         </span>
 
+        <DependencyBadges task={task} tasks={tasks} />
+        <RecurrenceBadge task={task} />
+        <DueBadge task={task} className="shrink-0" />
+
         {/* Assignee */}
         <span className="text-[10px] text-zinc-500 w-24 text-right shrink-0">{getAssigneeName(task.assignedTo)}</span>
 
@@ -455,6 +485,9 @@ function TaskRow({ task, agents, onUpdateTaskStatus, onUpdateTask, onDeleteTask,
             />
           </div>
 
+          {/* Dependencies */}
+          <DependencyPanel task={task} tasks={tasks} onUpdateTask={onUpdateTask} onOpenTask={onOpenTask} />
+
           {/* Controls row */}
           <div className="flex items-center gap-4 flex-wrap">
             {/* Priority */}
@@ -491,8 +524,19 @@ function TaskRow({ task, agents, onUpdateTaskStatus, onUpdateTask, onDeleteTask,
               </select>
             </div>
 
+            {/* Due date */}
+            <div>
+              <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1">Due</div>
+              <DueDateInput value={task.deadline} onChange={(deadline) => onUpdateTask(task.id, { deadline })} className="rounded" />
+            </div>
+
             {/* Delete */}
-            <div className="ml-auto">
+            <div className="ml-auto flex items-center gap-2">
+              {onOpenTask && (
+                <button onClick={() => onOpenTask(task.id)} className="text-[9px] px-2 py-0.5 text-amber-400/60 hover:text-amber-400 transition-colors">
+                  Open on board
+                </button>
+              )}
               {confirmDelete === task.id ? (
                 <div className="flex gap-1 items-center">
                   <span className="text-[9px] text-red-400">Delete?</span>
@@ -0,0 +1,231 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Project } from '../types';
+import { toDateInput } from '../due-dates';
+
+interface ProjectTimelineProps {
+  projects: Project[];            // filtered + sorted, as shown in the other modes
+  onUpdateProject: (projectId: string, updates: Partial<Project>) => void;
+  onOpenProject?: (projectId: string) => void;
+}
+
+interface TimelineRow {
+  project: Project;
+  depth: number;
+  hasChildren: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+const MIN_SPAN_DAYS = 60;
+const PAD_DAYS = 7;
+
+// Whole days since the epoch (UTC), so DST never shifts a bar by an hour
+function toDayNumber(value: string): number | null {
+  const day = toDateInput(value);
+  if (!day) return null;
+  const [y, m, d] = day.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+}
+
+const fromDayNumber = (n: number) => new Date(n * DAY_MS).toISOString().slice(0, 10);
+
+const STATUS_BAR: Record<Project['status'], string> = {
+  active: 'bg-amber-500/20 border-amber-500/50',
+  paused: 'bg-zinc-700/40 border-zinc-600',
+  completed: 'bg-emerald-500/20 border-emerald-500/50',
+  archived: 'bg-zinc-800/60 border-zinc-700',
+};
+const STATUS_FILL: Record<Project['status'], string> = {
+  active: 'bg-amber-500/50',
+  paused: 'bg-zinc-500/50',
+  completed: 'bg-emerald-500/50',
+  archived: 'bg-zinc-600/50',
+};
+
+// Parents first, each followed by its sub-projects, keeping the given order.
+// A sub-project whose parent is filtered out becomes a root.
+function buildRows(projects: Project[], collapsed: Set<string>): TimelineRow[] {
+  const ids = new Set(projects.map(p => p.id));
+  const rows: TimelineRow[] = [];
+  const visit = (project: Project, depth: number, seen: Set<string>) => {
+    const children = projects.filter(p => p.parentProjectId === project.id && !seen.has(p.id));
+    rows.push({ project, depth, hasChildren: children.length > 0 });
+    if (collapsed.has(project.id)) return;
+    for (const child of children) visit(child, depth + 1, new Set([...seen, child.id]));
+  };
+  for (const root of projects.filter(p => !p.parentProjectId || !ids.has(p.parentProjectId))) {
+    visit(root, 0, new Set([root.id]));
+  }
+  return rows;
+}
+
+// Gantt-style view: each project spans createdAt → targetDate with its task
+// completion filled in. Drag the right end of a bar to move the target date.
+export function ProjectTimeline({ projects, onUpdateProject, onOpenProject }: ProjectTimelineProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<{ projectId: string; startX: number; originDay: number; day: number } | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  // Local calendar day, fixed for the life of the view
+  const [today] = useState(() => toDayNumber(new Date().toISOString())!);
+  const rows = buildRows(projects, collapsed);
+
+  // Visible range: every start and target, plus today, with a little padding
+  const days = projects.flatMap(p => [toDayNumber(p.createdAt), p.targetDate ? toDayNumber(p.targetDate) : null])
+    .filter((d): d is number => d !== null);
+  let rangeStart = Math.min(today, ...days) - PAD_DAYS;
+  let rangeEnd = Math.max(today, ...days) + PAD_DAYS;
+  if (rangeEnd - rangeStart < MIN_SPAN_DAYS) {
+    rangeEnd = rangeStart + MIN_SPAN_DAYS;
+  }
+  // Keep the range stable while a bar is being dragged past its edge
+  if (drag) {
+    rangeStart = Math.min(rangeStart, drag.day - PAD_DAYS);
+    rangeEnd = Math.max(rangeEnd, drag.day + PAD_DAYS);
+  }
+  const span = rangeEnd - rangeStart;
+  const pct = (day: number) => `${((day - rangeStart) / span) * 100}%`;
+
+  // Month boundaries for the header and grid lines
+  const months: { day: number; label: string }[] = [];
+  const cursor = new Date(rangeStart * DAY_MS);
+  cursor.setUTCDate(1);
+  cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  while (cursor.getTime() / DAY_MS < rangeEnd) {
+    months.push({
+      day: cursor.getTime() / DAY_MS,
+      label: cursor.toLocaleDateString([], { month: 'short', year: cursor.getUTCMonth() === 0 ? 'numeric' : undefined, timeZone: 'UTC' }),
+    });
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  const startDrag = (e: React.PointerEvent, project: Project, originDay: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ projectId: project.id, startX: e.clientX, originDay, day: originDay });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag || !trackRef.current) return;
+    const width = trackRef.current.getBoundingClientRect().width;
+    const delta = Math.round(((e.clientX - drag.startX) / width) * span);
+    setDrag(prev => prev && { ...prev, day: prev.originDay + delta });
+  };
+
+  const endDrag = (project: Project, startDay: number) => {
+    if (!drag) return;
+    // A target can't come before the project started
+    const day = Math.max(drag.day, startDay + 1);
+    const targetDate = fromDayNumber(day);
+    setDrag(null);
+    if (targetDate !== project.targetDate) onUpdateProject(project.id, { targetDate });
+  };
+
+  const toggle = (projectId: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(projectId)) next.delete(projectId); else next.add(projectId);
+    return next;
+  });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800">
+      {/* Month header */}
+      <div className="flex border-b border-zinc-800">
+        <div className="w-64 shrink-0 px-4 py-2 text-[10px] text-zinc-600 uppercase tracking-wider">Project</div>
+        <div className="flex-1 relative h-8">
+          {months.map(m => (
+            <span key={m.day} className="absolute top-2 text-[10px] text-zinc-500 pl-1 border-l border-zinc-800 h-6" style={{ left: pct(m.day) }}>
+              {m.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="divide-y divide-zinc-800/40">
+        {rows.map(({ project, depth, hasChildren }) => {
+          const start = toDayNumber(project.createdAt) ?? today;
+          const savedTarget = project.targetDate ? toDayNumber(project.targetDate) : null;
+          const isDragging = drag?.projectId === project.id;
+          const end = isDragging ? Math.max(drag.day, start + 1) : savedTarget;
+          const progress = project.taskCount > 0 ? Math.round((project.completedTaskCount / project.taskCount) * 100) : 0;
+          const overdue = savedTarget !== null && savedTarget < today && project.status !== 'completed' && project.status !== 'archived';
+          const title = project.title.replace(/^PR\.\w+\s*\|\s*/, '');
+
+          return (
+            <div key={project.id} className="flex items-center hover:bg-zinc-800/20 transition-colors">
+              {/* Label */}
+              <div className="w-64 shrink-0 px-4 py-2 flex items-center gap-1.5 min-w-0" style={{ paddingLeft: `${16 + depth * 16}px` }}>
+                {hasChildren ? (
+                  <button onClick={() => toggle(project.id)} className="text-[10px] text-zinc-600 hover:text-zinc-400 w-3">
+                    {collapsed.has(project.id) ? '▸' : '▾'}
+                  </button>
+                ) : (
+                  <span className="w-3 text-[10px] text-zinc-700">{depth > 0 ? '↳' : ''}</span>
+                )}
+                <span className="text-[9px] font-mono px-1.5 py-0.5 bg-amber-500/10 text-amber-400/70 shrink-0">{project.shortCode}</span>
+                <span
+                  className={cn('text-xs text-zinc-300 truncate', onOpenProject && 'cursor-pointer hover:text-zinc-100')}
+                  onClick={() => onOpenProject?.(project.id)}
+                  title={project.title}
+                >
+                  {title}
+                </span>
+              </div>
+
+              {/* Track */}
+              <div ref={trackRef} className="flex-1 relative h-9">
+                {months.map(m => (
+                  <div key={m.day} className="absolute inset-y-0 border-l border-zinc-800/50" style={{ left: pct(m.day) }} />
+                ))}
+                <div className="absolute inset-y-0 border-l border-amber-500/40" style={{ left: pct(today) }} title="Today" />
+
+                {end !== null ? (
+                  <div
+                    className={cn(
+                      'absolute top-2 h-5 border overflow-hidden',
+                      STATUS_BAR[project.status],
+                      overdue && !isDragging && 'border-red-500/60'
+                    )}
+                    style={{ left: pct(start), width: `calc(${pct(end)} - ${pct(start)})` }}
+                    title={`${toDateInput(project.createdAt)} → ${fromDayNumber(end)} · ${progress}% (${project.completedTaskCount}/${project.taskCount} tasks)`}
+                  >
+                    <div className={cn('h-full', STATUS_FILL[project.status])} style={{ width: `${progress}%` }} />
+                    <span className="absolute inset-0 px-1.5 text-[9px] leading-5 text-zinc-200 truncate">
+                      {isDragging ? fromDayNumber(end) : `${progress}%`}
+                    </span>
+                  </div>
+                ) : (
+                  // No target yet: a faint stub up to today, draggable to set one
+                  <div
+                    className="absolute top-2 h-5 border border-dashed border-zinc-700"
+                    style={{ left: pct(start), width: `calc(${pct(Math.max(today, start + 1))} - ${pct(start)})` }}
+                    title="No target date — drag the end to set one"
+                  >
+                    <span className="px-1.5 text-[9px] leading-5 text-zinc-600">no target</span>
+                  </div>
+                )}
+
+                {/* End handle */}
+                <div
+                  className="absolute top-1.5 h-6 w-2 -ml-1 cursor-ew-resize bg-zinc-400/0 hover:bg-amber-400/60 transition-colors touch-none"
+                  style={{ left: pct(end ?? Math.max(today, start + 1)) }}
+                  onPointerDown={(e) => startDrag(e, project, end ?? Math.max(today, start + 1))}
+                  onPointerMove={moveDrag}
+                  onPointerUp={() => endDrag(project, start)}
+                  onPointerCancel={() => setDrag(null)}
+                  title="Drag to change target date"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-4 py-2 border-t border-zinc-800 text-[10px] text-zinc-600 flex items-center gap-4">
+        <span>Bars run from creation to target date; the fill is task completion.</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 border-l border-amber-500/60" /> Today</span>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { Project, Task, Agent, Department } from '../types';
+import { ProjectTimeline } from './ProjectTimeline';
+import { Highlight, SearchFilter } from './Search';
+import { isEmptyQuery, matchesSearch, parseSearchQuery, projectDoc } from '../search';
 
 // Inline editable text field — click to edit, Enter to save, Escape to cancel
 function EditableField({ value, placeholder, onSave, multiline, className }: {
@@ -80,17 +83,23 @@ interface ProjectsViewProps {
   onCreateProject: (data: { title: string; deptId?: string; description?: string; parentProjectId?: string }) => void;
   onDeleteProject: (projectId: string) => void;
   onOpenProject?: (projectId: string) => void;
+  // Routing: view mode, filters and sort live in the URL hash
+  query: Record<string, string>;
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
 }
 
-type ViewMode = 'cards' | 'list';
+type ViewMode = 'cards' | 'list' | 'timeline';
 type SortField = 'name' | 'date' | 'progress' | 'department' | 'tasks';
 type SortDir = 'asc' | 'desc';
 
 const STATUS_OPTIONS: Project['status'][] = ['active', 'paused', 'completed', 'archived'];
 const ALL_STATUSES = 'all';
+const SORT_FIELDS: SortField[] = ['name', 'date', 'progress', 'department', 'tasks'];
+const DEFAULT_SORT: SortField = 'department';
 
-export function ProjectsView({ projects, tasks, agents, departments, onNavigateToTask, onUpdateProject, onCreateProject, onDeleteProject, onOpenProject }: ProjectsViewProps) {
-  const [viewMode, setViewMode] = useState<ViewMode>('cards');
+export function ProjectsView({ projects, tasks, agents, departments, onNavigateToTask, onUpdateProject, onCreateProject, onDeleteProject, onOpenProject, query, onQueryChange }: ProjectsViewProps) {
+  const viewMode: ViewMode = query.mode === 'list' || query.mode === 'timeline' ? query.mode : 'cards';
+  const setViewMode = (mode: ViewMode) => onQueryChange({ mode: mode === 'cards' ? undefined : mode });
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
   const [showNewForm, setShowNewForm] = useState(false);
   const [newTitle, setNewTitle] = useState('');
@@ -101,12 +110,20 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
   const newTitleRef = useRef<HTMLInputElement>(null);
 
   // Filters
-  const [deptFilter, setDeptFilter] = useState<string>(ALL_STATUSES);
-  const [statusFilter, setStatusFilter] = useState<string>(ALL_STATUSES);
+  const deptFilter = query.dept || ALL_STATUSES;
+  const statusFilter = query.status || ALL_STATUSES;
+  const setDeptFilter = (dept: string) => onQueryChange({ dept: dept === ALL_STATUSES ? undefined : dept });
+  const setStatusFilter = (status: string) => onQueryChange({ status: status === ALL_STATUSES ? undefined : status });
+  const search = query.q ?? '';
+  const parsedSearch = useMemo(() => parseSearchQuery(search), [search]);
 
   // Sorting
-  const [sortField, setSortField] = useState<SortField>('department');
-  const [sortDir, setSortDir] = useState<SortDir>('asc');
+  const sortField: SortField = SORT_FIELDS.find(f => f === query.sort) || DEFAULT_SORT;
+  const sortDir: SortDir = query.dir === 'desc' ? 'desc' : 'asc';
+  const setSort = (field: SortField, dir: SortDir) => onQueryChange({
+    sort: field === DEFAULT_SORT ? undefined : field,
+    dir: dir === 'asc' ? undefined : dir,
+  });
 
   const deptNames = useMemo(() => [...new Set(projects.map(p => p.department))].sort(), [projects]);
 
@@ -143,8 +160,11 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
     if (statusFilter !== ALL_STATUSES) {
       result = result.filter(p => p.status === statusFilter);
     }
+    if (!isEmptyQuery(parsedSearch)) {
+      result = result.filter(p => matchesSearch(projectDoc(p, agents), parsedSearch));
+    }
     return result;
-  }, [projects, deptFilter, statusFilter]);
+  }, [projects, deptFilter, statusFilter, parsedSearch, agents]);
 
   // Sorted projects
   const sortedProjects = useMemo(() => {
@@ -200,10 +220,9 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
 
   const toggleSort = (field: SortField) => {
     if (sortField === field) {
-      setSortDir(d => d === 'asc' ? 'desc' : 'asc');
+      setSort(field, sortDir === 'asc' ? 'desc' : 'asc');
     } else {
-      setSortField(field);
-      setSortDir('asc');
+      setSort(field, 'asc');
     }
   };
 
@@ -223,7 +242,7 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
         <span className="text-[10px] font-mono px-1.5 py-0.5 bg-amber-500/15 text-amber-400 shrink-0 w-14 text-center">
           {project.shortCode}
         </span>
-        <span className="text-sm text-zinc-200 flex-1 truncate">{project.title.replace(/^PR\.\w+\s*\|\s*/, '')}</span>
+        <span className="text-sm text-zinc-200 flex-1 truncate"><Highlight text={project.title.replace(/^PR\.\w+\s*\|\s*/, '')} terms={parsedSearch.terms} /></span>
         <span className="text-[10px] text-zinc-500 w-20 text-right shrink-0">{project.department}</span>
         <div className="w-24 shrink-0 flex items-center gap-1.5">
           <div className="flex-1 h-1 bg-zinc-800 overflow-hidden">
@@ -281,7 +300,7 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
                 {project.shortCode}
               </span>
               <h3 className="text-sm font-medium text-zinc-200">
-                {project.title.replace(/^PR\.\w+\s*\|\s*/, '')}
+                <Highlight text={project.title.replace(/^PR\.\w+\s*\|\s*/, '')} terms={parsedSearch.terms} />
               </h3>
             </div>
             <div className="flex items-center gap-1.5">
@@ -607,12 +626,29 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
             >
               List
             </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              className={cn(
+                'px-3 py-1.5 text-xs transition-all',
+                viewMode === 'timeline' ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-400'
+              )}
+            >
+              Timeline
+            </button>
           </div>
         </div>
       </div>
 
       {/* Filter bar */}
       <div className="flex items-center gap-4 mb-5 flex-wrap">
+        <SearchFilter
+          value={search}
+          onChange={(q) => onQueryChange({ q: q || undefined })}
+          placeholder="Filter projects… title, notes"
+          fields={['status', 'dept', 'assignee']}
+          className="w-56"
+        />
+
         {/* Department filter */}
         <div className="flex items-center gap-2">
           <span className="text-[10px] text-zinc-600 uppercase tracking-wider">Dept</span>
@@ -807,12 +843,15 @@ export function ProjectsView({ projects, tasks, agents, departments, onNavigateT
         <div className="bg-zinc-900 border border-zinc-800 p-8 text-center">
           <p className="text-sm text-zinc-500">No projects match current filters.</p>
           <button
-            onClick={() => { setDeptFilter(ALL_STATUSES); setStatusFilter(ALL_STATUSES); }}
+            onClick={() => onQueryChange({ dept: undefined, status: undefined, q: undefined })}
             className="text-xs text-amber-400/70 hover:text-amber-400 mt-2"
           >
             Clear filters
           </button>
         </div>
+      ) : viewMode === 'timeline' ? (
+        /* ─── Timeline View ─── */
+        <ProjectTimeline projects={sortedProjects} onUpdateProject={onUpdateProject} onOpenProject={onOpenProject} />
       ) : viewMode === 'list' ? (
         /* ─── List View ─── */
         <div>
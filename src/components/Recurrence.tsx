@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Task, Agent } from '../types';
+import { describeRule, formatRRule, nextDueOccurrence, parseRRule, seriesAnchor, WEEKDAYS, type Frequency, type RecurrenceRule } from '../recurrence';
+import { toDateInput } from '../due-dates';
+import { DueBadge } from './DueDate';
+
+const UNIT: Record<Frequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' };
+
+// Day the new rule should start from: the task's due date, else today
+function anchorDate(anchor?: string): Date {
+  const m = anchor?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date();
+}
+
+// Repeat rule editor producing an RRULE string, or undefined for "does not repeat"
+export function RecurrencePicker({ value, onChange, anchor, className }: {
+  value?: string;
+  onChange: (recurrence: string | undefined) => void;
+  anchor?: string;
+  className?: string;
+}) {
+  const rule = parseRRule(value);
+  const update = (patch: Partial<RecurrenceRule>) => rule && onChange(formatRRule({ ...rule, ...patch }));
+
+  const setFrequency = (freq: Frequency | '') => {
+    if (!freq) return onChange(undefined);
+    const start = anchorDate(anchor);
+    onChange(formatRRule({
+      freq,
+      interval: rule?.interval ?? 1,
+      byDay: freq === 'WEEKLY' ? [WEEKDAYS[start.getDay()]] : undefined,
+      byMonthDay: freq === 'MONTHLY' ? start.getDate() : undefined,
+    }));
+  };
+
+  const inputClass = 'bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-300 focus:outline-none';
+
+  return (
+    <div className={cn('flex items-center gap-1.5 flex-wrap', className)}>
+      <select value={rule?.freq ?? ''} onChange={(e) => setFrequency(e.target.value as Frequency | '')} className={inputClass}>
+        <option value="">Does not repeat</option>
+        <option value="DAILY">Daily</option>
+        <option value="WEEKLY">Weekly</option>
+        <option value="MONTHLY">Monthly</option>
+      </select>
+      {rule && (
+        <>
+          <span className="text-[10px] text-zinc-600">every</span>
+          <input
+            type="number"
+            min={1}
+            value={rule.interval}
+            onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            className={cn(inputClass, 'w-12')}
+          />
+          <span className="text-[10px] text-zinc-600">{UNIT[rule.freq]}{rule.interval > 1 ? 's' : ''}</span>
+        </>
+      )}
+      {rule?.freq === 'WEEKLY' && (
+        <div className="flex gap-0.5">
+          {WEEKDAYS.map(day => {
+            const on = rule.byDay?.includes(day) ?? false;
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => {
+                  const byDay = on ? rule.byDay!.filter(d => d !== day) : [...(rule.byDay ?? []), day];
+                  update({ byDay: WEEKDAYS.filter(d => byDay.includes(d)) });
+                }}
+                className={cn(
+                  'text-[9px] w-5 py-0.5 border transition-all',
+                  on ? 'bg-amber-500/15 text-amber-400 border-amber-500/30' : 'bg-zinc-800 text-zinc-500 border-zinc-700 hover:text-zinc-400'
+                )}
+                title={day}
+              >
+                {day[0]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {rule?.freq === 'MONTHLY' && (
+        <>
+          <span className="text-[10px] text-zinc-600">on day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={rule.byMonthDay ?? ''}
+            onChange={(e) => update({ byMonthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+            className={cn(inputClass, 'w-12')}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+// "↻ Every Monday" badge for card and row headers
+export function RecurrenceBadge({ task }: { task: Task }) {
+  const rule = parseRRule(task.recurrence);
+  if (!rule) return null;
+  return (
+    <span className="text-[9px] px-1.5 py-0.5 bg-purple-500/10 text-purple-400/80" title={task.recurrence}>
+      ↻ {describeRule(rule)}
+    </span>
+  );
+}
+
+interface SeriesPanelProps {
+  task: Task;
+  tasks: Task[];
+  agents: Agent[];
+  onUpdateSeries?: (seriesId: string, updates: Pick<Partial<Task>, 'title' | 'description' | 'priority' | 'assignedTo' | 'recurrence'>) => void;
+  onOpenTask?: (taskId: string) => void;
+}
+
+// The whole recurring series a task belongs to: past and open occurrences,
+// plus an editor that applies to every open occurrence
+export function SeriesPanel({ task, tasks, agents, onUpdateSeries, onOpenTask }: SeriesPanelProps) {
+  const seriesId = task.seriesId ?? task.id;
+  const occurrences = tasks
+    .filter(t => (t.seriesId ?? t.id) === seriesId)
+    .sort((a, b) => (a.deadline ?? a.createdAt).localeCompare(b.deadline ?? b.createdAt));
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ title: task.title, priority: task.priority, assignedTo: task.assignedTo, recurrence: task.recurrence });
+  const [confirmEnd, setConfirmEnd] = useState(false);
+
+  const rule = parseRRule(task.recurrence);
+  if (!rule && occurrences.length < 2) return null;
+
+  const completed = occurrences.filter(t => t.status === 'completed').length;
+  const last = occurrences[occurrences.length - 1];
+  const upcoming = rule && last?.deadline
+    ? nextDueOccurrence(rule, last.deadline, toDateInput(new Date().toISOString()), seriesAnchor(seriesId, tasks))
+    : null;
+
+  const startEdit = () => {
+    setDraft({ title: task.title, priority: task.priority, assignedTo: task.assignedTo, recurrence: task.recurrence });
+    setEditing(true);
+  };
+
+  const saveSeries = () => {
+    // Only send what changed; `recurrence: undefined` would end the series
+    const updates: Parameters<NonNullable<typeof onUpdateSeries>>[1] = {};
+    if (draft.title.trim() !== task.title) updates.title = draft.title.trim();
+    if (draft.priority !== task.priority) updates.priority = draft.priority;
+    if (draft.assignedTo !== task.assignedTo) updates.assignedTo = draft.assignedTo;
+    if (draft.recurrence !== task.recurrence) updates.recurrence = draft.recurrence;
+    if (Object.keys(updates).length > 0) onUpdateSeries?.(seriesId, updates);
+    setEditing(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <div className="text-[9px] text-zinc-600 uppercase tracking-wider">
+          Series <span className="text-zinc-500">({completed}/{occurrences.length} done)</span>
+        </div>
+        {onUpdateSeries && rule && !editing && (
+          <div className="flex items-center gap-2">
+            <button onClick={startEdit} className="text-[9px] text-zinc-600 hover:text-amber-400 transition-colors">Edit series</button>
+            {confirmEnd ? (
+              <span className="flex items-center gap-1">
+                <span className="text-[9px] text-red-400">Stop repeating?</span>
+                <button
+                  onClick={() => { onUpdateSeries(seriesId, { recurrence: undefined }); setConfirmEnd(false); }}
+                  className="text-[9px] px-1.5 py-0.5 bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                >
+                  Yes
+                </button>
+                <button onClick={() => setConfirmEnd(false)} className="text-[9px] px-1.5 py-0.5 text-zinc-500 hover:text-zinc-400">No</button>
+              </span>
+            ) : (
+              <button onClick={() => setConfirmEnd(true)} className="text-[9px] text-zinc-600 hover:text-red-400 transition-colors">End series</button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2 p-2 bg-zinc-800/40 border border-zinc-800">
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            className="w-full bg-zinc-800 border border-zinc-700 px-2 py-1 text-[11px] text-zinc-300 focus:outline-none focus:border-amber-500/40"
+          />
+          <div className="flex gap-1.5 flex-wrap">
+            <select
+              value={draft.priority}
+              onChange={(e) => setDraft(prev => ({ ...prev, priority: e.target.value as Task['priority'] }))}
+              className="bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-300 focus:outline-none"
+            >
+              <option value="critical">Critical</option>
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+            <select
+              value={draft.assignedTo}
+              onChange={(e) => setDraft(prev => ({ ...prev, assignedTo: e.target.value }))}
+              className="bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-300 focus:outline-none"
+            >
+              <option value="tiger">Tiger</option>
+              {agents.map(a => <option key={a.id} value={a.id}>{a.emoji} {a.name}</option>)}
+            </select>
+          </div>
+          <RecurrencePicker value={draft.recurrence} onChange={(recurrence) => setDraft(prev => ({ ...prev, recurrence }))} anchor={task.deadline} />
+          <div className="flex gap-2">
+            <button
+              onClick={saveSeries}
+              disabled={!draft.title.trim()}
+              className="text-[10px] px-2 py-1 bg-amber-500/15 text-amber-400 hover:bg-amber-500/25 transition-colors disabled:opacity-40"
+            >
+              Apply to open occurrences
+            </button>
+            <button onClick={() => setEditing(false)} className="text-[10px] text-zinc-500 hover:text-zinc-400">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-0.5">
+          {occurrences.slice(-5).map(t => (
+            <div
+              key={t.id}
+              className={cn(
+                'flex items-center gap-2 py-0.5 pl-2 border-l-2',
+                t.id === task.id ? 'border-amber-500/50' : 'border-zinc-800',
+                onOpenTask && t.id !== task.id && 'cursor-pointer hover:border-zinc-600'
+              )}
+              onClick={() => t.id !== task.id && onOpenTask?.(t.id)}
+            >
+              <span className={cn('text-[10px]', t.status === 'completed' ? 'text-emerald-400/70' : 'text-zinc-500')}>
+                {t.status === 'completed' ? '✓' : '○'}
+              </span>
+              {t.deadline ? <DueBadge task={t} /> : <span className="text-[10px] text-zinc-600">No due date</span>}
+            </div>
+          ))}
+          {upcoming && (
+            <div className="flex items-center gap-2 py-0.5 pl-2 border-l-2 border-dashed border-zinc-800">
+              <span className="text-[10px] text-zinc-700">↻</span>
+              <span className="text-[10px] text-zinc-600">Then {upcoming}, on completion</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { cn } from '@/lib/utils';
+import { SEARCH_FIELDS, highlightParts } from '../search';
+
+// `text` with the search terms marked; plain text when there are none
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (!terms.length) return <>{text}</>;
+  return (
+    <>
+      {highlightParts(text, terms).map((part, i) => part.match
+        ? <mark key={i} className="bg-amber-500/25 text-amber-200 rounded-sm">{part.text}</mark>
+        : part.text)}
+    </>
+  );
+}
+
+interface SearchFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  fields?: string[];           // qualifiers worth suggesting in this view
+  className?: string;
+}
+
+// Per-view filter box; takes the same syntax as the global search
+export function SearchFilter({ value, onChange, placeholder = 'Filter…', fields = SEARCH_FIELDS, className }: SearchFilterProps) {
+  return (
+    <div className={cn('relative', className)}>
+      <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-600 text-xs pointer-events-none">⌕</span>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Escape') onChange(''); }}
+        placeholder={placeholder}
+        title={`Text, "phrases", -exclude, and ${fields.map(f => `${f}:`).join(' ')}`}
+        className="w-full bg-zinc-900 border border-zinc-800 pl-7 pr-6 py-1.5 text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-700"
+      />
+      {value && (
+        <button
+          onClick={() => onChange('')}
+          className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-zinc-600 hover:text-zinc-300"
+          title="Clear"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+}
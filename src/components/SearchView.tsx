@@ -0,0 +1,143 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { SEARCH_FIELDS, SEARCH_TYPES, SearchDoc, SearchType, isEmptyQuery, parseSearchQuery, search, snippet } from '../search';
+import { Highlight } from './Search';
+
+interface SearchViewProps {
+  docs: SearchDoc[];
+  query: Record<string, string>;   // q = search text, type = result tab
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
+  onOpen: (doc: SearchDoc) => void;
+}
+
+const RESULT_LIMIT = 200;
+
+const EXAMPLES = [
+  'project:MIRA status:review',
+  'assignee:tiger priority:high',
+  'status:inprog -blocked',
+  'type:message "launch plan"',
+  'quarter:Q1-2026',
+];
+
+// Field values shown under a result, most telling first
+const META_FIELDS = ['project', 'status', 'assignee', 'priority', 'quarter', 'from'] as const;
+
+// Results for the global search bar: one list across every entity, tabs per
+// type, matches highlighted in titles and body snippets
+export function SearchView({ docs, query, onQueryChange, onOpen }: SearchViewProps) {
+  const text = query.q ?? '';
+  const typeFilter = SEARCH_TYPES.find(t => t.id === query.type)?.id ?? null;
+  const parsed = useMemo(() => parseSearchQuery(text), [text]);
+  const results = useMemo(() => search(docs, parsed), [docs, parsed]);
+  const counts = useMemo(() => {
+    const byType: Partial<Record<SearchType, number>> = {};
+    for (const r of results) byType[r.doc.type] = (byType[r.doc.type] ?? 0) + 1;
+    return byType;
+  }, [results]);
+  const visible = (typeFilter ? results.filter(r => r.doc.type === typeFilter) : results).slice(0, RESULT_LIMIT);
+  const highlightTerms = parsed.terms;
+
+  return (
+    <div className="flex-1 overflow-auto bg-zinc-950 p-6">
+      <div className="max-w-3xl">
+        <h1 className="text-xl font-semibold text-zinc-100 mb-4">Search</h1>
+
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => onQueryChange({ q: e.target.value || undefined })}
+          placeholder="Search tasks, projects, goals, ideas, agent prompts and messages…"
+          className="w-full bg-zinc-900 border border-zinc-700 px-3 py-2.5 text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-teal-500/50"
+          autoFocus
+        />
+        <div className="text-[10px] text-zinc-600 mt-1.5">
+          Filters: {SEARCH_FIELDS.map(f => <code key={f} className="text-zinc-500 mr-1.5">{f}:</code>)}
+          · <code className="text-zinc-500">"phrase"</code> · <code className="text-zinc-500">-exclude</code>
+        </div>
+        {parsed.unknown.length > 0 && (
+          <div className="text-[10px] text-amber-400/80 mt-1">
+            Unknown filter{parsed.unknown.length > 1 ? 's' : ''} {parsed.unknown.map(u => `${u}:`).join(' ')} — searched as text
+          </div>
+        )}
+
+        {isEmptyQuery(parsed) ? (
+          <div className="mt-8">
+            <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-2">Try</div>
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <button
+                  key={example}
+                  onClick={() => onQueryChange({ q: example })}
+                  className="text-xs px-2.5 py-1 bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-zinc-200 hover:border-zinc-700 font-mono"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-zinc-600 mt-4">Messages are searched in conversations opened this session.</p>
+          </div>
+        ) : (
+          <>
+            {/* Type tabs */}
+            <div className="flex gap-1 bg-zinc-900 border border-zinc-800 p-0.5 mt-4 w-fit">
+              <button
+                onClick={() => onQueryChange({ type: undefined })}
+                className={cn('px-2.5 py-1 text-[11px] transition-all', !typeFilter ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-400')}
+              >
+                All <span className="text-zinc-600 ml-0.5">{results.length}</span>
+              </button>
+              {SEARCH_TYPES.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => onQueryChange({ type: t.id })}
+                  disabled={!counts[t.id] && typeFilter !== t.id}
+                  className={cn(
+                    'px-2.5 py-1 text-[11px] transition-all disabled:opacity-40',
+                    typeFilter === t.id ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-400',
+                  )}
+                >
+                  {t.label} <span className="text-zinc-600 ml-0.5">{counts[t.id] ?? 0}</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Results */}
+            <div className="mt-3 space-y-1">
+              {visible.map(({ doc }) => {
+                const type = SEARCH_TYPES.find(t => t.id === doc.type)!;
+                const body = doc.body && snippet(doc.body, highlightTerms);
+                const meta = META_FIELDS.flatMap(f => (doc.fields[f]?.[0] ? [`${f}:${doc.fields[f]![0]}`] : []));
+                return (
+                  <button
+                    key={doc.key}
+                    onClick={() => onOpen(doc)}
+                    className="w-full text-left px-3 py-2.5 bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="w-4 text-center text-zinc-500 text-xs shrink-0">{type.icon}</span>
+                      <span className="text-sm text-zinc-200 truncate"><Highlight text={doc.title} terms={highlightTerms} /></span>
+                      <span className="ml-auto text-[9px] uppercase tracking-wider text-zinc-600 shrink-0">{doc.type}</span>
+                    </div>
+                    {body && (
+                      <p className="text-xs text-zinc-500 mt-1 ml-6 line-clamp-2"><Highlight text={body} terms={highlightTerms} /></p>
+                    )}
+                    {meta.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-1.5 ml-6">
+                        {meta.map(m => <span key={m} className="text-[9px] px-1.5 py-0.5 bg-zinc-800 text-zinc-500 font-mono">{m}</span>)}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+              {!visible.length && <div className="text-xs text-zinc-600 py-8 text-center">No matches</div>}
+              {results.length > RESULT_LIMIT && !typeFilter && (
+                <div className="text-[10px] text-zinc-600 py-2 text-center">Showing the best {RESULT_LIMIT} — narrow with filters</div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
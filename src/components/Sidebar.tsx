@@ -1,5 +1,7 @@
+import { useEffect, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { ViewType, Agent } from '../types';
+import { NAV_ITEMS } from '../router';
 
 interface SidebarProps {
   currentView: ViewType;
@@ -8,21 +10,29 @@ interface SidebarProps {
   pendingTaskCount: number;
   projectCount: number;
   ideaCount?: number;
+  pendingSyncCount?: number;
+  failedSyncCount?: number;
+  onRetrySync?: () => void;
   onSignOut?: () => void;
+  onSearch?: (query: string) => void;
 }
 
-const navItems: { id: ViewType; label: string; icon: string }[] = [
-  { id: 'dashboard', label: 'Command Center', icon: '◉' },
-  { id: 'projects', label: 'Projects', icon: '◫' },
-  { id: 'agents', label: 'Agent Hub', icon: '◎' },
-  { id: 'tasks', label: 'Task Board', icon: '☰' },
-  { id: 'chat', label: 'Talk to CEA', icon: '◈' },
-  { id: 'strategy', label: 'Strategy', icon: '△' },
-  { id: 'ideas', label: 'Ideas', icon: '💡' },
-];
-
-export function Sidebar({ currentView, onViewChange, agents, pendingTaskCount, projectCount, ideaCount = 0, onSignOut }: SidebarProps) {
+export function Sidebar({ currentView, onViewChange, agents, pendingTaskCount, projectCount, ideaCount = 0, pendingSyncCount = 0, failedSyncCount = 0, onRetrySync, onSignOut, onSearch }: SidebarProps) {
   const activeAgents = agents.filter(a => a.status === 'active' || a.status === 'working').length;
+  const [search, setSearch] = useState('');
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  // "/" focuses global search from anywhere but a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== '/' || e.metaKey || e.ctrlKey || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      searchRef.current?.focus();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div className="w-64 bg-zinc-950 text-zinc-300 flex flex-col h-full border-r border-zinc-800">
@@ -52,11 +62,50 @@ export function Sidebar({ currentView, onViewChange, agents, pendingTaskCount, p
           <span className="text-zinc-500">Active Agents</span>
           <span className="text-zinc-300">{activeAgents} / {agents.length}</span>
         </div>
+        {/* Outbox: writes not yet confirmed by the server */}
+        <div className="flex items-center justify-between text-[11px] mt-1.5">
+          <span className="text-zinc-500">Sync</span>
+          {failedSyncCount > 0 ? (
+            <button onClick={onRetrySync} className="flex items-center gap-1.5 text-red-400 hover:text-red-300 transition-colors" title="Retry failed changes">
+              <span className="w-1.5 h-1.5 rounded-full bg-red-400" />
+              {failedSyncCount} failed · Retry
+            </button>
+          ) : pendingSyncCount > 0 ? (
+            <span className="flex items-center gap-1.5 text-amber-400">
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse" />
+              {pendingSyncCount} pending
+            </span>
+          ) : (
+            <span className="text-zinc-500">Up to date</span>
+          )}
+        </div>
       </div>
 
+      {/* Global search */}
+      {onSearch && (
+        <div className="px-3 pt-3">
+          <div className="relative">
+            <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-600 text-xs pointer-events-none">⌕</span>
+            <input
+              ref={searchRef}
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && search.trim()) onSearch(search.trim());
+                if (e.key === 'Escape') { setSearch(''); searchRef.current?.blur(); }
+              }}
+              placeholder="Search everything…"
+              className="w-full bg-zinc-900 border border-zinc-800 pl-7 pr-6 py-1.5 text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-700"
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[9px] text-zinc-600 border border-zinc-800 px-1 pointer-events-none">/</span>
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="flex-1 px-3 py-4 space-y-0.5">
-        {navItems.map((item) => (
+        {NAV_ITEMS.map((item) => (
           <button
             key={item.id}
             onClick={() => onViewChange(item.id)}
@@ -1,17 +1,36 @@
 import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
-import { KPI, Agent, Goal } from '../types';
+import { KPI, Agent, Goal, Project, Task } from '../types';
+import { KPI_CATEGORIES, formatChange, parseKPIValue } from '../kpis';
+import { goalTasks, taskProgressLabel } from '../goals';
+import { formatQuarter, goalQuarter, isQuarter, isUnfinished, quarterOf, quarterRange, shiftQuarter } from '../okrs';
+import { PeriodChart, Sparkline } from './KPIChart';
+import { InitiativesEditor } from './InitiativesEditor';
+import { KeyResultsEditor, RolloverPanel, ScoreBadge, ScoringPanel } from './OKRs';
 
 interface StrategyProps {
   kpis: KPI[];
   agents: Agent[];
-  goals: Goal[];
+  goals: Goal[];                 // already rolled up where autoProgress is on
+  tasks: Task[];
+  projects: Project[];
+  query: Record<string, string>;   // q = quarter, e.g. Q2-2026
+  selectedGoalId?: string | null;  // deep link: expanded and scrolled to
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
   onUpdateGoal?: (goalId: string, updates: Partial<Goal>) => void;
-  onCreateGoal?: (data: { title: string; description?: string; ownerAgentId?: string; targetDate?: string }) => void;
+  onCreateGoal?: (data: { title: string; description?: string; ownerAgentId?: string; targetDate?: string; quarter?: string }) => void;
+  onRolloverGoals?: (goalIds: string[], toQuarter: string) => void;
   onDeleteGoal?: (goalId: string) => void;
+  onUpdateKPI?: (kpiId: string, updates: { label?: string; value?: string; category?: string }) => void;
+  onCreateKPI?: (data: { label: string; value: string; category?: string }) => void;
+  onDeleteKPI?: (kpiId: string) => void;
+  onOpenTask?: (taskId: string) => void;
 }
 
-export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDeleteGoal }: StrategyProps) {
+export function Strategy({
+  kpis, agents, goals: allGoals, tasks, projects, query, onQueryChange, selectedGoalId = null,
+  onUpdateGoal, onCreateGoal, onRolloverGoals, onDeleteGoal, onUpdateKPI, onCreateKPI, onDeleteKPI, onOpenTask,
+}: StrategyProps) {
   const [editingProgress, setEditingProgress] = useState<string | null>(null);
   const [progressValue, setProgressValue] = useState(0);
   const [editingTitle, setEditingTitle] = useState<string | null>(null);
@@ -28,6 +47,49 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
   const [newOwner, setNewOwner] = useState('');
   const [expandedGoals, setExpandedGoals] = useState<Set<string>>(new Set());
   const createTitleRef = useRef<HTMLInputElement>(null);
+  const [selectedKpiId, setSelectedKpiId] = useState<string | null>(null);
+  const [editingKpi, setEditingKpi] = useState<{ id: string; field: 'label' | 'value' } | null>(null);
+  const [kpiDraft, setKpiDraft] = useState('');
+  const [confirmDeleteKpi, setConfirmDeleteKpi] = useState<string | null>(null);
+  const [showKpiForm, setShowKpiForm] = useState(false);
+  const [newKpiLabel, setNewKpiLabel] = useState('');
+  const [newKpiValue, setNewKpiValue] = useState('');
+  const [newKpiCategory, setNewKpiCategory] = useState(KPI_CATEGORIES[0]);
+  const selectedKpi = kpis.find(k => k.id === selectedKpiId) ?? null;
+  const [okrPanel, setOkrPanel] = useState<'score' | 'rollover' | null>(null);
+
+  // ─── Quarter ───
+
+  const [currentQuarter] = useState(() => quarterOf());
+  const [today] = useState(() => Date.now());
+  const quarter = isQuarter(query.q) ? query.q : currentQuarter;
+  const nextQuarter = shiftQuarter(quarter, 1);
+  const goals = allGoals.filter(g => goalQuarter(g, currentQuarter) === quarter);
+  const range = quarterRange(quarter)!;
+  const elapsed = Math.min(1, Math.max(0, (today - range.start) / (range.end - range.start)));
+  const unscored = goals.filter(g => g.score === undefined);
+  const unfinished = goals.filter(isUnfinished);
+  const scored = goals.filter(g => g.score !== undefined);
+  const quarterScore = scored.length ? Math.round((scored.reduce((sum, g) => sum + g.score!, 0) / scored.length) * 10) / 10 : null;
+  // Scoring opens in the last two weeks of a quarter
+  const scoringOpen = range.end - today < 14 * 24 * 60 * 60_000;
+
+  const switchQuarter = (q: string) => {
+    onQueryChange({ q: q === currentQuarter ? undefined : q });
+    setOkrPanel(null);
+  };
+
+  // Deep link: expand the linked goal once and bring it into view
+  const [revealedGoalId, setRevealedGoalId] = useState<string | null>(null);
+  if (selectedGoalId && selectedGoalId !== revealedGoalId) {
+    setRevealedGoalId(selectedGoalId);
+    setExpandedGoals(prev => new Set(prev).add(selectedGoalId));
+  }
+  useEffect(() => {
+    if (selectedGoalId) {
+      document.getElementById(`goal-card-${selectedGoalId}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [selectedGoalId]);
 
   useEffect(() => {
     if (showCreateForm && createTitleRef.current) {
@@ -67,6 +129,7 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
       description: newDesc.trim() || undefined,
       ownerAgentId: newOwner || undefined,
       targetDate: newDate || undefined,
+      quarter,
     });
     setNewTitle('');
     setNewDesc('');
@@ -116,9 +179,43 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
     setEditingDate(null);
   };
 
-  const startProgressEdit = (goalId: string, currentProgress: number) => {
-    setEditingProgress(goalId);
-    setProgressValue(currentProgress);
+  // ─── KPIs ───
+
+  const startKpiEdit = (kpi: KPI, field: 'label' | 'value') => {
+    setEditingKpi({ id: kpi.id, field });
+    setKpiDraft(field === 'label' ? kpi.label : kpi.value);
+  };
+
+  const kpiDraftValid = editingKpi?.field === 'label' ? !!kpiDraft.trim() : parseKPIValue(kpiDraft) !== null;
+
+  const saveKpiEdit = () => {
+    if (!editingKpi) return;
+    const kpi = kpis.find(k => k.id === editingKpi.id);
+    const draft = kpiDraft.trim();
+    if (onUpdateKPI && kpi && kpiDraftValid && draft !== kpi[editingKpi.field]) {
+      onUpdateKPI(kpi.id, { [editingKpi.field]: draft });
+    }
+    setEditingKpi(null);
+  };
+
+  const handleCreateKPI = () => {
+    if (!newKpiLabel.trim() || parseKPIValue(newKpiValue) === null || !onCreateKPI) return;
+    onCreateKPI({ label: newKpiLabel.trim(), value: newKpiValue.trim(), category: newKpiCategory });
+    setNewKpiLabel('');
+    setNewKpiValue('');
+    setShowKpiForm(false);
+  };
+
+  const handleDeleteKPI = (kpiId: string) => {
+    if (onDeleteKPI) onDeleteKPI(kpiId);
+    setConfirmDeleteKpi(null);
+    setSelectedKpiId(null);
+  };
+
+  const startProgressEdit = (goal: Goal) => {
+    if (goal.autoProgress) return;
+    setEditingProgress(goal.id);
+    setProgressValue(goal.progress);
   };
 
   const saveProgress = (goalId: string) => {
@@ -132,7 +229,17 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-xl font-semibold text-zinc-100">Strategy & Goals</h1>
-          <p className="text-sm text-zinc-500 mt-0.5">Q1 2026 strategic objectives</p>
+          <p className="text-sm text-zinc-500 mt-0.5">{formatQuarter(quarter)} strategic objectives</p>
+        </div>
+        <div className="flex items-center gap-1 ml-auto mr-3">
+          <button onClick={() => switchQuarter(shiftQuarter(quarter, -1))} className="px-2 py-1 text-sm text-zinc-500 hover:text-zinc-200" title="Previous quarter">‹</button>
+          <span className="text-sm text-zinc-200 w-20 text-center tabular-nums">{formatQuarter(quarter)}</span>
+          <button onClick={() => switchQuarter(nextQuarter)} className="px-2 py-1 text-sm text-zinc-500 hover:text-zinc-200" title="Next quarter">›</button>
+          {quarter !== currentQuarter && (
+            <button onClick={() => switchQuarter(currentQuarter)} className="text-[10px] px-2 py-0.5 text-zinc-500 hover:text-teal-400 border border-zinc-800">
+              This quarter
+            </button>
+          )}
         </div>
         {onCreateGoal && (
           <button
@@ -216,10 +323,237 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
         </div>
       </div>
 
+      {/* Key Metrics */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Key Metrics</div>
+          {onCreateKPI && (
+            <button
+              onClick={() => setShowKpiForm(!showKpiForm)}
+              className="text-[10px] px-2 py-0.5 text-zinc-500 hover:text-teal-400 border border-zinc-800 hover:border-teal-500/30"
+            >
+              + KPI
+            </button>
+          )}
+        </div>
+
+        {showKpiForm && (
+          <div className="mb-3 bg-zinc-900 border border-teal-500/30 p-4 flex items-end gap-3" style={{ animation: 'slideUp 0.2s ease-out' }}>
+            <div className="flex-1">
+              <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 block">Label</label>
+              <input
+                value={newKpiLabel}
+                onChange={(e) => setNewKpiLabel(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreateKPI(); if (e.key === 'Escape') setShowKpiForm(false); }}
+                placeholder="e.g. Course Signups"
+                className="w-full bg-zinc-800 border border-zinc-700 text-zinc-300 text-sm px-3 py-1.5 outline-none focus:border-teal-500/50"
+                autoFocus
+              />
+            </div>
+            <div className="w-32">
+              <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 block">Current value</label>
+              <input
+                value={newKpiValue}
+                onChange={(e) => setNewKpiValue(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreateKPI(); if (e.key === 'Escape') setShowKpiForm(false); }}
+                placeholder="$1,200 · 34%"
+                className="w-full bg-zinc-800 border border-zinc-700 text-zinc-300 text-sm px-3 py-1.5 outline-none focus:border-teal-500/50"
+              />
+            </div>
+            <div className="w-36">
+              <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 block">Category</label>
+              <select
+                value={newKpiCategory}
+                onChange={(e) => setNewKpiCategory(e.target.value)}
+                className="w-full bg-zinc-800 border border-zinc-700 text-zinc-300 text-sm px-3 py-1.5 outline-none focus:border-teal-500/50 capitalize"
+              >
+                {KPI_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <button onClick={() => setShowKpiForm(false)} className="px-3 py-1.5 text-sm text-zinc-500 hover:text-zinc-300">Cancel</button>
+            <button
+              onClick={handleCreateKPI}
+              disabled={!newKpiLabel.trim() || parseKPIValue(newKpiValue) === null}
+              className="px-4 py-1.5 text-sm bg-teal-600 hover:bg-teal-500 disabled:opacity-40 text-white transition-colors"
+            >
+              Add KPI
+            </button>
+          </div>
+        )}
+
+        {kpis.length === 0 ? (
+          <div className="bg-zinc-900 border border-zinc-800 p-6 text-center text-sm text-zinc-500">No KPIs tracked yet.</div>
+        ) : (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {kpis.map(kpi => (
+              <div
+                key={kpi.id}
+                onClick={() => setSelectedKpiId(selectedKpiId === kpi.id ? null : kpi.id)}
+                className={cn(
+                  'bg-zinc-900 border p-4 cursor-pointer transition-colors',
+                  selectedKpiId === kpi.id ? 'border-teal-500/40' : 'border-zinc-800 hover:border-zinc-700',
+                )}
+              >
+                {editingKpi?.id === kpi.id && editingKpi.field === 'label' ? (
+                  <input
+                    value={kpiDraft}
+                    onChange={(e) => setKpiDraft(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveKpiEdit(); if (e.key === 'Escape') setEditingKpi(null); }}
+                    onBlur={saveKpiEdit}
+                    className="w-full bg-zinc-800 border border-zinc-600 px-1 py-0.5 text-[10px] uppercase tracking-wider text-zinc-300 outline-none mb-1"
+                    autoFocus
+                  />
+                ) : (
+                  <div
+                    className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 truncate hover:text-zinc-300"
+                    onClick={(e) => { if (onUpdateKPI) { e.stopPropagation(); startKpiEdit(kpi, 'label'); } }}
+                    title={onUpdateKPI ? 'Click to rename' : undefined}
+                  >
+                    {kpi.label}
+                  </div>
+                )}
+                {editingKpi?.id === kpi.id && editingKpi.field === 'value' ? (
+                  <input
+                    value={kpiDraft}
+                    onChange={(e) => setKpiDraft(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveKpiEdit(); if (e.key === 'Escape') setEditingKpi(null); }}
+                    onBlur={saveKpiEdit}
+                    className={cn(
+                      'w-full bg-zinc-800 border px-1 py-0.5 text-xl font-semibold text-zinc-100 outline-none mb-1',
+                      kpiDraftValid ? 'border-zinc-600' : 'border-red-500/50',
+                    )}
+                    autoFocus
+                  />
+                ) : (
+                  <div
+                    className="text-2xl font-semibold text-zinc-100 mb-1 hover:text-white"
+                    onClick={(e) => { if (onUpdateKPI) { e.stopPropagation(); startKpiEdit(kpi, 'value'); } }}
+                    title={onUpdateKPI ? 'Click to record a new value' : undefined}
+                  >
+                    {kpi.value}
+                  </div>
+                )}
+                <div className={cn(
+                  'text-[10px] flex items-center gap-1',
+                  kpi.trend === 'up' && 'text-emerald-400',
+                  kpi.trend === 'down' && 'text-red-400',
+                  kpi.trend === 'stable' && 'text-zinc-500',
+                )}>
+                  <span>{kpi.trend === 'up' ? '↑' : kpi.trend === 'down' ? '↓' : '→'}</span>
+                  <span>{formatChange(kpi.change)} vs last month</span>
+                </div>
+                <Sparkline kpi={kpi} className="mt-2" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Selected KPI: period over period */}
+        {selectedKpi && (
+          <div className="mt-3 bg-zinc-900 border border-zinc-800 p-5" style={{ animation: 'slideUp 0.2s ease-out' }}>
+            <div className="flex items-start justify-between mb-4 gap-3">
+              <div>
+                <div className="text-sm font-medium text-zinc-200">{selectedKpi.label}</div>
+                <div className="text-[10px] text-zinc-500 mt-0.5">
+                  Month over month · {selectedKpi.history.length} reading{selectedKpi.history.length === 1 ? '' : 's'}
+                  {selectedKpi.history.length > 0 && ` · last ${new Date(selectedKpi.history[selectedKpi.history.length - 1].recordedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {onUpdateKPI && (
+                  <select
+                    value={selectedKpi.category}
+                    onChange={(e) => onUpdateKPI(selectedKpi.id, { category: e.target.value })}
+                    className="bg-zinc-800 border border-zinc-700 text-zinc-400 text-[10px] px-2 py-0.5 outline-none capitalize"
+                  >
+                    {!KPI_CATEGORIES.includes(selectedKpi.category) && <option value={selectedKpi.category}>{selectedKpi.category || 'Uncategorized'}</option>}
+                    {KPI_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                )}
+                {onDeleteKPI && (
+                  confirmDeleteKpi === selectedKpi.id ? (
+                    <div className="flex items-center gap-1">
+                      <span className="text-[10px] text-red-400">Delete this KPI and its history?</span>
+                      <button
+                        onClick={() => handleDeleteKPI(selectedKpi.id)}
+                        className="text-[10px] px-2 py-0.5 bg-red-500/20 text-red-400 border border-red-500/30"
+                      >
+                        Yes, Delete
+                      </button>
+                      <button onClick={() => setConfirmDeleteKpi(null)} className="text-[10px] px-2 py-0.5 text-zinc-500">Cancel</button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDeleteKpi(selectedKpi.id)}
+                      className="text-[10px] px-2 py-0.5 text-zinc-600 hover:text-red-400 border border-zinc-800 hover:border-red-500/30"
+                    >
+                      Delete
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+            <PeriodChart kpi={selectedKpi} />
+          </div>
+        )}
+      </div>
+
+      {/* Quarter: timeline, scoring, rollover */}
+      <div className="flex items-center gap-3 mb-3">
+        <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Objectives · {formatQuarter(quarter)}</div>
+        <div className="flex-1 h-1 bg-zinc-800 overflow-hidden" title={`${Math.round(elapsed * 100)}% of the quarter elapsed`}>
+          <div className="h-full bg-zinc-600" style={{ width: `${elapsed * 100}%` }} />
+        </div>
+        {quarterScore !== null && (
+          <span className="flex items-center gap-1 text-[10px] text-zinc-500">
+            Quarter score <ScoreBadge score={quarterScore} />
+          </span>
+        )}
+        {onUpdateGoal && unscored.length > 0 && (scoringOpen || okrPanel === 'score') && (
+          <button
+            onClick={() => setOkrPanel(okrPanel === 'score' ? null : 'score')}
+            className="text-[10px] px-2 py-0.5 text-amber-400/80 hover:text-amber-400 border border-amber-500/20 hover:border-amber-500/40"
+          >
+            Score quarter
+          </button>
+        )}
+        {onRolloverGoals && unfinished.length > 0 && (
+          <button
+            onClick={() => setOkrPanel(okrPanel === 'rollover' ? null : 'rollover')}
+            className="text-[10px] px-2 py-0.5 text-zinc-500 hover:text-teal-400 border border-zinc-800 hover:border-teal-500/30"
+          >
+            Roll over {unfinished.length} unfinished → {formatQuarter(nextQuarter)}
+          </button>
+        )}
+      </div>
+
+      {okrPanel === 'score' && onUpdateGoal && (
+        <ScoringPanel
+          key={quarter}
+          quarter={quarter}
+          goals={unscored}
+          kpis={kpis}
+          onScore={(goalId, keyResults, score) => onUpdateGoal(goalId, { keyResults, score })}
+          onClose={() => setOkrPanel(null)}
+        />
+      )}
+      {okrPanel === 'rollover' && onRolloverGoals && (
+        <RolloverPanel
+          key={quarter}
+          toQuarter={nextQuarter}
+          goals={unfinished}
+          kpis={kpis}
+          onRollover={onRolloverGoals}
+          onClose={() => setOkrPanel(null)}
+        />
+      )}
+
       {/* Goals */}
       {goals.length === 0 ? (
         <div className="bg-zinc-900 border border-zinc-800 p-8 text-center">
-          <p className="text-sm text-zinc-500 mb-3">No goals yet.</p>
+          <p className="text-sm text-zinc-500 mb-3">No goals in {formatQuarter(quarter)}.</p>
           {onCreateGoal && (
             <button onClick={() => setShowCreateForm(true)} className="text-sm text-teal-400 hover:text-teal-300">
               Create your first strategic goal
@@ -230,8 +564,11 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
         <div className="space-y-4">
           {goals.map((goal) => {
             const isExpanded = expandedGoals.has(goal.id);
+            const linkedTasks = goalTasks(goal, tasks);
+            const rolledUp = goal.autoProgress && linkedTasks.length > 0;
+            const rolledOverQuarter = goal.rolledOverTo && allGoals.find(g => g.id === goal.rolledOverTo)?.quarter;
             return (
-              <div key={goal.id} className="bg-zinc-900 border border-zinc-800 group/card">
+              <div key={goal.id} id={`goal-card-${goal.id}`} className={cn('bg-zinc-900 border group/card', goal.id === selectedGoalId ? 'border-teal-500/40' : 'border-zinc-800')}>
                 <div className="px-5 py-4 border-b border-zinc-800/50">
                   {/* Title row */}
                   <div className="flex items-start justify-between mb-2 gap-3">
@@ -252,6 +589,7 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                         >
                           <span className="mr-2 text-zinc-600 text-xs">{isExpanded ? '▾' : '▸'}</span>
                           {goal.title}
+                          {goal.score !== undefined && <ScoreBadge score={goal.score} className="ml-2 align-middle" />}
                         </h3>
                       )}
                     </div>
@@ -263,11 +601,14 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                             <button
                               key={s.value}
                               onClick={() => onUpdateGoal(goal.id, { status: s.value })}
+                              disabled={rolledUp}
+                              title={rolledUp ? 'Computed from linked tasks and the target date' : undefined}
                               className={cn(
                                 'text-[9px] px-2 py-0.5 transition-all border',
                                 goal.status === s.value
                                   ? `${s.color} border-current`
-                                  : 'bg-zinc-800 text-zinc-600 border-zinc-700 hover:text-zinc-400'
+                                  : 'bg-zinc-800 text-zinc-600 border-zinc-700 hover:text-zinc-400',
+                                rolledUp && goal.status !== s.value && 'opacity-40 hover:text-zinc-600'
                               )}
                             >
                               {s.label}
@@ -281,9 +622,9 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                   {/* Progress bar */}
                   <div className="flex items-center gap-3">
                     <div
-                      className="flex-1 h-1.5 bg-zinc-800 overflow-hidden cursor-pointer"
-                      onClick={() => startProgressEdit(goal.id, goal.progress)}
-                      title="Click to edit progress"
+                      className={cn('flex-1 h-1.5 bg-zinc-800 overflow-hidden', !goal.autoProgress && 'cursor-pointer')}
+                      onClick={() => startProgressEdit(goal)}
+                      title={goal.autoProgress ? `${linkedTasks.length} linked tasks` : 'Click to edit progress'}
                     >
                       <div
                         className={cn('h-full transition-all duration-500', getProgressBarColor(goal.status))}
@@ -308,10 +649,11 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                       </div>
                     ) : (
                       <span
-                        className="text-xs text-zinc-400 w-10 text-right cursor-pointer hover:text-zinc-200"
-                        onClick={() => startProgressEdit(goal.id, goal.progress)}
-                        title="Click to edit"
+                        className={cn('text-xs text-zinc-400 min-w-[2.5rem] text-right', !goal.autoProgress && 'cursor-pointer hover:text-zinc-200')}
+                        onClick={() => startProgressEdit(goal)}
+                        title={goal.autoProgress ? 'Rolled up from linked tasks' : 'Click to edit'}
                       >
+                        {goal.autoProgress && <span className="text-[9px] text-teal-500 mr-1">auto</span>}
                         {goal.progress}%
                       </span>
                     )}
@@ -320,6 +662,11 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                   {/* Owner + date */}
                   <div className="text-[10px] text-zinc-500 mt-2 flex items-center gap-2">
                     <span>Owned by {goal.ownerEmoji} {goal.ownerName}</span>
+                    {goal.rolledOverTo && (
+                      <span className="text-teal-500/80">
+                        ↪ Rolled over{rolledOverQuarter ? ` to ${formatQuarter(rolledOverQuarter)}` : ''}
+                      </span>
+                    )}
                     {editingDate === goal.id ? (
                       <span className="flex items-center gap-1">
                         <input
@@ -373,8 +720,38 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                       )}
                     </div>
 
+                    {/* Rollup */}
+                    {onUpdateGoal && (
+                      <label className="flex items-center gap-2 text-[11px] text-zinc-400 cursor-pointer w-fit">
+                        <input
+                          type="checkbox"
+                          checked={!!goal.autoProgress}
+                          onChange={(e) => onUpdateGoal(goal.id, { autoProgress: e.target.checked })}
+                          className="accent-teal-500"
+                        />
+                        Compute progress and status from linked tasks
+                        <span className="text-[10px] text-zinc-600">
+                          {linkedTasks.length
+                            ? `${taskProgressLabel(linkedTasks)}${goal.targetDate ? '' : ' · set a target date to track pace'}`
+                            : 'link a project or tasks to an initiative first'}
+                        </span>
+                      </label>
+                    )}
+
                     {/* Edit title button */}
                     <div className="flex items-center gap-2">
+                      {onUpdateGoal && goal.score !== undefined && (
+                        <button
+                          onClick={() => onUpdateGoal(goal.id, {
+                            score: undefined,
+                            keyResults: goal.keyResults.map(kr => ({ ...kr, score: undefined, finalValue: undefined })),
+                          })}
+                          className="text-[10px] px-2 py-0.5 text-zinc-500 hover:text-amber-400 border border-zinc-700 hover:border-amber-500/30"
+                          title="Clear the score so key results can change again"
+                        >
+                          Reopen scoring
+                        </button>
+                      )}
                       <button
                         onClick={() => startTitleEdit(goal)}
                         className="text-[10px] px-2 py-0.5 text-zinc-500 hover:text-zinc-300 border border-zinc-700 hover:border-zinc-600"
@@ -413,30 +790,18 @@ export function Strategy({ kpis, agents, goals, onUpdateGoal, onCreateGoal, onDe
                   </div>
                 )}
 
-                {/* Initiatives */}
-                {goal.initiatives.length > 0 && (
-                  <div className="px-5 py-3">
-                    <div className="text-[10px] text-zinc-600 uppercase tracking-wider mb-2">Initiatives</div>
-                    <div className="space-y-1.5">
-                      {goal.initiatives.map((init, j) => (
-                        <div key={j} className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <span className={cn(
-                              'w-1.5 h-1.5 rounded-full',
-                              init.status === 'completed' && 'bg-emerald-400',
-                              init.status === 'active' && 'bg-emerald-400',
-                              init.status === 'in-progress' && 'bg-blue-400',
-                              init.status === 'review' && 'bg-amber-400',
-                              init.status === 'planned' && 'bg-zinc-600',
-                            )} />
-                            <span className="text-xs text-zinc-400">{init.name}</span>
-                          </div>
-                          <span className="text-[10px] text-zinc-600">{init.due}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
+                <KeyResultsEditor
+                  goal={goal}
+                  kpis={kpis}
+                  onChange={onUpdateGoal && ((keyResults) => onUpdateGoal(goal.id, { keyResults }))}
+                />
+                <InitiativesEditor
+                  goal={goal}
+                  tasks={tasks}
+                  projects={projects}
+                  onChange={onUpdateGoal && ((initiatives) => onUpdateGoal(goal.id, { initiatives }))}
+                  onOpenTask={onOpenTask}
+                />
               </div>
             );
           })}
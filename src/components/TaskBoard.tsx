@@ -1,6 +1,13 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { cn } from '@/lib/utils';
 import { Task, Agent, Project } from '../types';
+import { openBlockers } from '../dependencies';
+import { dueState } from '../due-dates';
+import { DependencyBadges, DependencyPanel } from './TaskDependencies';
+import { DueBadge, DueDateInput } from './DueDate';
+import { RecurrenceBadge, RecurrencePicker, SeriesPanel } from './Recurrence';
+import { Highlight, SearchFilter } from './Search';
+import { isEmptyQuery, matchesSearch, parseSearchQuery, taskDoc } from '../search';
 
 interface TaskBoardProps {
   tasks: Task[];
@@ -8,16 +15,27 @@ interface TaskBoardProps {
   projects: Project[];
   onUpdateTaskStatus: (taskId: string, status: Task['status']) => void;
   onUpdateTask?: (taskId: string, updates: Partial<Task>) => void;
-  onCreateTask?: (task: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; parentTaskId?: string }) => void;
+  onCreateTask?: (task: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; parentTaskId?: string; deadline?: string; recurrence?: string }) => void;
   onDeleteTask?: (taskId: string) => void;
+  onUpdateSeries?: (seriesId: string, updates: Pick<Partial<Task>, 'title' | 'description' | 'priority' | 'assignedTo' | 'recurrence'>) => void;
+  // Routing: the expanded task and filters live in the URL hash
+  selectedTaskId: string | null;
+  onSelectTask: (taskId: string | null) => void;
+  query: Record<string, string>;
+  onQueryChange: (patch: Record<string, string | undefined>) => void;
 }
 
 type FilterType = 'all' | 'tiger' | 'agents';
 
-export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdateTask, onCreateTask, onDeleteTask }: TaskBoardProps) {
-  const [filter, setFilter] = useState<FilterType>('all');
-  const [projectFilter, setProjectFilter] = useState<string>('all');
-  const [expandedTask, setExpandedTask] = useState<string | null>(null);
+export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdateTask, onCreateTask, onDeleteTask, onUpdateSeries, selectedTaskId, onSelectTask, query, onQueryChange }: TaskBoardProps) {
+  const filter: FilterType = query.filter === 'tiger' || query.filter === 'agents' ? query.filter : 'all';
+  const projectFilter = query.project || 'all';
+  const setFilter = (f: FilterType) => onQueryChange({ filter: f === 'all' ? undefined : f });
+  const setProjectFilter = (p: string) => onQueryChange({ project: p === 'all' ? undefined : p });
+  const search = query.q ?? '';
+  const parsedSearch = useMemo(() => parseSearchQuery(search), [search]);
+  const expandedTask = selectedTaskId;
+  const setExpandedTask = onSelectTask;
   const [editingField, setEditingField] = useState<{ taskId: string; field: string } | null>(null);
   const [editValue, setEditValue] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -35,9 +53,12 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
     priority: 'medium' as Task['priority'],
     assignedTo: 'tiger',
     projectId: '',
+    deadline: '',
+    recurrence: undefined as string | undefined,
   });
 
   const filtered = tasks.filter(t => {
+    if (!isEmptyQuery(parsedSearch) && !matchesSearch(taskDoc(t, projects, agents), parsedSearch)) return false;
     if (filter === 'tiger' && t.assignedTo !== 'tiger') return false;
     if (filter === 'agents' && t.assignedTo === 'tiger') return false;
     if (projectFilter !== 'all') {
@@ -47,6 +68,22 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
     return true;
   });
 
+  // Deep link: bring the linked task into view once it has loaded, clearing
+  // the filters first if they hide it. Only once per link, so filtering with
+  // a task open afterwards isn't undone.
+  const scrolledTo = useRef<string | null>(null);
+  const linkedLoaded = !!selectedTaskId && tasks.some(t => t.id === selectedTaskId);
+  const linkedHidden = linkedLoaded && !filtered.some(t => t.id === selectedTaskId);
+  useEffect(() => {
+    if (!selectedTaskId || !linkedLoaded || scrolledTo.current === selectedTaskId) return;
+    if (linkedHidden) {
+      onQueryChange({ filter: undefined, project: undefined, q: undefined });
+      return;
+    }
+    document.getElementById(`task-card-${selectedTaskId}`)?.scrollIntoView({ block: 'center' });
+    scrolledTo.current = selectedTaskId;
+  }, [selectedTaskId, tasks, linkedLoaded, linkedHidden, onQueryChange]);
+
   const getSubTaskCount = (taskId: string) => tasks.filter(t => t.parentTaskId === taskId).length;
   const getParentTask = (task: Task) => task.parentTaskId ? tasks.find(t => t.id === task.parentTaskId) : null;
 
@@ -115,8 +152,10 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
       priority: newTask.priority,
       assignedTo: newTask.assignedTo,
       projectId: newTask.projectId || undefined,
+      deadline: newTask.deadline || undefined,
+      recurrence: newTask.recurrence,
     });
-    setNewTask({ title: '', description: '', priority: 'medium', assignedTo: 'tiger', projectId: '' });
+    setNewTask({ title: '', description: '', priority: 'medium', assignedTo: 'tiger', projectId: '', deadline: '', recurrence: undefined });
     setShowCreateForm(false);
   };
 
@@ -204,6 +243,13 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <SearchFilter
+            value={search}
+            onChange={(q) => onQueryChange({ q: q || undefined })}
+            placeholder="Filter tasks… status:review"
+            fields={['project', 'status', 'assignee', 'priority', 'dept']}
+            className="w-56"
+          />
           {onCreateTask && (
             <button
               onClick={() => setShowCreateForm(!showCreateForm)}
@@ -294,6 +340,22 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="text-[10px] text-zinc-500 block mb-1">Due date</label>
+                <DueDateInput
+                  value={newTask.deadline}
+                  onChange={(deadline) => setNewTask(prev => ({ ...prev, deadline: deadline ?? '' }))}
+                  className="py-1.5 text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] text-zinc-500 block mb-1">Repeat</label>
+                <RecurrencePicker
+                  value={newTask.recurrence}
+                  onChange={(recurrence) => setNewTask(prev => ({ ...prev, recurrence }))}
+                  anchor={newTask.deadline}
+                />
+              </div>
             </div>
             <div className="flex gap-2">
               <button
@@ -393,12 +455,15 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                 {colTasks.map((task) => (
                   <div
                     key={task.id}
+                    id={`task-card-${task.id}`}
                     draggable={expandedTask !== task.id && editingField?.taskId !== task.id}
                     onDragStart={(e) => handleDragStart(e, task.id)}
                     onDragEnd={handleDragEnd}
                     className={cn(
                       'bg-zinc-900 border border-zinc-800 p-3 transition-all hover:border-zinc-700',
                       expandedTask === task.id && 'border-zinc-600',
+                      dueState(task) === 'overdue' && 'border-l-2 border-l-red-500/60',
+                      dueState(task) === 'due-soon' && 'border-l-2 border-l-amber-500/60',
                       draggedTaskId === task.id && 'opacity-50',
                       expandedTask !== task.id && editingField?.taskId !== task.id && 'cursor-grab active:cursor-grabbing'
                     )}
@@ -424,6 +489,8 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                           {getSubTaskCount(task.id)} sub-task{getSubTaskCount(task.id) > 1 ? 's' : ''}
                         </span>
                       )}
+                      <DependencyBadges task={task} tasks={tasks} />
+                      <RecurrenceBadge task={task} />
                     </div>
 
                     <div className="flex items-start gap-2 mb-1.5">
@@ -451,16 +518,14 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                           onClick={(e) => { e.stopPropagation(); startEdit(task.id, 'title', task.title); }}
                           title="Click to edit"
                         >
-                          {task.title}
+                          <Highlight text={task.title} terms={parsedSearch.terms} />
                         </span>
                       )}
                     </div>
 
                     <div className="flex items-center gap-2 ml-3.5">
                       <span className="text-[10px] text-zinc-500">{getAssigneeName(task.assignedTo)}</span>
-                      {task.deadline && (
-                        <span className="text-[10px] text-zinc-600">· {task.deadline}</span>
-                      )}
+                      <DueBadge task={task} />
                     </div>
 
                     {task.tags.length > 0 && (
@@ -548,6 +613,22 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                           </select>
                         </div>
 
+                        {/* Due date */}
+                        <div>
+                          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1">Due date</div>
+                          <DueDateInput value={task.deadline} onChange={(deadline) => onUpdateTask?.(task.id, { deadline })} />
+                        </div>
+
+                        {/* Recurrence: the whole series once it repeats, otherwise a rule picker */}
+                        {task.recurrence ? (
+                          <SeriesPanel task={task} tasks={tasks} agents={agents} onUpdateSeries={onUpdateSeries} onOpenTask={setExpandedTask} />
+                        ) : (
+                          <div>
+                            <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1">Repeat</div>
+                            <RecurrencePicker value={task.recurrence} onChange={(recurrence) => onUpdateTask?.(task.id, { recurrence })} anchor={task.deadline} />
+                          </div>
+                        )}
+
                         {/* Sub-tasks */}
                         <div>
                           <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">
@@ -636,6 +717,9 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                           )}
                         </div>
 
+                        {/* Dependencies */}
+                        <DependencyPanel task={task} tasks={tasks} onUpdateTask={onUpdateTask} onOpenTask={setExpandedTask} />
+
                         {/* Info row */}
                         <div className="text-[10px] text-zinc-600">
                           Assigned by: {getAssignerName(task.assignedBy)}
@@ -662,12 +746,18 @@ export function TaskBoard({ tasks, agents, projects, onUpdateTaskStatus, onUpdat
                                 </button>
                               )}
                               {task.status === 'review' && (
-                                <button
-                                  onClick={() => onUpdateTaskStatus(task.id, 'completed')}
-                                  className="text-[10px] px-2 py-1 bg-emerald-500/15 text-emerald-400 hover:bg-emerald-500/25 transition-colors"
-                                >
-                                  Mark Complete
-                                </button>
+                                openBlockers(task, tasks).length > 0 ? (
+                                  <span className="text-[10px] px-2 py-1 text-red-400/70" title="Complete its blockers first">
+                                    Blocked
+                                  </span>
+                                ) : (
+                                  <button
+                                    onClick={() => onUpdateTaskStatus(task.id, 'completed')}
+                                    className="text-[10px] px-2 py-1 bg-emerald-500/15 text-emerald-400 hover:bg-emerald-500/25 transition-colors"
+                                  >
+                                    Mark Complete
+                                  </button>
+                                )
                               )}
                             </>
                           )}
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { Task, Agent, Project } from '../types';
+import { RecurrencePicker } from './Recurrence';
 
 interface TaskCaptureModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string }) => void;
+  onSubmit: (data: { title: string; description: string; priority: Task['priority']; assignedTo: string; projectId?: string; deadline?: string; recurrence?: string }) => void;
   agents: Agent[];
   projects: Project[];
 }
@@ -14,6 +15,8 @@ export function TaskCaptureModal({ isOpen, onClose, onSubmit, agents, projects }
   const [priority, setPriority] = useState<Task['priority']>('medium');
   const [assignedTo, setAssignedTo] = useState('tiger');
   const [projectId, setProjectId] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [recurrence, setRecurrence] = useState<string | undefined>();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const titleRef = useRef<HTMLInputElement>(null);
 
@@ -26,6 +29,8 @@ export function TaskCaptureModal({ isOpen, onClose, onSubmit, agents, projects }
       setPriority('medium');
       setAssignedTo('tiger');
       setProjectId('');
+      setDeadline('');
+      setRecurrence(undefined);
     }
   }, [isOpen]);
 
@@ -49,6 +54,8 @@ export function TaskCaptureModal({ isOpen, onClose, onSubmit, agents, projects }
         priority,
         assignedTo,
         projectId: projectId || undefined,
+        deadline: deadline || undefined,
+        recurrence,
       });
       onClose();
     } finally {
@@ -140,6 +147,21 @@ export function TaskCaptureModal({ isOpen, onClose, onSubmit, agents, projects }
                 ))}
               </select>
             </div>
+            <div>
+              <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 block">Due</label>
+              <input
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 text-zinc-300 text-sm px-3 py-1.5 rounded-md outline-none focus:border-amber-500/50 [color-scheme:dark]"
+              />
+            </div>
+          </div>
+
+          {/* Repeat */}
+          <div>
+            <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 block">Repeat</label>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} anchor={deadline} />
           </div>
         </div>
 
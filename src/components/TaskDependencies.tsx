@@ -0,0 +1,145 @@
+import { cn } from '@/lib/utils';
+import { Task } from '../types';
+import { blockersOf, dependencyChain, dependentsOf, findDependencyCycle, openBlockers } from '../dependencies';
+
+const STATUS_DOT: Record<Task['status'], string> = {
+  pending: 'bg-zinc-500',
+  in_progress: 'bg-blue-400',
+  review: 'bg-amber-400',
+  completed: 'bg-emerald-400',
+};
+
+const shortTitle = (task: Task, length = 40) =>
+  task.title.length > length ? `${task.title.substring(0, length)}...` : task.title;
+
+// Compact "Blocked by N" / "Blocks N" badges for card and row headers
+export function DependencyBadges({ task, tasks }: { task: Task; tasks: Task[] }) {
+  const open = openBlockers(task, tasks);
+  const blocking = dependentsOf(task.id, tasks).filter(t => t.status !== 'completed');
+  if (open.length === 0 && blocking.length === 0) return null;
+
+  return (
+    <>
+      {open.length > 0 && task.status !== 'completed' && (
+        <span
+          className="text-[9px] px-1.5 py-0.5 bg-red-500/10 text-red-400/80"
+          title={`Blocked by: ${open.map(t => t.title).join(', ')}`}
+        >
+          ⛔ Blocked by {open.length}
+        </span>
+      )}
+      {blocking.length > 0 && (
+        <span
+          className="text-[9px] px-1.5 py-0.5 bg-zinc-800 text-zinc-500"
+          title={`Blocks: ${blocking.map(t => t.title).join(', ')}`}
+        >
+          Blocks {blocking.length}
+        </span>
+      )}
+    </>
+  );
+}
+
+interface DependencyPanelProps {
+  task: Task;
+  tasks: Task[];
+  onUpdateTask?: (taskId: string, updates: Partial<Task>) => void;
+  onOpenTask?: (taskId: string) => void;
+}
+
+// Blocked-by editor, upstream chain and reverse "blocks" list for an expanded task
+export function DependencyPanel({ task, tasks, onUpdateTask, onOpenTask }: DependencyPanelProps) {
+  const blockedBy = task.blockedBy ?? [];
+  const blockers = blockersOf(task, tasks);
+  const chain = dependencyChain(task, tasks);
+  const dependents = dependentsOf(task.id, tasks);
+
+  // Only offer tasks that wouldn't close a loop
+  const candidates = tasks.filter(t =>
+    t.id !== task.id &&
+    !blockedBy.includes(t.id) &&
+    !findDependencyCycle(task.id, [...blockedBy, t.id], tasks)
+  );
+
+  const setBlockers = (ids: string[]) => onUpdateTask?.(task.id, { blockedBy: ids });
+
+  const renderLink = (t: Task, onRemove?: () => void) => (
+    <div key={t.id} className="flex items-center gap-2 py-1 pl-2 border-l-2 border-zinc-800 mb-1 group/dep hover:border-zinc-600 transition-colors">
+      <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', STATUS_DOT[t.status])} title={t.status.replace('_', ' ')} />
+      <span
+        className={cn(
+          'text-[11px] flex-1',
+          t.status === 'completed' ? 'text-zinc-600 line-through' : 'text-zinc-400',
+          onOpenTask && 'cursor-pointer hover:text-zinc-300'
+        )}
+        onClick={() => onOpenTask?.(t.id)}
+      >
+        {shortTitle(t)}
+      </span>
+      {t.projectShortCode && <span className="text-[9px] font-mono text-amber-400/50">{t.projectShortCode}</span>}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="text-[10px] text-zinc-700 hover:text-red-400 opacity-0 group-hover/dep:opacity-100 transition-all"
+          title="Remove dependency"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">
+          Blocked by {blockers.length > 0 && <span className="text-zinc-500">({blockers.length})</span>}
+        </div>
+        {blockers.map(b => renderLink(b, onUpdateTask ? () => setBlockers(blockedBy.filter(id => id !== b.id)) : undefined))}
+        {onUpdateTask && candidates.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && setBlockers([...blockedBy, e.target.value])}
+            className="bg-zinc-800 border border-zinc-700 px-2 py-1 text-[10px] text-zinc-400 focus:outline-none max-w-full"
+          >
+            <option value="">+ Add blocker...</option>
+            {candidates.map(t => (
+              <option key={t.id} value={t.id}>
+                {t.projectShortCode ? `${t.projectShortCode} · ` : ''}{shortTitle(t, 60)}
+              </option>
+            ))}
+          </select>
+        )}
+        {!onUpdateTask && blockers.length === 0 && <p className="text-[10px] text-zinc-700">No blockers</p>}
+      </div>
+
+      {/* Transitive blockers, only when there's more than the direct ones */}
+      {chain.some(link => link.depth > 1) && (
+        <div>
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">Dependency chain</div>
+          {chain.map(link => (
+            <div key={link.task.id} className="flex items-center gap-1.5 py-0.5" style={{ paddingLeft: `${(link.depth - 1) * 12}px` }}>
+              <span className="text-[10px] text-zinc-700">↳</span>
+              <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', STATUS_DOT[link.task.status])} />
+              <span
+                className={cn('text-[10px] text-zinc-500', onOpenTask && 'cursor-pointer hover:text-zinc-300')}
+                onClick={() => onOpenTask?.(link.task.id)}
+              >
+                {shortTitle(link.task)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dependents.length > 0 && (
+        <div>
+          <div className="text-[9px] text-zinc-600 uppercase tracking-wider mb-1.5">
+            Blocks <span className="text-zinc-500">({dependents.length})</span>
+          </div>
+          {dependents.map(d => renderLink(d))}
+        </div>
+      )}
+    </div>
+  );
+}
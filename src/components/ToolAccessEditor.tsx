@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { ToolDefinition } from '../types';
+import { catalogTool, sortTools, toolRisk, unknownTools } from '../tool-catalog';
+
+interface ToolAccessEditorProps {
+  value: string[];
+  catalog: ToolDefinition[];
+  isSaving?: boolean;
+  withNote?: boolean;               // ask for a version note (default on)
+  onSave: (toolAccess: string[], note: string) => void;
+  onCancel: () => void;
+}
+
+// The catalog as checkboxes. Checking a high-risk tool asks first; granted
+// names the catalog doesn't know are listed apart with a warning and saved
+// as they are unless unchecked.
+export function ToolAccessEditor({ value, catalog, isSaving, withNote = true, onSave, onCancel }: ToolAccessEditorProps) {
+  const [selected, setSelected] = useState<string[]>(value);
+  const [confirming, setConfirming] = useState<ToolDefinition | null>(null);
+  const [note, setNote] = useState('');
+
+  const unknown = unknownTools(catalog, value);
+
+  const toggle = (id: string) => {
+    if (selected.includes(id)) {
+      setSelected(selected.filter(t => t !== id));
+      return;
+    }
+    const tool = catalogTool(catalog, id);
+    if (tool?.risk === 'high' && !value.includes(id)) setConfirming(tool);
+    else setSelected([...selected, id]);
+  };
+
+  const confirm = () => {
+    if (confirming) setSelected([...selected, confirming.id]);
+    setConfirming(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-zinc-900 border border-teal-500/30 rounded-lg divide-y divide-zinc-800">
+        {unknown.map(id => (
+          <label key={id} className="flex items-start gap-3 px-4 py-2.5 cursor-pointer bg-amber-500/5">
+            <input type="checkbox" checked={selected.includes(id)} onChange={() => toggle(id)} className="mt-0.5 accent-amber-500" />
+            <div className="flex-1 min-w-0">
+              <span className="text-sm font-mono text-amber-300">{id}</span>
+              <p className="text-xs text-amber-400/70 mt-0.5">Not in the tool catalog — kept as is. Check the name, or uncheck it to remove the grant.</p>
+            </div>
+          </label>
+        ))}
+        {catalog.map(tool => {
+          const risk = toolRisk(tool.risk);
+          return (
+            <div key={tool.id}>
+              <label className="flex items-start gap-3 px-4 py-2.5 cursor-pointer hover:bg-zinc-800/30 transition-colors">
+                <input type="checkbox" checked={selected.includes(tool.id)} onChange={() => toggle(tool.id)} className="mt-0.5 accent-teal-500" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-zinc-200">{tool.name}</span>
+                    <span className="text-[10px] font-mono text-zinc-600">{tool.id}</span>
+                    <span className={cn('text-[9px] px-1.5 py-0.5 rounded uppercase tracking-wider ml-auto', risk.className)}>{risk.label}</span>
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-0.5">{tool.description}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {tool.scopes.map(scope => (
+                      <span key={scope} className="text-[10px] font-mono px-1.5 rounded bg-zinc-800 text-zinc-500">{scope}</span>
+                    ))}
+                  </div>
+                </div>
+              </label>
+              {confirming?.id === tool.id && (
+                <div className="mx-4 mb-2.5 p-3 rounded-md border border-red-500/30 bg-red-500/10">
+                  <p className="text-xs text-red-300">
+                    {tool.name} is high risk: the agent will be able to act with <span className="font-mono">{tool.scopes.join(', ')}</span> without asking. Grant it?
+                  </p>
+                  <div className="flex items-center gap-2 justify-end mt-2">
+                    <button onClick={() => setConfirming(null)} className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1">Cancel</button>
+                    <button onClick={confirm} className="text-xs px-2.5 py-1 rounded-md bg-red-600 hover:bg-red-500 text-white transition-colors">
+                      Grant {tool.name}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2 justify-end">
+        {withNote && (
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note on this change (optional)"
+            className="flex-1 bg-zinc-900 text-zinc-300 text-xs px-3 py-1.5 rounded-md border border-zinc-800 focus:border-teal-500/30 outline-none"
+          />
+        )}
+        <button onClick={onCancel} className="text-xs text-zinc-500 hover:text-zinc-300 px-3 py-1.5 rounded-md transition-colors">Cancel</button>
+        <button
+          onClick={() => onSave(sortTools(catalog, selected), note)}
+          disabled={isSaving || confirming !== null}
+          className="text-xs px-3 py-1.5 rounded-md bg-teal-600 hover:bg-teal-500 text-white transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import type { Agent, ToolDefinition } from '../types';
+import { toolMatrix, toolRisk } from '../tool-catalog';
+
+interface ToolMatrixProps {
+  agents: Agent[];
+  catalog: ToolDefinition[];
+  onViewAgent?: (agentId: string) => void;
+}
+
+const riskDot = { low: 'bg-emerald-400', medium: 'bg-amber-400', high: 'bg-red-400' } as const;
+
+// Agents down, catalog tools across: who can use what. Tools granted by
+// name but missing from the catalog are counted in the last column.
+export function ToolMatrix({ agents, catalog, onViewAgent }: ToolMatrixProps) {
+  const { rows, holders } = useMemo(() => toolMatrix(catalog, agents), [catalog, agents]);
+  const hasUnknown = rows.some(r => r.unknown.length > 0);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-zinc-800">
+            <th className="text-left font-normal text-[10px] text-zinc-600 uppercase tracking-wider px-3 py-2 sticky left-0 bg-zinc-900">Agent</th>
+            {catalog.map(tool => (
+              <th
+                key={tool.id}
+                className="font-normal px-2 py-2 text-zinc-400 whitespace-nowrap"
+                title={`${tool.description} · ${toolRisk(tool.risk).label} · ${tool.scopes.join(', ')}`}
+              >
+                <div className="flex items-center justify-center gap-1">
+                  <span className={cn('w-1.5 h-1.5 rounded-full', riskDot[tool.risk])} />
+                  {tool.name}
+                </div>
+                <div className="text-[10px] text-zinc-600">{holders[tool.id]}</div>
+              </th>
+            ))}
+            {hasUnknown && <th className="font-normal px-2 py-2 text-red-400/80 whitespace-nowrap">Unknown</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-800/60">
+          {rows.map(({ agent, granted, unknown }) => (
+            <tr key={agent.id} className="hover:bg-zinc-800/30">
+              <td className="px-3 py-2 whitespace-nowrap sticky left-0 bg-zinc-900">
+                <button
+                  onClick={() => onViewAgent?.(agent.id)}
+                  disabled={!onViewAgent}
+                  className="flex items-center gap-2 text-zinc-200 hover:text-teal-400 transition-colors disabled:hover:text-zinc-200"
+                >
+                  <span>{agent.emoji}</span>{agent.name}
+                </button>
+              </td>
+              {catalog.map(tool => (
+                <td key={tool.id} className="text-center px-2 py-2">
+                  {granted.has(tool.id)
+                    ? <span className={cn('inline-block w-2.5 h-2.5 rounded-sm', riskDot[tool.risk])} title={`${agent.name} can use ${tool.name}`} />
+                    : <span className="text-zinc-700">·</span>}
+                </td>
+              ))}
+              {hasUnknown && (
+                <td className="text-center px-2 py-2 text-red-300 font-mono" title={unknown.join(', ')}>
+                  {unknown.length || ''}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
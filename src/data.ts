@@ -1,4 +1,5 @@
-import { Agent, Task, Message, KPI, ActivityItem, Project, Department } from './types';
+import { Agent, Task, Message, KPI, ActivityItem, Project, Department, ChatThread, Directive, ToolDefinition } from './types';
+import { kpiChange } from './kpis';
 
 export const initialDepartments: Department[] = [
   { id: 'dept-exec', name: 'Executive Office' },
@@ -191,6 +192,7 @@ export const initialTasks: Task[] = [
     deadline: '2026-02-15',
     createdAt: '2026-02-11T09:00:00',
     tags: ['revenue', 'strategy'],
+    directiveId: 'd-pricing',
   },
   {
     id: 't6',
@@ -202,6 +204,7 @@ export const initialTasks: Task[] = [
     status: 'working' as any,
     createdAt: '2026-02-13T11:00:00',
     tags: ['content', 'optimization'],
+    directiveId: 'd-open-rate',
     projectId: 'p-inl',
     projectName: 'inSight Letters',
     projectShortCode: 'INL',
@@ -222,15 +225,24 @@ export const initialTasks: Task[] = [
   },
 ];
 
+// Six monthly readings, Sep 2025 → Feb 2026; the last one is the current value
+function kpi(id: string, label: string, value: string, category: string, readings: number[]): KPI {
+  const history = readings.map((reading, i) => ({
+    value: reading,
+    recordedAt: new Date(Date.UTC(2025, 8 + i, 14, 8)).toISOString(),
+  }));
+  return { id, label, value, numericValue: readings[readings.length - 1], ...kpiChange(history), category, history };
+}
+
 export const initialKPIs: KPI[] = [
-  { id: 'k1', label: 'Monthly Revenue', value: '$4,280', change: 12.5, trend: 'up', category: 'revenue' },
-  { id: 'k2', label: 'Active Community Members', value: '342', change: 8.3, trend: 'up', category: 'community' },
-  { id: 'k3', label: 'Newsletter Open Rate', value: '47.2%', change: -2.1, trend: 'down', category: 'content' },
-  { id: 'k4', label: 'Consultations Booked', value: '8', change: 33.3, trend: 'up', category: 'revenue' },
-  { id: 'k5', label: 'Blog Posts Published', value: '12', change: 20.0, trend: 'up', category: 'content' },
-  { id: 'k6', label: 'Meditation Downloads', value: '1,847', change: 15.7, trend: 'up', category: 'content' },
-  { id: 'k7', label: 'Funnel Conversion', value: '3.2%', change: 0.4, trend: 'up', category: 'revenue' },
-  { id: 'k8', label: 'Broadcast Attendance', value: '67', change: -5.0, trend: 'down', category: 'community' },
+  kpi('k1', 'Monthly Revenue', '$4,280', 'revenue', [2950, 3120, 3410, 3560, 3805, 4280]),
+  kpi('k2', 'Active Community Members', '342', 'community', [248, 266, 281, 297, 316, 342]),
+  kpi('k3', 'Newsletter Open Rate', '47.2%', 'content', [44.8, 45.9, 47.6, 48.3, 48.2, 47.2]),
+  kpi('k4', 'Consultations Booked', '8', 'revenue', [3, 4, 4, 5, 6, 8]),
+  kpi('k5', 'Blog Posts Published', '12', 'content', [6, 7, 9, 8, 10, 12]),
+  kpi('k6', 'Meditation Downloads', '1,847', 'content', [980, 1105, 1290, 1410, 1597, 1847]),
+  kpi('k7', 'Funnel Conversion', '3.2%', 'revenue', [2.4, 2.6, 2.7, 2.9, 3.1, 3.2]),
+  kpi('k8', 'Broadcast Attendance', '67', 'community', [52, 58, 61, 66, 71, 67]),
 ];
 
 export const initialActivity: ActivityItem[] = [
@@ -252,6 +264,8 @@ export const initialMessages: Message[] = [
     content: "Good morning, Tiger. I've reviewed overnight metrics. Revenue is trending 12.5% up this month — the meditation content is driving it. I have 3 items that need your personal touch today. I've prioritized them in your task board.",
     timestamp: '8:00 AM',
     type: 'directive',
+    threadId: 'thread-pricing',
+    directiveId: 'd-brief',
   },
   {
     id: 'm2',
@@ -260,6 +274,7 @@ export const initialMessages: Message[] = [
     content: "Morning. What's the most important thing today?",
     timestamp: '8:15 AM',
     type: 'message',
+    threadId: 'thread-pricing',
   },
   {
     id: 'm3',
@@ -268,6 +283,8 @@ export const initialMessages: Message[] = [
     content: "The pricing strategy proposal from Meridian. It's been sitting in review for 3 days and it's blocking our Q1 revenue targets. Meridian's analysis shows we're leaving ~$2,400/month on the table with the current single-tier approach. I need your decision on this today — your authentic voice is what makes the pricing feel right, not just the numbers. I can't sign off on this one without you.",
     timestamp: '8:16 AM',
     type: 'directive',
+    threadId: 'thread-pricing',
+    directiveId: 'd-pricing',
   },
   {
     id: 'm4',
@@ -276,6 +293,7 @@ export const initialMessages: Message[] = [
     content: "Fair enough. What does Meridian recommend?",
     timestamp: '8:20 AM',
     type: 'message',
+    threadId: 'thread-pricing',
   },
   {
     id: 'm5',
@@ -284,6 +302,65 @@ export const initialMessages: Message[] = [
     content: "Three tiers: Free (current e-book + meditations), Heart ($27/mo for community + live broadcasts + solopreneur content), and Deep Work ($97/mo for 1:1 consultations + personalized guidance). The data supports it — 34% of free members show signals they'd convert to Heart tier. I've asked Meridian to prep a full breakdown. Want me to pull that into the chat?",
     timestamp: '8:21 AM',
     type: 'report',
+    threadId: 'thread-pricing',
+  },
+];
+
+export const initialThreads: ChatThread[] = [
+  {
+    id: 'thread-pricing',
+    title: 'Morning priorities: pricing tiers',
+    archived: false,
+    createdAt: '2026-02-14T08:00:00.000Z',
+    updatedAt: '2026-02-14T08:21:00.000Z',
+  },
+];
+
+export const initialDirectives: Directive[] = [
+  {
+    id: 'd-pricing',
+    title: 'Get the tiered pricing proposal signed off',
+    type: 'priority',
+    content: 'Pricing comes before everything else this week.\n\n- Finish the **Free / Heart / Deep Work** breakdown\n- Put it in front of Tiger for sign-off\n- Hold new funnel experiments until it ships',
+    targetAgentId: 'revenue-agent',
+    priority: 'critical',
+    status: 'acknowledged',
+    acknowledgedBy: 'revenue-agent',
+    acknowledgedAt: '2026-02-11T08:40:00',
+    createdAt: '2026-02-11T08:30:00',
+  },
+  {
+    id: 'd-open-rate',
+    title: 'Lift newsletter open rates',
+    type: 'instruction',
+    content: 'Open rates dipped 2.1%. A/B test subject lines and send times on the Monday inSight Letter for the next three issues and report back.',
+    targetAgentId: 'content-agent',
+    priority: 'medium',
+    status: 'in_progress',
+    acknowledgedBy: 'content-agent',
+    acknowledgedAt: '2026-02-13T10:45:00',
+    createdAt: '2026-02-13T10:30:00',
+  },
+  {
+    id: 'd-brief',
+    title: 'Morning brief at 8:00',
+    type: 'policy',
+    content: 'Every morning at 8:00, summarize overnight metrics and the **three** items that need Tiger personally. Everything else goes to the task board.',
+    priority: 'high',
+    status: 'completed',
+    acknowledgedBy: 'cea',
+    acknowledgedAt: '2026-02-10T07:05:00',
+    createdAt: '2026-02-10T07:00:00',
+  },
+  {
+    id: 'd-welcome',
+    title: 'Personal welcome for new Deep Divers',
+    type: 'request',
+    content: 'Draft a short personal welcome note Tiger can send to each new Deep Divers\' Group member.',
+    targetAgentId: 'community-agent',
+    priority: 'low',
+    status: 'pending',
+    createdAt: '2026-02-14T07:30:00',
   },
 ];
 
@@ -298,6 +375,18 @@ export const ceaResponses: string[] = [
   "I hear you. Adjusting priorities now. I'll have the agents realign by end of day. {topic}.",
 ];
 
+// Answer to "what should I focus on?", with its proposals as cea-action cards
+export const ceaFocusReply = [
+  "**Three things, in order of impact:**\n\n1. **Sign off on the pricing strategy** — it's been blocking revenue growth for 3 days.\n2. **Review the Editor in Chief's blog drafts** so we can maintain content momentum.\n3. **Prep for the next consultation.**\n\nI've cleared everything else from your plate. Want these on your task list?",
+  '```cea-action',
+  JSON.stringify([
+    { type: 'create_task', title: 'Sign off on the pricing strategy', priority: 'critical', assignee: 'tiger' },
+    { type: 'create_task', title: "Review the Editor in Chief's blog drafts", priority: 'high', assignee: 'tiger' },
+    { type: 'create_task', title: 'Prep for the next consultation', priority: 'medium', assignee: 'tiger' },
+  ], null, 2),
+  '```',
+].join('\n');
+
 export const spawnableAgents = [
   { name: 'Research Agent', emoji: '🔍', role: 'Deep research and competitive analysis', description: 'Conducts market research, competitor analysis, and trend identification for strategic decisions.' },
   { name: 'Social Agent', emoji: '📱', role: 'Social media management', description: 'Manages social media presence, schedules posts, engages with followers, and tracks social metrics.' },
@@ -306,3 +395,18 @@ export const spawnableAgents = [
   { name: 'Product Agent', emoji: '🎯', role: 'Product development and launches', description: 'Manages product roadmap, coordinates launches, gathers feedback, and iterates on offerings.' },
   { name: 'Support Agent', emoji: '💬', role: 'Customer support and FAQ', description: 'Handles community questions, manages FAQ content, and escalates complex issues to Tiger.' },
 ];
+
+export const initialTools: ToolDefinition[] = [
+  { id: 'web_search', name: 'Web Search', description: 'Search the web and read public pages', risk: 'low', scopes: ['web:read'] },
+  { id: 'analytics', name: 'Analytics', description: 'Read site, audience and revenue dashboards', risk: 'low', scopes: ['analytics:read'] },
+  { id: 'notion', name: 'Notion', description: 'Read and edit workspace pages and databases', risk: 'medium', scopes: ['docs:read', 'docs:write'] },
+  { id: 'todoist', name: 'Todoist', description: "Read and manage Tiger's personal tasks", risk: 'medium', scopes: ['tasks:read', 'tasks:write'] },
+  { id: 'google_calendar', name: 'Google Calendar', description: 'See availability and schedule events', risk: 'medium', scopes: ['calendar:read', 'calendar:write'] },
+  { id: 'slack', name: 'Slack', description: 'Read channels and post messages', risk: 'medium', scopes: ['chat:read', 'chat:write'] },
+  { id: 'youtube', name: 'YouTube', description: 'Read channel stats and upload or edit videos', risk: 'medium', scopes: ['video:read', 'video:write'] },
+  { id: 'social_publish', name: 'Social Publishing', description: 'Schedule and publish posts to social accounts', risk: 'high', scopes: ['social:publish'] },
+  { id: 'gmail', name: 'Gmail', description: 'Read the inbox and send email as HeartBased.io', risk: 'high', scopes: ['mail:read', 'mail:send'] },
+  { id: 'github', name: 'GitHub', description: 'Read repositories, push commits and open pull requests', risk: 'high', scopes: ['repo:read', 'repo:write'] },
+  { id: 'supabase', name: 'Supabase', description: 'Query and write the production database directly', risk: 'high', scopes: ['db:read', 'db:write'] },
+  { id: 'stripe', name: 'Stripe', description: 'See payments and issue refunds or coupons', risk: 'high', scopes: ['payments:read', 'payments:write'] },
+];
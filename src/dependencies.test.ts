@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { blockersOf, dependencyChain, dependentsOf, findDependencyCycle, openBlockers } from './dependencies';
+import { task } from './test/factories';
+
+describe('findDependencyCycle', () => {
+  const tasks = [
+    task({ id: 'a' }),
+    task({ id: 'b', blockedBy: ['a'] }),
+    task({ id: 'c', blockedBy: ['b'] }),
+  ];
+
+  it('catches a task blocking itself', () => {
+    expect(findDependencyCycle('a', ['a'], tasks)).toEqual(['a', 'a']);
+  });
+
+  it('returns the loop through indirect blockers', () => {
+    expect(findDependencyCycle('a', ['c'], tasks)).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('allows chains and diamonds that don’t loop back', () => {
+    expect(findDependencyCycle('c', ['a', 'b'], tasks)).toBeNull();
+    expect(findDependencyCycle('d', ['b', 'c'], tasks)).toBeNull();
+  });
+
+  it('ignores blockers that no longer exist', () => {
+    expect(findDependencyCycle('a', ['deleted'], tasks)).toBeNull();
+  });
+});
+
+describe('openBlockers', () => {
+  it('leaves out completed and deleted blockers', () => {
+    const tasks = [
+      task({ id: 'done', status: 'completed' }),
+      task({ id: 'open', status: 'review' }),
+      task({ id: 't', blockedBy: ['done', 'open', 'deleted'] }),
+    ];
+    expect(blockersOf(tasks[2], tasks).map(t => t.id)).toEqual(['done', 'open']);
+    expect(openBlockers(tasks[2], tasks).map(t => t.id)).toEqual(['open']);
+    expect(dependentsOf('open', tasks).map(t => t.id)).toEqual(['t']);
+  });
+});
+
+describe('dependencyChain', () => {
+  it('walks open blockers nearest first and survives an existing cycle', () => {
+    const tasks = [
+      task({ id: 'a', blockedBy: ['c'] }),
+      task({ id: 'b', blockedBy: ['a'] }),
+      task({ id: 'c', blockedBy: ['b'] }),
+    ];
+    expect(dependencyChain(tasks[2], tasks).map(l => [l.task.id, l.depth])).toEqual([['b', 1], ['a', 2]]);
+  });
+});
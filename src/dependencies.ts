@@ -0,0 +1,72 @@
+import { Task } from './types';
+
+// Blocks / blocked-by relationships between tasks. A task lists the ids of the
+// tasks it waits on in `blockedBy`; the reverse ("blocks") is derived here.
+// Ids that no longer resolve (deleted tasks) are ignored everywhere.
+
+export interface ChainLink {
+  task: Task;
+  depth: number;   // 1 = direct blocker, 2 = blocker of a blocker, …
+}
+
+// Tasks this task waits on
+export function blockersOf(task: Task, tasks: Task[]): Task[] {
+  const ids = task.blockedBy ?? [];
+  return tasks.filter(t => ids.includes(t.id));
+}
+
+// Blockers that still stop the task from being completed
+export function openBlockers(task: Task, tasks: Task[]): Task[] {
+  return blockersOf(task, tasks).filter(t => t.status !== 'completed');
+}
+
+// Tasks waiting on this one
+export function dependentsOf(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter(t => t.blockedBy?.includes(taskId));
+}
+
+// Every open task upstream of this one, nearest first. Tolerates cycles that
+// slipped in from elsewhere by visiting each task once.
+export function dependencyChain(task: Task, tasks: Task[]): ChainLink[] {
+  const chain: ChainLink[] = [];
+  const seen = new Set([task.id]);
+  let frontier = [task];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: Task[] = [];
+    for (const current of frontier) {
+      for (const blocker of openBlockers(current, tasks)) {
+        if (seen.has(blocker.id)) continue;
+        seen.add(blocker.id);
+        chain.push({ task: blocker, depth });
+        next.push(blocker);
+      }
+    }
+    frontier = next;
+  }
+  return chain;
+}
+
+// Would giving `taskId` these blockers close a loop? Returns the loop as ids,
+// starting and ending with `taskId`, or null when the graph stays acyclic.
+export function findDependencyCycle(taskId: string, blockedBy: string[], tasks: Task[]): string[] | null {
+  const edges = new Map(tasks.map(t => [t.id, t.blockedBy ?? []]));
+  edges.set(taskId, blockedBy);
+
+  const visited = new Set<string>();
+  const walk = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of edges.get(id) ?? []) {
+      const cycle = walk(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const blocker of blockedBy) {
+    const cycle = walk(blocker, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import type { Agent, Directive, Task } from './types';
+
+// Directives are standing or one-off instructions for one agent (or all of
+// them). The history lives at `#/directives/<id>`, filtered by the `status`,
+// `agent` and `type` query params; `agent=all` means "issued to all agents".
+// An agent acknowledges a directive and creates tasks carrying its id.
+
+export const DIRECTIVE_TYPES: { id: string; label: string; icon: string; hint: string }[] = [
+  { id: 'instruction', label: 'Instruction', icon: '➤', hint: 'A piece of work to carry out' },
+  { id: 'priority', label: 'Priority', icon: '▲', hint: 'Changes what comes first' },
+  { id: 'policy', label: 'Policy', icon: '◆', hint: 'A standing rule until withdrawn' },
+  { id: 'request', label: 'Request', icon: '?', hint: 'Information or a draft to bring back' },
+];
+
+// Unknown types from the server still get a label
+export function directiveType(id: string) {
+  return DIRECTIVE_TYPES.find(t => t.id === id) ?? { id, label: id, icon: '·', hint: '' };
+}
+
+export interface DirectiveFilters {
+  status?: string;
+  agent?: string;
+  type?: string;
+}
+
+// Newest first
+export function filterDirectives(directives: Directive[], filters: DirectiveFilters): Directive[] {
+  return directives
+    .filter(d => !filters.status || d.status === filters.status)
+    .filter(d => !filters.agent || (filters.agent === 'all' ? !d.targetAgentId : d.targetAgentId === filters.agent))
+    .filter(d => !filters.type || d.type === filters.type)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export const directiveTasks = (directive: Directive, tasks: Task[]) => tasks.filter(t => t.directiveId === directive.id);
+
+// "📈 Meridian" / "All agents"
+export function describeTarget(agentId: string | undefined, agents: Agent[]): string {
+  if (!agentId) return 'All agents';
+  const agent = agents.find(a => a.id === agentId);
+  return agent ? `${agent.emoji} ${agent.name}` : 'Unknown agent';
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { compareDue, dueState, dueTime, formatDue, toDateInput } from './due-dates';
+import { task } from './test/factories';
+
+// Local noon, so date-only deadlines land the same way in any timezone
+const NOW = new Date(2026, 9, 18, 12).getTime();
+const hours = (h: number) => new Date(NOW + h * 3_600_000).toISOString();
+
+describe('dueTime', () => {
+  it('reads plain dates as the end of that day, local time', () => {
+    expect(dueTime('2026-10-18')).toBe(new Date(2026, 9, 18, 23, 59, 59, 999).getTime());
+    expect(dueTime('not a date')).toBeNull();
+  });
+});
+
+describe('dueState', () => {
+  it('flags overdue and due-soon open tasks', () => {
+    expect(dueState(task({ deadline: hours(-1) }), NOW)).toBe('overdue');
+    expect(dueState(task({ deadline: hours(2) }), NOW)).toBe('due-soon');
+    expect(dueState(task({ deadline: hours(24) }), NOW)).toBe('due-soon');
+    expect(dueState(task({ deadline: hours(25) }), NOW)).toBe('upcoming');
+  });
+
+  it('counts a plain date as due until the day is over', () => {
+    expect(dueState(task({ deadline: '2026-10-18' }), NOW)).toBe('due-soon');
+    expect(dueState(task({ deadline: '2026-10-17' }), NOW)).toBe('overdue');
+  });
+
+  it('has no state for completed, undated or unreadable tasks', () => {
+    expect(dueState(task({ deadline: hours(-1), status: 'completed' }), NOW)).toBeNull();
+    expect(dueState(task(), NOW)).toBeNull();
+    expect(dueState(task({ deadline: 'soon' }), NOW)).toBeNull();
+  });
+});
+
+describe('formatDue', () => {
+  it('counts days by calendar day', () => {
+    expect(formatDue('2026-10-16', NOW)).toBe('Overdue 2d');
+    expect(formatDue(hours(-1), NOW)).toBe('Overdue');
+    expect(formatDue('2026-10-18', NOW)).toBe('Due today');
+    expect(formatDue('2026-10-19', NOW)).toBe('Due tomorrow');
+    expect(formatDue('2026-10-21', NOW)).toBe('Due in 3d');
+    expect(formatDue('soon', NOW)).toBe('Due soon');
+  });
+});
+
+describe('toDateInput', () => {
+  it('gives the local date of a timestamp', () => {
+    expect(toDateInput(new Date(2026, 9, 18, 23, 30).toISOString())).toBe('2026-10-18');
+    expect(toDateInput('2026-10-18')).toBe('2026-10-18');
+    expect(toDateInput(undefined)).toBe('');
+  });
+});
+
+describe('compareDue', () => {
+  it('sorts earliest first with undated and unreadable deadlines last', () => {
+    const tasks = [
+      task({ id: 'none' }),
+      task({ id: 'late', deadline: '2026-10-20' }),
+      task({ id: 'bad', deadline: 'someday' }),
+      task({ id: 'early', deadline: hours(1) }),
+      task({ id: 'none-2' }),
+    ];
+    expect([...tasks].sort(compareDue).map(t => t.id)).toEqual(['early', 'late', 'none', 'bad', 'none-2']);
+    expect(compareDue(task(), task())).toBe(0);
+  });
+});
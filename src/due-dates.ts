@@ -0,0 +1,63 @@
+import { Task } from './types';
+
+// Due-date helpers. `deadline` is either a plain date (YYYY-MM-DD, due by the
+// end of that day in local time) or a full ISO timestamp.
+
+export type DueState = 'overdue' | 'due-soon' | 'upcoming';
+
+// Open tasks due within this window are flagged as due soon
+export const DUE_SOON_MS = 24 * 60 * 60_000;
+
+const DAY_MS = 24 * 60 * 60_000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Moment the deadline passes, or null when it can't be parsed
+export function dueTime(deadline: string): number | null {
+  if (DATE_ONLY.test(deadline)) {
+    const [y, m, d] = deadline.split('-').map(Number);
+    return new Date(y, m - 1, d, 23, 59, 59, 999).getTime();
+  }
+  const time = new Date(deadline).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+// Completed tasks and tasks without a deadline have no due state
+export function dueState(task: Task, now = Date.now()): DueState | null {
+  if (!task.deadline || task.status === 'completed') return null;
+  const due = dueTime(task.deadline);
+  if (due === null) return null;
+  if (due < now) return 'overdue';
+  if (due - now <= DUE_SOON_MS) return 'due-soon';
+  return 'upcoming';
+}
+
+const startOfDay = (time: number) => new Date(time).setHours(0, 0, 0, 0);
+
+// "Overdue 2d" / "Due today" / "Due tomorrow" / "Due in 3d" / "Due Mar 4"
+export function formatDue(deadline: string, now = Date.now()): string {
+  const due = dueTime(deadline);
+  if (due === null) return `Due ${deadline}`;
+  const days = Math.round((startOfDay(due) - startOfDay(now)) / DAY_MS);
+  if (due < now) return days < 0 ? `Overdue ${-days}d` : 'Overdue';
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days < 7) return `Due in ${days}d`;
+  return `Due ${new Date(due).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+}
+
+// Value for <input type="date">
+export function toDateInput(deadline?: string): string {
+  if (!deadline) return '';
+  if (DATE_ONLY.test(deadline)) return deadline;
+  const due = dueTime(deadline);
+  if (due === null) return '';
+  const d = new Date(due);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Earliest deadline first; tasks without one sort last
+export function compareDue(a: Task, b: Task): number {
+  const da = a.deadline ? dueTime(a.deadline) ?? Infinity : Infinity;
+  const db = b.deadline ? dueTime(b.deadline) ?? Infinity : Infinity;
+  return da === db ? 0 : da - db;   // Infinity - Infinity is NaN
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { goalTasks, rollupChanged, rollupGoal } from './goals';
+import { goal, task } from './test/factories';
+import type { GoalInitiative, Task } from './types';
+
+const initiative = (overrides: Partial<GoalInitiative> = {}): GoalInitiative => ({
+  id: 'init-1', name: 'Launch', status: 'planned', due: '', taskIds: [], ...overrides,
+});
+
+// Four tasks created on Oct 1, `done` of them completed
+const tasks = (done: number): Task[] => Array.from({ length: 4 }, (_, n) => task({
+  id: `t${n}`,
+  status: n < done ? 'completed' : 'pending',
+  createdAt: new Date(2026, 9, 1).toISOString(),
+}));
+
+describe('goalTasks', () => {
+  it('counts a task once when it is linked directly and through its project', () => {
+    const all = [task({ id: 'a', projectId: 'p' }), task({ id: 'b', projectId: 'p' }), task({ id: 'c' }), task({ id: 'd' })];
+    const g = goal({ initiatives: [initiative({ projectId: 'p' }), initiative({ id: 'init-2', taskIds: ['a', 'c'] })] });
+    expect(goalTasks(g, all).map(t => t.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('rollupGoal', () => {
+  // Not quite halfway from Oct 1 to the end of Oct 31
+  const now = new Date(2026, 9, 15, 12).getTime();
+  const linked = goal({ targetDate: '2026-10-31', initiatives: [initiative({ taskIds: ['t0', 't1', 't2', 't3'] })] });
+
+  it('rates progress against the time gone by since the first linked task', () => {
+    expect(rollupGoal(linked, tasks(2), now)).toMatchObject({ progress: 50, status: 'on-track' });
+    expect(rollupGoal(linked, tasks(3), now)).toMatchObject({ progress: 75, status: 'ahead' });
+    expect(rollupGoal(linked, tasks(1), now)).toMatchObject({ progress: 25, status: 'at-risk' });
+    expect(rollupGoal(linked, tasks(0), now)).toMatchObject({ progress: 0, status: 'behind' });
+  });
+
+  it('is behind once the target date passes and on track without one', () => {
+    expect(rollupGoal(linked, tasks(3), new Date(2026, 10, 1).getTime()).status).toBe('behind');
+    expect(rollupGoal(goal({ initiatives: linked.initiatives }), tasks(0), now).status).toBe('on-track');
+    expect(rollupGoal(linked, tasks(4), new Date(2026, 10, 1).getTime()).status).toBe('ahead');
+  });
+
+  it('rolls initiative status up from its tasks', () => {
+    const g = goal({
+      initiatives: [
+        initiative({ id: 'done', taskIds: ['a'] }),
+        initiative({ id: 'review', taskIds: ['a', 'b'] }),
+        initiative({ id: 'started', taskIds: ['a', 'c'] }),
+        initiative({ id: 'planned', taskIds: ['c'] }),
+        initiative({ id: 'manual', status: 'in-progress' }),
+      ],
+    });
+    const all = [task({ id: 'a', status: 'completed' }), task({ id: 'b', status: 'review' }), task({ id: 'c' })];
+    expect(rollupGoal(g, all, now).initiatives.map(i => [i.id, i.status])).toEqual([
+      ['done', 'completed'], ['review', 'review'], ['started', 'in-progress'], ['planned', 'planned'], ['manual', 'in-progress'],
+    ]);
+  });
+
+  it('leaves goals without linked tasks as entered', () => {
+    const manual = goal({ progress: 40, status: 'at-risk', initiatives: [initiative()] });
+    expect(rollupGoal(manual, tasks(4), now)).toBe(manual);
+  });
+});
+
+describe('rollupChanged', () => {
+  it('notices progress, status and initiative changes', () => {
+    const stored = goal({ progress: 50, initiatives: [initiative({ taskIds: ['t0', 't1', 't2', 't3'] })] });
+    expect(rollupChanged(stored, rollupGoal(stored, tasks(2)))).toBe(true);
+    const rolled = rollupGoal(stored, tasks(2));
+    expect(rollupChanged(rolled, rollupGoal(rolled, tasks(2)))).toBe(false);
+  });
+});
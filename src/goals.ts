@@ -0,0 +1,110 @@
+import type { Goal, GoalInitiative, Task } from './types';
+import type { Initiative } from './schemas';
+import { dueTime } from './due-dates';
+import { quarterStart } from './okrs';
+
+// Goals are broken into initiatives, each linked to a project (all of its
+// tasks count) and/or individual tasks. With `autoProgress` on, the goal's
+// progress is the share of linked tasks completed and its status compares
+// that with how much of the time to the target date has gone by.
+
+export const INITIATIVE_STATUSES = [
+  { id: 'planned', label: 'Planned', dot: 'bg-zinc-600' },
+  { id: 'in-progress', label: 'In progress', dot: 'bg-blue-400' },
+  { id: 'review', label: 'Review', dot: 'bg-amber-400' },
+  { id: 'completed', label: 'Completed', dot: 'bg-emerald-400' },
+];
+
+// Older rows use 'active'; anything unknown still gets a dot
+export function initiativeStatus(id: string) {
+  if (id === 'active') return INITIATIVE_STATUSES[1];
+  return INITIATIVE_STATUSES.find(s => s.id === id) ?? { id, label: id, dot: 'bg-zinc-600' };
+}
+
+export const newInitiative = (name: string): GoalInitiative => ({
+  id: `init-${Date.now().toString(36)}`,
+  name,
+  status: 'planned',
+  due: '',
+  taskIds: [],
+});
+
+// Model → the `initiatives` jsonb the server stores
+export const initiativeRow = (i: GoalInitiative): Initiative => ({
+  id: i.id,
+  name: i.name,
+  status: i.status,
+  due: i.due,
+  project_id: i.projectId ?? null,
+  task_ids: i.taskIds,
+});
+
+export function initiativeTasks(initiative: GoalInitiative, tasks: Task[]): Task[] {
+  return tasks.filter(t =>
+    initiative.taskIds.includes(t.id) || (!!initiative.projectId && t.projectId === initiative.projectId)
+  );
+}
+
+// Each task once, even when two initiatives share it
+export function goalTasks(goal: Goal, tasks: Task[]): Task[] {
+  const ids = new Set(goal.initiatives.flatMap(i => initiativeTasks(i, tasks).map(t => t.id)));
+  return tasks.filter(t => ids.has(t.id));
+}
+
+const percentDone = (tasks: Task[]) =>
+  tasks.length ? Math.round((tasks.filter(t => t.status === 'completed').length / tasks.length) * 100) : 0;
+
+function rolledUpInitiativeStatus(initiative: GoalInitiative, tasks: Task[]): string {
+  const linked = initiativeTasks(initiative, tasks);
+  if (!linked.length) return initiative.status;
+  if (linked.every(t => t.status === 'completed')) return 'completed';
+  if (linked.some(t => t.status === 'review')) return 'review';
+  if (linked.some(t => t.status !== 'pending')) return 'in-progress';
+  return 'planned';
+}
+
+// Progress against the time elapsed between the quarter start (or the first
+// linked task) and the target date. Without a target date there is nothing
+// to be behind on.
+function rolledUpStatus(goal: Goal, linked: Task[], progress: number, now: number): Goal['status'] {
+  if (progress >= 100) return 'ahead';
+  const target = goal.targetDate ? dueTime(goal.targetDate) : null;
+  if (target === null) return 'on-track';
+  if (target < now) return 'behind';
+
+  const firstTask = Math.min(...linked.map(t => new Date(t.createdAt).getTime()).filter(t => !Number.isNaN(t)));
+  const start = quarterStart(goal.quarter) ?? (Number.isFinite(firstTask) ? firstTask : null);
+  if (start === null || start >= target) return 'on-track';
+
+  const expected = Math.min(100, Math.max(0, ((now - start) / (target - start)) * 100));
+  const lead = progress - expected;
+  if (lead >= 15) return 'ahead';
+  if (lead >= -10) return 'on-track';
+  if (lead >= -25) return 'at-risk';
+  return 'behind';
+}
+
+// The goal as it should read with autoProgress on; goals without linked
+// tasks keep what was entered by hand
+export function rollupGoal(goal: Goal, tasks: Task[], now = Date.now()): Goal {
+  const linked = goalTasks(goal, tasks);
+  if (!linked.length) return goal;
+  const progress = percentDone(linked);
+  return {
+    ...goal,
+    progress,
+    status: rolledUpStatus(goal, linked, progress, now),
+    initiatives: goal.initiatives.map(i => ({ ...i, status: rolledUpInitiativeStatus(i, tasks) })),
+  };
+}
+
+// Whether a rolled-up goal differs from what's stored
+export const rollupChanged = (stored: Goal, rolled: Goal) =>
+  stored.progress !== rolled.progress
+  || stored.status !== rolled.status
+  || stored.initiatives.some((i, n) => i.status !== rolled.initiatives[n]?.status);
+
+// "3/5 done"
+export function taskProgressLabel(tasks: Task[]): string {
+  return `${tasks.filter(t => t.status === 'completed').length}/${tasks.length} done`;
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as api from '../api';
+import { mapActivity } from '../mappers';
+import type { ActivityItem, Agent } from '../types';
+import { ACTIVITY_PAGE_SIZE, agentHandles, isAgentActivity } from '../agent-activity';
+
+interface ActivityPages {
+  agentId: string;
+  items: ActivityItem[];
+  cursor?: string;             // created_at of the oldest row fetched
+  hasMore: boolean;
+  error: boolean;
+}
+
+// One agent's activity: what is already in the live feed (`live`, including
+// entries added this session) plus pages of older entries fetched while
+// `enabled` — the first when the agent is opened, the next on loadMore().
+export function useAgentActivity(agent: Agent | null, live: ActivityItem[], { enabled }: { enabled: boolean }) {
+  const [pages, setPages] = useState<ActivityPages | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const agentId = agent?.id ?? null;
+  const handlesKey = agent ? agentHandles(agent).join('\n') : '';
+
+  const fetchPage = useCallback(async (before?: string) => {
+    const handles = handlesKey.split('\n');
+    const rows = await api.fetchActivity(ACTIVITY_PAGE_SIZE, { agent: handles, before });
+    // Older servers ignore `agent` and send everyone's entries
+    return {
+      items: rows.map(mapActivity).filter(a => handles.includes(a.agent)),
+      cursor: rows[rows.length - 1]?.created_at ?? before,
+      hasMore: rows.length === ACTIVITY_PAGE_SIZE,
+    };
+  }, [handlesKey]);
+
+  useEffect(() => {
+    if (!enabled || !agentId) return;
+    let cancelled = false;
+    fetchPage()
+      .then(page => {
+        if (!cancelled) setPages({ agentId, ...page, error: false });
+      })
+      .catch(e => {
+        console.error('Agent activity error:', e);
+        if (!cancelled) setPages({ agentId, items: [], hasMore: false, error: true });
+      });
+    return () => { cancelled = true; };
+  }, [enabled, agentId, fetchPage]);
+
+  const current = pages && pages.agentId === agentId ? pages : null;
+
+  const loadMore = useCallback(async () => {
+    if (!current?.hasMore || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(current.cursor);
+      setPages(prev => prev && prev.agentId === current.agentId
+        ? { ...prev, ...page, items: [...prev.items, ...page.items] }
+        : prev);
+    } catch (e) {
+      console.error('Agent activity error:', e);
+      setPages(prev => prev && { ...prev, error: true });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [current, loadingMore, fetchPage]);
+
+  return {
+    items: [...(agent ? live.filter(a => isAgentActivity(a, agent)) : []), ...(current?.items ?? [])],
+    loading: enabled && !!agentId && !current,
+    loadingMore,
+    hasMore: current?.hasMore ?? false,
+    error: current?.error ?? false,
+    loadMore,
+  };
+}
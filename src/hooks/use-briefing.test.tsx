@@ -0,0 +1,58 @@
+// @vitest-environment happy-dom
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useBriefing } from './use-briefing';
+
+const state = { tasks: [], kpis: [], goals: [], projects: [], agents: [] };
+
+describe('useBriefing', () => {
+  let root: Root;
+  let result: ReturnType<typeof useBriefing>;
+
+  function Probe({ canAsk }: { canAsk: boolean }) {
+    result = useBriefing(state, { ready: true, canAsk });
+    return null;
+  }
+
+  const render = (canAsk = false) => act(async () => root.render(<Probe canAsk={canAsk} />));
+
+  beforeEach(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    vi.setSystemTime(new Date(2026, 9, 18, 8, 0));
+    localStorage.clear();
+    root = createRoot(document.createElement('div'));
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    vi.useRealTimers();
+  });
+
+  it('moves on to a new briefing when the day turns over', async () => {
+    await render();
+    expect(result.briefing?.date).toBe('2026-10-18');
+
+    vi.setSystemTime(new Date(2026, 9, 19, 7, 0));
+    await act(async () => vi.advanceTimersByTime(60_000));
+
+    expect(result.briefing?.date).toBe('2026-10-19');
+    expect(result.archive.map(b => b.date)).toEqual(['2026-10-18']);
+  });
+
+  it('checks the day again when the tab becomes visible', async () => {
+    await render();
+    vi.setSystemTime(new Date(2026, 9, 19, 7, 0));
+    await act(async () => document.dispatchEvent(new Event('visibilitychange')));
+
+    expect(result.briefing?.date).toBe('2026-10-19');
+  });
+
+  it('offers the narrative toggle only when the CEA can be asked', async () => {
+    await render(false);
+    expect(result.setNarrative).toBeUndefined();
+    await render(true);
+    expect(result.setNarrative).toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as api from '../api';
+import type { Agent, Goal, KPI, Project, Task } from '../types';
+import { Briefing, buildBriefing, dayKey, loadBriefings, loadNarrativeSetting, narrativePrompt, saveBriefing, saveNarrativeSetting } from '../briefing';
+
+type BriefingState = { tasks: Task[]; kpis: KPI[]; goals: Goal[]; projects: Project[]; agents: Agent[] };
+
+// How often to check whether the day has turned over while the tab stays open
+const DAY_CHECK_MS = 60_000;
+
+// Today's briefing and the archive. The briefing is built once the dashboard
+// has loaded (`ready`) unless today's is already cached, and again when the
+// day changes while the app is open; with the narrative
+// setting on and a backend connected (`canAsk`), cea-brain then rewrites it
+// as prose; without `canAsk` there is no `setNarrative` to offer the toggle.
+// `regenerate` rebuilds today's from the current state.
+export function useBriefing(state: BriefingState, { ready, canAsk }: { ready: boolean; canAsk: boolean }) {
+  const [briefings, setBriefings] = useState(loadBriefings);
+  const [narrativeEnabled, setNarrativeEnabled] = useState(loadNarrativeSetting);
+  const [writing, setWriting] = useState(false);
+  const [today, setToday] = useState(() => dayKey());
+  const stateRef = useRef(state);
+  const current = briefings.find(b => b.date === today) ?? null;
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // A tab left open overnight (or woken from sleep) moves on to the new day
+  useEffect(() => {
+    const check = () => setToday(dayKey());
+    const handleVisible = () => { if (document.visibilityState === 'visible') check(); };
+    const timer = setInterval(check, DAY_CHECK_MS);
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, []);
+
+  const addNarrative = useCallback(async (briefing: Briefing) => {
+    setWriting(true);
+    try {
+      const narrative = (await api.askCEA(narrativePrompt(briefing))).trim();
+      if (narrative) setBriefings(prev => saveBriefing(prev, { ...briefing, narrative }));
+    } catch (e) {
+      console.error('Briefing narrative error:', e);
+    } finally {
+      setWriting(false);
+    }
+  }, []);
+
+  const generate = useCallback(async (withNarrative: boolean) => {
+    const briefing = buildBriefing(stateRef.current);
+    setBriefings(prev => saveBriefing(prev, briefing));
+    if (withNarrative) await addNarrative(briefing);
+  }, [addNarrative]);
+
+  // First visit of the day
+  const startedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!ready || current || startedFor.current === today) return;
+    startedFor.current = today;
+    void generate(narrativeEnabled && canAsk);
+  }, [ready, current, today, generate, narrativeEnabled, canAsk]);
+
+  const regenerate = useCallback(() => generate(narrativeEnabled && canAsk), [generate, narrativeEnabled, canAsk]);
+
+  // Turning the narrative on writes one for today's briefing right away
+  const setNarrative = useCallback((on: boolean) => {
+    setNarrativeEnabled(on);
+    saveNarrativeSetting(on);
+    if (on && canAsk && current && !current.narrative) void addNarrative(current);
+  }, [canAsk, current, addNarrative]);
+
+  return {
+    briefing: current,
+    archive: briefings.filter(b => b.date !== today),
+    narrativeEnabled,
+    setNarrative: canAsk ? setNarrative : undefined,
+    writing,
+    regenerate,
+  };
+}
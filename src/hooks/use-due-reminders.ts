@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Task } from '../types';
+import { dueState, formatDue } from '../due-dates';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+const REMINDERS_STORAGE_KEY = 'cea-due-reminders-v1';
+const CHECK_INTERVAL_MS = 60_000;
+
+// Keys ("taskId:deadline:state") already announced, so a reload doesn't repeat them
+function loadNotified(): Set<string> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REMINDERS_STORAGE_KEY) || '[]');
+    return new Set(Array.isArray(parsed) ? parsed : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function saveNotified(keys: Set<string>) {
+  try {
+    localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify([...keys]));
+  } catch (e) {
+    console.error('Reminders: could not persist state:', e);
+  }
+}
+
+// Browser notifications for Tiger's open tasks: once when a task comes due
+// within a day, again when it goes overdue. Overdue high-priority tasks stay
+// on screen until dismissed. Clicking a notification opens the task.
+export function useDueReminders(tasks: Task[], onOpenTask: (taskId: string) => void) {
+  const [permission, setPermission] = useState<ReminderPermission>(() =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const onOpenTaskRef = useRef(onOpenTask);
+
+  useEffect(() => {
+    onOpenTaskRef.current = onOpenTask;
+  }, [onOpenTask]);
+
+  useEffect(() => {
+    if (permission !== 'granted') return;
+
+    const check = () => {
+      const notified = loadNotified();
+      const live = new Set<string>();
+      for (const task of tasks) {
+        if (task.assignedTo !== 'tiger' || !task.deadline) continue;
+        const state = dueState(task);
+        if (state !== 'overdue' && state !== 'due-soon') continue;
+        const key = `${task.id}:${task.deadline}:${state}`;
+        live.add(key);
+        if (notified.has(key)) continue;
+
+        const notification = new Notification(state === 'overdue' ? `Overdue: ${task.title}` : `Due soon: ${task.title}`, {
+          body: [formatDue(task.deadline), task.projectShortCode].filter(Boolean).join(' · '),
+          tag: `cea-task-${task.id}`,
+          requireInteraction: state === 'overdue' && (task.priority === 'critical' || task.priority === 'high'),
+        });
+        notification.onclick = () => {
+          window.focus();
+          onOpenTaskRef.current(task.id);
+          notification.close();
+        };
+      }
+      // Forget tasks that were completed, deleted or rescheduled
+      saveNotified(live);
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [permission, tasks]);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { permission, requestPermission };
+}
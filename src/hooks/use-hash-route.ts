@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatHash, parseHash, patchQuery, type Route } from '../router';
+
+// Current route from window.location.hash. `navigate` pushes a history entry
+// (so back/forward restore views); `updateQuery` and `replace: true` swap the
+// current entry instead, which keeps filter tweaks out of the back stack.
+export function useHashRoute() {
+  const [route, setRoute] = useState<Route>(() => parseHash(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((next: Route, options?: { replace?: boolean }) => {
+    const hash = formatHash(next);
+    if (hash === window.location.hash) return;
+    // location.replace keeps working under file://, unlike history.replaceState
+    if (options?.replace) window.location.replace(hash);
+    else window.location.hash = hash;
+  }, []);
+
+  const updateQuery = useCallback((patch: Record<string, string | undefined>) => {
+    const current = parseHash(window.location.hash);
+    navigate({ ...current, query: patchQuery(current.query, patch) }, { replace: true });
+  }, [navigate]);
+
+  return { route, navigate, updateQuery };
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { outbox, type Mutation, type OutboxEntry, type SubmitOptions } from '../outbox';
+
+// Drives the shared outbox while mounted and exposes its queue to React.
+// `onRejected` fires after a rejected mutation has been rolled back.
+export function useOutbox(onRejected?: (entry: OutboxEntry, error: unknown) => void) {
+  const entries = useSyncExternalStore(outbox.subscribe, outbox.getEntries);
+  const onRejectedRef = useRef(onRejected);
+
+  useEffect(() => {
+    onRejectedRef.current = onRejected;
+  }, [onRejected]);
+
+  useEffect(() => outbox.start(), []);
+
+  useEffect(() => outbox.onRejected((entry, error) => onRejectedRef.current?.(entry, error)), []);
+
+  const submit = useCallback((mutation: Mutation, options: SubmitOptions) => outbox.submit(mutation, options), []);
+  const retry = useCallback((id?: string) => outbox.retry(id), []);
+
+  return {
+    entries,
+    pendingCount: entries.filter(e => e.status === 'pending').length,
+    failedCount: entries.filter(e => e.status === 'failed').length,
+    submit,
+    retry,
+  };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeChannel, RealtimeChange, RealtimeStatus } from '../realtime';
+
+// Subscribes to a change channel for as long as it is mounted and hands every
+// change to `onChange`. The latest `onChange` is always used, so callers can
+// pass an inline callback without resubscribing on each render.
+export function useRealtimeSync(channel: ChangeChannel | null, onChange: (change: RealtimeChange) => void) {
+  const [status, setStatus] = useState<RealtimeStatus>('closed');
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!channel) return;
+    channel.subscribe((change) => onChangeRef.current(change), setStatus);
+    return () => channel.unsubscribe();
+  }, [channel]);
+
+  return channel ? status : 'closed';
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { formatKPIValue, kpiChange, monthlyPeriods, parseKPIValue } from './kpis';
+
+const point = (recordedAt: string, value: number) => ({ recordedAt: `${recordedAt}T12:00:00.000Z`, value });
+
+describe('parseKPIValue', () => {
+  it('reads currency, percentages, separators and scale suffixes', () => {
+    expect(parseKPIValue('$4,280')).toBe(4280);
+    expect(parseKPIValue('47.2%')).toBe(47.2);
+    expect(parseKPIValue('$12.4K')).toBe(12400);
+    expect(parseKPIValue('1.5m views')).toBe(1_500_000);
+    expect(parseKPIValue('-3')).toBe(-3);
+    expect(parseKPIValue('.5')).toBe(0.5);
+  });
+
+  it('gives up on text without a number', () => {
+    expect(parseKPIValue('')).toBeNull();
+    expect(parseKPIValue('n/a')).toBeNull();
+  });
+});
+
+describe('formatKPIValue', () => {
+  it('keeps the template’s prefix, suffix, scale and decimals', () => {
+    expect(formatKPIValue(4512, '$4,280')).toBe('$4,512');
+    expect(formatKPIValue(48, '47.2%')).toBe('48.0%');
+    expect(formatKPIValue(13_100, '$12.4K')).toBe('$13.1K');
+  });
+});
+
+describe('kpiChange', () => {
+  it('compares the latest point with the last one from an earlier month', () => {
+    const history = [point('2026-08-20', 50), point('2026-09-10', 80), point('2026-09-30', 100), point('2026-10-05', 110), point('2026-10-15', 120)];
+    expect(kpiChange(history)).toEqual({ change: 20, trend: 'up' });
+  });
+
+  it('falls back to the first point while the series is younger than a month', () => {
+    expect(kpiChange([point('2026-10-01', 200), point('2026-10-15', 150)])).toEqual({ change: -25, trend: 'down' });
+  });
+
+  it('reads small changes, a single point and a zero baseline as stable', () => {
+    expect(kpiChange([point('2026-09-01', 1000), point('2026-10-01', 1004)])).toEqual({ change: 0.4, trend: 'stable' });
+    expect(kpiChange([point('2026-10-01', 5)])).toEqual({ change: 0, trend: 'stable' });
+    expect(kpiChange([point('2026-09-01', 0), point('2026-10-01', 5)])).toEqual({ change: 0, trend: 'stable' });
+    expect(kpiChange([])).toEqual({ change: 0, trend: 'stable' });
+  });
+
+  it('measures a negative baseline by its size', () => {
+    expect(kpiChange([point('2026-09-01', -200), point('2026-10-01', -100)])).toEqual({ change: 50, trend: 'up' });
+  });
+});
+
+describe('monthlyPeriods', () => {
+  it('takes each month’s last reading and leaves gaps empty', () => {
+    const periods = monthlyPeriods([point('2026-06-15', 10), point('2026-08-01', 12), point('2026-08-20', 15), point('2026-10-02', 18)], 3);
+    expect(periods).toEqual([
+      { key: '2026-08', label: 'Aug', value: 15, change: 50 },
+      { key: '2026-09', label: 'Sep', value: null, change: null },
+      { key: '2026-10', label: 'Oct', value: 18, change: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { KPI, KPIPoint } from './types';
+
+// KPIs keep a time series of values. `change` and `trend` are never typed in:
+// they compare the latest point with the last one from an earlier calendar
+// month ("vs last month"). The display `value` keeps the shape the KPI was
+// created with — "$4,280", "47.2%", "1,847".
+
+export const KPI_CATEGORIES = ['revenue', 'community', 'content', 'operations'];
+
+// Changes smaller than this read as flat
+const STABLE_THRESHOLD = 0.5;
+
+const SCALE: Record<string, number> = { k: 1_000, m: 1_000_000, b: 1_000_000_000 };
+
+// "$12.4K" → 12400, "47.2%" → 47.2, "" → null
+export function parseKPIValue(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?|-?\.\d+)\s*([kmb])?/i);
+  if (!match) return null;
+  return Number(match[1]) * (match[2] ? SCALE[match[2].toLowerCase()] : 1);
+}
+
+// Render `n` the way `template` is written: same prefix, suffix, scale and decimals
+export function formatKPIValue(n: number, template: string): string {
+  const match = template.match(/^([^\d.-]*)(-?[\d,]*\.?\d*)\s*([kmb])?(.*)$/i);
+  if (!match) return String(n);
+  const [, prefix, digits, scale, suffix] = match;
+  const scaled = scale ? n / SCALE[scale.toLowerCase()] : n;
+  const decimals = digits.split('.')[1]?.length ?? (Number.isInteger(scaled) ? 0 : 1);
+  const body = scaled.toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: digits.includes(',') || Math.abs(scaled) >= 10_000,
+  });
+  return `${prefix}${body}${scale ?? ''}${suffix}`;
+}
+
+const monthKey = (iso: string) => iso.slice(0, 7);
+
+// Period over period: latest point vs the last point of an earlier month,
+// falling back to the first point while the series is younger than a month
+export function kpiChange(history: KPIPoint[]): Pick<KPI, 'change' | 'trend'> {
+  const latest = history[history.length - 1];
+  if (!latest) return { change: 0, trend: 'stable' };
+  const earlier = history.filter(p => monthKey(p.recordedAt) < monthKey(latest.recordedAt));
+  const baseline = earlier[earlier.length - 1] ?? history[0];
+  if (baseline === latest || baseline.value === 0) return { change: 0, trend: 'stable' };
+
+  const change = Math.round(((latest.value - baseline.value) / Math.abs(baseline.value)) * 1000) / 10;
+  const trend = Math.abs(change) < STABLE_THRESHOLD ? 'stable' : change > 0 ? 'up' : 'down';
+  return { change, trend };
+}
+
+// A new reading. A KPI without history first records the value it had, so the
+// first edit already has something to compare against.
+export function recordKPIValue(kpi: KPI, numericValue: number, at = new Date().toISOString()): KPI {
+  const base = kpi.history.length ? kpi.history : [{ value: kpi.numericValue, recordedAt: at }];
+  const history = [...base, { value: numericValue, recordedAt: at }];
+  return {
+    ...kpi,
+    value: formatKPIValue(numericValue, kpi.value),
+    numericValue,
+    history,
+    ...kpiChange(history),
+  };
+}
+
+export interface KPIPeriod {
+  key: string;                 // "2026-02"
+  label: string;               // "Feb"
+  value: number | null;        // last reading of the month; null if none
+  change: number | null;       // % vs the previous period that has a value
+}
+
+// The last `count` calendar months up to the latest reading
+export function monthlyPeriods(history: KPIPoint[], count = 6): KPIPeriod[] {
+  const latest = history[history.length - 1];
+  if (!latest) return [];
+  const [year, month] = monthKey(latest.recordedAt).split('-').map(Number);
+
+  const monthAt = (offset: number) => new Date(Date.UTC(year, month - 1 - offset, 1));
+
+  // Readings from before the window give the first bar its change
+  const windowStart = monthKey(monthAt(count - 1).toISOString());
+  let previous = history.filter(p => monthKey(p.recordedAt) < windowStart).pop()?.value ?? null;
+
+  const periods: KPIPeriod[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const date = monthAt(i);
+    const key = monthKey(date.toISOString());
+    const inMonth = history.filter(p => monthKey(p.recordedAt) === key);
+    const value = inMonth.length ? inMonth[inMonth.length - 1].value : null;
+    const change = value !== null && previous ? Math.round(((value - previous) / Math.abs(previous)) * 1000) / 10 : null;
+    periods.push({ key, label: date.toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }), value, change });
+    if (value !== null) previous = value;
+  }
+  return periods;
+}
+
+// "+12.5%" / "−2.1%" / "0%"
+export const formatChange = (change: number) => `${change > 0 ? '+' : change < 0 ? '−' : ''}${Math.abs(change)}%`;
@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as api from './api';
+import { initialTools } from './data';
+import { localBackend } from './local-backend';
+import { mapTool } from './mappers';
+import type { RealtimeChange } from './realtime';
+
+describe('LocalBackend', () => {
+  beforeEach(async () => {
+    api.setTransport(localBackend.handle);
+    await localBackend.reset();
+  });
+
+  afterEach(() => {
+    api.setTransport(null);
+    localBackend.channel.unsubscribe();
+  });
+
+  it('persists created tasks', async () => {
+    const created = await api.createTask('Book the studio', 3);
+    const id = created.data?.[0].id;
+
+    const rows = await api.fetchTasks();
+    expect(rows.find(r => r.id === id)).toMatchObject({ description: 'Book the studio', status: 'todo' });
+  });
+
+  it('echoes writes on its realtime channel', async () => {
+    const changes: RealtimeChange[] = [];
+    localBackend.channel.subscribe(change => changes.push(change));
+    const created = await api.createTask('Book the studio', 3);
+    const id = created.data![0].id;
+    await api.updateTaskStatus(id, 'done');
+
+    expect(changes.map(c => [c.table, c.eventType, c.new.status])).toEqual([
+      ['tasks', 'INSERT', 'todo'],
+      ['tasks', 'UPDATE', 'done'],
+    ]);
+  });
+
+  it('answers unknown ids with a 404', async () => {
+    await expect(api.deleteTask('no-such-task')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('refuses a task without a description before sending it', async () => {
+    await expect(api.createTask('', 3)).rejects.toMatchObject({ name: 'SchemaDriftError', direction: 'request' });
+  });
+
+  it('serves the seeded tool catalog', async () => {
+    const tools = (await api.fetchTools()).map(mapTool);
+    expect(tools).toHaveLength(initialTools.length);
+    expect(tools).toEqual(expect.arrayContaining(initialTools));
+  });
+
+  describe('streamed cea-brain', () => {
+    beforeEach(() => {
+      api.setTransport(localBackend.handle, localBackend.stream);
+    });
+
+    it('streams the reply a word at a time and keeps both sides of the thread', async () => {
+      const deltas: string[] = [];
+      const reply = await api.streamMessageFromCEA('Anything new?', undefined, { onDelta: text => deltas.push(text), signal: new AbortController().signal });
+
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(reply.response);
+      const messages = await api.fetchMessages(reply.thread_id);
+      expect(messages.map(m => [m.from_type, m.content])).toEqual([['human', 'Anything new?'], ['agent', reply.response]]);
+    });
+
+    it('keeps what was said so far when stopped', async () => {
+      const controller = new AbortController();
+      const deltas: string[] = [];
+      const reply = api.streamMessageFromCEA('Anything new?', 'local-thread', {
+        onDelta: text => {
+          deltas.push(text);
+          if (deltas.length === 3) controller.abort();
+        },
+        signal: controller.signal,
+      });
+
+      await expect(reply).rejects.toMatchObject({ name: 'AbortError' });
+      const messages = await api.fetchMessages('local-thread');
+      expect(messages.find(m => m.from_type === 'agent')?.content).toBe(deltas.join(''));
+    });
+  });
+});
@@ -0,0 +1,703 @@
+import { ApiError, type StreamTransport, type Transport } from './api';
+import { FakeChannel, REALTIME_TABLES, type RealtimeEventType } from './realtime';
+import type {
+  ActivityRow, AgentRow, ApiAction, ApiRequest, BrainStreamEvent, DepartmentRow, DirectiveRow, FeatureRequestRow,
+  GoalRow, KPIRow, MessageRow, ProjectRow, TaskRow, ThreadRow, ToolRow,
+} from './schemas';
+import {
+  initialActivity, initialAgents, initialDepartments, initialKPIs, initialMessages,
+  initialProjects, initialTasks, initialThreads, initialDirectives, initialTools, ceaResponses, ceaFocusReply,
+} from './data';
+
+// In-browser implementation of the cea-api `?action=` protocol on IndexedDB.
+// Installed with api.setTransport(localBackend.handle), it answers every action
+// api.ts knows about, so demo mode persists across reloads and exercises the
+// same outbox, schema and realtime paths as the live backend.
+
+// ============ PREFERENCE ============
+
+export type BackendKind = 'live' | 'local';
+
+const BACKEND_STORAGE_KEY = 'cea-backend';
+
+export function loadBackendPreference(): BackendKind {
+  try {
+    return localStorage.getItem(BACKEND_STORAGE_KEY) === 'local' ? 'local' : 'live';
+  } catch {
+    return 'live';
+  }
+}
+
+export function saveBackendPreference(kind: BackendKind) {
+  try {
+    localStorage.setItem(BACKEND_STORAGE_KEY, kind);
+  } catch (e) {
+    console.error('Could not save backend preference:', e);
+  }
+}
+
+// ============ STORAGE ============
+
+const DB_NAME = 'cea-local-backend';
+const DB_VERSION = 3;   // 2: threads, 3: tools
+
+interface StoreRows {
+  agents: AgentRow;
+  tasks: TaskRow;
+  projects: ProjectRow;
+  departments: DepartmentRow;
+  goals: GoalRow;
+  kpis: KPIRow;
+  activity: ActivityRow;
+  messages: MessageRow;
+  threads: ThreadRow;
+  feature_requests: FeatureRequestRow;
+  directives: DirectiveRow;
+  tools: ToolRow;
+}
+
+type StoreName = keyof StoreRows;
+
+const STORES: StoreName[] = ['agents', 'tasks', 'projects', 'departments', 'goals', 'kpis', 'activity', 'messages', 'threads', 'feature_requests', 'directives', 'tools'];
+
+// Stores whose writes are echoed on the realtime channel, like postgres_changes
+const REALTIME_STORES: Partial<Record<StoreName, typeof REALTIME_TABLES[keyof typeof REALTIME_TABLES]>> = {
+  tasks: REALTIME_TABLES.tasks,
+  projects: REALTIME_TABLES.projects,
+  goals: REALTIME_TABLES.goals,
+  kpis: REALTIME_TABLES.kpis,
+  activity: REALTIME_TABLES.activity,
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of [...STORES, 'meta']) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Pace of the streamed cea-brain stub, per word
+const STREAM_WORD_MS = 45;
+
+const now = () => new Date().toISOString();
+const newId = () => `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Drop undefined keys so a partial update never blanks a column
+function defined<T extends object>(patch: T): Partial<T> {
+  return Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// ============ SEED ============
+
+// "2 min ago" / "1h ago" / "4d ago" → ISO timestamp
+function relativeToIso(label: string): string {
+  const match = label.match(/(\d+)\s*(min|h|d)/);
+  if (!match) return now();
+  const unit = { min: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'min' | 'h' | 'd'];
+  return new Date(Date.now() - Number(match[1]) * unit).toISOString();
+}
+
+// "8:15 AM" → today at that time
+function clockToIso(label: string): string {
+  const match = label.match(/(\d+):(\d+)\s*(AM|PM)/i);
+  const date = new Date();
+  if (match) {
+    const hours = Number(match[1]) % 12 + (match[3].toUpperCase() === 'PM' ? 12 : 0);
+    date.setHours(hours, Number(match[2]), 0, 0);
+  }
+  return date.toISOString();
+}
+
+// The mock data in data.ts, turned back into database rows
+function seedRows(): { [S in StoreName]: StoreRows[S][] } {
+  const priorityNumbers = { critical: 1, high: 2, medium: 3, low: 4 } as const;
+  const statusRows: Record<string, TaskRow['status']> = { pending: 'todo', in_progress: 'in_progress', working: 'in_progress', review: 'failed', completed: 'done' };
+  const agentRef = (ref: string) => (ref === 'tiger' ? null : ref);
+
+  return {
+    departments: initialDepartments.map(d => ({ id: d.id, name: d.name })),
+    agents: initialAgents.map(a => ({
+      id: a.id,
+      handle: a.id === 'cea' ? '@CEA' : `@${a.name}`,
+      functional_name: a.name,
+      system_prompt: a.description,
+      is_active: a.status !== 'idle',
+      tool_access: [],
+      emoji: a.emoji,
+    })),
+    projects: initialProjects.map(p => ({
+      id: p.id,
+      title: p.title,
+      description: p.description ?? null,
+      status: p.status,
+      dept_id: initialDepartments.find(d => d.name === p.department)?.id ?? null,
+      lead_agent_id: p.leadAgentId ?? null,
+      target_date: p.targetDate ?? null,
+      parent_project_id: p.parentProjectId ?? null,
+      metadata: { notes: p.notes ?? null },
+      created_at: p.createdAt,
+    })),
+    tasks: initialTasks.map(t => ({
+      id: t.id,
+      description: t.description,
+      status: statusRows[t.status] ?? 'todo',
+      priority: priorityNumbers[t.priority],
+      assigned_to: agentRef(t.assignedTo),
+      assigned_by: agentRef(t.assignedBy),
+      project_id: t.projectId ?? null,
+      parent_task_id: t.parentTaskId ?? null,
+      blocked_by: t.blockedBy ?? [],
+      recurrence: t.recurrence ?? null,
+      series_id: t.seriesId ?? null,
+      directive_id: t.directiveId ?? null,
+      due_date: t.deadline ?? null,
+      completed_at: null,
+      created_at: t.createdAt,
+    })),
+    goals: [],
+    kpis: initialKPIs.map(k => ({
+      id: k.id,
+      label: k.label,
+      value: k.value,
+      numeric_value: k.numericValue,
+      change_percent: k.change,
+      trend: k.trend,
+      category: k.category,
+      history: k.history.map(p => ({ value: p.value, recorded_at: p.recordedAt })),
+    })),
+    activity: initialActivity.map(a => ({
+      id: a.id,
+      agent_handle: a.agent,
+      action: a.action,
+      detail: a.detail,
+      action_type: a.type,
+      created_at: relativeToIso(a.timestamp),
+    })),
+    messages: initialMessages.map(m => ({
+      id: m.id,
+      from_type: m.from === 'tiger' ? 'human' : 'agent',
+      from_name: m.fromName,
+      content: m.content,
+      message_type: m.type,
+      thread_id: m.threadId ?? null,
+      directive_id: m.directiveId ?? null,
+      created_at: clockToIso(m.timestamp),
+    })),
+    // Re-dated to today, like the messages in them
+    threads: initialThreads.map(t => ({
+      id: t.id,
+      title: t.title,
+      context_type: t.context?.type ?? null,
+      context_id: t.context?.id ?? null,
+      archived: t.archived,
+      created_at: clockToIso('8:00 AM'),
+      updated_at: clockToIso('8:21 AM'),
+    })),
+    feature_requests: [],
+    directives: initialDirectives.map(d => ({
+      id: d.id,
+      title: d.title,
+      directive_type: d.type,
+      content: d.content,
+      target_agent_id: d.targetAgentId ?? null,
+      priority: d.priority,
+      status: d.status,
+      acknowledged_by: d.acknowledgedBy ?? null,
+      acknowledged_at: d.acknowledgedAt ?? null,
+      created_at: d.createdAt,
+    })),
+    tools: initialTools.map(t => ({ ...t })),
+  };
+}
+
+// ============ BACKEND ============
+
+type Handlers = {
+  [A in ApiAction]: (body: ApiRequest<A>, params: URLSearchParams) => Promise<unknown>;
+};
+
+export class LocalBackend {
+  // Writes to realtime tables are echoed here, so the sync layer runs unchanged
+  readonly channel = new FakeChannel();
+  private db: Promise<IDBDatabase> | null = null;
+
+  handle: Transport = async (action, params, body) => {
+    const handler = this.handlers[action] as (body: unknown, params: URLSearchParams) => Promise<unknown>;
+    if (!handler) throw new ApiError(400, `Unknown action: ${action}`);
+    return handler(body, params);
+  };
+
+  // cea-brain with `stream: true`: the same canned reply, a word at a time.
+  // Stopping early keeps whatever was said so far, like a real model would.
+  stream: StreamTransport = (body, signal) => this.streamBrain(body, signal);
+
+  // Wipe everything and start again from the demo data
+  async reset() {
+    const db = await this.open();
+    const tx = db.transaction([...STORES, 'meta'], 'readwrite');
+    for (const store of [...STORES, 'meta']) tx.objectStore(store).clear();
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.seed(db);
+  }
+
+  // ─── Storage ───
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase().then(async db => {
+        const seeded = await promisify(db.transaction('meta').objectStore('meta').get('seeded'));
+        if (!seeded) await this.seed(db);
+        return db;
+      });
+      // Allow a retry after a failed open instead of caching the rejection
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private async seed(db: IDBDatabase) {
+    const rows = seedRows();
+    const tx = db.transaction([...STORES, 'meta'], 'readwrite');
+    for (const store of STORES) {
+      for (const row of rows[store]) tx.objectStore(store).put(row);
+    }
+    tx.objectStore('meta').put({ id: 'seeded', at: now() });
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async all<S extends StoreName>(store: S): Promise<StoreRows[S][]> {
+    const db = await this.open();
+    return promisify(db.transaction(store).objectStore(store).getAll());
+  }
+
+  private async find<S extends StoreName>(store: S, id: string): Promise<StoreRows[S]> {
+    const db = await this.open();
+    const row = await promisify(db.transaction(store).objectStore(store).get(id));
+    if (!row) throw new ApiError(404, `${store} ${id} not found`);
+    return row;
+  }
+
+  private async put<S extends StoreName>(store: S, row: StoreRows[S], eventType: RealtimeEventType = 'UPDATE') {
+    const db = await this.open();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(row));
+    const table = REALTIME_STORES[store];
+    if (table) this.channel.emit(table, eventType, { ...row });
+    return row;
+  }
+
+  private async patch<S extends StoreName>(store: S, id: string, patch: Partial<StoreRows[S]>) {
+    const row = await this.find(store, id);
+    return this.put(store, { ...row, ...defined(patch) });
+  }
+
+  private async remove(store: StoreName, id: string) {
+    await this.find(store, id);
+    const db = await this.open();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+    const table = REALTIME_STORES[store];
+    if (table) this.channel.emit(table, 'DELETE', { id });
+  }
+
+  // ─── cea-brain ───
+
+  private async startBrainReply(body: ApiRequest<'cea-brain'>) {
+    const threadId = body.thread_id || newId();
+    const topic = body.message.length > 80 ? `${body.message.slice(0, 77)}…` : body.message;
+    const reply = /focus|today|priorit/i.test(body.message)
+      ? ceaFocusReply
+      : ceaResponses[Math.floor(Math.random() * ceaResponses.length)].replace('{topic}', `"${topic}"`);
+    await this.put('messages', {
+      id: newId(), from_type: 'human', from_name: 'Tiger', content: body.message,
+      message_type: 'message', thread_id: threadId, created_at: now(),
+    }, 'INSERT');
+    return { threadId, reply };
+  }
+
+  private async finishBrainReply(body: ApiRequest<'cea-brain'>, threadId: string, reply: string) {
+    if (reply) {
+      await this.put('messages', {
+        id: newId(), from_type: 'agent', from_name: 'The CEA', content: reply,
+        message_type: 'message', thread_id: threadId, created_at: new Date(Date.now() + 1).toISOString(),
+      }, 'INSERT');
+    }
+    // Keep the thread list ordered by latest activity
+    if (body.thread_id) await this.patch('threads', threadId, { updated_at: now() }).catch(() => undefined);
+  }
+
+  private async *streamBrain(body: ApiRequest<'cea-brain'>, signal: AbortSignal): AsyncGenerator<BrainStreamEvent> {
+    const { threadId, reply } = await this.startBrainReply(body);
+    yield { type: 'meta', thread_id: threadId };
+    let said = '';
+    try {
+      for (const word of reply.match(/\S+\s*/g) ?? []) {
+        await pause(STREAM_WORD_MS, signal);
+        said += word;
+        yield { type: 'delta', text: word };
+      }
+    } finally {
+      await this.finishBrainReply(body, threadId, said);
+    }
+    yield { type: 'done', thread_id: threadId };
+  }
+
+  // ─── Actions ───
+
+  private handlers: Handlers = {
+    // Read
+    'dashboard': async () => {
+      const [agents, tasks, projects, departments, goals, kpis, activity, messages] = await Promise.all([
+        this.all('agents'), this.all('tasks'), this.all('projects'), this.all('departments'),
+        this.all('goals'), this.all('kpis'), this.all('activity'), this.all('messages'),
+      ]);
+      return {
+        agents,
+        tasks: newestFirst(tasks),
+        projects,
+        departments,
+        goals,
+        kpis,
+        activity: newestFirst(activity).slice(0, 50),
+        messages: newestFirst(messages).reverse(),
+      };
+    },
+    'agents': () => this.all('agents'),
+    'tasks': async () => newestFirst(await this.all('tasks')),
+    'messages': async (_, params) => {
+      const threadId = params.get('thread_id');
+      const messages = await this.all('messages');
+      return newestFirst(messages.filter(m => !threadId || m.thread_id === threadId)).reverse();
+    },
+    'kpis': async (_, params) => {
+      const category = params.get('category');
+      return (await this.all('kpis')).filter(k => !category || k.category === category);
+    },
+    'goals': () => this.all('goals'),
+    'activity': async (_, params) => {
+      const agents = params.getAll('agent');
+      const before = params.get('before');
+      return newestFirst((await this.all('activity'))
+        .filter(a => !agents.length || agents.includes(a.agent_handle ?? ''))
+        .filter(a => !before || a.created_at < before))
+        .slice(0, Number(params.get('limit')) || 20);
+    },
+    'feature-requests': async (_, params) => {
+      const status = params.get('status');
+      return newestFirst((await this.all('feature_requests')).filter(fr => !status || fr.status === status));
+    },
+    'threads': async () => (await this.all('threads')).sort((a, b) => (b.updated_at ?? b.created_at).localeCompare(a.updated_at ?? a.created_at)),
+    'directives': async () => newestFirst(await this.all('directives')),
+    'tools': () => this.all('tools'),
+
+    // Tasks
+    'update-task': async (body) => {
+      // Changes are appended to the history, like KPI readings
+      const task = await this.find('tasks', body.task_id);
+      const at = now();
+      const history = task.status_history ?? [];
+      const row = await this.patch('tasks', body.task_id, {
+        status: body.status,
+        completed_at: body.status === 'done' ? at : null,
+        status_history: body.status === task.status ? history : [...history, { status: body.status, changed_at: at }],
+      });
+      return { success: true, data: [row] };
+    },
+    'create-task': async (body) => {
+      const row = await this.put('tasks', {
+        id: newId(),
+        description: body.description,
+        status: 'todo',
+        priority: body.priority,
+        assigned_to: body.assigned_to ?? null,
+        assigned_by: null,
+        project_id: body.project_id ?? null,
+        parent_task_id: body.parent_task_id ?? null,
+        blocked_by: body.blocked_by ?? [],
+        recurrence: body.recurrence ?? null,
+        series_id: body.series_id ?? null,
+        directive_id: body.directive_id ?? null,
+        due_date: body.due_date ?? null,
+        completed_at: null,
+        status_history: [{ status: 'todo', changed_at: now() }],
+        created_at: now(),
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'update-task-full': async (body) => {
+      const row = await this.patch('tasks', body.task_id, {
+        description: body.description,
+        priority: body.priority,
+        assigned_to: body.assigned_to,
+        project_id: body.project_id,
+        blocked_by: body.blocked_by,
+        due_date: body.due_date,
+        recurrence: body.recurrence,
+      });
+      return { success: true, data: [row] };
+    },
+    'delete-task': async (body) => {
+      await this.remove('tasks', body.task_id);
+      // Nothing stays blocked by a task that no longer exists
+      for (const task of (await this.all('tasks')).filter(t => t.blocked_by?.includes(body.task_id))) {
+        await this.put('tasks', { ...task, blocked_by: task.blocked_by!.filter(id => id !== body.task_id) });
+      }
+      return { success: true };
+    },
+
+    // Agents
+    'spawn-agent': async (body) => {
+      const row = await this.put('agents', {
+        id: newId(),
+        handle: body.handle,
+        functional_name: body.functional_name,
+        system_prompt: body.system_prompt,
+        is_active: true,
+        tool_access: [],
+        dept_id: body.dept_id ?? null,
+      }, 'INSERT');
+      return { data: row };
+    },
+    // A change to the prompt, name or tools is appended to the versions; an
+    // agent without any first records what it looked like before
+    'update-agent': async (body) => {
+      const { agent_id, note, ...updates } = body;
+      const agent = await this.find('agents', agent_id);
+      const config = (row: typeof agent) => ({
+        system_prompt: row.system_prompt ?? '',
+        functional_name: row.functional_name,
+        tool_access: row.tool_access ?? [],
+      });
+      const before = config(agent);
+      const after = config({ ...agent, ...defined(updates) });
+      let versions = agent.versions ?? [];
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        const at = now();
+        if (!versions.length) versions = [{ version: 1, ...before, note: null, changed_at: at }];
+        versions = [...versions, { version: versions[versions.length - 1].version + 1, ...after, note: note?.trim() || null, changed_at: at }];
+      }
+      const row = await this.patch('agents', agent_id, { ...updates, versions });
+      return { success: true, data: [row] };
+    },
+
+    // KPIs
+    // Every new reading is appended to the history; a KPI without one first
+    // records the value it had
+    'update-kpi': async (body) => {
+      const { id, ...updates } = body;
+      const kpi = await this.find('kpis', id);
+      let history = kpi.history ?? [];
+      if (updates.numeric_value !== undefined && updates.numeric_value !== kpi.numeric_value) {
+        const at = now();
+        if (!history.length) history = [{ value: kpi.numeric_value ?? 0, recorded_at: at }];
+        history = [...history, { value: updates.numeric_value, recorded_at: at }];
+      }
+      const row = await this.patch('kpis', id, { ...updates, history });
+      return { success: true, data: [row] };
+    },
+    'create-kpi': async (body) => {
+      const row = await this.put('kpis', {
+        id: newId(),
+        label: body.label,
+        value: body.value,
+        numeric_value: body.numeric_value,
+        change_percent: 0,
+        trend: 'stable',
+        category: body.category ?? null,
+        history: [{ value: body.numeric_value, recorded_at: now() }],
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'delete-kpi': async (body) => {
+      await this.remove('kpis', body.id);
+      return { success: true };
+    },
+
+    // Projects
+    'update-project': async (body) => {
+      const project = await this.find('projects', body.project_id);
+      const row = await this.patch('projects', body.project_id, {
+        status: body.status,
+        description: body.description,
+        target_date: body.target_date,
+        metadata: body.notes !== undefined ? { ...project.metadata, notes: body.notes } : undefined,
+      });
+      return { success: true, data: [row] };
+    },
+    'create-project': async (body) => {
+      const row = await this.put('projects', {
+        id: newId(),
+        title: body.title,
+        description: body.description ?? null,
+        status: 'active',
+        dept_id: body.dept_id ?? null,
+        lead_agent_id: body.lead_agent_id ?? null,
+        target_date: body.target_date ?? null,
+        parent_project_id: body.parent_project_id ?? null,
+        metadata: {},
+        created_at: now(),
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'delete-project': async (body) => {
+      await this.remove('projects', body.project_id);
+      // Same as the edge function: children and tasks are unlinked, not deleted
+      for (const child of (await this.all('projects')).filter(p => p.parent_project_id === body.project_id)) {
+        await this.put('projects', { ...child, parent_project_id: null });
+      }
+      for (const task of (await this.all('tasks')).filter(t => t.project_id === body.project_id)) {
+        await this.put('tasks', { ...task, project_id: null });
+      }
+      return { success: true };
+    },
+
+    // Directives
+    'create-directive': async (body) => {
+      const row = await this.put('directives', {
+        id: newId(),
+        title: body.title,
+        directive_type: body.directive_type,
+        content: body.content,
+        target_agent_id: body.target_agent_id ?? null,
+        priority: body.priority ?? null,
+        status: 'pending',
+        acknowledged_by: null,
+        acknowledged_at: null,
+        created_at: now(),
+      }, 'INSERT');
+      return { data: [row] };
+    },
+
+    // Goals
+    'update-goal': async (body) => {
+      const { goal_id, ...updates } = body;
+      const row = await this.patch('goals', goal_id, updates);
+      return { success: true, data: [row] };
+    },
+    'create-goal': async (body) => {
+      const row = await this.put('goals', {
+        id: newId(),
+        title: body.title,
+        description: body.description ?? null,
+        progress: 0,
+        status: 'on-track',
+        owner_agent_id: body.owner_agent_id ?? null,
+        owner_name: null,
+        target_date: body.target_date ?? null,
+        quarter: body.quarter ?? null,
+        initiatives: body.initiatives ?? [],
+        key_results: body.key_results ?? [],
+        score: null,
+        rolled_over_to: null,
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'delete-goal': async (body) => {
+      await this.remove('goals', body.goal_id);
+      return { success: true };
+    },
+
+    // Feature requests
+    'create-feature-request': async (body) => {
+      const row = await this.put('feature_requests', {
+        id: newId(),
+        title: body.title,
+        description: body.description ?? null,
+        screenshot_url: body.screenshot_url ?? null,
+        source_view: body.source_view ?? null,
+        status: 'new',
+        priority: body.priority ?? 'medium',
+        created_at: now(),
+        updated_at: now(),
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'update-feature-request': async (body) => {
+      const { id, ...updates } = body;
+      const row = await this.patch('feature_requests', id, { ...updates, updated_at: now() });
+      return { success: true, data: [row] };
+    },
+    'delete-feature-request': async (body) => {
+      await this.remove('feature_requests', body.id);
+      return { success: true };
+    },
+
+    // Chat threads
+    'create-thread': async (body) => {
+      const row = await this.put('threads', {
+        id: newId(),
+        title: body.title,
+        context_type: body.context_type ?? null,
+        context_id: body.context_id ?? null,
+        archived: false,
+        created_at: now(),
+        updated_at: now(),
+      }, 'INSERT');
+      return { data: [row] };
+    },
+    'update-thread': async (body) => {
+      const { thread_id, ...updates } = body;
+      const row = await this.patch('threads', thread_id, { ...updates, updated_at: updates.title !== undefined ? now() : undefined });
+      return { success: true, data: [row] };
+    },
+
+    // cea-brain: a canned reply, but both sides of the conversation persist
+    // (ephemeral questions aside — nothing is stored for those)
+    'cea-brain': async (body) => {
+      if (body.ephemeral) return { response: ephemeralReply(body.message), thread_id: '' };
+      const { threadId, reply } = await this.startBrainReply(body);
+      await this.finishBrainReply(body, threadId, reply);
+      return { response: reply, thread_id: threadId };
+    },
+  };
+}
+
+// No model here: a one-off question gets its own bullet points back as prose
+function ephemeralReply(message: string): string {
+  const facts = message.split('\n').filter(line => line.startsWith('- ')).map(line => line.slice(2));
+  return facts.length ? facts.join(' ') : ceaResponses[0].replace('{topic}', `"${message.slice(0, 80)}"`);
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires
+function pause(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function newestFirst<T extends { created_at: string }>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export const localBackend = new LocalBackend();
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { keepReview, mapGoal, mapKPI, mapProject, mapTask } from './mappers';
+import type { AgentRow, GoalRow, KPIRow, ProjectRow, TaskRow } from './schemas';
+
+const agents: AgentRow[] = [
+  { id: 'a-cea', handle: '@CEA', functional_name: 'The CEA' },
+  { id: 'a-sage', handle: '@Editor_in_Chief', functional_name: 'Sage' },
+];
+const projects: ProjectRow[] = [{ id: 'p1', title: 'PR.MIRA | Mirror launch', created_at: '2026-10-01T09:00:00.000Z' }];
+const taskRow = (fields: Partial<TaskRow> = {}): TaskRow => ({
+  id: 't1', description: 'Write the launch post', status: 'todo', created_at: '2026-10-01T09:00:00.000Z', ...fields,
+});
+
+describe('mapTask', () => {
+  it('maps statuses, priorities and the project short code', () => {
+    const task = mapTask(taskRow({ status: 'failed', priority: 2, project_id: 'p1' }), agents, projects);
+    expect(task).toMatchObject({ status: 'review', priority: 'high', projectShortCode: 'MIRA', projectName: 'Mirror launch' });
+  });
+
+  it('resolves parties to cea, an agent id or tiger', () => {
+    expect(mapTask(taskRow({ assigned_to: 'a-cea', assigned_by: 'unknown' }), agents, projects)).toMatchObject({ assignedTo: 'cea', assignedBy: 'tiger' });
+    expect(mapTask(taskRow({ assigned_to: 'a-sage' }), agents, projects).assignedTo).toBe('a-sage');
+  });
+
+  it('derives the title from the description', () => {
+    expect(mapTask(taskRow({ description: 'x'.repeat(100) }), agents, projects).title).toHaveLength(80);
+    expect(mapTask(taskRow({ description: null }), agents, projects).title).toBe('Untitled');
+  });
+
+  it('maps the status history', () => {
+    const task = mapTask(taskRow({ status_history: [{ status: 'in_progress', changed_at: '2026-10-02T09:00:00.000Z' }] }), agents, projects);
+    expect(task.statusHistory).toEqual([{ status: 'in_progress', at: '2026-10-02T09:00:00.000Z' }]);
+  });
+});
+
+describe('keepReview', () => {
+  it('keeps a task in Review when its in_progress write echoes back', () => {
+    const local = mapTask(taskRow({ status: 'in_progress' }), agents, projects);
+    const echo = mapTask(taskRow({ status: 'in_progress', completed_at: null }), agents, projects);
+    expect(keepReview(echo, { ...local, status: 'review' }).status).toBe('review');
+    expect(keepReview(echo, local).status).toBe('in_progress');
+    expect(keepReview(mapTask(taskRow({ status: 'done' }), agents, projects), { ...local, status: 'review' }).status).toBe('completed');
+    expect(keepReview(echo).status).toBe('in_progress');
+  });
+});
+
+describe('mapProject', () => {
+  it('counts the project’s tasks', () => {
+    const tasks = [taskRow({ project_id: 'p1', status: 'done' }), taskRow({ id: 't2', project_id: 'p1' }), taskRow({ id: 't3' })];
+    expect(mapProject(projects[0], [], tasks)).toMatchObject({ shortCode: 'MIRA', status: 'active', department: 'Unknown', taskCount: 2, completedTaskCount: 1 });
+  });
+});
+
+describe('mapGoal', () => {
+  it('fills ids for initiatives and key results that have none', () => {
+    const row: GoalRow = {
+      id: 'g1', title: 'Grow', owner_agent_id: 'a-sage',
+      initiatives: [{ name: 'Launch', status: 'active', due: '2026-12-01' }],
+      key_results: [{ kpi_id: 'k1', start_value: 0, target_value: 10 }],
+    };
+    expect(mapGoal(row, agents)).toMatchObject({
+      ownerName: 'Sage',
+      ownerEmoji: '✍️',
+      initiatives: [{ id: 'g1-0', taskIds: [] }],
+      keyResults: [{ id: 'g1-kr0', kpiId: 'k1' }],
+    });
+  });
+});
+
+describe('mapKPI', () => {
+  it('prefers the history over the stored change columns', () => {
+    const row: KPIRow = {
+      id: 'k1', label: 'MRR', value: '$1.2K', change_percent: 99, trend: 'down',
+      history: [{ value: 1200, recorded_at: '2026-10-02' }, { value: 1000, recorded_at: '2026-10-01' }],
+    };
+    expect(mapKPI(row)).toMatchObject({ numericValue: 1200, change: 20, trend: 'up', history: [{ value: 1000 }, { value: 1200 }] });
+    expect(mapKPI({ ...row, history: null })).toMatchObject({ change: 99, trend: 'down' });
+  });
+});
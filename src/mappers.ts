@@ -0,0 +1,262 @@
+import { Agent, Task, Message, KPI, ActivityItem, Project, Goal, FeatureRequest, Department, ChatThread, Directive, ToolDefinition } from './types';
+import { kpiChange, parseKPIValue } from './kpis';
+import type { ActivityRow, AgentRow, DepartmentRow, DirectiveRow, FeatureRequestRow, GoalRow, KPIRow, MessageRow, ProjectRow, TaskRow, ThreadRow, ToolRow } from './schemas';
+
+// Pure row → model functions. Rows arrive already validated by the schemas in
+// schemas.ts, so anything missing here is genuinely optional in the database.
+
+// Map Supabase agent_personas to our Agent interface
+export function mapAgent(a: AgentRow): Agent {
+  const emojiMap: Record<string, string> = {
+    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
+    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️', '@Meeting_Scribe': '📝',
+    '@Clip_Extractor': '🎬', '@Health_Monitor': '💚', '@Workflow_Builder': '🔧',
+    '@Project_Lead': '🎯',
+  };
+  return {
+    id: a.id,
+    name: a.functional_name,
+    role: a.handle,
+    emoji: emojiMap[a.handle] || a.emoji || '🤖',
+    status: a.is_active ? 'active' : 'idle',
+    description: a.system_prompt?.substring(0, 200) || '',
+    systemPrompt: a.system_prompt ?? undefined,
+    toolAccess: a.tool_access ?? undefined,
+    versions: a.versions?.map(v => ({
+      version: v.version,
+      systemPrompt: v.system_prompt ?? '',
+      functionalName: v.functional_name ?? '',
+      toolAccess: v.tool_access ?? [],
+      note: v.note || undefined,
+      at: v.changed_at,
+    })),
+    tasksCompleted: 0,
+    currentTask: undefined,
+    uptime: 'live',
+    metrics: a.tool_access ? { tools: a.tool_access.length } : {},
+  };
+}
+
+// Agent id on a task → 'cea', the agent's id, or 'tiger' when no agent is set
+function taskPartyFor(agentId: string | null | undefined, agents: AgentRow[]): string {
+  const agent = agents.find(a => a.id === agentId);
+  if (!agent) return 'tiger';
+  return agent.handle === '@CEA' ? 'cea' : agent.id;
+}
+
+// Map Supabase tasks
+export function mapTask(t: TaskRow, agents: AgentRow[], projects: ProjectRow[]): Task {
+  const priorityMap: Record<number, Task['priority']> = { 1: 'critical', 2: 'high', 3: 'medium', 4: 'low', 5: 'low' };
+  const statusMap: Record<string, Task['status']> = { todo: 'pending', in_progress: 'in_progress', done: 'completed', failed: 'review' };
+  const project = projects.find(p => p.id === t.project_id);
+  const shortCode = project?.title?.match(/^PR\.(\w+)/)?.[1] || '';
+  return {
+    id: t.id,
+    title: t.description?.substring(0, 80) || 'Untitled',
+    description: t.description || '',
+    assignedTo: taskPartyFor(t.assigned_to, agents),
+    assignedBy: taskPartyFor(t.assigned_by, agents),
+    priority: priorityMap[t.priority ?? 3] || 'medium',
+    status: statusMap[t.status] || 'pending',
+    deadline: t.due_date || undefined,
+    completedAt: t.completed_at || undefined,
+    createdAt: t.created_at,
+    tags: [],
+    projectId: t.project_id || undefined,
+    projectName: project ? project.title.replace(/^PR\.\w+\s*\|\s*/, '') : undefined,
+    projectShortCode: shortCode || undefined,
+    parentTaskId: t.parent_task_id || undefined,
+    blockedBy: t.blocked_by?.length ? t.blocked_by : undefined,
+    recurrence: t.recurrence || undefined,
+    seriesId: t.series_id || undefined,
+    directiveId: t.directive_id || undefined,
+    statusHistory: t.status_history?.map(c => ({ status: statusMap[c.status] || 'pending', at: c.changed_at })),
+  };
+}
+
+// Review is written as in_progress (there's no column value for it), so a
+// row coming back as in_progress for a task that is in Review locally is that
+// same write echoing back: keep the card in Review.
+export function keepReview(incoming: Task, local?: Task): Task {
+  return local?.status === 'review' && incoming.status === 'in_progress' ? { ...incoming, status: 'review' } : incoming;
+}
+
+// Map Supabase projects
+export function mapProject(p: ProjectRow, departments: DepartmentRow[], tasks: TaskRow[]): Project {
+  const dept = departments.find(d => d.id === p.dept_id);
+  const projectTasks = tasks.filter(t => t.project_id === p.id);
+  const completedTasks = projectTasks.filter(t => t.status === 'done');
+  const shortCode = p.title.match(/^PR\.(\w+)/)?.[1] || p.title.substring(0, 4);
+  return {
+    id: p.id,
+    title: p.title,
+    shortCode,
+    description: p.description || undefined,
+    status: p.status || 'active',
+    department: dept?.name || 'Unknown',
+    departmentId: p.dept_id || undefined,
+    leadAgentId: p.lead_agent_id || undefined,
+    targetDate: p.target_date || undefined,
+    taskCount: projectTasks.length,
+    completedTaskCount: completedTasks.length,
+    notes: p.metadata?.notes || undefined,
+    createdAt: p.created_at,
+    parentProjectId: p.parent_project_id || undefined,
+  };
+}
+
+// Map Supabase goals
+export function mapGoal(g: GoalRow, agents: AgentRow[]): Goal {
+  const emojiMap: Record<string, string> = {
+    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
+    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️',
+  };
+  const ownerAgent = agents.find(a => a.id === g.owner_agent_id);
+  return {
+    id: g.id,
+    title: g.title,
+    description: g.description || undefined,
+    progress: g.progress || 0,
+    status: g.status || 'on-track',
+    ownerAgentId: g.owner_agent_id || undefined,
+    ownerName: ownerAgent?.functional_name || g.owner_name || 'Unassigned',
+    ownerEmoji: ownerAgent ? (emojiMap[ownerAgent.handle] || '🤖') : '🎯',
+    targetDate: g.target_date || undefined,
+    quarter: g.quarter || undefined,
+    // Older rows have no initiative ids; position keeps them stable enough
+    initiatives: (g.initiatives || []).map((i, index) => ({
+      id: i.id || `${g.id}-${index}`,
+      name: i.name,
+      status: i.status,
+      due: i.due,
+      projectId: i.project_id || undefined,
+      taskIds: i.task_ids ?? [],
+    })),
+    autoProgress: g.auto_progress ?? false,
+    keyResults: (g.key_results || []).map((kr, index) => ({
+      id: kr.id || `${g.id}-kr${index}`,
+      kpiId: kr.kpi_id,
+      title: kr.title || undefined,
+      startValue: kr.start_value,
+      targetValue: kr.target_value,
+      finalValue: kr.final_value ?? undefined,
+      score: kr.score ?? undefined,
+    })),
+    score: g.score ?? undefined,
+    rolledOverTo: g.rolled_over_to || undefined,
+  };
+}
+
+// Map Supabase activity
+export function mapActivity(a: ActivityRow): ActivityItem {
+  const emojiMap: Record<string, string> = {
+    '@CEA': '🧠', '@Chief_of_Staff': '📋', '@Editor_in_Chief': '✍️',
+    '@Growth_Lead': '📈', '@VP_of_Engineering': '⚙️', '@Tiger': '🐯',
+  };
+  const timeDiff = Date.now() - new Date(a.created_at).getTime();
+  const mins = Math.floor(timeDiff / 60000);
+  const timeStr = mins < 1 ? 'Just now' : mins < 60 ? `${mins}m ago` : `${Math.floor(mins / 60)}h ago`;
+  return {
+    id: a.id,
+    agent: a.agent_handle || 'System',
+    agentEmoji: (a.agent_handle && emojiMap[a.agent_handle]) || '🤖',
+    action: a.action,
+    detail: a.detail || '',
+    timestamp: timeStr,
+    type: a.action_type || 'task',
+    createdAt: a.created_at,
+    taskId: a.task_id || undefined,
+    projectId: a.project_id || undefined,
+    directiveId: a.directive_id || undefined,
+  };
+}
+
+// Map Supabase messages
+export function mapMessage(m: MessageRow): Message {
+  return {
+    id: m.id,
+    from: m.from_type === 'human' ? 'tiger' : 'cea',
+    fromName: m.from_name || (m.from_type === 'human' ? 'Tiger' : 'The CEA'),
+    content: m.content,
+    timestamp: new Date(m.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+    type: m.message_type || 'message',
+    threadId: m.thread_id ?? undefined,
+    directiveId: m.directive_id ?? undefined,
+  };
+}
+
+// Map cea-api chat threads
+export function mapThread(t: ThreadRow): ChatThread {
+  return {
+    id: t.id,
+    title: t.title,
+    context: t.context_type && t.context_id ? { type: t.context_type, id: t.context_id } : undefined,
+    archived: t.archived ?? false,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at ?? t.created_at,
+  };
+}
+
+// Map Supabase kpis
+// Rows with a history get change/trend from it rather than the stored columns
+export function mapKPI(k: KPIRow): KPI {
+  const history = (k.history ?? [])
+    .map(p => ({ value: p.value, recordedAt: p.recorded_at }))
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  return {
+    id: k.id,
+    label: k.label,
+    value: k.value,
+    numericValue: k.numeric_value ?? parseKPIValue(k.value) ?? 0,
+    ...(history.length > 1 ? kpiChange(history) : { change: k.change_percent ?? 0, trend: k.trend || 'stable' }),
+    category: k.category || '',
+    history,
+  };
+}
+
+// Map Supabase feature_requests
+export function mapFeatureRequest(fr: FeatureRequestRow): FeatureRequest {
+  return {
+    id: fr.id,
+    title: fr.title,
+    description: fr.description || undefined,
+    screenshotUrl: fr.screenshot_url || undefined,
+    sourceView: fr.source_view || undefined,
+    status: fr.status || 'new',
+    priority: fr.priority || 'medium',
+    createdAt: fr.created_at,
+    updatedAt: fr.updated_at,
+  };
+}
+
+// Map Supabase directives
+export function mapDirective(d: DirectiveRow): Directive {
+  return {
+    id: d.id,
+    title: d.title,
+    type: d.directive_type,
+    content: d.content,
+    targetAgentId: d.target_agent_id || undefined,
+    priority: d.priority || 'medium',
+    status: d.status || 'pending',
+    acknowledgedBy: d.acknowledged_by || undefined,
+    acknowledgedAt: d.acknowledged_at || undefined,
+    createdAt: d.created_at,
+  };
+}
+
+// Map Supabase tools
+export function mapTool(t: ToolRow): ToolDefinition {
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description || '',
+    risk: t.risk,
+    scopes: t.scopes || [],
+  };
+}
+
+// Map Supabase departments
+export function mapDepartment(d: DepartmentRow): Department {
+  return { id: d.id, name: d.name };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown, safeHref } from './markdown';
+
+describe('safeHref', () => {
+  it.each([
+    ['https://example.com/a?b=c', 'https://example.com/a?b=c'],
+    ['HTTP://EXAMPLE.COM', 'HTTP://EXAMPLE.COM'],
+    ['  mailto:sage@example.com ', 'mailto:sage@example.com'],
+    ['tel:+15551234', 'tel:+15551234'],
+    ['#/projects/p1', '#/projects/p1'],
+    ['www.example.com', 'https://www.example.com'],
+  ])('allows %s', (href, expected) => {
+    expect(safeHref(href)).toBe(expected);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    'java\nscript:alert(1)',
+    ' \tjavascript:alert(1)',
+    'java\u0000script:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox',
+    'file:///etc/passwd',
+    '//evil.example.com',
+    '/relative/path',
+    'ftp://example.com',
+    '',
+  ])('rejects %j', href => {
+    expect(safeHref(href)).toBeNull();
+  });
+});
+
+describe('parseInline', () => {
+  it('nests emphasis inside links and links inside emphasis', () => {
+    expect(parseInline('**[a *b*](https://x.io)**')).toEqual([
+      { type: 'strong', children: [{ type: 'link', href: 'https://x.io', title: undefined, children: [{ type: 'text', value: 'a ' }, { type: 'em', children: [{ type: 'text', value: 'b' }] }] }] },
+    ]);
+    expect(parseInline('***both***')).toEqual([{ type: 'em', children: [{ type: 'strong', children: [{ type: 'text', value: 'both' }] }] }]);
+  });
+
+  it('follows the rule of 3 and leaves unmatched delimiters as text', () => {
+    expect(parseInline('*foo**bar*')).toEqual([{ type: 'em', children: [{ type: 'text', value: 'foo**bar' }] }]);
+    expect(parseInline('**open')).toEqual([{ type: 'text', value: '**open' }]);
+    expect(parseInline('~strike~ ~~both~~ ~~~three~~~')).toEqual([
+      { type: 'strike', children: [{ type: 'text', value: 'strike' }] },
+      { type: 'text', value: ' ' },
+      { type: 'strike', children: [{ type: 'text', value: 'both' }] },
+      { type: 'text', value: ' ~~~three~~~' },
+    ]);
+  });
+
+  it('keeps snake_case literal', () => {
+    expect(parseInline('snake_case_name and _em_')).toEqual([
+      { type: 'text', value: 'snake_case_name and ' },
+      { type: 'em', children: [{ type: 'text', value: 'em' }] },
+    ]);
+  });
+
+  it('honours backslash escapes', () => {
+    expect(parseInline('\\*not em\\* \\[not](a link) \\`code\\`')).toEqual([{ type: 'text', value: '*not em* [not](a link) `code`' }]);
+    expect(parseInline('C:\\path')).toEqual([{ type: 'text', value: 'C:\\path' }]);
+  });
+
+  it('keeps markdown and HTML inside code spans as written', () => {
+    expect(parseInline('`` a `*b*` <i> ``')).toEqual([{ type: 'code', value: 'a `*b*` <i>' }]);
+    expect(parseInline('`unclosed *em*')).toEqual([{ type: 'text', value: '`unclosed ' }, { type: 'em', children: [{ type: 'text', value: 'em' }] }]);
+  });
+
+  it('leaves raw HTML as text', () => {
+    expect(parseInline('<script>alert(1)</script>')).toEqual([{ type: 'text', value: '<script>alert(1)</script>' }]);
+  });
+
+  it('drops unsafe link targets but keeps the label', () => {
+    expect(parseInline('[click *me*](javascript:alert(1))')).toEqual([
+      { type: 'text', value: 'click ' },
+      { type: 'em', children: [{ type: 'text', value: 'me' }] },
+    ]);
+    expect(parseInline('<javascript:alert(1)>')).toEqual([{ type: 'text', value: '<javascript:alert(1)>' }]);
+  });
+
+  it('parses titles, angle destinations, balanced parens and images', () => {
+    expect(parseInline('[wiki](https://en.wikipedia.org/wiki/Foo_(bar) "Foo")')).toEqual([
+      { type: 'link', href: 'https://en.wikipedia.org/wiki/Foo_(bar)', title: 'Foo', children: [{ type: 'text', value: 'wiki' }] },
+    ]);
+    expect(parseInline('[a](<https://x.io/a b>)')).toMatchObject([{ type: 'link', href: 'https://x.io/a b' }]);
+    expect(parseInline('![chart](https://x.io/c.png)')).toEqual([
+      { type: 'link', href: 'https://x.io/c.png', title: undefined, children: [{ type: 'text', value: '🖼 chart' }] },
+    ]);
+  });
+
+  it('links autolinks, emails and bare URLs without trailing punctuation', () => {
+    expect(parseInline('<sage@example.com>')).toMatchObject([{ type: 'link', href: 'mailto:sage@example.com' }]);
+    expect(parseInline('See https://x.io/a_(b)). Or www.x.io, then')).toEqual([
+      { type: 'text', value: 'See ' },
+      { type: 'link', href: 'https://x.io/a_(b)', children: [{ type: 'text', value: 'https://x.io/a_(b)' }] },
+      { type: 'text', value: '). Or ' },
+      { type: 'link', href: 'https://www.x.io', children: [{ type: 'text', value: 'www.x.io' }] },
+      { type: 'text', value: ', then' },
+    ]);
+  });
+
+  it('turns newlines into breaks', () => {
+    expect(parseInline('a\nb')).toEqual([{ type: 'text', value: 'a' }, { type: 'break' }, { type: 'text', value: 'b' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses headings, rules and paragraphs', () => {
+    expect(parseMarkdown('# Title #\n\ntext\n\n---')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', value: 'Title' }] },
+      { type: 'paragraph', children: [{ type: 'text', value: 'text' }] },
+      { type: 'hr' },
+    ]);
+  });
+
+  it('keeps fenced code verbatim and runs an unclosed fence to the end', () => {
+    expect(parseMarkdown('```ts\nconst a = *b*;\n```')).toEqual([{ type: 'code', lang: 'ts', value: 'const a = *b*;' }]);
+    expect(parseMarkdown('~~~\nstill\nstreaming')).toEqual([{ type: 'code', lang: '', value: 'still\nstreaming' }]);
+  });
+
+  it('nests lists, task items and quotes', () => {
+    const [list] = parseMarkdown('- [x] done\n- [ ] todo\n  1. first\n  2. second');
+    expect(list).toMatchObject({
+      type: 'list', ordered: false, tight: true,
+      items: [
+        { checked: true, children: [{ type: 'paragraph' }] },
+        { checked: false, children: [{ type: 'paragraph' }, { type: 'list', ordered: true, start: 1, items: [{}, {}] }] },
+      ],
+    });
+    expect(parseMarkdown('> quote\n> > nested')).toMatchObject([
+      { type: 'quote', children: [{ type: 'paragraph' }, { type: 'quote', children: [{ type: 'paragraph' }] }] },
+    ]);
+  });
+
+  it('parses tables with alignment and escaped pipes', () => {
+    expect(parseMarkdown('| a | b |\n|:--|--:|\n| x \\| y | **z** |')).toEqual([{
+      type: 'table',
+      align: ['left', 'right'],
+      head: [[{ type: 'text', value: 'a' }], [{ type: 'text', value: 'b' }]],
+      rows: [[[{ type: 'text', value: 'x | y' }], [{ type: 'strong', children: [{ type: 'text', value: 'z' }] }]]],
+    }]);
+  });
+
+  it('returns nothing for blank input', () => {
+    expect(parseMarkdown('  \n\n')).toEqual([]);
+  });
+});
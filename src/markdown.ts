@@ -0,0 +1,716 @@
+// Markdown for CEA and agent output, parsed into a small AST that
+// components/Markdown.tsx renders as React elements. Nothing is ever injected
+// as HTML: raw tags stay text, and links survive only with a safe URL.
+//
+// Supported: paragraphs (single newlines are line breaks, as in chat),
+// ATX headings, fenced code, block quotes, nested bullet/ordered lists,
+// task lists (`- [x]`), GFM tables with alignment, horizontal rules, and
+// inline code, **strong**, *em*, ~~strike~~, [links](url), <autolinks> and
+// bare URLs. An unterminated code fence runs to the end, so a reply that is
+// still streaming renders its partial code block.
+
+// ============ AST ============
+
+export type Inline =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'em' | 'strike'; children: Inline[] }
+  | { type: 'link'; href: string; title?: string; children: Inline[] };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  checked: boolean | null;   // null unless it's a task list item
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: ListItem[] }
+  | { type: 'table'; align: Align[]; head: Inline[][]; rows: Inline[][][] }
+  | { type: 'hr' };
+
+// ============ BLOCKS ============
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const HR = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TASK = /^\[([ xX])\](?:[ \t]+|$)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+export function parseMarkdown(text: string): Block[] {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length)));
+  return parseBlocks(lines);
+}
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+function openFence(line: string) {
+  const match = line.match(FENCE);
+  if (!match) return null;
+  const [, indent, marker, info] = match;
+  // Backtick fences can't have backticks in the info string (that's inline code)
+  if (marker[0] === '`' && info.includes('`')) return null;
+  return { indent: indent.length, marker, lang: info.trim().split(/\s+/)[0].toLowerCase() };
+}
+
+function closesFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return indentOf(line) < 4 && trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+}
+
+function listMarker(line: string) {
+  if (HR.test(line)) return null;
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+  const [, indent, marker, spaces = '', content = ''] = match;
+  const ordered = /\d/.test(marker);
+  return {
+    ordered,
+    start: ordered ? parseInt(marker, 10) : 1,
+    delimiter: marker[marker.length - 1],
+    // Continuation lines indented to the content column belong to the item
+    contentIndent: indent.length + marker.length + (spaces.length === 0 || spaces.length > 4 ? 1 : spaces.length),
+    content: spaces.length > 4 ? spaces.slice(1) + content : content,
+  };
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  const head = lines[i];
+  const delimiter = lines[i + 1];
+  return delimiter !== undefined && head.includes('|') && delimiter.includes('|')
+    && TABLE_DELIMITER.test(delimiter) && splitRow(head).length === splitRow(delimiter).length;
+}
+
+// Lines that end a paragraph (or a lazy list/quote continuation)
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  const item = listMarker(line);
+  return Boolean(openFence(line)) || HEADING.test(line) || HR.test(line) || QUOTE.test(line)
+    || (item !== null && item.content.trim() !== '') || isTableStart(lines, i);
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = openFence(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !closesFence(lines[i], fence.marker)) {
+        // Strip up to the fence's own indentation
+        body.push(lines[i].slice(Math.min(fence.indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: fence.lang, value: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const fit = (cells: string[]) => align.map((_, c) => parseInline(cells[c] ?? ''));
+      const head = fit(splitRow(lines[i]));
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+        rows.push(fit(splitRow(lines[i])));
+        i++;
+      }
+      blocks.push({ type: 'table', align, head, rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length) {
+        const quoted = lines[i].match(QUOTE);
+        if (quoted) {
+          body.push(quoted[1]);
+        } else if (lines[i].trim() && body[body.length - 1]?.trim() && !startsBlock(lines, i)) {
+          body.push(lines[i]);   // lazy continuation of a quoted paragraph
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(body) });
+      continue;
+    }
+
+    const item = listMarker(line);
+    if (item) {
+      const [list, next] = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function parseList(lines: string[], start: number): [Block, number] {
+  const first = listMarker(lines[start])!;
+  const items: ListItem[] = [];
+  let tight = true;
+  let i = start;
+
+  while (i < lines.length) {
+    const item = listMarker(lines[i]);
+    if (!item || item.ordered !== first.ordered || item.delimiter !== first.delimiter) break;
+
+    const body = [item.content];
+    i++;
+    while (i < lines.length) {
+      const next = lines[i];
+      if (!next.trim()) {
+        body.push('');
+      } else if (indentOf(next) >= item.contentIndent) {
+        body.push(next.slice(item.contentIndent));
+      } else if (body[body.length - 1].trim() && !startsBlock(lines, i)) {
+        body.push(next.trim());   // lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    // Blank lines after the item separate it from the next one
+    let blanks = 0;
+    while (body.length > 1 && !body[body.length - 1].trim()) {
+      body.pop();
+      blanks++;
+    }
+    if (body.some((l, n) => n > 0 && !l.trim())) tight = false;
+
+    let checked: boolean | null = null;
+    const task = body[0].match(TASK);
+    if (task) {
+      checked = task[1] !== ' ';
+      body[0] = body[0].slice(task[0].length);
+    }
+    items.push({ checked, children: parseBlocks(body) });
+
+    if (blanks > 0) {
+      const next = i < lines.length ? listMarker(lines[i]) : null;
+      if (!next || next.ordered !== first.ordered || next.delimiter !== first.delimiter) break;
+      tight = false;
+    }
+  }
+
+  return [{ type: 'list', ordered: first.ordered, start: first.start, tight, items }, i];
+}
+
+// ============ TABLES ============
+
+// Cells of a table row; pipes inside inline code or escaped as \| don't split
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      if (ch === '`') inCode = !inCode;
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(cell: string): Align {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+// ============ INLINE ============
+
+interface Delimiter {
+  type: 'delimiter';
+  char: string;
+  count: number;     // still unmatched
+  length: number;    // of the original run
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type Token = Inline | Delimiter;
+
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const WHITESPACE = /\s/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]+/i;
+const AUTOLINK = /^<((?:https?|mailto|tel):[^\s<>]+)>/i;
+const EMAIL_AUTOLINK = /^<([^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/;
+
+// Only these schemes become links; in-app `#/…` routes are allowed too
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  // Browsers ignore whitespace and control characters inside a scheme ("java\nscript:")
+  const probe = [...trimmed].filter(c => c.charCodeAt(0) > 0x20 && c.charCodeAt(0) !== 0x7f).join('').toLowerCase();
+  if (/^(?:https?:\/\/|mailto:|tel:)/.test(probe)) return trimmed;
+  if (probe.startsWith('#')) return trimmed;
+  if (probe.startsWith('www.')) return `https://${trimmed}`;
+  return null;
+}
+
+export function parseInline(source: string): Inline[] {
+  return resolveEmphasis(tokenize(source, true));
+}
+
+const runLength = (src: string, at: number, ch: string) => {
+  let end = at;
+  while (src[end] === ch) end++;
+  return end - at;
+};
+
+// Start of the closing backtick run of exactly `length`, or -1
+function closingBackticks(src: string, from: number, length: number): number {
+  let at = src.indexOf('`', from);
+  while (at >= 0) {
+    const run = runLength(src, at, '`');
+    if (run === length) return at;
+    at = src.indexOf('`', at + run);
+  }
+  return -1;
+}
+
+function tokenize(src: string, allowLinks: boolean): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) tokens.push({ type: 'text', value: text });
+    text = '';
+  };
+  const pushLink = (href: string, children: Inline[], title?: string) => {
+    flush();
+    const safe = safeHref(href);
+    if (safe) tokens.push({ type: 'link', href: safe, title, children });
+    else tokens.push(...children);   // unsafe URL: keep the label as plain content
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === '\\' && i + 1 < src.length && ESCAPABLE.test(src[i + 1])) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      tokens.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = runLength(src, i, '`');
+      const close = closingBackticks(src, i + run, run);
+      if (close < 0) {
+        text += '`'.repeat(run);
+        i += run;
+        continue;
+      }
+      let code = src.slice(i + run, close).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) code = code.slice(1, -1);
+      flush();
+      tokens.push({ type: 'code', value: code });
+      i = close + run;
+      continue;
+    }
+
+    if (allowLinks && (ch === '[' || (ch === '!' && src[i + 1] === '['))) {
+      const link = parseLink(src, ch === '!' ? i + 1 : i);
+      if (link) {
+        // Images are shown as links to the image; nothing is loaded inline
+        const children = resolveEmphasis(tokenize(link.label, false));
+        pushLink(link.href, ch === '!' ? [{ type: 'text', value: `🖼 ${link.label || 'image'}` }] : children, link.title);
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (allowLinks && ch === '<') {
+      const rest = src.slice(i);
+      const auto = rest.match(AUTOLINK);
+      const email = auto ? null : rest.match(EMAIL_AUTOLINK);
+      if (auto || email) {
+        const target = (auto ?? email)![1];
+        pushLink(auto ? target : `mailto:${target}`, [{ type: 'text', value: target }]);
+        i += (auto ?? email)![0].length;
+        continue;
+      }
+    }
+
+    if (allowLinks && (ch === 'h' || ch === 'H' || ch === 'w' || ch === 'W') && (i === 0 || /[\s(*_~]/.test(src[i - 1]))) {
+      const url = src.slice(i).match(BARE_URL);
+      if (url) {
+        const value = trimUrl(url[0]);
+        pushLink(value, [{ type: 'text', value }]);
+        i += value.length;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const run = runLength(src, i, ch);
+      if (ch === '~' && run > 2) {
+        text += ch.repeat(run);
+        i += run;
+        continue;
+      }
+      // Flanking rules (CommonMark): line edges count as whitespace
+      const before = i > 0 ? src[i - 1] : ' ';
+      const after = src[i + run] ?? ' ';
+      const leftFlanking = !WHITESPACE.test(after)
+        && (!PUNCTUATION.test(after) || WHITESPACE.test(before) || PUNCTUATION.test(before));
+      const rightFlanking = !WHITESPACE.test(before)
+        && (!PUNCTUATION.test(before) || WHITESPACE.test(after) || PUNCTUATION.test(after));
+      // snake_case stays literal: `_` can't open or close inside a word
+      const canOpen = ch === '_' ? leftFlanking && (!rightFlanking || PUNCTUATION.test(before)) : leftFlanking;
+      const canClose = ch === '_' ? rightFlanking && (!leftFlanking || PUNCTUATION.test(after)) : rightFlanking;
+      flush();
+      tokens.push({ type: 'delimiter', char: ch, count: run, length: run, canOpen, canClose });
+      i += run;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+
+  flush();
+  return tokens;
+}
+
+// Trailing punctuation and unbalanced closing parens aren't part of a bare URL
+function trimUrl(url: string): string {
+  let end = url.length;
+  for (;;) {
+    const last = url[end - 1];
+    if (/[.,:;!?'"*_~]/.test(last)) {
+      end--;
+    } else if (last === ')') {
+      const slice = url.slice(0, end);
+      if (slice.split('(').length >= slice.split(')').length) break;
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+// `[label](destination "title")` starting at `start`, or null
+function parseLink(src: string, start: number): { label: string; href: string; title?: string; end: number } | null {
+  let depth = 0;
+  let j = start;
+  for (; j < src.length; j++) {
+    const c = src[j];
+    if (c === '\\') {
+      j++;
+    } else if (c === '`') {
+      const run = runLength(src, j, '`');
+      const close = closingBackticks(src, j + run, run);
+      j = (close < 0 ? j : close) + run - 1;
+    } else if (c === '[') {
+      depth++;
+    } else if (c === ']' && --depth === 0) {
+      break;
+    }
+  }
+  if (j >= src.length || src[j + 1] !== '(') return null;
+  const label = src.slice(start + 1, j);
+
+  let k = j + 2;
+  while (src[k] === ' ') k++;
+  let href: string;
+  if (src[k] === '<') {
+    const close = src.indexOf('>', k);
+    if (close < 0) return null;
+    href = src.slice(k + 1, close);
+    if (/[\n<]/.test(href)) return null;
+    k = close + 1;
+  } else {
+    const from = k;
+    let parens = 0;
+    for (; k < src.length; k++) {
+      const c = src[k];
+      if (c === '\\' && k + 1 < src.length) {
+        k++;
+      } else if (WHITESPACE.test(c)) {
+        break;
+      } else if (c === '(') {
+        parens++;
+      } else if (c === ')') {
+        if (parens === 0) break;
+        parens--;
+      }
+    }
+    href = src.slice(from, k);
+  }
+
+  while (src[k] === ' ') k++;
+  let title: string | undefined;
+  if (src[k] === '"' || src[k] === "'") {
+    const close = src.indexOf(src[k], k + 1);
+    if (close < 0) return null;
+    title = src.slice(k + 1, close);
+    k = close + 1;
+    while (src[k] === ' ') k++;
+  }
+  if (src[k] !== ')') return null;
+
+  return { label, href: href.replace(/\\([!-/:-@[-`{-~])/g, '$1'), title, end: k + 1 };
+}
+
+// Pairs emphasis delimiters the CommonMark way: each closer takes the nearest
+// compatible opener, `**` wins over `*` when both sides have two, and
+// anything left unmatched is literal text
+function resolveEmphasis(tokens: Token[]): Inline[] {
+  let c = 0;
+  while (c < tokens.length) {
+    const closer = tokens[c];
+    if (closer.type !== 'delimiter' || !closer.canClose || closer.count === 0) {
+      c++;
+      continue;
+    }
+
+    let o = c - 1;
+    for (; o >= 0; o--) {
+      const opener = tokens[o];
+      if (opener.type !== 'delimiter' || opener.char !== closer.char || !opener.canOpen || opener.count === 0) continue;
+      if (closer.char === '~') {
+        if (opener.count === closer.count) break;
+        continue;
+      }
+      // "Rule of 3": `*foo**bar*` must not pair the `**` with a `*`
+      const both = opener.canClose || closer.canOpen;
+      if (!both || (opener.length + closer.length) % 3 !== 0 || (opener.length % 3 === 0 && closer.length % 3 === 0)) break;
+    }
+    if (o < 0) {
+      c++;
+      continue;
+    }
+
+    const opener = tokens[o] as Delimiter;
+    const use = closer.char === '~' ? closer.count : Math.min(2, opener.count, closer.count);
+    const type = closer.char === '~' ? 'strike' : use === 2 ? 'strong' : 'em';
+    const node: Inline = { type, children: finish(tokens.slice(o + 1, c)) };
+    opener.count -= use;
+    closer.count -= use;
+    tokens.splice(o + 1, c - o - 1, node);
+    c = o + 2;
+    if (opener.count === 0) {
+      tokens.splice(o, 1);
+      c--;
+    }
+  }
+  return finish(tokens);
+}
+
+// Unmatched delimiters become text; adjacent text merges
+function finish(tokens: Token[]): Inline[] {
+  const out: Inline[] = [];
+  for (const token of tokens) {
+    const node: Inline = token.type === 'delimiter' ? { type: 'text', value: token.char.repeat(token.count) } : token;
+    const last = out[out.length - 1];
+    if (node.type === 'text') {
+      if (!node.value) continue;
+      if (last?.type === 'text') {
+        out[out.length - 1] = { type: 'text', value: last.value + node.value };
+        continue;
+      }
+    }
+    out.push(node);
+  }
+  return out;
+}
+
+// ============ CODE HIGHLIGHTING ============
+
+export type CodeTokenKind = 'keyword' | 'literal' | 'string' | 'number' | 'comment' | 'plain';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  value: string;
+}
+
+interface Grammar {
+  keywords: string[];
+  literals: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  caseInsensitive?: boolean;
+}
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    keywords: ['as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'private', 'public', 'readonly', 'return', 'static', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'],
+    literals: ['true', 'false', 'null', 'undefined', 'this', 'NaN', 'Infinity'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+  },
+  json: {
+    keywords: [],
+    literals: ['true', 'false', 'null'],
+    lineComments: [],
+    quotes: ['"'],
+  },
+  python: {
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'],
+    literals: ['True', 'False', 'None', 'self'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: ['select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'alter', 'drop', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'offset', 'as', 'distinct', 'union', 'all', 'case', 'when', 'then', 'else', 'end', 'in', 'is', 'like', 'returning', 'primary', 'key', 'references', 'default'],
+    literals: ['null', 'true', 'false'],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+  },
+  shell: {
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'in', 'function', 'return', 'export', 'local', 'echo', 'cd', 'npm', 'npx', 'git', 'node'],
+    literals: ['true', 'false'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  yaml: {
+    keywords: [],
+    literals: ['true', 'false', 'null', 'yes', 'no'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', tsx: 'js', typescript: 'js', mjs: 'js',
+  py: 'python', sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', yml: 'yaml', postgres: 'sql', postgresql: 'sql',
+};
+
+// Plain text for unknown languages
+export function highlightCode(code: string, lang: string): CodeToken[] {
+  const grammar = GRAMMARS[LANGUAGE_ALIASES[lang] ?? lang];
+  if (!grammar) return [{ kind: 'plain', value: code }];
+
+  const fold = (word: string) => (grammar.caseInsensitive ? word.toLowerCase() : word);
+  const keywords = new Set(grammar.keywords);
+  const literals = new Set(grammar.literals);
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) last.value += value;
+    else tokens.push({ kind, value });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+
+    const lineComment = grammar.lineComments.find(marker => code.startsWith(marker, i));
+    if (lineComment && (lineComment !== '#' || i === 0 || /\s/.test(code[i - 1]))) {
+      const end = code.indexOf('\n', i);
+      const stop = end < 0 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (grammar.blockComment && code.startsWith(grammar.blockComment[0], i)) {
+      const end = code.indexOf(grammar.blockComment[1], i + grammar.blockComment[0].length);
+      const stop = end < 0 ? code.length : end + grammar.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (grammar.quotes.includes(ch)) {
+      let j = i + 1;
+      // Only template literals span lines
+      while (j < code.length && code[j] !== ch && (ch === '`' || code[j] !== '\n')) {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(j + 1, code.length);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (/\d/.test(ch) && !/[\w$]/.test(code[i - 1] ?? '')) {
+      const number = code.slice(i).match(/^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i)![0];
+      push('number', number);
+      i += number.length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const word = code.slice(i).match(/^[\w$]+/)![0];
+      push(keywords.has(fold(word)) ? 'keyword' : literals.has(fold(word)) ? 'literal' : 'plain', word);
+      i += word.length;
+      continue;
+    }
+
+    push('plain', ch);
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { goalQuarter, goalScore, keyResultProgress, quarterOf, rolloverGoal, shiftQuarter, suggestScore } from './okrs';
+import { goal, kpi } from './test/factories';
+import type { KeyResult } from './types';
+
+const kr = (overrides: Partial<KeyResult> = {}): KeyResult => ({ id: 'kr-1', kpiId: 'kpi-1', startValue: 100, targetValue: 200, ...overrides });
+
+describe('quarters', () => {
+  it('names the quarter of a date and steps across years', () => {
+    expect(quarterOf(new Date(2026, 9, 18))).toBe('Q4-2026');
+    expect(shiftQuarter('Q4-2026', 1)).toBe('Q1-2027');
+    expect(shiftQuarter('Q1-2026', -1)).toBe('Q4-2025');
+    expect(shiftQuarter('someday', 1)).toBe('someday');
+  });
+
+  it('puts goals from before quarters existed in the current one', () => {
+    expect(goalQuarter(goal({ quarter: 'Q3-2026' }), 'Q4-2026')).toBe('Q3-2026');
+    expect(goalQuarter(goal(), 'Q4-2026')).toBe('Q4-2026');
+  });
+});
+
+describe('key result scoring', () => {
+  it('measures the way from start to target, either direction', () => {
+    expect(keyResultProgress(kr(), 150)).toBe(0.5);
+    expect(keyResultProgress(kr(), 250)).toBe(1);
+    expect(keyResultProgress(kr(), 50)).toBe(0);
+    expect(keyResultProgress(kr({ startValue: 8, targetValue: 4 }), 5)).toBe(0.75);
+    expect(keyResultProgress(kr({ startValue: 4, targetValue: 4 }), 4)).toBe(1);
+  });
+
+  it('suggests a score from the last reading of the quarter', () => {
+    const members = kpi({
+      numericValue: 400,
+      history: [
+        { value: 120, recordedAt: new Date(2026, 8, 1).toISOString() },
+        { value: 163, recordedAt: new Date(2026, 8, 30, 23).toISOString() },
+        { value: 400, recordedAt: new Date(2026, 9, 2).toISOString() },
+      ],
+    });
+    expect(suggestScore(kr(), [members], 'Q3-2026')).toEqual({ score: 0.6, finalValue: 163 });
+    expect(suggestScore(kr(), [], 'Q3-2026')).toBeNull();
+  });
+
+  it('averages scored KRs, falling back to progress', () => {
+    expect(goalScore(goal({ keyResults: [kr({ score: 0.5 }), kr({ score: 1 }), kr()] }))).toBe(0.8);
+    expect(goalScore(goal({ progress: 64 }))).toBe(0.6);
+  });
+});
+
+describe('rolloverGoal', () => {
+  const members = kpi({ numericValue: 150 });
+  const unfinished = goal({
+    id: 'g1',
+    quarter: 'Q3-2026',
+    targetDate: '2026-09-30',
+    keyResults: [kr({ id: 'grow' }), kr({ id: 'met', targetValue: 150 })],
+    initiatives: [
+      { id: 'open', name: 'Open', status: 'in-progress', due: '', taskIds: ['t1'] },
+      { id: 'done', name: 'Done', status: 'completed', due: '', taskIds: [] },
+    ],
+  });
+
+  it('carries unmet KRs from the KPI’s current value and open initiatives', () => {
+    const next = rolloverGoal(unfinished, [members], 'Q4-2026');
+    expect(next.quarter).toBe('Q4-2026');
+    expect(next.keyResults).toEqual([{ id: 'grow-Q4-2026', kpiId: 'kpi-1', title: undefined, startValue: 150, targetValue: 200 }]);
+    expect(next.initiatives.map(i => [i.id, i.taskIds])).toEqual([['open-Q4-2026', ['t1']]]);
+  });
+
+  it('moves a target date that has passed to the end of the new quarter', () => {
+    expect(rolloverGoal(unfinished, [members], 'Q4-2026').targetDate).toBe('2026-12-31');
+    expect(rolloverGoal({ ...unfinished, targetDate: '2027-01-15' }, [members], 'Q4-2026').targetDate).toBe('2027-01-15');
+  });
+});
@@ -0,0 +1,155 @@
+import type { Goal, GoalInitiative, KeyResult, KPI } from './types';
+import type { KeyResultRow } from './schemas';
+
+// Goals are planned per quarter ("Q1-2026") as objectives with key results.
+// A key result moves one KPI from its value when the KR was set to a target;
+// at the end of the quarter each KR is scored 0–1 from the KPI's reading on
+// the last day, and the goal's score is their average. Unfinished goals can
+// be rolled over: a copy lands in the next quarter with what's left to do.
+
+const QUARTER = /^Q([1-4])-(\d{4})$/;
+
+export function quarterOf(date = new Date()): string {
+  return `Q${Math.floor(date.getMonth() / 3) + 1}-${date.getFullYear()}`;
+}
+
+export const isQuarter = (value: string | undefined): value is string => !!value && QUARTER.test(value);
+
+// Q4-2026 + 1 → Q1-2027
+export function shiftQuarter(quarter: string, delta: number): string {
+  const match = quarter.match(QUARTER);
+  if (!match) return quarter;
+  const index = Number(match[2]) * 4 + Number(match[1]) - 1 + delta;
+  return `Q${(index % 4) + 1}-${Math.floor(index / 4)}`;
+}
+
+// First and last moment of the quarter, local time
+export function quarterRange(quarter: string): { start: number; end: number } | null {
+  const match = quarter.match(QUARTER);
+  if (!match) return null;
+  const year = Number(match[2]);
+  const month = (Number(match[1]) - 1) * 3;
+  return { start: new Date(year, month, 1).getTime(), end: new Date(year, month + 3, 1).getTime() - 1 };
+}
+
+export const quarterStart = (quarter?: string) => (quarter ? quarterRange(quarter)?.start : null) ?? null;
+
+// "Q1-2026" → "Q1 2026"
+export const formatQuarter = (quarter: string) => quarter.replace('-', ' ');
+
+// "2026-03-31", for target dates
+export function quarterEndDate(quarter: string): string | undefined {
+  const range = quarterRange(quarter);
+  if (!range) return undefined;
+  const d = new Date(range.end);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Goals from before quarters existed belong to whichever quarter is current
+export const goalQuarter = (goal: Goal, current: string) => goal.quarter ?? current;
+
+// ============ KEY RESULTS ============
+
+export const newKeyResult = (kpi: KPI, targetValue: number): KeyResult => ({
+  id: `kr-${Date.now().toString(36)}`,
+  kpiId: kpi.id,
+  startValue: kpi.numericValue,
+  targetValue,
+});
+
+export const keyResultRow = (kr: KeyResult): KeyResultRow => ({
+  id: kr.id,
+  kpi_id: kr.kpiId,
+  title: kr.title ?? null,
+  start_value: kr.startValue,
+  target_value: kr.targetValue,
+  final_value: kr.finalValue ?? null,
+  score: kr.score ?? null,
+});
+
+// Share of the way from start to target, 0–1. Works for targets below the
+// start too (e.g. bringing churn down).
+export function keyResultProgress(kr: KeyResult, value: number): number {
+  const span = kr.targetValue - kr.startValue;
+  if (span === 0) return value === kr.targetValue ? 1 : 0;
+  return Math.min(1, Math.max(0, (value - kr.startValue) / span));
+}
+
+// Last reading at or before `time`; the current value when there's no history
+export function kpiValueAt(kpi: KPI, time: number): number {
+  const readings = kpi.history.filter(p => new Date(p.recordedAt).getTime() <= time);
+  return readings.length ? readings[readings.length - 1].value : kpi.numericValue;
+}
+
+// Where the KR stands: its final value once scored, else the KPI's
+export function keyResultValue(kr: KeyResult, kpis: KPI[]): number | null {
+  if (kr.finalValue !== undefined) return kr.finalValue;
+  const kpi = kpis.find(k => k.id === kr.kpiId);
+  return kpi ? kpi.numericValue : null;
+}
+
+const roundScore = (score: number) => Math.round(score * 10) / 10;
+
+// Suggested end-of-quarter score: progress as of the quarter's last day
+export function suggestScore(kr: KeyResult, kpis: KPI[], quarter: string): { score: number; finalValue: number } | null {
+  const kpi = kpis.find(k => k.id === kr.kpiId);
+  const range = quarterRange(quarter);
+  if (!kpi) return null;
+  const finalValue = range ? kpiValueAt(kpi, range.end) : kpi.numericValue;
+  return { score: roundScore(keyResultProgress(kr, finalValue)), finalValue };
+}
+
+// Average of the KR scores; a goal without KRs scores its progress
+export function goalScore(goal: Goal, keyResults = goal.keyResults): number {
+  const scored = keyResults.filter(kr => kr.score !== undefined);
+  if (!scored.length) return roundScore(goal.progress / 100);
+  return roundScore(scored.reduce((sum, kr) => sum + kr.score!, 0) / scored.length);
+}
+
+// OKR convention: 0.7 and up is a success
+export function scoreTone(score: number): string {
+  if (score >= 0.7) return 'text-emerald-400 bg-emerald-500/15';
+  if (score >= 0.4) return 'text-amber-400 bg-amber-500/15';
+  return 'text-red-400 bg-red-500/15';
+}
+
+// ============ ROLLOVER ============
+
+export const isUnfinished = (goal: Goal) => goal.progress < 100 && !goal.rolledOverTo;
+
+// The copy of `goal` for the next quarter: unmet KRs restart from the KPI's
+// current value, open initiatives come along, and a target date that would
+// fall before the new quarter moves to its end.
+export function rolloverGoal(goal: Goal, kpis: KPI[], toQuarter: string): {
+  title: string;
+  description?: string;
+  ownerAgentId?: string;
+  targetDate?: string;
+  quarter: string;
+  keyResults: KeyResult[];
+  initiatives: GoalInitiative[];
+} {
+  const start = quarterStart(toQuarter);
+  const keyResults = goal.keyResults
+    .filter(kr => {
+      const value = keyResultValue(kr, kpis);
+      return value === null || keyResultProgress(kr, value) < 1;
+    })
+    .map(kr => {
+      const kpi = kpis.find(k => k.id === kr.kpiId);
+      return { id: `${kr.id}-${toQuarter}`, kpiId: kr.kpiId, title: kr.title, startValue: kpi?.numericValue ?? kr.startValue, targetValue: kr.targetValue };
+    });
+  const targetTime = goal.targetDate ? new Date(goal.targetDate).getTime() : null;
+
+  return {
+    title: goal.title,
+    description: goal.description,
+    ownerAgentId: goal.ownerAgentId,
+    targetDate: targetTime !== null && start !== null && targetTime < start ? quarterEndDate(toQuarter) : goal.targetDate,
+    quarter: toQuarter,
+    keyResults,
+    initiatives: goal.initiatives
+      .filter(i => i.status !== 'completed')
+      .map(i => ({ ...i, id: `${i.id}-${toQuarter}` })),
+  };
+}
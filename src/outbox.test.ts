@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, SchemaDriftError, TransportError, setTransport, type Transport } from './api';
+import { OUTBOX_STORAGE_KEY, Outbox } from './outbox';
+
+// An in-memory stand-in for localStorage
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+}
+
+// Records every call; `reply` decides the answer per action
+function fakeServer(reply: (action: string, body: Record<string, unknown>) => unknown) {
+  const calls: { action: string; body: Record<string, unknown> }[] = [];
+  const transport: Transport = async (action, _params, body) => {
+    calls.push({ action, body: body as Record<string, unknown> });
+    return reply(action, body as Record<string, unknown>);
+  };
+  setTransport(transport);
+  return calls;
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Outbox', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setTransport(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends entries in order and swaps a created id into the ones after it', async () => {
+    const calls = fakeServer(action => action === 'create-task' ? { data: [{ id: 'real-1' }] } : { success: true });
+    const outbox = new Outbox(storage);
+    const onCreated = vi.fn();
+
+    outbox.submit({ name: 'createTask', args: ['Write post', 3] }, { label: 'Create', tempId: 'temp-1', onCreated });
+    outbox.submit({ name: 'updateTaskStatus', args: ['temp-1', 'done'] }, { label: 'Complete' });
+    await settle();
+
+    expect(calls.map(c => c.action)).toEqual(['create-task', 'update-task']);
+    expect(calls[1].body.task_id).toBe('real-1');
+    expect(onCreated).toHaveBeenCalledWith({ id: 'real-1' });
+    expect(outbox.getEntries()).toEqual([]);
+    expect(storage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+
+  it('rolls back and reports entries the server rejects', async () => {
+    fakeServer(() => { throw new ApiError(400, 'bad'); });
+    const outbox = new Outbox(storage);
+    const rollback = vi.fn();
+    const rejected = vi.fn();
+    outbox.onRejected(rejected);
+
+    outbox.submit({ name: 'deleteTask', args: ['t1'] }, { label: 'Delete', rollback });
+    await settle();
+
+    expect(rollback).toHaveBeenCalledOnce();
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ label: 'Delete', lastError: 'API error 400: bad' }), expect.any(ApiError));
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('rejects writes the local backend fails on instead of retrying them', async () => {
+    const calls = fakeServer(() => { throw new DOMException('Key already exists', 'ConstraintError'); });
+    const outbox = new Outbox(storage);
+    const rollback = vi.fn();
+    const rejected = vi.fn();
+    outbox.onRejected(rejected);
+
+    outbox.submit({ name: 'deleteTask', args: ['t1'] }, { label: 'Delete', rollback });
+    await settle();
+
+    expect(calls).toHaveLength(1);
+    expect(rollback).toHaveBeenCalledOnce();
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ lastError: 'Local backend: Key already exists' }), expect.any(TransportError));
+  });
+
+  it('rejects writes that fail validation instead of retrying them', async () => {
+    const calls = fakeServer(() => ({ success: true }));
+    const outbox = new Outbox(storage);
+    const rejected = vi.fn();
+    outbox.onRejected(rejected);
+
+    outbox.submit({ name: 'createTask', args: ['', 3] }, { label: 'Create' });
+    await settle();
+
+    expect(calls).toEqual([]);
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ label: 'Create' }), expect.any(SchemaDriftError));
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('retries transient failures with backoff and keeps later entries behind them', async () => {
+    vi.useFakeTimers();
+    let down = true;
+    const calls = fakeServer(() => {
+      if (down) throw new ApiError(503, 'unavailable');
+      return { success: true };
+    });
+    const outbox = new Outbox(storage);
+    outbox.submit({ name: 'deleteTask', args: ['t1'] }, { label: 'First' });
+    outbox.submit({ name: 'deleteTask', args: ['t2'] }, { label: 'Second' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls).toHaveLength(1);
+    expect(outbox.getEntries().map(e => [e.label, e.status, e.attempts])).toEqual([['First', 'pending', 1], ['Second', 'pending', 0]]);
+
+    down = false;
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(calls.map(c => c.body.task_id)).toEqual(['t1', 't1', 't2']);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('rolls back a create that gives up and holds back the entries that use its id', async () => {
+    vi.useFakeTimers();
+    const calls = fakeServer(action => {
+      if (action === 'create-task') throw new ApiError(503, 'unavailable');
+      return { success: true };
+    });
+    const outbox = new Outbox(storage);
+    const rollback = vi.fn();
+    outbox.submit({ name: 'createTask', args: ['Parent', 3] }, { label: 'Create parent', tempId: 'temp-1', rollback });
+    outbox.submit({ name: 'createTask', args: ['Child', 3, undefined, undefined, 'temp-1'] }, { label: 'Create child', tempId: 'temp-2' });
+    outbox.submit({ name: 'updateTaskStatus', args: ['temp-2', 'done'] }, { label: 'Complete child' });
+    outbox.submit({ name: 'deleteTask', args: ['t9'] }, { label: 'Unrelated' });
+    await vi.advanceTimersByTimeAsync(15 * 60_000);
+
+    expect(rollback).toHaveBeenCalledOnce();
+    expect(calls.filter(c => c.body.description === 'Child')).toEqual([]);
+    expect(calls.filter(c => c.action === 'update-task')).toEqual([]);
+    expect(calls.at(-1)?.body.task_id).toBe('t9');
+    expect(outbox.getEntries().map(e => [e.label, e.status])).toEqual([
+      ['Create parent', 'failed'],
+      ['Create child', 'pending'],
+      ['Complete child', 'pending'],
+    ]);
+  });
+
+  it('sends the held back entries once the failed create goes through', async () => {
+    vi.useFakeTimers();
+    let down = true;
+    const calls = fakeServer(action => {
+      if (down) throw new ApiError(503, 'unavailable');
+      return action === 'create-task' ? { data: [{ id: 'real-1' }] } : { success: true };
+    });
+    const outbox = new Outbox(storage);
+    outbox.submit({ name: 'createTask', args: ['Parent', 3] }, { label: 'Create', tempId: 'temp-1' });
+    outbox.submit({ name: 'updateTaskStatus', args: ['temp-1', 'done'] }, { label: 'Complete' });
+    await vi.advanceTimersByTimeAsync(15 * 60_000);
+    expect(outbox.getEntries().map(e => e.status)).toEqual(['failed', 'pending']);
+
+    down = false;
+    outbox.retry();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.at(-1)?.body.task_id).toBe('real-1');
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('only sends entries to the backend they were made against', async () => {
+    vi.useFakeTimers();
+    let down = true;
+    const calls = fakeServer(() => {
+      if (down) throw new ApiError(503, 'unavailable');
+      return { success: true };
+    });
+    const outbox = new Outbox(storage);
+    outbox.submit({ name: 'deleteTask', args: ['live-1'] }, { label: 'Live write' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    down = false;
+    outbox.setBackend('local');
+    outbox.submit({ name: 'deleteTask', args: ['local-1'] }, { label: 'Local write' });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(calls.map(c => c.body.task_id)).toEqual(['live-1', 'local-1']);
+    expect(outbox.getEntries().map(e => [e.label, e.backend])).toEqual([['Live write', 'live']]);
+
+    outbox.setBackend('live');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(calls.map(c => c.body.task_id)).toEqual(['live-1', 'local-1', 'live-1']);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('restores queued entries from storage', async () => {
+    vi.useFakeTimers();
+    fakeServer(() => { throw new ApiError(503, 'unavailable'); });
+    const outbox = new Outbox(storage);
+    outbox.submit({ name: 'deleteTask', args: ['t1'] }, { label: 'Delete' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(new Outbox(storage).getEntries().map(e => e.label)).toEqual(['Delete']);
+  });
+});
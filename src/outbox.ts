@@ -0,0 +1,333 @@
+import * as api from './api';
+import { isRetryableError, SchemaDriftError } from './api';
+import type { BackendKind } from './local-backend';
+import type { DbRow } from './realtime';
+
+// Persistent write queue. Every mutation the dashboard sends goes through here
+// so that a flaky connection or a closed laptop lid doesn't silently lose it:
+//
+//   submit → localStorage → sent in FIFO order → retried with backoff
+//                                              → rejected (4xx) → rollback + toast
+//                                              → given up → rollback, kept as failed
+//
+// An entry that gives up stays in the queue as `failed` until it is retried.
+// Entries that use its optimistic id (an update of a task whose create failed)
+// wait behind it; everything else carries on.
+//
+// Each entry belongs to the backend it was made against and is only sent while
+// that backend is active, so live writes never land in IndexedDB or the other
+// way round.
+//
+// Entries survive reloads. Rollback/onCreated callbacks are in-memory only, so
+// an entry restored from storage that is later rejected just gets dropped.
+
+// Mutations that may be queued. Keys are persisted, so don't rename them.
+export const MUTATIONS = {
+  updateTaskStatus: api.updateTaskStatus,
+  createTask: api.createTask,
+  updateTaskFull: api.updateTaskFull,
+  deleteTask: api.deleteTask,
+  updateProject: api.updateProject,
+  createProject: api.createProject,
+  deleteProject: api.deleteProject,
+  updateGoal: api.updateGoal,
+  createGoal: api.createGoal,
+  deleteGoal: api.deleteGoal,
+  updateKPI: api.updateKPI,
+  createKPI: api.createKPI,
+  deleteKPI: api.deleteKPI,
+  createDirective: api.createDirective,
+  createFeatureRequest: api.createFeatureRequest,
+  updateFeatureRequest: api.updateFeatureRequest,
+  deleteFeatureRequest: api.deleteFeatureRequest,
+  updateAgent: api.updateAgent,
+  updateThread: api.updateThread,
+} as const;
+
+export type MutationName = keyof typeof MUTATIONS;
+
+export type Mutation = {
+  [K in MutationName]: { name: K; args: Parameters<typeof MUTATIONS[K]> };
+}[MutationName];
+
+export interface OutboxEntry {
+  id: string;
+  mutation: Mutation;
+  label: string;               // human-readable, e.g. "Update task status"
+  tempId?: string;             // optimistic id this create will replace
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  backend?: BackendKind;       // missing on entries queued before backends existed: live
+}
+
+export interface SubmitOptions {
+  label: string;
+  tempId?: string;
+  rollback?: () => void;
+  onCreated?: (row: DbRow) => void;
+}
+
+export const OUTBOX_STORAGE_KEY = 'cea-outbox-v1';
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60_000;
+
+// 2s, 4s, 8s … capped at 5 min, with ±20% jitter so tabs don't retry in lockstep
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Create endpoints answer `{ data: [row] }`
+export function createdRow(result: unknown): DbRow | undefined {
+  const data = (result as { data?: unknown } | null)?.data;
+  const row = Array.isArray(data) ? data[0] : data;
+  return row && typeof row === 'object' ? row as DbRow : undefined;
+}
+
+// Swap every occurrence of an optimistic id inside queued arguments
+function replaceId(value: unknown, from: string, to: string): unknown {
+  if (value === from) return to;
+  if (Array.isArray(value)) return value.map(v => replaceId(v, from, to));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replaceId(v, from, to)]));
+  }
+  return value;
+}
+
+function containsId(value: unknown, id: string): boolean {
+  if (value === id) return true;
+  if (Array.isArray(value)) return value.some(v => containsId(v, id));
+  if (value && typeof value === 'object') return Object.values(value).some(v => containsId(v, id));
+  return false;
+}
+
+// Pending entries that can't be sent yet: they use the optimistic id of a
+// create that gave up, directly or through another waiting create
+export function waitingEntries(entries: OutboxEntry[]): Set<string> {
+  const missing = new Set<string>();
+  const waiting = new Set<string>();
+  for (const entry of entries) {
+    const depends = [...missing].some(id => containsId(entry.mutation.args, id));
+    if (entry.status === 'pending' && depends) waiting.add(entry.id);
+    if (entry.tempId && (entry.status === 'failed' || depends)) missing.add(entry.tempId);
+  }
+  return waiting;
+}
+
+export function entryBackend(entry: OutboxEntry): BackendKind {
+  return entry.backend ?? 'live';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class Outbox {
+  private entries: OutboxEntry[];
+  private callbacks = new Map<string, Pick<SubmitOptions, 'rollback' | 'onCreated'>>();
+  private listeners = new Set<() => void>();
+  private rejectionListeners = new Set<(entry: OutboxEntry, error: unknown) => void>();
+  private backend: BackendKind = 'live';
+  private processing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private storage: Storage | null;
+
+  constructor(storage: Storage | null = typeof localStorage === 'undefined' ? null : localStorage) {
+    this.storage = storage;
+    this.entries = this.load();
+  }
+
+  // ─── Public API ───
+
+  getEntries = (): OutboxEntry[] => this.entries;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  onRejected(listener: (entry: OutboxEntry, error: unknown) => void) {
+    this.rejectionListeners.add(listener);
+    return () => { this.rejectionListeners.delete(listener); };
+  }
+
+  submit(mutation: Mutation, options: SubmitOptions) {
+    const entry: OutboxEntry = {
+      id: `ob-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      mutation,
+      label: options.label,
+      tempId: options.tempId,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+      backend: this.backend,
+    };
+    this.callbacks.set(entry.id, { rollback: options.rollback, onCreated: options.onCreated });
+    this.setEntries([...this.entries, entry]);
+    void this.flush();
+    return entry.id;
+  }
+
+  // Requeue entries that gave up (all of them when no id is given)
+  retry(id?: string) {
+    this.setEntries(this.entries.map(e =>
+      e.status === 'failed' && (!id || e.id === id) ? { ...e, status: 'pending', attempts: 0, nextAttemptAt: 0 } : e
+    ));
+    void this.flush();
+  }
+
+  // Send (and tag new entries) to this backend from now on. Entries for the
+  // other one stay queued until it is active again.
+  setBackend(kind: BackendKind) {
+    if (kind === this.backend) return;
+    this.backend = kind;
+    void this.flush();
+  }
+
+  // Retry when the browser comes back online or the tab regains focus
+  start() {
+    const handleOnline = () => this.retry();
+    const handleVisible = () => { if (document.visibilityState === 'visible') void this.flush(); };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisible);
+    void this.flush();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisible);
+      this.clearTimer();
+    };
+  }
+
+  // Send pending entries in order. Stops at the first transient failure so a
+  // later mutation never overtakes an earlier one it may depend on; skips
+  // entries waiting on a create that gave up.
+  async flush() {
+    if (this.processing) return;
+    this.processing = true;
+    this.clearTimer();
+    try {
+      while (true) {
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+        const waiting = waitingEntries(this.entries);
+        const entry = this.entries.find(e => e.status === 'pending' && entryBackend(e) === this.backend && !waiting.has(e.id));
+        if (!entry) return;
+        const wait = entry.nextAttemptAt - Date.now();
+        if (wait > 0) {
+          this.timer = setTimeout(() => { void this.flush(); }, wait);
+          return;
+        }
+        const settled = await this.send(entry);
+        if (!settled) {
+          const next = this.entries.find(e => e.id === entry.id);
+          if (next?.status === 'pending') {
+            this.timer = setTimeout(() => { void this.flush(); }, next.nextAttemptAt - Date.now());
+            return;
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // ─── Internals ───
+
+  // Returns true when the entry left the pending state for good
+  private async send(entry: OutboxEntry): Promise<boolean> {
+    const { name, args } = entry.mutation;
+    const fn = MUTATIONS[name] as (...a: unknown[]) => Promise<unknown>;
+    try {
+      const result = await fn(...args);
+      const callbacks = this.callbacks.get(entry.id);
+      this.callbacks.delete(entry.id);
+      let remaining = this.entries.filter(e => e.id !== entry.id);
+      const row = createdRow(result);
+      if (entry.tempId && typeof row?.id === 'string') {
+        const realId = row.id;
+        remaining = remaining.map(e => ({
+          ...e,
+          mutation: { ...e.mutation, args: replaceId(e.mutation.args, entry.tempId!, realId) } as Mutation,
+        }));
+      }
+      this.setEntries(remaining);
+      if (row) callbacks?.onCreated?.(row);
+      return true;
+    } catch (e) {
+      // The server accepted the write (2xx); only its reply was off-schema.
+      // Resending would duplicate it, so count it as delivered.
+      if (e instanceof SchemaDriftError && e.direction === 'response') {
+        console.error(`Outbox: ${entry.label} delivered with unexpected reply:`, e);
+        this.callbacks.delete(entry.id);
+        this.setEntries(this.entries.filter(x => x.id !== entry.id));
+        return true;
+      }
+      if (!isRetryableError(e)) {
+        this.reject(entry, e);
+        return true;
+      }
+      const attempts = entry.attempts + 1;
+      const gaveUp = attempts >= MAX_ATTEMPTS;
+      this.setEntries(this.entries.map(x => x.id === entry.id ? {
+        ...x,
+        attempts,
+        status: gaveUp ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: errorMessage(e),
+      } : x));
+      console.error(`Outbox: ${entry.label} failed (attempt ${attempts}):`, e);
+      // Undo the optimistic change now rather than leave it looking saved. A
+      // later retry that succeeds comes back through realtime.
+      if (gaveUp) {
+        this.callbacks.get(entry.id)?.rollback?.();
+        this.callbacks.delete(entry.id);
+      }
+      return gaveUp;
+    }
+  }
+
+  private reject(entry: OutboxEntry, error: unknown) {
+    const callbacks = this.callbacks.get(entry.id);
+    this.callbacks.delete(entry.id);
+    this.setEntries(this.entries.filter(e => e.id !== entry.id));
+    callbacks?.rollback?.();
+    const rejected = { ...entry, lastError: errorMessage(error) };
+    this.rejectionListeners.forEach(cb => cb(rejected, error));
+  }
+
+  private setEntries(entries: OutboxEntry[]) {
+    this.entries = entries;
+    this.save();
+    this.listeners.forEach(cb => cb());
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private load(): OutboxEntry[] {
+    try {
+      const raw = this.storage?.getItem(OUTBOX_STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter((e: OutboxEntry) => e?.mutation?.name in MUTATIONS) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    try {
+      if (this.entries.length) this.storage?.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+      else this.storage?.removeItem(OUTBOX_STORAGE_KEY);
+    } catch (e) {
+      console.error('Outbox: could not persist queue:', e);
+    }
+  }
+}
+
+export const outbox = new Outbox();
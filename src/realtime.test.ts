@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeChannel, isTempId, mergeRecord, newTempId } from './realtime';
+
+describe('FakeChannel', () => {
+  it('delivers emitted changes to subscribers and reports status', () => {
+    const channel = new FakeChannel();
+    const onChange = vi.fn();
+    const onStatus = vi.fn();
+    channel.subscribe(onChange, onStatus);
+    expect(onStatus).toHaveBeenCalledWith('subscribed');
+
+    channel.emit('tasks', 'INSERT', { id: 't1', description: 'Hello' });
+    expect(onChange).toHaveBeenCalledWith({ table: 'tasks', eventType: 'INSERT', new: { id: 't1', description: 'Hello' }, old: {} });
+
+    channel.unsubscribe();
+    expect(onStatus).toHaveBeenLastCalledWith('closed');
+    expect(channel.subscriberCount).toBe(0);
+  });
+
+  it('sends deletes with the row in `old`', () => {
+    const channel = new FakeChannel();
+    const onChange = vi.fn();
+    channel.subscribe(onChange);
+    channel.emit('projects', 'DELETE', { id: 'p1' });
+    expect(onChange).toHaveBeenCalledWith({ table: 'projects', eventType: 'DELETE', new: {}, old: { id: 'p1' } });
+  });
+});
+
+describe('mergeRecord', () => {
+  const list = [{ id: 'a', title: 'A' }, { id: 'temp-1', title: 'New' }];
+
+  it('replaces a record with the same id', () => {
+    expect(mergeRecord(list, 'UPDATE', 'a', { id: 'a', title: 'A2' })).toEqual([{ id: 'a', title: 'A2' }, list[1]]);
+  });
+
+  it('replaces the matching optimistic record instead of duplicating it', () => {
+    const merged = mergeRecord(list, 'INSERT', 'b', { id: 'b', title: 'New' }, temp => temp.title === 'New');
+    expect(merged).toEqual([list[0], { id: 'b', title: 'New' }]);
+  });
+
+  it('prepends records it has never seen', () => {
+    expect(mergeRecord(list, 'INSERT', 'c', { id: 'c', title: 'C' }, () => false)[0]).toEqual({ id: 'c', title: 'C' });
+  });
+
+  it('removes deleted records and leaves the list alone otherwise', () => {
+    expect(mergeRecord(list, 'DELETE', 'a', null)).toEqual([list[1]]);
+    expect(mergeRecord(list, 'DELETE', 'missing', null)).toBe(list);
+    expect(mergeRecord(list, 'UPDATE', 'a', null)).toBe(list);
+  });
+});
+
+describe('newTempId', () => {
+  it('stays unique within the same millisecond', () => {
+    vi.useFakeTimers({ now: new Date('2026-10-18T12:00:00.000Z') });
+    const ids = Array.from({ length: 5 }, newTempId);
+    vi.useRealTimers();
+    expect(new Set(ids).size).toBe(5);
+    expect(ids.every(isTempId)).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { supabase } from './auth';
+
+// Tables the dashboard listens to. Keys are the state slices in App.tsx,
+// values are the Postgres tables behind them.
+export const REALTIME_TABLES = {
+  tasks: 'tasks',
+  projects: 'projects',
+  goals: 'goals',
+  kpis: 'kpis',
+  activity: 'activity_log',
+} as const;
+
+export type RealtimeTable = typeof REALTIME_TABLES[keyof typeof REALTIME_TABLES];
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+export type DbRow = Record<string, unknown>;
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: RealtimeEventType;
+  new: DbRow;
+  old: DbRow;
+}
+
+export type RealtimeStatus = 'connecting' | 'subscribed' | 'closed' | 'error';
+
+// Minimal channel surface the sync layer needs. The Supabase channel and
+// FakeChannel both implement it, so the app can run against either.
+export interface ChangeChannel {
+  subscribe(onChange: (change: RealtimeChange) => void, onStatus?: (status: RealtimeStatus) => void): void;
+  unsubscribe(): void;
+}
+
+// ============ SUPABASE ============
+
+export function createSupabaseChannel(name = 'cea-dashboard'): ChangeChannel {
+  const channel = supabase.channel(name);
+  return {
+    subscribe(onChange, onStatus) {
+      for (const table of Object.values(REALTIME_TABLES)) {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+          onChange({
+            table,
+            eventType: payload.eventType,
+            new: payload.new || {},
+            old: payload.old || {},
+          });
+        });
+      }
+      onStatus?.('connecting');
+      channel.subscribe((status) => {
+        if (status === 'SUBSCRIBED') onStatus?.('subscribed');
+        else if (status === 'CLOSED') onStatus?.('closed');
+        else onStatus?.('error');
+      });
+    },
+    unsubscribe() {
+      supabase.removeChannel(channel);
+    },
+  };
+}
+
+// ============ FAKE (offline / demo) ============
+
+// In-memory channel for running the sync layer without a Supabase connection.
+// Call emit() to push a change through exactly as a postgres_changes event would.
+export class FakeChannel implements ChangeChannel {
+  private listeners: ((change: RealtimeChange) => void)[] = [];
+  private statusListeners: ((status: RealtimeStatus) => void)[] = [];
+
+  subscribe(onChange: (change: RealtimeChange) => void, onStatus?: (status: RealtimeStatus) => void) {
+    this.listeners.push(onChange);
+    if (onStatus) {
+      this.statusListeners.push(onStatus);
+      onStatus('subscribed');
+    }
+  }
+
+  unsubscribe() {
+    this.statusListeners.forEach(cb => cb('closed'));
+    this.listeners = [];
+    this.statusListeners = [];
+  }
+
+  emit(table: RealtimeTable, eventType: RealtimeEventType, row: DbRow, old: DbRow = {}) {
+    const change: RealtimeChange = {
+      table,
+      eventType,
+      new: eventType === 'DELETE' ? {} : row,
+      old: eventType === 'DELETE' ? { ...old, ...row } : old,
+    };
+    this.listeners.forEach(cb => cb(change));
+  }
+
+  get subscriberCount() {
+    return this.listeners.length;
+  }
+}
+
+// ============ MERGING ============
+
+export const isTempId = (id: string) => id.startsWith('temp-');
+
+// Optimistic ids must stay unique when several records are created in one
+// tick (a goal rollover, say), so a counter backs up the timestamp
+let tempCounter = 0;
+export const newTempId = () => `temp-${Date.now()}-${++tempCounter}`;
+
+// Merge a single changed record into a list.
+// - INSERT/UPDATE replace the record with the same id, or else an optimistic
+//   `temp-` record that `matchesTemp` says is the same row, or else prepend.
+// - DELETE removes by id.
+export function mergeRecord<T extends { id: string }>(
+  list: T[],
+  eventType: RealtimeEventType,
+  id: string,
+  mapped: T | null,
+  matchesTemp?: (temp: T) => boolean,
+): T[] {
+  if (eventType === 'DELETE') {
+    return list.some(item => item.id === id) ? list.filter(item => item.id !== id) : list;
+  }
+  if (!mapped) return list;
+
+  const existing = list.findIndex(item => item.id === id);
+  if (existing !== -1) {
+    const next = [...list];
+    next[existing] = mapped;
+    return next;
+  }
+
+  if (matchesTemp) {
+    const tempIndex = list.findIndex(item => isTempId(item.id) && matchesTemp(item));
+    if (tempIndex !== -1) {
+      const next = [...list];
+      next[tempIndex] = mapped;
+      return next;
+    }
+  }
+
+  return [mapped, ...list];
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { describeRule, formatRRule, nextDueOccurrence, nextOccurrence, parseRRule, seriesAnchor, type RecurrenceRule } from './recurrence';
+import { task } from './test/factories';
+
+describe('parseRRule / formatRRule', () => {
+  it('round-trips the supported subset', () => {
+    for (const rule of ['FREQ=WEEKLY;BYDAY=MO', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU', 'FREQ=MONTHLY;BYMONTHDAY=1', 'FREQ=DAILY;INTERVAL=3;UNTIL=20261231']) {
+      expect(formatRRule(parseRRule(rule)!)).toBe(rule);
+    }
+  });
+
+  it('rejects rules outside the subset', () => {
+    expect(parseRRule('FREQ=YEARLY')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;BYDAY=MO')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull();
+    expect(parseRRule('')).toBeNull();
+  });
+});
+
+describe('describeRule', () => {
+  it('reads like a sentence', () => {
+    expect(describeRule(parseRRule('FREQ=WEEKLY;BYDAY=MO')!)).toBe('Every Monday');
+    expect(describeRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU')!)).toBe('Every 2 weeks on Sunday');
+    expect(describeRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=22;UNTIL=20261231')!)).toBe('Monthly on the 22nd until 2026-12-31');
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps daily rules by their interval', () => {
+    expect(nextOccurrence(parseRRule('FREQ=DAILY;INTERVAL=3')!, '2026-10-18')).toBe('2026-10-21');
+  });
+
+  it('finds the next listed weekday', () => {
+    // 2026-10-18 is a Sunday
+    expect(nextOccurrence(parseRRule('FREQ=WEEKLY;BYDAY=MO,FR')!, '2026-10-18')).toBe('2026-10-19');
+    expect(nextOccurrence(parseRRule('FREQ=WEEKLY;BYDAY=MO,FR')!, '2026-10-19')).toBe('2026-10-23');
+  });
+
+  it('skips the off weeks of every-other-week rules', () => {
+    expect(nextOccurrence(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU')!, '2026-10-18')).toBe('2026-11-01');
+  });
+
+  it('clamps monthly days to short months', () => {
+    expect(nextOccurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=31')!, '2027-01-31')).toBe('2027-02-28');
+  });
+
+  it('keeps a monthly series on its first day after a short month', () => {
+    const monthly = parseRRule('FREQ=MONTHLY')!;
+    expect(nextOccurrence(monthly, '2027-01-31', '2027-01-31')).toBe('2027-02-28');
+    expect(nextOccurrence(monthly, '2027-02-28', '2027-01-31')).toBe('2027-03-31');
+    // Without an anchor it can only go by the last occurrence
+    expect(nextOccurrence(monthly, '2027-02-28')).toBe('2027-03-28');
+  });
+
+  it('returns null for dates it can’t read', () => {
+    expect(nextOccurrence(parseRRule('FREQ=WEEKLY;BYDAY=MO')!, 'not a date')).toBeNull();
+    expect(nextOccurrence(parseRRule('FREQ=MONTHLY;BYMONTHDAY=1')!, '')).toBeNull();
+  });
+
+  it('gives up on weekdays it never reaches', () => {
+    const rule = { freq: 'WEEKLY', interval: 2, byDay: ['XX'] } as unknown as RecurrenceRule;
+    expect(nextOccurrence(rule, '2026-10-18')).toBeNull();
+  });
+
+  it('stops after UNTIL', () => {
+    expect(nextOccurrence(parseRRule('FREQ=WEEKLY;UNTIL=20261020')!, '2026-10-18')).toBeNull();
+  });
+});
+
+describe('nextDueOccurrence', () => {
+  it('skips the occurrences a late completion missed', () => {
+    const weekly = parseRRule('FREQ=WEEKLY;BYDAY=MO')!;
+    // Due Monday 2026-09-28, completed three weeks later on Sunday 2026-10-18
+    expect(nextDueOccurrence(weekly, '2026-09-28', '2026-10-18')).toBe('2026-10-19');
+    expect(nextDueOccurrence(weekly, '2026-10-12', '2026-10-12')).toBe('2026-10-19');
+  });
+
+  it('keeps today and the anchor day', () => {
+    expect(nextDueOccurrence(parseRRule('FREQ=DAILY')!, '2026-10-01', '2026-10-18')).toBe('2026-10-18');
+    expect(nextDueOccurrence(parseRRule('FREQ=MONTHLY')!, '2027-01-31', '2027-03-05', '2027-01-31')).toBe('2027-03-31');
+  });
+
+  it('stops at UNTIL', () => {
+    expect(nextDueOccurrence(parseRRule('FREQ=DAILY;UNTIL=20261010')!, '2026-10-01', '2026-10-18')).toBeNull();
+  });
+});
+
+describe('seriesAnchor', () => {
+  it('is the earliest due date in the series', () => {
+    const tasks = [
+      task({ id: 'first', deadline: '2027-01-31' }),
+      task({ id: 'second', seriesId: 'first', deadline: '2027-02-28T12:00:00' }),
+      task({ id: 'other', deadline: '2026-01-01' }),
+    ];
+    expect(seriesAnchor('first', tasks)).toBe('2027-01-31');
+    expect(seriesAnchor('first', tasks.slice(1))).toBe('2027-02-28');
+  });
+});
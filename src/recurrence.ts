@@ -0,0 +1,172 @@
+import { toDateInput } from './due-dates';
+import type { Task } from './types';
+
+// Recurrence rules for repeating tasks, stored on the task as a subset of the
+// iCalendar RRULE syntax:
+//
+//   FREQ=WEEKLY;BYDAY=MO            every Monday
+//   FREQ=WEEKLY;INTERVAL=2;BYDAY=SU every other Sunday
+//   FREQ=MONTHLY;BYMONTHDAY=1       monthly on the 1st
+//   FREQ=DAILY;INTERVAL=3           every 3 days
+//   …;UNTIL=20261231                no occurrences after that date
+//
+// Occurrences are whole days (YYYY-MM-DD), matching task due dates.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];      // WEEKLY only
+  byMonthDay?: number;    // MONTHLY only, 1–31 (clamped to short months)
+  until?: string;         // YYYY-MM-DD, inclusive
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday', MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday',
+};
+
+// ============ PARSE / FORMAT ============
+
+// Null for anything outside the supported subset
+export function parseRRule(value: string | undefined | null): RecurrenceRule | null {
+  if (!value) return null;
+  const parts = Object.fromEntries(
+    value.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(p => {
+      const [k, v = ''] = p.split('=');
+      return [k.trim().toUpperCase(), v.trim().toUpperCase()];
+    })
+  );
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  const rule: RecurrenceRule = { freq, interval };
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',') as Weekday[];
+    if (freq !== 'WEEKLY' || days.some(d => !WEEKDAYS.includes(d))) return null;
+    rule.byDay = WEEKDAYS.filter(d => days.includes(d));
+  }
+  if (parts.BYMONTHDAY) {
+    const day = Number(parts.BYMONTHDAY);
+    if (freq !== 'MONTHLY' || !Number.isInteger(day) || day < 1 || day > 31) return null;
+    rule.byMonthDay = day;
+  }
+  if (parts.UNTIL) {
+    const m = parts.UNTIL.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!m) return null;
+    rule.until = `${m[1]}-${m[2]}-${m[3]}`;
+  }
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+// "Every Monday", "Every 2 weeks on Sunday", "Monthly on the 1st", "Every 3 days"
+export function describeRule(rule: RecurrenceRule): string {
+  const every = (unit: string) => rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  let text: string;
+  if (rule.freq === 'DAILY') {
+    text = rule.interval === 1 ? 'Daily' : every('day');
+  } else if (rule.freq === 'WEEKLY') {
+    const days = rule.byDay?.map(d => WEEKDAY_NAMES[d]).join(', ');
+    if (rule.interval === 1) text = days ? `Every ${days}` : 'Weekly';
+    else text = days ? `${every('week')} on ${days}` : every('week');
+  } else {
+    const on = rule.byMonthDay ? ` on the ${ordinal(rule.byMonthDay)}` : '';
+    text = rule.interval === 1 ? `Monthly${on}` : `${every('month')}${on}`;
+  }
+  return rule.until ? `${text} until ${rule.until}` : text;
+}
+
+// ============ OCCURRENCES ============
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function parseDay(day: string): Date {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+const daysBetween = (a: Date, b: Date) => Math.round((b.getTime() - a.getTime()) / DAY_MS);
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+const formatDay = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// First occurrence strictly after `after` (YYYY-MM-DD or ISO timestamp), or
+// null once the rule's UNTIL has passed or `after` isn't a date. `anchor` is
+// the series' first occurrence: MONTHLY rules without BYMONTHDAY keep its day
+// of month, so a series started on the 31st is back on the 31st after a short
+// month rather than stuck on the 28th.
+export function nextOccurrence(rule: RecurrenceRule, after: string, anchor?: string): string | null {
+  const base = parseDay(toDateInput(after));
+  if (Number.isNaN(base.getTime())) return null;
+  const anchorDay = anchor ? parseDay(toDateInput(anchor)).getDate() : NaN;
+  let next: Date;
+
+  if (rule.freq === 'DAILY') {
+    next = addDays(base, rule.interval);
+  } else if (rule.freq === 'WEEKLY') {
+    if (!rule.byDay?.length) {
+      next = addDays(base, 7 * rule.interval);
+    } else {
+      // Weeks are counted from the Sunday of the base week
+      const weekStart = addDays(base, -base.getDay());
+      // A listed weekday always falls within one full cycle of weeks
+      const byDay = rule.byDay;
+      const matches = (d: Date) => byDay.includes(WEEKDAYS[d.getDay()]) && Math.floor(daysBetween(weekStart, d) / 7) % rule.interval === 0;
+      next = addDays(base, 1);
+      for (let step = 1; !matches(next); step++) {
+        if (step >= 7 * rule.interval) return null;
+        next = addDays(next, 1);
+      }
+    }
+  } else {
+    const wanted = rule.byMonthDay ?? (Number.isNaN(anchorDay) ? base.getDate() : anchorDay);
+    let monthOffset = 0;
+    do {
+      const year = base.getFullYear();
+      const month = base.getMonth() + monthOffset;
+      next = new Date(year, month, Math.min(wanted, daysInMonth(year, month)));
+      monthOffset += rule.interval;
+    } while (next <= base);
+  }
+
+  const day = formatDay(next);
+  return rule.until && day > rule.until ? null : day;
+}
+
+// The next occurrence due today or later. Completing an occurrence late skips
+// the dates it missed instead of scheduling one that is already overdue.
+export function nextDueOccurrence(rule: RecurrenceRule, after: string, today: string, anchor?: string): string | null {
+  // Each step is strictly later, so this ends at `today` or at UNTIL
+  let day = nextOccurrence(rule, after, anchor);
+  while (day && day < today) day = nextOccurrence(rule, day, anchor);
+  return day;
+}
+
+// The earliest due date in a series, its anchor for nextOccurrence
+export function seriesAnchor(seriesId: string, tasks: Task[]): string | undefined {
+  return tasks
+    .filter(t => (t.seriesId ?? t.id) === seriesId && t.deadline)
+    .map(t => toDateInput(t.deadline))
+    .filter(Boolean)
+    .sort()[0];
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROUTE, formatHash, parseHash, patchQuery } from './router';
+
+describe('parseHash', () => {
+  it('reads the view, id and query', () => {
+    expect(parseHash('#/project-detail/p%201?tab=tasks&empty=')).toEqual({ view: 'project-detail', id: 'p 1', query: { tab: 'tasks' } });
+  });
+
+  it('falls back to the dashboard for empty or unknown hashes', () => {
+    expect(parseHash('')).toBe(DEFAULT_ROUTE);
+    expect(parseHash('#/nowhere')).toBe(DEFAULT_ROUTE);
+  });
+
+  it('sends a detail view without an id to its list view', () => {
+    expect(parseHash('#/agent-detail?sort=load')).toEqual({ view: 'agents', query: { sort: 'load' } });
+  });
+});
+
+describe('formatHash', () => {
+  it('sorts query keys and drops empty values', () => {
+    expect(formatHash({ view: 'tasks', query: { project: 'p1', filter: 'tiger', q: '' } })).toBe('#/tasks?filter=tiger&project=p1');
+  });
+
+  it('round-trips through parseHash', () => {
+    const route = { view: 'directives' as const, id: 'd/1', query: { status: 'pending' } };
+    expect(parseHash(formatHash(route))).toEqual(route);
+  });
+});
+
+describe('patchQuery', () => {
+  it('sets values and removes undefined or empty ones', () => {
+    expect(patchQuery({ a: '1', b: '2' }, { a: undefined, b: '', c: '3' })).toEqual({ c: '3' });
+  });
+});
@@ -0,0 +1,92 @@
+import { ViewType } from './types';
+
+// Hash-based routes so the dashboard deep-links from file:// as well as a server.
+//
+//   #/dashboard
+//   #/projects?dept=Media%20Production&status=active&sort=date&dir=desc&mode=list
+//   #/project-detail/<projectId>
+//   #/agents?sort=load&dir=asc   → sub-agents sorted by a metric (see agent-analytics.ts)
+//   #/agents?view=tools          → which agents can use which catalog tools
+//   #/agent-detail/<agentId>
+//   #/tasks?filter=tiger&project=<projectId>
+//   #/tasks/<taskId>              → Task Board with that task expanded
+//   #/calendar?mode=week&date=2026-10-18&color=department&hide=goal
+//   #/directives/<directiveId>?status=pending&agent=<agentId>&type=policy
+//   #/strategy?q=Q2-2026          → that quarter's objectives (default: the current one)
+//   #/strategy/<goalId>?q=Q2-2026 → with that goal expanded
+//   #/ideas/<ideaId>              → with that idea expanded
+//   #/search?q=project:MIRA%20status:review&type=task
+//   #/tasks?q=… · #/projects?q=… · #/ideas?q=…   → per-view filters, same syntax
+//   #/chat · #/ideas
+
+export interface Route {
+  view: ViewType;
+  id?: string;
+  query: Record<string, string>;
+}
+
+export const VIEW_TYPES: ViewType[] = ['dashboard', 'agents', 'agent-detail', 'tasks', 'projects', 'project-detail', 'chat', 'strategy', 'ideas', 'calendar', 'directives', 'search'];
+
+// Top-level views, in sidebar order (also offered by the command palette)
+export const NAV_ITEMS: { id: ViewType; label: string; icon: string }[] = [
+  { id: 'dashboard', label: 'Command Center', icon: '◉' },
+  { id: 'projects', label: 'Projects', icon: '◫' },
+  { id: 'agents', label: 'Agent Hub', icon: '◎' },
+  { id: 'tasks', label: 'Task Board', icon: '☰' },
+  { id: 'calendar', label: 'Calendar', icon: '▦' },
+  { id: 'chat', label: 'Talk to CEA', icon: '◈' },
+  { id: 'directives', label: 'Directives', icon: '➤' },
+  { id: 'strategy', label: 'Strategy', icon: '△' },
+  { id: 'ideas', label: 'Ideas', icon: '💡' },
+];
+
+// Detail views are meaningless without an id — fall back to their list view
+const DETAIL_PARENT: Partial<Record<ViewType, ViewType>> = {
+  'project-detail': 'projects',
+  'agent-detail': 'agents',
+};
+
+export const DEFAULT_ROUTE: Route = { view: 'dashboard', query: {} };
+
+export function parseHash(hash: string): Route {
+  const raw = hash.replace(/^#\/?/, '');
+  if (!raw) return DEFAULT_ROUTE;
+
+  const [path, search = ''] = raw.split('?');
+  const [viewPart, idPart] = path.split('/').filter(Boolean);
+  const view = VIEW_TYPES.find(v => v === viewPart);
+  if (!view) return DEFAULT_ROUTE;
+
+  const query: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    if (value) query[key] = value;
+  });
+
+  const id = idPart ? decodeURIComponent(idPart) : undefined;
+  if (!id && DETAIL_PARENT[view]) {
+    return { view: DETAIL_PARENT[view]!, query };
+  }
+  return { view, id, query };
+}
+
+export function formatHash(route: Route): string {
+  let hash = `#/${route.view}`;
+  if (route.id) hash += `/${encodeURIComponent(route.id)}`;
+  const params = new URLSearchParams();
+  Object.entries(route.query)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([key, value]) => params.set(key, value));
+  const search = params.toString();
+  return search ? `${hash}?${search}` : hash;
+}
+
+// Apply a query patch — `undefined` removes a key
+export function patchQuery(query: Record<string, string>, patch: Record<string, string | undefined>): Record<string, string> {
+  const next = { ...query };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined || value === '') delete next[key];
+    else next[key] = value;
+  }
+  return next;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DashboardSchema, KPIRowSchema, onDroppedRows, parseOrDrift, SchemaDriftError, TaskRowSchema } from './schemas';
+
+const taskRow = (fields: Record<string, unknown> = {}) => ({
+  id: 'task-1', description: 'Write the launch post', status: 'todo', created_at: '2026-10-01T09:00:00.000Z', ...fields,
+});
+
+describe('parseOrDrift', () => {
+  it('names the source, direction and path of every issue', () => {
+    try {
+      parseOrDrift(TaskRowSchema, taskRow({ status: 'blocked' }), 'realtime tasks');
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaDriftError);
+      expect(e).toMatchObject({ source: 'realtime tasks', direction: 'response', issues: [{ path: 'status' }] });
+    }
+  });
+
+  it('keeps unknown columns and coerces numeric strings', () => {
+    expect(parseOrDrift(TaskRowSchema, taskRow({ priority: '2', extra: true }), 'tasks')).toMatchObject({ priority: 2, extra: true });
+    expect(parseOrDrift(KPIRowSchema, { id: 'k1', label: 'MRR', value: 1200 }, 'kpis').value).toBe('1200');
+  });
+});
+
+describe('row lists', () => {
+  const dropped = vi.fn();
+  const unsubscribe = onDroppedRows(dropped);
+  afterEach(() => { dropped.mockReset(); });
+
+  it('keeps the good rows of a dashboard and reports the ones it drops', () => {
+    const dashboard = parseOrDrift(DashboardSchema, {
+      tasks: [taskRow(), taskRow({ id: 'task-2', status: 'blocked' }), taskRow({ id: 'task-3' })],
+      projects: [{ id: 'project-1', title: 'PR.MIRA | Mirror launch', created_at: '2026-10-01T09:00:00.000Z' }],
+    }, 'dashboard');
+
+    expect(dashboard.tasks?.map(t => t.id)).toEqual(['task-1', 'task-3']);
+    expect(dashboard.projects).toHaveLength(1);
+    expect(dropped).toHaveBeenCalledOnce();
+    const [error, count] = dropped.mock.calls[0];
+    expect(count).toBe(1);
+    expect(error).toMatchObject({ source: 'dashboard tasks', issues: [{ path: '1.status' }] });
+  });
+
+  it('reports nothing when every row parses', () => {
+    parseOrDrift(DashboardSchema, { tasks: [taskRow()], agents: null }, 'dashboard');
+    expect(dropped).not.toHaveBeenCalled();
+  });
+
+  it('still fails when the list itself is missing its shape', () => {
+    expect(() => parseOrDrift(DashboardSchema, { tasks: 'nope' }, 'dashboard')).toThrow(SchemaDriftError);
+  });
+
+  it('stops reporting once unsubscribed', () => {
+    unsubscribe();
+    parseOrDrift(DashboardSchema, { tasks: [taskRow({ status: 'blocked' })] }, 'dashboard');
+    expect(dropped).not.toHaveBeenCalled();
+  });
+});
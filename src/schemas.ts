@@ -0,0 +1,578 @@
+import { z } from 'zod';
+
+// Runtime schemas for everything that crosses the `cea-api` / `cea-brain`
+// boundary. Rows are loose objects: extra columns pass through untouched, but a
+// missing or mistyped column the dashboard relies on is reported as drift
+// instead of rendering as a blank field.
+
+// ============ DRIFT ERRORS ============
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Payload didn't match its schema. `direction` tells whether we were about to
+// send a bad request or the server answered with an unexpected shape.
+export class SchemaDriftError extends Error {
+  source: string;
+  direction: 'request' | 'response';
+  issues: SchemaIssue[];
+
+  constructor(source: string, direction: 'request' | 'response', issues: SchemaIssue[]) {
+    const summary = issues.slice(0, 3).map(i => `${i.path || '(root)'}: ${i.message}`).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Schema drift in ${source} ${direction}: ${summary}${more}`);
+    this.name = 'SchemaDriftError';
+    this.source = source;
+    this.direction = direction;
+    this.issues = issues;
+  }
+}
+
+function toIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+// Parse or throw a SchemaDriftError naming where the payload came from
+export function parseOrDrift<S extends z.ZodType>(schema: S, value: unknown, source: string, direction: 'request' | 'response' = 'response'): z.output<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) throw new SchemaDriftError(source, direction, toIssues(result.error));
+  return result.data;
+}
+
+// Rows dropped from a list response are reported here rather than thrown, so
+// one bad row doesn't cost the caller every other row
+type DroppedRowsListener = (error: SchemaDriftError, dropped: number) => void;
+const droppedRowsListeners = new Set<DroppedRowsListener>();
+
+export function onDroppedRows(listener: DroppedRowsListener) {
+  droppedRowsListeners.add(listener);
+  return () => { droppedRowsListeners.delete(listener); };
+}
+
+// A list of rows validated one by one: rows that match are kept, the rest are
+// dropped and reported under `source` with their index in the path
+export function rowList<S extends z.ZodType>(schema: S, source: string) {
+  return z.array(z.unknown()).transform(items => {
+    const rows: z.output<S>[] = [];
+    const issues: SchemaIssue[] = [];
+    let dropped = 0;
+    items.forEach((item, index) => {
+      const result = schema.safeParse(item);
+      if (result.success) {
+        rows.push(result.data);
+        return;
+      }
+      dropped++;
+      issues.push(...toIssues(result.error).map(i => ({ ...i, path: i.path ? `${index}.${i.path}` : String(index) })));
+    });
+    if (dropped) {
+      const error = new SchemaDriftError(source, 'response', issues);
+      droppedRowsListeners.forEach(cb => cb(error, dropped));
+    }
+    return rows;
+  });
+}
+
+// ============ PRIMITIVES ============
+
+const id = z.string();
+const timestamp = z.string();
+const optionalText = z.string().nullish();
+// Postgres numeric columns may arrive as strings
+const numeric = z.union([z.number(), z.string()]).pipe(z.coerce.number());
+
+// ============ ROWS ============
+
+// The agent's configuration after a change, with the note it was made with
+export const AgentVersionSchema = z.looseObject({
+  version: z.number().int(),
+  system_prompt: optionalText,
+  functional_name: optionalText,
+  tool_access: z.array(z.string()).nullish(),
+  note: optionalText,
+  changed_at: timestamp,
+});
+
+export const AgentRowSchema = z.looseObject({
+  id,
+  handle: z.string(),
+  functional_name: z.string(),
+  system_prompt: optionalText,
+  is_active: z.boolean().nullish(),
+  tool_access: z.array(z.string()).nullish(),
+  dept_id: optionalText,
+  emoji: optionalText,
+  // Oldest first, appended server-side whenever update-agent changes the
+  // prompt, name or tools
+  versions: z.array(AgentVersionSchema).nullish(),
+});
+
+export const TaskStatusChangeSchema = z.looseObject({
+  status: z.enum(['todo', 'in_progress', 'done', 'failed']),
+  changed_at: timestamp,
+});
+
+export const TaskRowSchema = z.looseObject({
+  id,
+  description: optionalText,
+  status: z.enum(['todo', 'in_progress', 'done', 'failed']),
+  priority: numeric.nullish(),
+  assigned_to: optionalText,
+  assigned_by: optionalText,
+  project_id: optionalText,
+  parent_task_id: optionalText,
+  blocked_by: z.array(id).nullish(),
+  recurrence: optionalText,
+  series_id: optionalText,
+  directive_id: optionalText,
+  due_date: optionalText,
+  completed_at: optionalText,
+  // Every status change, oldest first, appended server-side
+  status_history: z.array(TaskStatusChangeSchema).nullish(),
+  created_at: timestamp,
+});
+
+export const ProjectRowSchema = z.looseObject({
+  id,
+  title: z.string(),
+  description: optionalText,
+  status: z.enum(['active', 'paused', 'completed', 'archived']).nullish(),
+  dept_id: optionalText,
+  lead_agent_id: optionalText,
+  target_date: optionalText,
+  parent_project_id: optionalText,
+  metadata: z.looseObject({ notes: optionalText }).nullish(),
+  created_at: timestamp,
+});
+
+export const DepartmentRowSchema = z.looseObject({
+  id,
+  name: z.string(),
+});
+
+export const InitiativeSchema = z.looseObject({
+  id: optionalText,
+  name: z.string(),
+  status: z.string(),
+  due: z.string(),
+  project_id: optionalText,
+  task_ids: z.array(z.string()).nullish(),
+});
+
+export const KeyResultSchema = z.looseObject({
+  id: optionalText,
+  kpi_id: z.string(),
+  title: optionalText,
+  start_value: numeric,
+  target_value: numeric,
+  final_value: numeric.nullish(),
+  score: numeric.nullish(),
+});
+
+export const GoalRowSchema = z.looseObject({
+  id,
+  title: z.string(),
+  description: optionalText,
+  progress: numeric.nullish(),
+  status: z.enum(['on-track', 'at-risk', 'ahead', 'behind']).nullish(),
+  owner_agent_id: optionalText,
+  owner_name: optionalText,
+  target_date: optionalText,
+  quarter: optionalText,
+  initiatives: z.array(InitiativeSchema).nullish(),
+  auto_progress: z.boolean().nullish(),
+  key_results: z.array(KeyResultSchema).nullish(),
+  score: numeric.nullish(),
+  rolled_over_to: optionalText,
+});
+
+export const KPIPointSchema = z.looseObject({
+  value: numeric,
+  recorded_at: timestamp,
+});
+
+export const KPIRowSchema = z.looseObject({
+  id,
+  label: z.string(),
+  value: z.union([z.string(), z.number()]).transform(String),
+  numeric_value: numeric.nullish(),
+  change_percent: numeric.nullish(),
+  trend: z.enum(['up', 'down', 'stable']).nullish(),
+  category: optionalText,
+  history: z.array(KPIPointSchema).nullish(),
+});
+
+export const ActivityRowSchema = z.looseObject({
+  id,
+  agent_handle: optionalText,
+  action: z.string(),
+  detail: optionalText,
+  action_type: z.enum(['task', 'decision', 'report', 'spawn', 'alert']).nullish(),
+  // What the entry is about, when the writer recorded it
+  task_id: optionalText,
+  project_id: optionalText,
+  directive_id: optionalText,
+  created_at: timestamp,
+});
+
+export const MessageRowSchema = z.looseObject({
+  id,
+  from_type: z.string(),
+  from_name: optionalText,
+  content: z.string(),
+  message_type: z.enum(['message', 'directive', 'report', 'alert', 'system']).nullish(),
+  thread_id: optionalText,
+  directive_id: optionalText,
+  created_at: timestamp,
+});
+
+export const ThreadRowSchema = z.looseObject({
+  id,
+  title: z.string(),
+  context_type: z.enum(['project', 'agent']).nullish(),
+  context_id: optionalText,
+  archived: z.boolean().nullish(),
+  created_at: timestamp,
+  updated_at: timestamp.nullish(),
+});
+
+export const FeatureRequestRowSchema = z.looseObject({
+  id,
+  title: z.string(),
+  description: optionalText,
+  screenshot_url: optionalText,
+  source_view: optionalText,
+  status: z.enum(['new', 'acknowledged', 'in_progress', 'done', 'dismissed']).nullish(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const DirectiveRowSchema = z.looseObject({
+  id,
+  title: z.string(),
+  directive_type: z.string(),
+  content: z.string(),
+  target_agent_id: optionalText,
+  priority: z.enum(['critical', 'high', 'medium', 'low']).nullish(),
+  status: z.enum(['pending', 'acknowledged', 'in_progress', 'completed', 'rejected']).nullish(),
+  acknowledged_by: optionalText,
+  acknowledged_at: optionalText,
+  created_at: timestamp,
+});
+
+export const ToolRowSchema = z.looseObject({
+  id,
+  name: z.string(),
+  description: optionalText,
+  risk: z.enum(['low', 'medium', 'high']),
+  scopes: z.array(z.string()).nullish(),
+});
+
+export type AgentRow = z.output<typeof AgentRowSchema>;
+export type TaskRow = z.output<typeof TaskRowSchema>;
+export type ProjectRow = z.output<typeof ProjectRowSchema>;
+export type DepartmentRow = z.output<typeof DepartmentRowSchema>;
+export type Initiative = z.output<typeof InitiativeSchema>;
+export type KeyResultRow = z.output<typeof KeyResultSchema>;
+export type GoalRow = z.output<typeof GoalRowSchema>;
+export type KPIPointRow = z.output<typeof KPIPointSchema>;
+export type KPIRow = z.output<typeof KPIRowSchema>;
+export type ActivityRow = z.output<typeof ActivityRowSchema>;
+export type MessageRow = z.output<typeof MessageRowSchema>;
+export type ThreadRow = z.output<typeof ThreadRowSchema>;
+export type FeatureRequestRow = z.output<typeof FeatureRequestRowSchema>;
+export type DirectiveRow = z.output<typeof DirectiveRowSchema>;
+export type ToolRow = z.output<typeof ToolRowSchema>;
+
+// ============ RESPONSES ============
+
+export const DashboardSchema = z.looseObject({
+  agents: rowList(AgentRowSchema, 'dashboard agents').nullish(),
+  tasks: rowList(TaskRowSchema, 'dashboard tasks').nullish(),
+  projects: rowList(ProjectRowSchema, 'dashboard projects').nullish(),
+  departments: rowList(DepartmentRowSchema, 'dashboard departments').nullish(),
+  goals: rowList(GoalRowSchema, 'dashboard goals').nullish(),
+  kpis: rowList(KPIRowSchema, 'dashboard kpis').nullish(),
+  activity: rowList(ActivityRowSchema, 'dashboard activity').nullish(),
+  messages: rowList(MessageRowSchema, 'dashboard messages').nullish(),
+});
+
+export type DashboardPayload = z.output<typeof DashboardSchema>;
+
+// Writes answer `{ data: [row] }`. Only the id is required so a new column on
+// the server never makes an accepted write look like a failure.
+const CreatedRowSchema = z.looseObject({ id });
+const WriteResultSchema = z.looseObject({
+  success: z.boolean().optional(),
+  data: z.union([z.array(CreatedRowSchema), CreatedRowSchema]).nullish(),
+});
+
+const CreateResultSchema = z.looseObject({
+  data: z.array(CreatedRowSchema).nullish(),
+});
+
+const SpawnResultSchema = z.looseObject({
+  data: AgentRowSchema.nullish(),
+});
+
+export const BrainReplySchema = z.looseObject({
+  response: z.string(),
+  thread_id: z.string(),
+});
+
+// One event of a streamed cea-brain reply (`stream: true`). On the wire the
+// type is the SSE event name and the rest is the JSON `data:` line.
+export const BrainStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('meta'), thread_id: z.string() }),
+  z.object({ type: z.literal('delta'), text: z.string() }),
+  z.object({ type: z.literal('done'), response: z.string().optional(), thread_id: z.string().optional() }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+]);
+
+export type BrainStreamEvent = z.output<typeof BrainStreamEventSchema>;
+
+// ============ REQUESTS ============
+
+const taskStatus = z.enum(['todo', 'in_progress', 'done', 'failed']);
+const priorityNumber = z.number().int().min(1).max(5);
+const keyResult = z.object({
+  id: z.string().nullish(),
+  kpi_id: z.string(),
+  title: z.string().nullish(),
+  start_value: z.number(),
+  target_value: z.number(),
+  final_value: z.number().nullish(),
+  score: z.number().min(0).max(1).nullish(),
+});
+
+// One entry per action: `request` validates the POST body, `response` the JSON
+// that comes back. Read actions have no body.
+export const API_SCHEMAS = {
+  // Read
+  'dashboard': { response: DashboardSchema },
+  'agents': { response: rowList(AgentRowSchema, 'agents') },
+  'tasks': { response: rowList(TaskRowSchema, 'tasks') },
+  'messages': { response: rowList(MessageRowSchema, 'messages') },
+  'kpis': { response: rowList(KPIRowSchema, 'kpis') },
+  'goals': { response: rowList(GoalRowSchema, 'goals') },
+  'activity': { response: rowList(ActivityRowSchema, 'activity') },
+  'feature-requests': { response: rowList(FeatureRequestRowSchema, 'feature-requests') },
+  'threads': { response: rowList(ThreadRowSchema, 'threads') },
+  'directives': { response: rowList(DirectiveRowSchema, 'directives') },
+  'tools': { response: rowList(ToolRowSchema, 'tools') },
+
+  // Write
+  'update-task': {
+    request: z.object({ task_id: id, status: taskStatus }),
+    response: WriteResultSchema,
+  },
+  'create-task': {
+    request: z.object({
+      description: z.string().min(1),
+      priority: priorityNumber,
+      assigned_to: z.string().optional(),
+      project_id: z.string().optional(),
+      parent_task_id: z.string().optional(),
+      blocked_by: z.array(id).optional(),
+      due_date: z.string().optional(),
+      recurrence: z.string().optional(),
+      series_id: z.string().optional(),
+      directive_id: z.string().optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'update-task-full': {
+    request: z.object({
+      task_id: id,
+      description: z.string().optional(),
+      priority: priorityNumber.optional(),
+      assigned_to: z.string().optional(),
+      project_id: z.string().optional(),
+      blocked_by: z.array(id).optional(),
+      due_date: z.string().nullish(),   // null clears it
+      recurrence: z.string().nullish(), // null ends the series
+    }),
+    response: WriteResultSchema,
+  },
+  'delete-task': {
+    request: z.object({ task_id: id }),
+    response: WriteResultSchema,
+  },
+  'spawn-agent': {
+    request: z.object({
+      handle: z.string().startsWith('@'),
+      functional_name: z.string(),
+      system_prompt: z.string(),
+      dept_id: z.string().optional(),
+    }),
+    response: SpawnResultSchema,
+  },
+  // A new numeric_value appends a point to the KPI's history server-side
+  'update-kpi': {
+    request: z.object({
+      id,
+      label: z.string().min(1).optional(),
+      category: z.string().optional(),
+      value: z.string().optional(),
+      numeric_value: z.number().optional(),
+      change_percent: z.number().optional(),
+      trend: z.enum(['up', 'down', 'stable']).optional(),
+    }),
+    response: WriteResultSchema,
+  },
+  'create-kpi': {
+    request: z.object({
+      label: z.string().min(1),
+      value: z.string(),
+      numeric_value: z.number(),
+      category: z.string().optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'delete-kpi': {
+    request: z.object({ id }),
+    response: WriteResultSchema,
+  },
+  'update-project': {
+    request: z.object({
+      project_id: id,
+      status: z.enum(['active', 'paused', 'completed', 'archived']).optional(),
+      description: z.string().optional(),
+      target_date: z.string().optional(),
+      notes: z.string().optional(),
+    }),
+    response: WriteResultSchema,
+  },
+  'create-project': {
+    request: z.object({
+      title: z.string().min(1),
+      dept_id: z.string().optional(),
+      description: z.string().optional(),
+      target_date: z.string().optional(),
+      lead_agent_id: z.string().optional(),
+      parent_project_id: z.string().optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'delete-project': {
+    request: z.object({ project_id: id }),
+    response: WriteResultSchema,
+  },
+  'create-directive': {
+    request: z.object({
+      title: z.string().min(1),
+      directive_type: z.string(),
+      content: z.string(),
+      target_agent_id: z.string().optional(),
+      priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'update-goal': {
+    request: z.object({
+      goal_id: id,
+      progress: z.number().min(0).max(100).optional(),
+      status: z.enum(['on-track', 'at-risk', 'ahead', 'behind']).optional(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      target_date: z.string().optional(),
+      owner_agent_id: z.string().optional(),
+      initiatives: z.array(InitiativeSchema).optional(),
+      auto_progress: z.boolean().optional(),
+      quarter: z.string().optional(),
+      key_results: z.array(keyResult).optional(),
+      score: z.number().min(0).max(1).nullish(),   // null reopens a scored goal
+      rolled_over_to: z.string().optional(),
+    }),
+    response: WriteResultSchema,
+  },
+  'create-goal': {
+    request: z.object({
+      title: z.string().min(1),
+      description: z.string().optional(),
+      owner_agent_id: z.string().optional(),
+      target_date: z.string().optional(),
+      quarter: z.string().optional(),
+      initiatives: z.array(InitiativeSchema).optional(),
+      key_results: z.array(keyResult).optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'delete-goal': {
+    request: z.object({ goal_id: id }),
+    response: WriteResultSchema,
+  },
+  'create-feature-request': {
+    request: z.object({
+      title: z.string().min(1),
+      description: z.string().optional(),
+      screenshot_url: z.string().optional(),
+      source_view: z.string().optional(),
+      priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'update-feature-request': {
+    request: z.object({
+      id,
+      status: z.enum(['new', 'acknowledged', 'in_progress', 'done', 'dismissed']).optional(),
+      priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+    }),
+    response: WriteResultSchema,
+  },
+  'delete-feature-request': {
+    request: z.object({ id }),
+    response: WriteResultSchema,
+  },
+  'create-thread': {
+    request: z.object({
+      title: z.string().min(1),
+      context_type: z.enum(['project', 'agent']).optional(),
+      context_id: z.string().optional(),
+    }),
+    response: CreateResultSchema,
+  },
+  'update-thread': {
+    request: z.object({
+      thread_id: id,
+      title: z.string().min(1).optional(),
+      archived: z.boolean().optional(),
+    }),
+    response: WriteResultSchema,
+  },
+  'update-agent': {
+    request: z.object({
+      agent_id: id,
+      system_prompt: z.string().optional(),
+      functional_name: z.string().optional(),
+      tool_access: z.array(z.string()).optional(),
+      is_active: z.boolean().optional(),
+      // Why, stored with the version this change creates
+      note: z.string().optional(),
+    }),
+    response: WriteResultSchema,
+  },
+
+  // cea-brain (separate edge function)
+  'cea-brain': {
+    // `ephemeral`: a one-off question (e.g. the morning briefing) that isn't
+    // stored in any thread
+    request: z.object({ message: z.string().min(1), thread_id: z.string().optional(), stream: z.boolean().optional(), ephemeral: z.boolean().optional() }),
+    response: BrainReplySchema,
+  },
+} satisfies Record<string, { request?: z.ZodType; response: z.ZodType }>;
+
+export type ApiAction = keyof typeof API_SCHEMAS;
+
+type RequestSchemaOf<A extends ApiAction> = typeof API_SCHEMAS[A] extends { request: infer R extends z.ZodType } ? R : never;
+
+export type ApiRequest<A extends ApiAction> = z.input<RequestSchemaOf<A>>;
+export type ApiResponse<A extends ApiAction> = z.output<typeof API_SCHEMAS[A]['response']>;
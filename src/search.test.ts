@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, highlightParts, parseSearchQuery, search, snippet } from './search';
+import { agent, project, task } from './test/factories';
+
+describe('parseSearchQuery', () => {
+  it('splits terms, phrases, exclusions and qualifiers', () => {
+    expect(parseSearchQuery('Launch "exact phrase" -draft project:MIRA -status:done owner:sage')).toEqual({
+      terms: ['launch', 'exact phrase'],
+      excluded: ['draft'],
+      qualifiers: [
+        { field: 'project', value: 'MIRA', negate: false },
+        { field: 'status', value: 'done', negate: true },
+        { field: 'assignee', value: 'sage', negate: false },
+      ],
+      unknown: [],
+    });
+  });
+
+  it('searches unknown prefixes as plain text', () => {
+    expect(parseSearchQuery('http://example.com')).toMatchObject({ terms: ['http://example.com'], unknown: ['http'] });
+  });
+});
+
+describe('search', () => {
+  const sage = agent();
+  const mira = project();
+  const docs = buildSearchIndex({
+    tasks: [
+      task({ id: 't1', title: 'Launch video', description: 'Cut the launch video', status: 'review', projectId: mira.id, assignedTo: sage.id }),
+      task({ id: 't2', title: 'Plan the launch', description: 'Draft only', status: 'in_progress' }),
+    ],
+    projects: [mira],
+    goals: [],
+    ideas: [],
+    agents: [sage],
+    messages: [],
+    threads: [],
+  });
+  const keys = (query: string) => search(docs, parseSearchQuery(query)).map(r => r.doc.key);
+  const taskKeys = (query: string) => keys(`${query} type:task`);
+
+  it('needs every term and ranks title prefixes first', () => {
+    expect(keys('launch')).toEqual(['task:t1', 'task:t2', 'project:project-1']);
+    expect(keys('launch video')).toEqual(['task:t1']);
+  });
+
+  it('matches qualifiers by prefix, ignoring case and punctuation', () => {
+    expect(keys('status:inprog')).toEqual(['task:t2']);
+    expect(keys('project:mira')).toEqual(['task:t1', 'project:project-1']);
+    expect(taskKeys('assignee:SAGE')).toEqual(['task:t1']);
+  });
+
+  it('drops excluded terms and negated qualifiers', () => {
+    expect(taskKeys('launch -draft')).toEqual(['task:t1']);
+    expect(taskKeys('launch -status:review')).toEqual(['task:t2']);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(keys('   ')).toEqual([]);
+  });
+});
+
+describe('highlightParts', () => {
+  it('merges overlapping matches', () => {
+    expect(highlightParts('Launch video', ['laun', 'aunch'])).toEqual([
+      { text: 'Launch', match: true },
+      { text: ' video', match: false },
+    ]);
+  });
+});
+
+describe('snippet', () => {
+  it('cuts a window around the first match at word boundaries', () => {
+    const text = `${'lorem '.repeat(30)}needle ${'ipsum '.repeat(30)}`;
+    const cut = snippet(text, ['needle'], 20);
+    expect(cut.startsWith('…')).toBe(true);
+    expect(cut.endsWith('…')).toBe(true);
+    expect(cut).toContain('needle');
+  });
+});
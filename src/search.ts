@@ -0,0 +1,312 @@
+import type { Agent, ChatThread, FeatureRequest, Goal, Message, Project, Task } from './types';
+
+// Browser-side full-text search. Every entity becomes a SearchDoc — a title,
+// a body and the values qualifiers match against — lowercased once when the
+// index is built. A query is free text plus qualifiers:
+//
+//   launch video project:MIRA status:review assignee:tiger -draft "exact phrase"
+//
+// Every term has to appear somewhere in the doc; each qualifier has to match
+// one of the doc's values for that field (prefix match, ignoring case,
+// spaces and punctuation, so `status:inprog` finds in_progress). A leading
+// `-` negates a term or qualifier.
+
+export type SearchType = 'task' | 'project' | 'goal' | 'idea' | 'agent' | 'message';
+
+export type SearchField = 'type' | 'project' | 'status' | 'assignee' | 'priority' | 'quarter' | 'dept' | 'from';
+
+export interface SearchDoc {
+  key: string;                 // "task:<id>"
+  type: SearchType;
+  id: string;
+  title: string;
+  body: string;                // description, notes, prompt or message text
+  fields: Partial<Record<SearchField, string[]>>;
+  updatedAt?: string;
+  threadId?: string;           // messages: where to open them
+  quarter?: string;            // goals: which quarter to open
+  titleLower: string;
+  bodyLower: string;
+  fieldsLower: string;         // every field value but the type, so plain terms find them too
+}
+
+export interface SearchQualifier {
+  field: SearchField;
+  value: string;
+  negate: boolean;
+}
+
+export interface ParsedQuery {
+  terms: string[];             // lowercased; phrases stay whole
+  excluded: string[];
+  qualifiers: SearchQualifier[];
+  unknown: string[];           // `foo:` prefixes that aren't a field, searched as text
+}
+
+export interface SearchResult {
+  doc: SearchDoc;
+  score: number;
+}
+
+export const SEARCH_TYPES: { id: SearchType; label: string; icon: string }[] = [
+  { id: 'task', label: 'Tasks', icon: '☰' },
+  { id: 'project', label: 'Projects', icon: '◫' },
+  { id: 'goal', label: 'Goals', icon: '△' },
+  { id: 'idea', label: 'Ideas', icon: '💡' },
+  { id: 'agent', label: 'Agents', icon: '◎' },
+  { id: 'message', label: 'Messages', icon: '◈' },
+];
+
+export const SEARCH_FIELDS: SearchField[] = ['type', 'project', 'status', 'assignee', 'priority', 'quarter', 'dept', 'from'];
+
+// Other spellings people reach for
+const FIELD_ALIASES: Record<string, SearchField> = {
+  in: 'type', is: 'status', agent: 'assignee', owner: 'assignee', lead: 'assignee',
+  department: 'dept', q: 'quarter', p: 'priority',
+};
+
+// ============ QUERY PARSING ============
+
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseSearchQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], excluded: [], qualifiers: [], unknown: [] };
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, key, phrase, word] = match;
+    const value = (phrase ?? word ?? '').trim();
+    const negate = minus === '-';
+    if (key) {
+      const name = key.toLowerCase();
+      const field = SEARCH_FIELDS.find(f => f === name) ?? FIELD_ALIASES[name];
+      if (field) {
+        if (value) parsed.qualifiers.push({ field, value, negate });
+        continue;
+      }
+      parsed.unknown.push(name);
+    }
+    const text = (key ? raw.replace(/^-/, '') : value).toLowerCase();
+    if (!text || text === '-') continue;
+    (negate ? parsed.excluded : parsed.terms).push(text);
+  }
+  return parsed;
+}
+
+export const isEmptyQuery = (q: ParsedQuery) => !q.terms.length && !q.excluded.length && !q.qualifiers.length;
+
+// ============ INDEXING ============
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function makeDoc(doc: Omit<SearchDoc, 'key' | 'titleLower' | 'bodyLower' | 'fieldsLower'>): SearchDoc {
+  const fields = { ...doc.fields, type: [doc.type] };
+  return {
+    ...doc,
+    fields,
+    key: `${doc.type}:${doc.id}`,
+    titleLower: doc.title.toLowerCase(),
+    bodyLower: doc.body.toLowerCase(),
+    fieldsLower: Object.values(doc.fields).flat().join(' ').toLowerCase(),
+  };
+}
+
+const agentNames = (id: string | undefined, agents: Agent[]): string[] => {
+  if (!id) return [];
+  if (id === 'tiger') return ['tiger'];
+  if (id === 'cea') return ['cea'];
+  const agent = agents.find(a => a.id === id);
+  return agent ? [agent.name, agent.id, agent.role] : [id];
+};
+
+const projectNames = (id: string | undefined, projects: Project[]): string[] => {
+  const project = projects.find(p => p.id === id);
+  return project ? [project.shortCode, project.title] : [];
+};
+
+export const taskDoc = (task: Task, projects: Project[], agents: Agent[]): SearchDoc => makeDoc({
+  type: 'task',
+  id: task.id,
+  title: task.title,
+  body: task.description,
+  fields: {
+    project: projectNames(task.projectId, projects),
+    status: [task.status],
+    assignee: agentNames(task.assignedTo, agents),
+    priority: [task.priority],
+    dept: [projects.find(p => p.id === task.projectId)?.department ?? ''].filter(Boolean),
+  },
+  updatedAt: task.completedAt ?? task.createdAt,
+});
+
+export const projectDoc = (project: Project, agents: Agent[]): SearchDoc => makeDoc({
+  type: 'project',
+  id: project.id,
+  title: project.title,
+  body: [project.description, project.notes].filter(Boolean).join('\n'),
+  fields: {
+    project: [project.shortCode, project.title],
+    status: [project.status],
+    assignee: agentNames(project.leadAgentId, agents),
+    dept: [project.department],
+  },
+  updatedAt: project.createdAt,
+});
+
+export const goalDoc = (goal: Goal, agents: Agent[]): SearchDoc => makeDoc({
+  type: 'goal',
+  id: goal.id,
+  title: goal.title,
+  body: [goal.description, ...goal.initiatives.map(i => i.name)].filter(Boolean).join('\n'),
+  fields: {
+    status: [goal.status],
+    assignee: agentNames(goal.ownerAgentId, agents),
+    quarter: goal.quarter ? [goal.quarter] : [],
+  },
+  quarter: goal.quarter,
+});
+
+export const ideaDoc = (idea: FeatureRequest): SearchDoc => makeDoc({
+  type: 'idea',
+  id: idea.id,
+  title: idea.title,
+  body: idea.description ?? '',
+  fields: {
+    status: [idea.status],
+    priority: [idea.priority],
+  },
+  updatedAt: idea.updatedAt,
+});
+
+export const agentDoc = (agent: Agent): SearchDoc => makeDoc({
+  type: 'agent',
+  id: agent.id,
+  title: agent.name,
+  body: agent.systemPrompt ?? agent.description,
+  fields: {
+    status: [agent.status],
+    assignee: [agent.name, agent.id, agent.role],
+  },
+});
+
+export const messageDoc = (message: Message, thread: ChatThread | undefined): SearchDoc => makeDoc({
+  type: 'message',
+  id: message.id,
+  title: thread?.title ?? 'Conversation',
+  body: message.content,
+  fields: {
+    from: [message.from, message.fromName],
+  },
+  updatedAt: thread?.updatedAt,
+  threadId: message.threadId,
+});
+
+export function buildSearchIndex(sources: {
+  tasks: Task[];
+  projects: Project[];
+  goals: Goal[];
+  ideas: FeatureRequest[];
+  agents: Agent[];
+  messages: Message[];
+  threads: ChatThread[];
+}): SearchDoc[] {
+  const { tasks, projects, goals, ideas, agents, messages, threads } = sources;
+  return [
+    ...tasks.map(t => taskDoc(t, projects, agents)),
+    ...projects.map(p => projectDoc(p, agents)),
+    ...goals.map(g => goalDoc(g, agents)),
+    ...ideas.map(ideaDoc),
+    ...agents.map(agentDoc),
+    ...messages
+      .filter(m => m.threadId && m.content.trim() && !m.streaming)
+      .map(m => messageDoc(m, threads.find(t => t.id === m.threadId))),
+  ];
+}
+
+// ============ MATCHING ============
+
+function matchesQualifier(doc: SearchDoc, q: SearchQualifier): boolean {
+  const wanted = normalize(q.value);
+  const hit = (doc.fields[q.field] ?? []).some(v => normalize(v).startsWith(wanted));
+  return q.negate ? !hit : hit;
+}
+
+const containsTerm = (doc: SearchDoc, term: string) =>
+  doc.titleLower.includes(term) || doc.bodyLower.includes(term) || doc.fieldsLower.includes(term);
+
+export function matchesSearch(doc: SearchDoc, query: ParsedQuery): boolean {
+  return query.qualifiers.every(q => matchesQualifier(doc, q))
+    && query.terms.every(t => containsTerm(doc, t))
+    && !query.excluded.some(t => containsTerm(doc, t));
+}
+
+const isWordStart = (text: string, i: number) => i === 0 || !/[a-z0-9]/.test(text[i - 1]);
+
+// Title hits beat body hits; word starts and title prefixes beat the middle
+// of a word
+function termScore(doc: SearchDoc, term: string): number {
+  const inTitle = doc.titleLower.indexOf(term);
+  if (inTitle !== -1) return 10 + (isWordStart(doc.titleLower, inTitle) ? 5 : 0) + (inTitle === 0 ? 5 : 0);
+  const inBody = doc.bodyLower.indexOf(term);
+  if (inBody !== -1) return 3 + (isWordStart(doc.bodyLower, inBody) ? 2 : 0);
+  return 1;
+}
+
+// Matches, best first; ties go to the most recently changed
+export function search(docs: SearchDoc[], query: ParsedQuery): SearchResult[] {
+  if (isEmptyQuery(query)) return [];
+  return docs
+    .filter(doc => matchesSearch(doc, query))
+    .map(doc => ({ doc, score: query.terms.reduce((sum, t) => sum + termScore(doc, t), 0) }))
+    .sort((a, b) => b.score - a.score || (b.doc.updatedAt ?? '').localeCompare(a.doc.updatedAt ?? ''));
+}
+
+// ============ HIGHLIGHTING ============
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// `text` split into matched and unmatched runs; overlapping matches merge
+export function highlightParts(text: string, terms: string[]): HighlightPart[] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    if (!term) continue;
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  if (!ranges.length) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+
+  const parts: HighlightPart[] = [];
+  let at = 0;
+  for (const [start, end] of merged) {
+    if (start > at) parts.push({ text: text.slice(at, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    at = end;
+  }
+  if (at < text.length) parts.push({ text: text.slice(at), match: false });
+  return parts;
+}
+
+// A window of `text` around the first match, cut at spaces, for result rows
+export function snippet(text: string, terms: string[], radius = 80): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i !== -1));
+  if (!Number.isFinite(first)) return flat.length > radius * 2 ? `${flat.slice(0, radius * 2).replace(/\s\S*$/, '')}…` : flat;
+
+  let start = Math.max(0, first - radius);
+  let end = Math.min(flat.length, first + radius);
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start;
+  if (end < flat.length) end = flat.lastIndexOf(' ', end) > first ? flat.lastIndexOf(' ', end) : end;
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
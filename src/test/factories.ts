@@ -0,0 +1,77 @@
+import type { ActivityItem, Agent, Goal, KPI, Project, Task } from '../types';
+
+// Minimal valid models for tests; pass only the fields a test cares about.
+
+export const agent = (overrides: Partial<Agent> = {}): Agent => ({
+  id: 'agent-1',
+  name: 'Sage',
+  role: '@Editor_in_Chief',
+  emoji: '✍️',
+  status: 'active',
+  description: '',
+  tasksCompleted: 0,
+  uptime: 'live',
+  metrics: {},
+  ...overrides,
+});
+
+export const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Write the launch post',
+  description: 'Write the launch post',
+  assignedTo: 'tiger',
+  assignedBy: 'tiger',
+  priority: 'medium',
+  status: 'pending',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  tags: [],
+  ...overrides,
+});
+
+export const project = (overrides: Partial<Project> = {}): Project => ({
+  id: 'project-1',
+  title: 'PR.MIRA | Mirror launch',
+  shortCode: 'MIRA',
+  status: 'active',
+  department: 'Media Production',
+  taskCount: 0,
+  completedTaskCount: 0,
+  createdAt: '2026-09-01T09:00:00.000Z',
+  ...overrides,
+});
+
+export const activity = (overrides: Partial<ActivityItem> = {}): ActivityItem => ({
+  id: 'activity-1',
+  agent: 'Sage',
+  agentEmoji: '✍️',
+  action: 'Drafted post',
+  detail: '',
+  timestamp: '1h ago',
+  type: 'report',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  ...overrides,
+});
+
+export const goal = (overrides: Partial<Goal> = {}): Goal => ({
+  id: 'goal-1',
+  title: 'Grow the community',
+  progress: 0,
+  status: 'on-track',
+  ownerName: 'Sage',
+  ownerEmoji: '✍️',
+  initiatives: [],
+  keyResults: [],
+  ...overrides,
+});
+
+export const kpi = (overrides: Partial<KPI> = {}): KPI => ({
+  id: 'kpi-1',
+  label: 'Members',
+  value: '1,000',
+  numericValue: 1000,
+  change: 0,
+  trend: 'stable',
+  category: 'community',
+  history: [],
+  ...overrides,
+});
@@ -0,0 +1,13 @@
+import { vi } from 'vitest';
+
+// Tests never talk to Supabase: the real client opens a realtime socket as
+// soon as it's created. Everything that needs a server goes through
+// api.setTransport instead.
+vi.mock('../auth', () => ({
+  supabase: {},
+  signIn: vi.fn(),
+  signUp: vi.fn(),
+  signOut: vi.fn(),
+  getSession: async () => null,
+  getAccessToken: async () => null,
+}));
@@ -0,0 +1,54 @@
+import type { Agent, ChatThread, Project, ThreadContext } from './types';
+
+// Chat threads with the CEA. The open thread lives in the chat route
+// (`#/chat?thread=<id>`); a conversation started from a project or agent
+// carries `?context=project:<id>` until its first message creates the thread.
+
+const TITLE_LENGTH = 60;
+
+// ============ CONTEXT ============
+
+export function parseContextParam(value: string | undefined): ThreadContext | undefined {
+  const match = value?.match(/^(project|agent):(.+)$/);
+  return match ? { type: match[1] as ThreadContext['type'], id: match[2] } : undefined;
+}
+
+export const formatContextParam = (context: ThreadContext) => `${context.type}:${context.id}`;
+
+// "◇ HBAI · HeartBased .ai" / "✍️ Sage", or null once the target is gone
+export function describeContext(context: ThreadContext, projects: Project[], agents: Agent[]): string | null {
+  if (context.type === 'project') {
+    const project = projects.find(p => p.id === context.id);
+    return project ? `◇ ${project.shortCode} · ${project.title.replace(/^PR\.\w+\s*\|\s*/, '')}` : null;
+  }
+  const agent = agents.find(a => a.id === context.id);
+  return agent ? `${agent.emoji} ${agent.name}` : null;
+}
+
+// ============ THREADS ============
+
+// A new thread is named after its first message, trimmed to one line
+export function threadTitleFrom(message: string): string {
+  const line = message.split('\n').find(l => l.trim())?.trim() ?? 'New conversation';
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+}
+
+// Most recently active first; `query` matches the title or the context label
+export function filterThreads(threads: ChatThread[], query: string, archived: boolean, label: (thread: ChatThread) => string | null): ChatThread[] {
+  const needle = query.trim().toLowerCase();
+  return threads
+    .filter(t => t.archived === archived)
+    .filter(t => !needle || t.title.toLowerCase().includes(needle) || label(t)?.toLowerCase().includes(needle))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// "Today" / "Yesterday" / "Mar 3" for the thread list
+export function formatThreadDate(iso: string, now = new Date()): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(now) - startOfDay(date)) / 86_400_000);
+  if (days === 0) return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (days === 1) return 'Yesterday';
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric', year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric' });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { newHighRiskTools, sortTools, toolMatrix, unknownTools } from './tool-catalog';
+import type { ToolDefinition } from './types';
+import { agent } from './test/factories';
+
+const tool = (id: string, risk: ToolDefinition['risk'] = 'low'): ToolDefinition => ({ id, name: id, description: '', risk, scopes: [] });
+const catalog = [tool('web_search'), tool('notion', 'medium'), tool('gmail', 'high')];
+
+describe('unknownTools', () => {
+  it('lists granted names the catalog doesn’t know', () => {
+    expect(unknownTools(catalog, ['notion', 'legacy_crm', 'gmial'])).toEqual(['legacy_crm', 'gmial']);
+    expect(unknownTools([], ['notion'])).toEqual(['notion']);
+  });
+});
+
+describe('newHighRiskTools', () => {
+  it('only names high-risk tools that weren’t granted before', () => {
+    expect(newHighRiskTools(catalog, [], ['gmail', 'notion', 'legacy_crm']).map(t => t.id)).toEqual(['gmail']);
+    expect(newHighRiskTools(catalog, ['gmail'], ['gmail'])).toEqual([]);
+  });
+});
+
+describe('sortTools', () => {
+  it('keeps catalog order and puts unknown names last as granted', () => {
+    expect(sortTools(catalog, ['zeta', 'gmail', 'alpha', 'web_search'])).toEqual(['web_search', 'gmail', 'zeta', 'alpha']);
+  });
+});
+
+describe('toolMatrix', () => {
+  it('counts holders per catalog tool and unknown grants per agent', () => {
+    const { rows, holders } = toolMatrix(catalog, [
+      agent({ id: 'a', toolAccess: ['notion', 'legacy_crm'] }),
+      agent({ id: 'b', toolAccess: ['notion'] }),
+    ]);
+    expect(holders).toEqual({ web_search: 0, notion: 2, gmail: 0 });
+    expect(rows.map(r => r.unknown)).toEqual([['legacy_crm'], []]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Agent, ToolDefinition, ToolRisk } from './types';
+
+// The tools an agent can be granted through `tool_access`. The catalog comes
+// from the backend (`?action=tools`; data.ts in mock mode) and grants are
+// checked against it: names it doesn't know (typos, retired tools, or tools
+// the catalog hasn't caught up with) are kept but flagged, and granting a
+// high-risk tool — one that writes data, sends mail or moves money on its
+// own — needs an explicit confirmation.
+
+export const TOOL_RISKS: { id: ToolRisk; label: string; className: string }[] = [
+  { id: 'low', label: 'Low risk', className: 'bg-emerald-500/15 text-emerald-400' },
+  { id: 'medium', label: 'Medium risk', className: 'bg-amber-500/15 text-amber-400' },
+  { id: 'high', label: 'High risk', className: 'bg-red-500/15 text-red-400' },
+];
+
+export const toolRisk = (risk: ToolRisk) => TOOL_RISKS.find(r => r.id === risk)!;
+
+export const catalogTool = (catalog: ToolDefinition[], id: string) => catalog.find(t => t.id === id);
+
+// ============ VALIDATION ============
+
+// Granted names the catalog doesn't know
+export const unknownTools = (catalog: ToolDefinition[], toolAccess: string[]) =>
+  toolAccess.filter(id => !catalogTool(catalog, id));
+
+// High-risk tools in `after` that `before` didn't grant
+export function newHighRiskTools(catalog: ToolDefinition[], before: string[], after: string[]): ToolDefinition[] {
+  return after
+    .filter(id => !before.includes(id))
+    .map(id => catalogTool(catalog, id))
+    .filter((tool): tool is ToolDefinition => tool?.risk === 'high');
+}
+
+// Catalog order, so the same grants always save the same way. Unknown names
+// go last, in the order they were granted.
+export function sortTools(catalog: ToolDefinition[], toolAccess: string[]) {
+  const rank = (id: string) => {
+    const index = catalog.findIndex(t => t.id === id);
+    return index === -1 ? catalog.length : index;
+  };
+  return [...toolAccess].sort((a, b) => rank(a) - rank(b));
+}
+
+// ============ MATRIX ============
+
+export interface ToolMatrixRow {
+  agent: Agent;
+  granted: Set<string>;
+  unknown: string[];
+}
+
+// Which agents can use which tools: one row per agent, plus how many agents
+// hold each catalog tool
+export function toolMatrix(catalog: ToolDefinition[], agents: Agent[]): { rows: ToolMatrixRow[]; holders: Record<string, number> } {
+  const rows = agents.map(agent => {
+    const access = agent.toolAccess ?? [];
+    return { agent, granted: new Set(access), unknown: unknownTools(catalog, access) };
+  });
+  const holders = Object.fromEntries(catalog.map(t => [t.id, rows.filter(r => r.granted.has(t.id)).length]));
+  return { rows, holders };
+}
@@ -5,12 +5,35 @@ export interface Agent {
   emoji: string;
   status: 'active' | 'idle' | 'working' | 'error' | 'spawning';
   description: string;
+  systemPrompt?: string;       // in full; `description` is its first 200 characters
+  toolAccess?: string[];
+  versions?: AgentVersion[];   // oldest first; see agent-versions.ts
   tasksCompleted: number;
   currentTask?: string;
   uptime: string;
   metrics: Record<string, number>;
 }
 
+export interface AgentVersion {
+  version: number;
+  systemPrompt: string;
+  functionalName: string;
+  toolAccess: string[];
+  note?: string;
+  at: string;
+}
+
+export type ToolRisk = 'low' | 'medium' | 'high';
+
+// An entry of the tool catalog; see tool-catalog.ts
+export interface ToolDefinition {
+  id: string;                  // the string stored in tool_access
+  name: string;
+  description: string;
+  risk: ToolRisk;
+  scopes: string[];            // what granting it allows
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -42,12 +65,23 @@ export interface Task {
   priority: 'critical' | 'high' | 'medium' | 'low';
   status: 'pending' | 'in_progress' | 'review' | 'completed';
   deadline?: string;
+  completedAt?: string;
   createdAt: string;
   tags: string[];
   projectId?: string;
   projectName?: string;
   projectShortCode?: string;
   parentTaskId?: string;
+  blockedBy?: string[];        // ids of tasks that must complete first
+  recurrence?: string;         // RRULE subset, see recurrence.ts
+  seriesId?: string;           // first task of the recurring series this occurrence belongs to
+  directiveId?: string;        // directive this task was created to carry out
+  statusHistory?: TaskStatusChange[];  // oldest first; unset on rows from before it was kept
+}
+
+export interface TaskStatusChange {
+  status: Task['status'];
+  at: string;
 }
 
 export interface Message {
@@ -57,15 +91,40 @@ export interface Message {
   content: string;
   timestamp: string;
   type: 'message' | 'directive' | 'report' | 'alert' | 'system';
+  threadId?: string;
+  directiveId?: string;        // the directive a `directive` message issued
+  streaming?: boolean;         // reply still arriving from cea-brain
+}
+
+// What a conversation was started from — a project or agent it stays about
+export interface ThreadContext {
+  type: 'project' | 'agent';
+  id: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  context?: ThreadContext;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;           // last message or rename
+}
+
+export interface KPIPoint {
+  value: number;
+  recordedAt: string;
 }
 
 export interface KPI {
   id: string;
   label: string;
-  value: string;
-  change: number;
+  value: string;               // display form, e.g. "$4,280" or "47.2%"
+  numericValue: number;
+  change: number;              // % vs the previous month, derived from history
   trend: 'up' | 'down' | 'stable';
   category: string;
+  history: KPIPoint[];         // oldest first
 }
 
 export interface ActivityItem {
@@ -76,6 +135,17 @@ export interface ActivityItem {
   detail: string;
   timestamp: string;
   type: 'task' | 'decision' | 'report' | 'spawn' | 'alert';
+  link?: ActivityLink;
+  createdAt?: string;          // unset on entries added locally this session
+  taskId?: string;
+  projectId?: string;
+  directiveId?: string;
+}
+
+// Chat message an activity came from, e.g. an accepted CEA proposal
+export interface ActivityLink {
+  threadId: string;
+  messageId: string;
 }
 
 export interface Goal {
@@ -88,7 +158,46 @@ export interface Goal {
   ownerName: string;
   ownerEmoji: string;
   targetDate?: string;
-  initiatives: { name: string; status: string; due: string }[];
+  quarter?: string;            // "Q1-2026"
+  initiatives: GoalInitiative[];
+  autoProgress?: boolean;      // progress/status rolled up from linked tasks, see goals.ts
+  keyResults: KeyResult[];
+  score?: number;              // 0–1, set when the quarter is scored (okrs.ts)
+  rolledOverTo?: string;       // the next quarter's copy of an unfinished goal
+}
+
+export interface KeyResult {
+  id: string;
+  kpiId: string;
+  title?: string;              // defaults to the KPI's label
+  startValue: number;          // the KPI when the KR was set
+  targetValue: number;
+  finalValue?: number;         // the KPI at quarter end, once scored
+  score?: number;              // 0–1
+}
+
+export interface GoalInitiative {
+  id: string;
+  name: string;
+  status: string;              // planned | in-progress | review | completed
+  due: string;                 // YYYY-MM-DD, or free text from older rows
+  projectId?: string;          // all of the project's tasks count toward it
+  taskIds: string[];
+}
+
+// An instruction issued to one agent (or all of them). Agents acknowledge it
+// and create tasks that carry `directiveId`.
+export interface Directive {
+  id: string;
+  title: string;
+  type: string;                // see DIRECTIVE_TYPES in directives.ts
+  content: string;             // markdown
+  targetAgentId?: string;      // unset: all agents
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  status: 'pending' | 'acknowledged' | 'in_progress' | 'completed' | 'rejected';
+  acknowledgedBy?: string;     // agent id
+  acknowledgedAt?: string;
+  createdAt: string;
 }
 
 export interface FeatureRequest {
@@ -103,4 +212,4 @@ export interface FeatureRequest {
   updatedAt: string;
 }
 
-export type ViewType = 'dashboard' | 'agents' | 'agent-detail' | 'tasks' | 'projects' | 'project-detail' | 'chat' | 'strategy' | 'ideas';
+export type ViewType = 'dashboard' | 'agents' | 'agent-detail' | 'tasks' | 'projects' | 'project-detail' | 'chat' | 'strategy' | 'ideas' | 'calendar' | 'directives' | 'search';
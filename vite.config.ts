@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from "vite";
@@ -13,4 +14,7 @@ export default defineConfig({
     cssCodeSplit: false,
     outDir: 'dist',
   },
+  test: {
+    setupFiles: ['./src/test/setup.ts'],
+  },
 });